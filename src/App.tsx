@@ -1,43 +1,69 @@
 import { useMemo, useState } from 'react'
 import './App.css'
 import {
-  ACTIVITY_LOG,
-  CLIENT_DIRECTORY,
-  INVOICE_LEDGER,
   ORGANIZATION,
   PAYMENT_GATEWAY,
-  PAYMENT_TRANSACTIONS,
   SERVICE_CATALOG,
   SERVICE_SHOWCASES,
   TEAM_MEMBERS,
 } from './data'
 import type {
   ActivityLog,
+  EvaluatedInvoice,
+  ExchangeRateTable,
   InvoiceRecord,
   InvoiceStatus,
   PaymentGatewayChannel,
   PaymentTransaction,
   ServiceShowcase,
 } from './types'
+import { BankImportReview } from './components/BankImportReview'
+import { ClientDirectory } from './components/ClientDirectory'
+import { CollectionsForecast } from './components/CollectionsForecast'
+import { DunningSettings } from './components/DunningSettings'
+import { EmailSettings } from './components/EmailSettings'
+import { ExchangeRateSettings } from './components/ExchangeRateSettings'
 import { InvoiceBuilder } from './components/InvoiceBuilder'
+import { NumberingSettings } from './components/NumberingSettings'
+import { ReceivablesAging } from './components/ReceivablesAging'
+import { ReconciliationReport } from './components/ReconciliationReport'
+import { RecordPayment } from './components/RecordPayment'
+import { RecurringProfiles } from './components/RecurringProfiles'
+import { RevenueDashboard } from './components/RevenueDashboard'
+import { StatementOfAccount } from './components/StatementOfAccount'
+import { WebhookDeliveries } from './components/WebhookDeliveries'
+import { formatMoney } from './lib/currency'
+import { findClient } from './lib/clients'
+import { describeDunningOffset } from './lib/dunning'
+import { addAmounts, sumAmounts } from './lib/money'
+import { INVOICE_STATUS_TONE, INVOICE_TRANSITIONS, InvoiceLifecycleError } from './lib/invoiceLifecycle'
+import { toBaseAmount } from './lib/exchangeRates'
+import { evaluateInvoices } from './lib/invoiceStatus'
+import { getAllocations } from './lib/payments'
+import { WebhookError } from './lib/webhooks'
+import { useActivityLog } from './store/activityStore'
+import { useStorageFailure } from './store/createPersistentStore'
+import { useAdjustmentNotes } from './store/adjustmentNoteStore'
+import { useClients } from './store/clientStore'
+import { setDunningEnabled, useDunningSettings } from './store/dunningStore'
+import { updateEmailSettings, useEmailSettings } from './store/emailStore'
+import { useExchangeRates } from './store/exchangeRateStore'
+import { transitionInvoiceStatus, useInvoiceLedger } from './store/invoiceStore'
+import { usePaymentTransactions } from './store/paymentStore'
+import { sendTestWebhook } from './store/webhookStore'
 
-type AppView = 'overview' | 'invoices' | 'builder' | 'clients' | 'team' | 'settings' | 'payments'
+type AppView = 'overview' | 'invoices' | 'builder' | 'recurring' | 'clients' | 'team' | 'settings' | 'payments'
 
-const statusTone: Record<InvoiceStatus, string> = {
-  Draft: 'draft',
-  Pending: 'pending',
-  Paid: 'paid',
-  Overdue: 'overdue',
-}
-
-const summarize = (records: InvoiceRecord[]) => {
+// Every total is reported in INR, converting each invoice at its locked (or current) exchange rate.
+const summarize = (records: EvaluatedInvoice[], rates: ExchangeRateTable) => {
   const totals = records.reduce(
     (acc, inv) => {
-      acc.overall += inv.amount
-      acc[inv.status] += inv.amount
-      if (inv.status === 'Pending' || inv.status === 'Overdue') {
-        acc.outstanding += inv.amount
+      const amount = toBaseAmount(inv.evaluation.adjustedAmount, inv, rates)
+      if (inv.evaluation.status !== 'Void') {
+        acc.overall = addAmounts(acc.overall, amount)
       }
+      acc[inv.evaluation.status] = addAmounts(acc[inv.evaluation.status], amount)
+      acc.outstanding = addAmounts(acc.outstanding, toBaseAmount(inv.evaluation.outstanding, inv, rates))
       return acc
     },
     {
@@ -45,29 +71,59 @@ const summarize = (records: InvoiceRecord[]) => {
       outstanding: 0,
       Draft: 0,
       Pending: 0,
+      'Partially Paid': 0,
       Paid: 0,
       Overdue: 0,
+      Void: 0,
+      'Written Off': 0,
     } satisfies Record<InvoiceStatus | 'overall' | 'outstanding', number>,
   )
   const count = records.length
-  return { totals, count }
+  const overdue = records.filter((inv) => inv.evaluation.status === 'Overdue')
+  const oldestDaysPastDue = overdue.reduce((max, inv) => Math.max(max, inv.evaluation.daysPastDue), 0)
+  return { totals, count, overdueCount: overdue.length, oldestDaysPastDue }
 }
 
 function App() {
   const [activeView, setActiveView] = useState<AppView>('overview')
+  const [isSendingWebhook, setIsSendingWebhook] = useState(false)
+  const [statementClientId, setStatementClientId] = useState('')
+  const ledger = useInvoiceLedger()
+  const clients = useClients()
+  const activityLog = useActivityLog()
+  const transactions = usePaymentTransactions()
+  const adjustmentNotes = useAdjustmentNotes()
+  const exchangeRates = useExchangeRates()
+  const dunningSettings = useDunningSettings()
+  const emailSettings = useEmailSettings()
+  const storageFailure = useStorageFailure()
+
+  const invoices = useMemo(
+    () => evaluateInvoices(ledger, transactions, new Date(), adjustmentNotes),
+    [ledger, transactions, adjustmentNotes],
+  )
 
-  const overviewStats = useMemo(() => summarize(INVOICE_LEDGER), [])
+  const usedDocumentNumbers = useMemo(() => {
+    const noteNumbers = adjustmentNotes.map((note) => note.noteNumber)
+    return {
+      invoice: ledger.map((record) => record.invoiceNumber),
+      'credit-note': noteNumbers,
+      'debit-note': noteNumbers,
+    }
+  }, [ledger, adjustmentNotes])
+
+  const overviewStats = useMemo(() => summarize(invoices, exchangeRates), [invoices, exchangeRates])
   const recentInvoices = useMemo(
     () =>
-      [...INVOICE_LEDGER]
+      [...invoices]
         .sort((a, b) => new Date(b.issueDate).getTime() - new Date(a.issueDate).getTime())
         .slice(0, 5),
-    [],
+    [invoices],
   )
 
   const filteredInvoices = useMemo(() => {
     if (activeView === 'invoices') {
-      return INVOICE_LEDGER
+      return invoices
     }
     if (activeView === 'overview') {
       return recentInvoices
@@ -75,30 +131,86 @@ function App() {
     if (activeView === 'builder') {
       return []
     }
-    return INVOICE_LEDGER
-  }, [activeView, recentInvoices])
+    return invoices
+  }, [activeView, invoices, recentInvoices])
+
+  const clientBilling = useMemo(
+    () =>
+      invoices.reduce<Record<string, { count: number; billed: number; outstanding: number }>>((acc, invoice) => {
+        const entry = acc[invoice.clientId] ?? { count: 0, billed: 0, outstanding: 0 }
+        entry.count += 1
+        entry.billed = addAmounts(entry.billed, toBaseAmount(invoice.evaluation.adjustedAmount, invoice, exchangeRates))
+        entry.outstanding = addAmounts(
+          entry.outstanding,
+          toBaseAmount(invoice.evaluation.outstanding, invoice, exchangeRates),
+        )
+        acc[invoice.clientId] = entry
+        return acc
+      }, {}),
+    [invoices, exchangeRates],
+  )
 
   const paymentInsights = useMemo(() => {
-    const totalVolume = PAYMENT_TRANSACTIONS.filter((txn) => txn.status === 'Succeeded').reduce(
-      (sum, txn) => sum + txn.amount,
-      0,
+    const totalVolume = sumAmounts(
+      transactions.filter((txn) => txn.status === 'Succeeded'),
+      (txn) => toBaseAmount(txn.amount, txn, exchangeRates),
     )
-    const successCount = PAYMENT_TRANSACTIONS.filter((txn) => txn.status === 'Succeeded').length
-    const failureCount = PAYMENT_TRANSACTIONS.filter((txn) => txn.status === 'Failed').length
-    const pendingCount = PAYMENT_TRANSACTIONS.filter((txn) => txn.status === 'Pending').length
-    const successRate = PAYMENT_TRANSACTIONS.length
-      ? (successCount / PAYMENT_TRANSACTIONS.length) * 100
+    const successCount = transactions.filter((txn) => txn.status === 'Succeeded').length
+    const failureCount = transactions.filter((txn) => txn.status === 'Failed').length
+    const pendingCount = transactions.filter((txn) => txn.status === 'Pending').length
+    const successRate = transactions.length
+      ? (successCount / transactions.length) * 100
       : 0
-    const recentTransactions = [...PAYMENT_TRANSACTIONS]
+    const recentTransactions = [...transactions]
       .sort((a, b) => new Date(b.receivedAt).getTime() - new Date(a.receivedAt).getTime())
       .slice(0, 5)
     return { totalVolume, successRate, failureCount, pendingCount, recentTransactions }
-  }, [])
+  }, [transactions, exchangeRates])
 
-  const renderStatusChip = (status: InvoiceStatus) => (
-    <span className={`status-chip ${statusTone[status]}`}>{status}</span>
+  const renderStatusChip = (invoice: EvaluatedInvoice) => (
+    <span
+      className={`status-chip ${INVOICE_STATUS_TONE[invoice.evaluation.status]}`}
+      title={invoice.evaluation.daysPastDue ? `${invoice.evaluation.daysPastDue} days past due` : undefined}
+    >
+      {invoice.evaluation.status}
+      {invoice.evaluation.daysPastDue ? ` • ${invoice.evaluation.daysPastDue}d` : ''}
+    </span>
   )
 
+  const handleInvoiceTransition = (invoice: InvoiceRecord, nextStatus: InvoiceStatus) => {
+    if (nextStatus === 'Void' || nextStatus === 'Written Off') {
+      const ok = window.confirm(`Mark ${invoice.invoiceNumber} as ${nextStatus}? This cannot be undone.`)
+      if (!ok) {
+        return
+      }
+    }
+    try {
+      transitionInvoiceStatus(invoice.id, nextStatus)
+    } catch (error) {
+      if (error instanceof InvoiceLifecycleError) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    }
+  }
+
+  const handleTestWebhook = async () => {
+    setIsSendingWebhook(true)
+    try {
+      const delivery = await sendTestWebhook(invoices)
+      window.alert(`${delivery.outcome}: ${delivery.message}`)
+    } catch (error) {
+      window.alert(
+        error instanceof WebhookError
+          ? error.message
+          : 'The test webhook could not be sent. Check the endpoint settings and try again.',
+      )
+    } finally {
+      setIsSendingWebhook(false)
+    }
+  }
+
   const renderActivity = (activity: ActivityLog) => (
     <div key={activity.id} className="activity-row">
       <div>
@@ -120,6 +232,8 @@ function App() {
     switch (activeView) {
       case 'builder':
         return <InvoiceBuilder />
+      case 'recurring':
+        return <RecurringProfiles />
       case 'invoices':
         return (
           <section className="module-card">
@@ -141,26 +255,37 @@ function App() {
                 <span>Due</span>
                 <span>Status</span>
                 <span>Amount</span>
+                <span>Actions</span>
               </div>
               {filteredInvoices.map((invoice) => {
-                const client = CLIENT_DIRECTORY.find((c) => c.id === invoice.clientId)
+                const client = findClient(clients, invoice.clientId)
                 return (
                   <div key={invoice.id} className="table-row invoice">
                     <span>
                       <strong>{invoice.invoiceNumber}</strong>
                       <small>{invoice.currency}</small>
                     </span>
-                    <span>{client?.companyName ?? '—'}</span>
+                    <span>{client?.companyName ?? invoice.formState?.client.companyName ?? '—'}</span>
                     <span>{invoice.engagement}</span>
                     <span>{invoice.issueDate}</span>
                     <span>{invoice.dueDate}</span>
-                    <span>{renderStatusChip(invoice.status)}</span>
+                    <span>{renderStatusChip(invoice)}</span>
+                    <span>
+                      {formatMoney(invoice.amount, invoice.currency, { minorUnits: 0 })}
+                    </span>
                     <span>
-                      {new Intl.NumberFormat('en-IN', {
-                        style: 'currency',
-                        currency: invoice.currency,
-                        maximumFractionDigits: 0,
-                      }).format(invoice.amount)}
+                      <select
+                        value=""
+                        disabled={!INVOICE_TRANSITIONS[invoice.status].length}
+                        onChange={(event) => handleInvoiceTransition(invoice, event.target.value as InvoiceStatus)}
+                      >
+                        <option value="">Move to…</option>
+                        {INVOICE_TRANSITIONS[invoice.status].map((status) => (
+                          <option key={status} value={status}>
+                            {status}
+                          </option>
+                        ))}
+                      </select>
                     </span>
                   </div>
                 )
@@ -178,8 +303,8 @@ function App() {
                   <p>Monitor provider health, channel uptime, and reconciliation windows.</p>
                 </div>
                 <div className="gateway-actions">
-                  <button type="button" className="outline">
-                    Test webhook
+                  <button type="button" className="outline" disabled={isSendingWebhook} onClick={handleTestWebhook}>
+                    {isSendingWebhook ? 'Sending…' : 'Test webhook'}
                   </button>
                   <button type="button" className="primary">
                     Refresh sync
@@ -255,26 +380,25 @@ function App() {
               </header>
               <div className="transaction-list">
                 {paymentInsights.recentTransactions.map((txn: PaymentTransaction) => {
-                  const client = CLIENT_DIRECTORY.find((c) => c.id === txn.clientId)
+                  const client = findClient(clients, txn.clientId)
                   const statusClass = txn.status.toLowerCase()
+                  const allocations = getAllocations(txn)
                   return (
                     <div key={txn.id} className="transaction-row">
                       <div>
                         <h4>{txn.reference}</h4>
                         <span className="txn-meta">
-                          Invoice {txn.invoiceId.toUpperCase()} • {client?.companyName ?? '—'}
+                          {allocations.length > 1 ? 'Invoices' : 'Invoice'}{' '}
+                          {allocations.map((allocation) => allocation.invoiceId.toUpperCase()).join(', ')} •{' '}
+                          {client?.companyName ?? '—'}
                         </span>
                       </div>
                       <div className="txn-amount">
                         <strong>
-                          {new Intl.NumberFormat('en-IN', {
-                            style: 'currency',
-                            currency: txn.currency,
-                            maximumFractionDigits: 0,
-                          }).format(txn.amount)}
+                          {formatMoney(txn.amount, txn.currency, { minorUnits: 0 })}
                         </strong>
                         <small>
-                          Fee {new Intl.NumberFormat('en-IN', { style: 'currency', currency: txn.currency }).format(txn.feeAmount)}
+                          Fee {formatMoney(txn.feeAmount, txn.currency)}
                         </small>
                       </div>
                       <div className="txn-status-block">
@@ -291,38 +415,37 @@ function App() {
                 })}
               </div>
             </section>
+
+            <WebhookDeliveries invoices={ledger} />
+
+            <RecordPayment invoices={invoices} />
+
+            <BankImportReview invoices={invoices} transactions={transactions} />
+
+            <ReconciliationReport
+              invoices={ledger}
+              transactions={transactions}
+              notes={adjustmentNotes}
+              rates={exchangeRates}
+            />
           </div>
         )
       case 'clients':
         return (
           <div className="operations-grid">
-            <section className="module-card span-2">
-              <header className="module-heading">
-                <div>
-                  <h2>Client portfolio</h2>
-                  <p>Profiles of key retainers with contact and contract visibility.</p>
-                </div>
-                <button type="button" className="outline" onClick={() => setActiveView('builder')}>
-                  Draft invoice
-                </button>
-              </header>
-              <div className="client-grid">
-                {CLIENT_DIRECTORY.map((client) => (
-                  <article key={client.id} className="client-card">
-                    <header>
-                      <h3>{client.companyName}</h3>
-                      <span>{client.contactName}</span>
-                    </header>
-                    <p className="client-meta">{client.email}</p>
-                    <p className="client-meta">{client.phone}</p>
-                    <p className="client-meta">
-                      {[client.city, client.state].filter(Boolean).join(', ')} • {client.country}
-                    </p>
-                    {client.gstin ? <span className="chip">GSTIN: {client.gstin}</span> : null}
-                  </article>
-                ))}
-              </div>
-            </section>
+            <ClientDirectory
+              billing={clientBilling}
+              onDraftInvoice={() => setActiveView('builder')}
+              onViewStatement={setStatementClientId}
+            />
+            <StatementOfAccount
+              clientId={statementClientId}
+              onClientChange={setStatementClientId}
+              invoices={invoices}
+              transactions={transactions}
+              notes={adjustmentNotes}
+              rates={exchangeRates}
+            />
           </div>
         )
       case 'team':
@@ -369,11 +492,21 @@ function App() {
               <div className="settings-panel">
                 <div className="settings-row">
                   <div>
-                    <h3>Auto reminder cadence</h3>
-                    <p>Send pending invoice nudges every 5 days until payment is confirmed.</p>
+                    <h3>Reminder cadence</h3>
+                    <p>
+                      Reminders go out when you run them from the reminders panel:{' '}
+                      {dunningSettings.steps
+                        .map((step) => describeDunningOffset(step.offsetDays).toLowerCase())
+                        .join(', ')}
+                      .
+                    </p>
                   </div>
-                  <button type="button" className="toggle on">
-                    Enabled
+                  <button
+                    type="button"
+                    className={dunningSettings.enabled ? 'toggle on' : 'toggle'}
+                    onClick={() => setDunningEnabled(!dunningSettings.enabled)}
+                  >
+                    {dunningSettings.enabled ? 'Enabled' : 'Disabled'}
                   </button>
                 </div>
                 <div className="settings-row">
@@ -381,8 +514,12 @@ function App() {
                     <h3>Attach PDF to emails</h3>
                     <p>Automatically generate and attach branded PDFs for every invoice dispatch.</p>
                   </div>
-                  <button type="button" className="toggle">
-                    Disabled
+                  <button
+                    type="button"
+                    className={emailSettings.attachPdf ? 'toggle on' : 'toggle'}
+                    onClick={() => updateEmailSettings({ attachPdf: !emailSettings.attachPdf })}
+                  >
+                    {emailSettings.attachPdf ? 'Enabled' : 'Disabled'}
                   </button>
                 </div>
                 <div className="settings-row">
@@ -396,6 +533,14 @@ function App() {
                 </div>
               </div>
             </section>
+
+            <DunningSettings invoices={invoices} />
+
+            <EmailSettings />
+
+            <NumberingSettings usedNumbers={usedDocumentNumbers} />
+
+            <ExchangeRateSettings />
           </div>
         )
       default:
@@ -439,11 +584,21 @@ function App() {
                 <div className="stat-card warning">
                   <span className="label">Overdue</span>
                   <strong>{overviewStats.totals.Overdue.toLocaleString('en-IN')}</strong>
-                  <p>Requires immediate follow-up from collections team.</p>
+                  <p>
+                    {overviewStats.overdueCount
+                      ? `${overviewStats.overdueCount} past due, oldest by ${overviewStats.oldestDaysPastDue} days. Requires immediate follow-up.`
+                      : 'Requires immediate follow-up from collections team.'}
+                  </p>
                 </div>
               </div>
             </section>
 
+            <RevenueDashboard invoices={invoices} transactions={transactions} rates={exchangeRates} />
+
+            <CollectionsForecast invoices={invoices} transactions={transactions} rates={exchangeRates} />
+
+            <ReceivablesAging invoices={invoices} rates={exchangeRates} />
+
             <section className="module-card">
               <header className="module-heading">
                 <div>
@@ -453,15 +608,15 @@ function App() {
               </header>
               <div className="invoice-list">
                 {recentInvoices.map((invoice) => {
-                  const client = CLIENT_DIRECTORY.find((c) => c.id === invoice.clientId)
+                  const client = findClient(clients, invoice.clientId)
                   return (
                     <article key={invoice.id} className="invoice-card">
                       <header>
                         <div>
                           <h3>{invoice.invoiceNumber}</h3>
-                          <span>{client?.companyName ?? '—'}</span>
+                          <span>{client?.companyName ?? invoice.formState?.client.companyName ?? '—'}</span>
                         </div>
-                        {renderStatusChip(invoice.status)}
+                        {renderStatusChip(invoice)}
                       </header>
                       <p>{invoice.engagement}</p>
                       <footer>
@@ -469,11 +624,7 @@ function App() {
                           Issued {new Intl.DateTimeFormat('en-IN', { dateStyle: 'medium' }).format(new Date(invoice.issueDate))}
                         </span>
                         <strong>
-                          {new Intl.NumberFormat('en-IN', {
-                            style: 'currency',
-                            currency: invoice.currency,
-                            maximumFractionDigits: 0,
-                          }).format(invoice.amount)}
+                          {formatMoney(invoice.amount, invoice.currency, { minorUnits: 0 })}
                         </strong>
                       </footer>
                     </article>
@@ -489,7 +640,7 @@ function App() {
                   <p>Key actions from finance, delivery, and collections.</p>
                 </div>
               </header>
-              <div className="activity-feed">{ACTIVITY_LOG.map((activity) => renderActivity(activity))}</div>
+              <div className="activity-feed">{activityLog.map((activity) => renderActivity(activity))}</div>
             </section>
 
             <section className="module-card span-2">
@@ -647,6 +798,13 @@ function App() {
           >
             Create invoice
           </button>
+          <button
+            type="button"
+            className={activeView === 'recurring' ? 'active' : ''}
+            onClick={() => setActiveView('recurring')}
+          >
+            Recurring billing
+          </button>
         </nav>
         <nav className="nav-group">
           <p className="nav-label">Operations</p>
@@ -695,6 +853,7 @@ function App() {
             + New invoice
           </button>
         </header>
+        {storageFailure ? <p className="storage-warning">{storageFailure.message}</p> : null}
         <div className="content-area">{renderContent()}</div>
       </div>
     </div>
@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react'
+import {
+  AdjustmentNoteError,
+  buildAdjustmentNote,
+  getNotesForInvoice,
+  getReversibleQuantities,
+} from '../lib/adjustmentNotes'
+import type { AdjustmentQuantities } from '../lib/adjustmentNotes'
+import { formatMoney } from '../lib/currency'
+import { formatDay } from '../lib/dates'
+import { NumberingError } from '../lib/numbering'
+import { issueAdjustmentNote, useAdjustmentNotes } from '../store/adjustmentNoteStore'
+import type { AdjustmentNote, AdjustmentNoteKind, InvoiceRecord } from '../types'
+import { AdjustmentNotePreview } from './AdjustmentNotePreview'
+
+type AdjustmentNotePanelProps = {
+  invoice: InvoiceRecord
+}
+
+const today = () => formatDay(new Date())
+
+export const AdjustmentNotePanel = ({ invoice }: AdjustmentNotePanelProps) => {
+  const notes = useAdjustmentNotes()
+  const [draftKind, setDraftKind] = useState<AdjustmentNoteKind | null>(null)
+  const [quantities, setQuantities] = useState<AdjustmentQuantities>({})
+  const [reason, setReason] = useState('')
+  const [issueDate, setIssueDate] = useState(today)
+  const [previewNoteId, setPreviewNoteId] = useState('')
+
+  const invoiceNotes = useMemo(() => getNotesForInvoice(invoice.id, notes), [invoice.id, notes])
+  const reversible = useMemo(() => getReversibleQuantities(invoice, notes), [invoice, notes])
+  const lineItems = invoice.formState?.lineItems ?? []
+
+  const draft = useMemo((): { note?: AdjustmentNote; error?: string } => {
+    if (!draftKind) {
+      return {}
+    }
+    try {
+      const note = buildAdjustmentNote({ kind: draftKind, invoice, quantities, reason, issueDate }, notes)
+      return { note: { ...note, noteNumber: 'Assigned on issue' } }
+    } catch (error) {
+      if (error instanceof AdjustmentNoteError) {
+        return { error: error.message }
+      }
+      throw error
+    }
+  }, [draftKind, invoice, quantities, reason, issueDate, notes])
+
+  const previewNote = draft.note ?? invoiceNotes.find((note) => note.id === previewNoteId)
+
+  const startDraft = (kind: AdjustmentNoteKind) => {
+    setDraftKind(kind)
+    setQuantities({})
+    setReason('')
+    setIssueDate(today())
+  }
+
+  const handleFullReversal = () => {
+    setQuantities({ ...reversible })
+  }
+
+  const handleIssue = () => {
+    if (!draftKind) {
+      return
+    }
+    try {
+      const note = issueAdjustmentNote({ kind: draftKind, invoice, quantities, reason, issueDate })
+      setDraftKind(null)
+      setPreviewNoteId(note.id)
+    } catch (error) {
+      if (error instanceof AdjustmentNoteError || error instanceof NumberingError) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    }
+  }
+
+  return (
+    <div className="form-section adjustment-notes">
+      <div className="section-heading">
+        <h3>Credit &amp; debit notes</h3>
+        <span className="section-hint">Corrections to {invoice.invoiceNumber} are issued as separate documents.</span>
+      </div>
+
+      {invoiceNotes.length ? (
+        <ul className="adjustment-note-list">
+          {invoiceNotes.map((note) => (
+            <li key={note.id}>
+              <button
+                type="button"
+                className={`ghost${previewNoteId === note.id && !draftKind ? ' active' : ''}`}
+                onClick={() => {
+                  setDraftKind(null)
+                  setPreviewNoteId(note.id)
+                }}
+              >
+                {note.noteNumber}
+              </button>
+              <span>
+                {note.kind} • {note.issueDate} • {note.kind === 'Credit Note' ? '−' : '+'}
+                {formatMoney(note.amount, note.currency)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="section-hint">No notes raised against this invoice yet.</p>
+      )}
+
+      {draftKind ? (
+        <>
+          <div className="adjustment-lines">
+            <div className="adjustment-line heading">
+              <span>Line item</span>
+              <span>Invoiced</span>
+              <span>{draftKind === 'Credit Note' ? 'Reverse qty' : 'Additional qty'}</span>
+            </div>
+            {lineItems.map((item) => (
+              <label key={item.id} className="adjustment-line">
+                <span>{item.description || 'Custom service'}</span>
+                <span>
+                  {item.quantity}
+                  {draftKind === 'Credit Note' && reversible[item.id] !== item.quantity
+                    ? ` (${reversible[item.id] ?? 0} left)`
+                    : ''}
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  max={draftKind === 'Credit Note' ? reversible[item.id] : undefined}
+                  value={quantities[item.id] ?? 0}
+                  onChange={(event) =>
+                    setQuantities((prev) => ({ ...prev, [item.id]: Math.max(Number(event.target.value) || 0, 0) }))
+                  }
+                />
+              </label>
+            ))}
+          </div>
+          <div className="field-grid">
+            <label className="field">
+              <span>Note date</span>
+              <input type="date" value={issueDate} onChange={(event) => setIssueDate(event.target.value)} />
+            </label>
+            <label className="field field-wide">
+              <span>Reason</span>
+              <input
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                placeholder={draftKind === 'Credit Note' ? 'e.g. Scope reduced by two sprints' : 'e.g. Additional hours'}
+              />
+            </label>
+          </div>
+          {draft.error ? <p className="section-hint">{draft.error}</p> : null}
+          <div className="adjustment-actions">
+            {draftKind === 'Credit Note' ? (
+              <button type="button" className="ghost" onClick={handleFullReversal}>
+                Full reversal
+              </button>
+            ) : null}
+            <button type="button" className="ghost" onClick={() => setDraftKind(null)}>
+              Cancel
+            </button>
+            <button type="button" className="primary" disabled={!draft.note} onClick={handleIssue}>
+              Issue {draftKind.toLowerCase()}
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="adjustment-actions">
+          <button type="button" className="outline" onClick={() => startDraft('Credit Note')}>
+            Raise credit note
+          </button>
+          <button type="button" className="outline" onClick={() => startDraft('Debit Note')}>
+            Raise debit note
+          </button>
+        </div>
+      )}
+
+      {previewNote ? <AdjustmentNotePreview note={previewNote} /> : null}
+    </div>
+  )
+}
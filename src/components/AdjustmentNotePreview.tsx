@@ -0,0 +1,134 @@
+import { useMemo } from 'react'
+import { ORGANIZATION } from '../data'
+import { createMoneyFormatter } from '../lib/currency'
+import { describePlaceOfSupply } from '../lib/gst'
+import { calculateLineItemTotals } from '../lib/invoiceTotals'
+import type { AdjustmentNote } from '../types'
+
+type AdjustmentNotePreviewProps = {
+  note: AdjustmentNote
+}
+
+export const AdjustmentNotePreview = ({ note }: AdjustmentNotePreviewProps) => {
+  const totals = useMemo(() => calculateLineItemTotals(note.lineItems, note.client, note.currency), [note])
+  const currencyFormatter = useMemo(() => createMoneyFormatter(note.currency), [note.currency])
+  const isCredit = note.kind === 'Credit Note'
+
+  return (
+    <div className="invoice-document adjustment-note-doc">
+      <header className="invoice-doc-header">
+        <div className="invoice-doc-brand">
+          <h2>{ORGANIZATION.displayName}</h2>
+          <p>{ORGANIZATION.legalName}</p>
+          <p>
+            {ORGANIZATION.address.city}, {ORGANIZATION.address.state} {ORGANIZATION.address.postalCode}
+          </p>
+          <p>{ORGANIZATION.taxRegistration}</p>
+        </div>
+        <div className="invoice-doc-title">
+          <h1>{note.kind}</h1>
+          <dl className="invoice-doc-meta">
+            <div>
+              <dt>Note #</dt>
+              <dd>{note.noteNumber}</dd>
+            </div>
+            <div>
+              <dt>Issue date</dt>
+              <dd>{note.issueDate}</dd>
+            </div>
+            <div>
+              <dt>Against invoice</dt>
+              <dd>{note.invoiceNumber}</dd>
+            </div>
+            <div>
+              <dt>Place of supply</dt>
+              <dd>{describePlaceOfSupply(totals.tax.placeOfSupply)}</dd>
+            </div>
+          </dl>
+        </div>
+      </header>
+
+      <section className="invoice-doc-parties">
+        <div className="invoice-doc-party">
+          <h3>Issued to</h3>
+          <p className="party-name">{note.client.companyName || '—'}</p>
+          <p>
+            {[note.client.city, note.client.state].filter(Boolean).join(', ')} {note.client.postalCode}
+          </p>
+          {note.client.gstin ? <p>Tax ID: {note.client.gstin}</p> : null}
+        </div>
+        <div className="invoice-doc-party">
+          <h3>Reason</h3>
+          <p>{note.reason}</p>
+        </div>
+      </section>
+
+      <section className="invoice-doc-items">
+        <table className="invoice-table-doc">
+          <thead>
+            <tr>
+              <th style={{ width: '44%' }}>Description</th>
+              <th style={{ width: '12%' }}>SAC</th>
+              <th style={{ width: '10%' }} className="num">
+                Qty
+              </th>
+              <th style={{ width: '16%' }} className="num">
+                Rate
+              </th>
+              <th style={{ width: '18%' }} className="num">
+                Amount
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {totals.lines.map((line) => (
+              <tr key={line.item.id}>
+                <td>
+                  <div className="item-desc">{line.item.description || '—'}</div>
+                  {line.item.discountRate ? <div className="item-notes">Less {line.item.discountRate}% discount</div> : null}
+                </td>
+                <td>{line.item.sacCode || '—'}</td>
+                <td className="num">{line.item.quantity}</td>
+                <td className="num">{currencyFormatter.format(line.item.unitPrice)}</td>
+                <td className="num">{currencyFormatter.format(line.lineTotal)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="invoice-doc-summary">
+        <table className="invoice-totals-doc">
+          <tbody>
+            <tr>
+              <td>Taxable amount</td>
+              <td className="num">{currencyFormatter.format(totals.taxableAmount)}</td>
+            </tr>
+            {totals.tax.components.map((component) => (
+              <tr key={`${component.code}-${component.rate}`}>
+                <td>
+                  {component.code} @ {component.rate.toFixed(2)}%
+                </td>
+                <td className="num">{currencyFormatter.format(component.amount)}</td>
+              </tr>
+            ))}
+            <tr className="grand">
+              <td>{isCredit ? 'Total credited' : 'Total debited'}</td>
+              <td className="num">{currencyFormatter.format(totals.total)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </section>
+
+      <footer className="invoice-doc-footer">
+        <div className="invoice-doc-terms">
+          <p className="footer-note">
+            {isCredit
+              ? `This amount is credited against invoice ${note.invoiceNumber} and reduces the balance due.`
+              : `This amount is added to the balance due on invoice ${note.invoiceNumber}.`}
+          </p>
+        </div>
+      </footer>
+    </div>
+  )
+}
@@ -0,0 +1,189 @@
+import { useMemo, useState } from 'react'
+import type { ChangeEvent } from 'react'
+import { formatMoney } from '../lib/currency'
+import {
+  BankStatementError,
+  parseBankStatement,
+  suggestInvoiceMatches,
+  toPaymentTransaction,
+} from '../lib/bankStatement'
+import type { ParsedBankStatement } from '../lib/bankStatement'
+import { generateId } from '../lib/ids'
+import { logActivity } from '../store/activityStore'
+import { useClients } from '../store/clientStore'
+import { addPaymentTransactions } from '../store/paymentStore'
+import type { BankStatementEntry, CurrencyCode, EvaluatedInvoice, PaymentTransaction } from '../types'
+
+type BankImportReviewProps = {
+  invoices: EvaluatedInvoice[]
+  transactions: PaymentTransaction[]
+}
+
+const FORMAT_LABELS: Record<ParsedBankStatement['format'], string> = {
+  csv: 'CSV',
+  mt940: 'MT940',
+  camt053: 'CAMT.053',
+}
+
+const formatAmount = (value: number, currency: CurrencyCode) => formatMoney(value, currency)
+
+const isAlreadyRecorded = (entry: BankStatementEntry, transactions: PaymentTransaction[]) =>
+  transactions.some(
+    (txn) => txn.id === `txn-${entry.id}` || (Boolean(entry.reference) && txn.reference === entry.reference),
+  )
+
+export const BankImportReview = ({ invoices, transactions }: BankImportReviewProps) => {
+  const [fileName, setFileName] = useState('')
+  const [statement, setStatement] = useState<ParsedBankStatement | null>(null)
+  const [selections, setSelections] = useState<Record<string, string>>({})
+  const clients = useClients()
+
+  const rows = useMemo(
+    () =>
+      (statement?.entries ?? []).map((entry) => ({
+        entry,
+        suggestions: suggestInvoiceMatches(entry, invoices, clients),
+        duplicate: isAlreadyRecorded(entry, transactions),
+      })),
+    [statement, invoices, transactions, clients],
+  )
+
+  const selectedCount = rows.filter((row) => !row.duplicate && selections[row.entry.id]).length
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) {
+      return
+    }
+    let parsed: ParsedBankStatement
+    try {
+      parsed = parseBankStatement(file.name, await file.text())
+    } catch (error) {
+      window.alert(
+        error instanceof BankStatementError
+          ? `${file.name} could not be imported: ${error.message}`
+          : `${file.name} could not be read. Check that it is a CSV, MT940 or CAMT.053 statement and try again.`,
+      )
+      return
+    }
+    setFileName(file.name)
+    setStatement(parsed)
+    setSelections(
+      parsed.entries.reduce<Record<string, string>>((acc, entry) => {
+        const [top] = suggestInvoiceMatches(entry, invoices, clients)
+        acc[entry.id] = top && !isAlreadyRecorded(entry, transactions) ? top.invoiceId : ''
+        return acc
+      }, {}),
+    )
+  }
+
+  const handleConfirm = () => {
+    const confirmed = rows.flatMap(({ entry, duplicate }) => {
+      const invoice = invoices.find((record) => record.id === selections[entry.id])
+      return invoice && !duplicate ? [{ entry, invoice }] : []
+    })
+    if (!confirmed.length) {
+      return
+    }
+    addPaymentTransactions(confirmed.map(({ entry, invoice }) => toPaymentTransaction(entry, invoice)))
+    confirmed.forEach(({ entry, invoice }) => {
+      logActivity({
+        id: `act-${generateId()}`,
+        timestamp: new Date().toISOString(),
+        summary: `Bank receipt ${entry.reference || entry.id} of ${formatAmount(entry.amount, entry.currency)} matched to ${
+          invoice.invoiceNumber
+        }`,
+        actor: 'Finance Team',
+        activityType: 'payment',
+        relatedInvoiceId: invoice.id,
+      })
+    })
+    setStatement(null)
+    setSelections({})
+    setFileName('')
+  }
+
+  return (
+    <section className="module-card span-2">
+      <header className="module-heading">
+        <div>
+          <h2>Bank statement import</h2>
+          <p>Match wire and NetBanking receipts from CSV, MT940 or CAMT.053 statements to open invoices.</p>
+        </div>
+        <label className="file-picker">
+          Upload statement
+          <input type="file" accept=".csv,.txt,.sta,.940,.mt940,.xml" onChange={handleFileChange} />
+        </label>
+      </header>
+      {statement ? (
+        <>
+          <p className="import-summary">
+            {fileName} • {FORMAT_LABELS[statement.format]} • {statement.entries.length} credits
+            {statement.skipped ? `, ${statement.skipped} debits or unreadable rows skipped` : ''}
+          </p>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Reference</th>
+                <th>Payer</th>
+                <th className="num">Amount</th>
+                <th>Match</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ entry, suggestions, duplicate }) => {
+                const selected = suggestions.find((suggestion) => suggestion.invoiceId === selections[entry.id])
+                return (
+                  <tr key={entry.id}>
+                    <td>{entry.bookingDate}</td>
+                    <td>
+                      <strong>{entry.reference || '—'}</strong>
+                      <small className="import-narrative">{entry.narrative}</small>
+                    </td>
+                    <td>{entry.counterparty || '—'}</td>
+                    <td className="num">{formatAmount(entry.amount, entry.currency)}</td>
+                    <td>
+                      {duplicate ? (
+                        <span className="recon-state">Already recorded</span>
+                      ) : (
+                        <>
+                          <select
+                            value={selections[entry.id] ?? ''}
+                            onChange={(event) =>
+                              setSelections((prev) => ({ ...prev, [entry.id]: event.target.value }))
+                            }
+                          >
+                            <option value="">Do not record</option>
+                            {suggestions.map((suggestion) => (
+                              <option key={suggestion.invoiceId} value={suggestion.invoiceId}>
+                                {suggestion.invoiceNumber} ({suggestion.score})
+                              </option>
+                            ))}
+                          </select>
+                          {selected ? <small className="import-reasons">{selected.reasons.join(' • ')}</small> : null}
+                          {!suggestions.length ? <small className="import-reasons">No open invoice matches</small> : null}
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          <div className="import-actions">
+            <button type="button" className="ghost" onClick={() => setStatement(null)}>
+              Discard
+            </button>
+            <button type="button" className="primary" disabled={!selectedCount} onClick={handleConfirm}>
+              Record {selectedCount} {selectedCount === 1 ? 'receipt' : 'receipts'}
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="import-summary">No statement loaded. Credits are parsed locally and nothing is recorded until confirmed.</p>
+      )}
+    </section>
+  )
+}
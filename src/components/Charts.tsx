@@ -0,0 +1,154 @@
+export type ChartSeries = {
+  label: string
+  color: string
+  values: number[]
+}
+
+type ColumnChartProps = {
+  categories: string[]
+  series: ChartSeries[]
+  formatValue: (value: number) => string
+  height?: number
+}
+
+type BarBreakdownRow = {
+  key: string
+  label: string
+  values: number[]
+}
+
+type BarBreakdownProps = {
+  rows: BarBreakdownRow[]
+  series: Array<Pick<ChartSeries, 'label' | 'color'>>
+  formatValue: (value: number) => string
+  emptyLabel: string
+}
+
+const CHART_WIDTH = 640
+const AXIS_WIDTH = 64
+const LABEL_HEIGHT = 22
+const GRID_LINES = 4
+
+// Rounds the axis ceiling up to 1, 2 or 5 × a power of ten so gridline labels stay readable.
+const niceCeiling = (value: number) => {
+  if (value <= 0) {
+    return 1
+  }
+  const magnitude = 10 ** Math.floor(Math.log10(value))
+  const step = [1, 2, 5, 10].find((factor) => factor * magnitude >= value) ?? 10
+  return step * magnitude
+}
+
+export const ChartLegend = ({ series }: { series: Array<Pick<ChartSeries, 'label' | 'color'>> }) => (
+  <div className="chart-legend">
+    {series.map((entry) => (
+      <span key={entry.label}>
+        <i style={{ backgroundColor: entry.color }} />
+        {entry.label}
+      </span>
+    ))}
+  </div>
+)
+
+export const ColumnChart = ({ categories, series, formatValue, height = 220 }: ColumnChartProps) => {
+  const plotHeight = height - LABEL_HEIGHT
+  const plotWidth = CHART_WIDTH - AXIS_WIDTH
+  const maxValue = niceCeiling(Math.max(0, ...series.flatMap((entry) => entry.values)))
+  const slotWidth = plotWidth / Math.max(categories.length, 1)
+  const barWidth = Math.min(18, (slotWidth * 0.7) / Math.max(series.length, 1))
+  const scale = (value: number) => (Math.max(value, 0) / maxValue) * (plotHeight - 8)
+
+  return (
+    <figure className="chart">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} role="img" aria-label={series.map(({ label }) => label).join(', ')}>
+        {Array.from({ length: GRID_LINES + 1 }, (_, index) => {
+          const value = (maxValue / GRID_LINES) * index
+          const y = plotHeight - scale(value)
+          return (
+            <g key={index} className="chart-grid">
+              <line x1={AXIS_WIDTH} x2={CHART_WIDTH} y1={y} y2={y} />
+              <text x={AXIS_WIDTH - 8} y={y + 4} textAnchor="end">
+                {formatValue(value)}
+              </text>
+            </g>
+          )
+        })}
+        {categories.map((category, categoryIndex) => {
+          const groupX = AXIS_WIDTH + slotWidth * categoryIndex + (slotWidth - barWidth * series.length) / 2
+          return (
+            <g key={category}>
+              {series.map((entry, seriesIndex) => {
+                const value = entry.values[categoryIndex] ?? 0
+                const barHeight = scale(value)
+                return (
+                  <rect
+                    key={entry.label}
+                    x={groupX + barWidth * seriesIndex}
+                    y={plotHeight - barHeight}
+                    width={barWidth - 2}
+                    height={barHeight}
+                    rx={2}
+                    fill={entry.color}
+                  >
+                    <title>{`${category} • ${entry.label}: ${formatValue(value)}`}</title>
+                  </rect>
+                )
+              })}
+              <text
+                className="chart-label"
+                x={AXIS_WIDTH + slotWidth * categoryIndex + slotWidth / 2}
+                y={height - 6}
+                textAnchor="middle"
+              >
+                {category}
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+      <ChartLegend series={series} />
+    </figure>
+  )
+}
+
+export const BarBreakdown = ({ rows, series, formatValue, emptyLabel }: BarBreakdownProps) => {
+  if (!rows.length) {
+    return <p className="recurring-empty">{emptyLabel}</p>
+  }
+  const maxValue = Math.max(1, ...rows.flatMap((row) => row.values))
+  const barHeight = 8
+  const rowHeight = 18 + series.length * (barHeight + 3)
+
+  return (
+    <figure className="chart">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${rows.length * rowHeight}`} role="img" aria-label={emptyLabel}>
+        {rows.map((row, rowIndex) => {
+          const top = rowIndex * rowHeight
+          return (
+            <g key={row.key}>
+              <text className="chart-row-label" x={0} y={top + 12}>
+                {row.label}
+              </text>
+              {series.map((entry, seriesIndex) => {
+                const value = row.values[seriesIndex] ?? 0
+                const y = top + 16 + seriesIndex * (barHeight + 3)
+                const width = (Math.max(value, 0) / maxValue) * (CHART_WIDTH - 140)
+                return (
+                  <g key={entry.label}>
+                    <rect x={0} y={y} width={Math.max(width, 1)} height={barHeight} rx={2} fill={entry.color}>
+                      <title>{`${row.label} • ${entry.label}: ${formatValue(value)}`}</title>
+                    </rect>
+                    <text className="chart-value" x={width + 6} y={y + barHeight}>
+                      {formatValue(value)}
+                    </text>
+                  </g>
+                )
+              })}
+            </g>
+          )
+        })}
+      </svg>
+      <ChartLegend series={series} />
+    </figure>
+  )
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react'
+import { ClientDirectoryError, emptyClientDetails, toClientDetails } from '../lib/clients'
+import { formatMoney } from '../lib/currency'
+import { createClient, setClientArchived, updateClient, useClients } from '../store/clientStore'
+import type { ClientDetails } from '../types'
+
+type ClientBilling = { count: number; billed: number; outstanding: number }
+
+type ClientDirectoryProps = {
+  billing: Record<string, ClientBilling>
+  onDraftInvoice: () => void
+  onViewStatement: (clientId: string) => void
+}
+
+type ClientDraft = { clientId: string | null; details: ClientDetails }
+
+const CLIENT_FIELDS: Array<{ name: keyof ClientDetails; label: string; type?: string }> = [
+  { name: 'companyName', label: 'Company name' },
+  { name: 'contactName', label: 'Primary contact' },
+  { name: 'email', label: 'Email', type: 'email' },
+  { name: 'phone', label: 'Phone' },
+  { name: 'gstin', label: 'GSTIN / Tax ID' },
+  { name: 'addressLine1', label: 'Address line 1' },
+  { name: 'addressLine2', label: 'Address line 2' },
+  { name: 'city', label: 'City' },
+  { name: 'state', label: 'State' },
+  { name: 'postalCode', label: 'Postal code' },
+  { name: 'country', label: 'Country' },
+]
+
+const formatInr = (value: number) => formatMoney(value, 'INR', { minorUnits: 0 })
+
+export const ClientDirectory = ({ billing, onDraftInvoice, onViewStatement }: ClientDirectoryProps) => {
+  const clients = useClients()
+  const [draft, setDraft] = useState<ClientDraft | null>(null)
+  const [showArchived, setShowArchived] = useState(false)
+  const archivedCount = clients.filter((client) => client.archived).length
+  const visibleClients = clients.filter((client) => showArchived || !client.archived)
+
+  const handleSave = () => {
+    if (!draft) {
+      return
+    }
+    try {
+      if (draft.clientId) {
+        updateClient(draft.clientId, draft.details)
+      } else {
+        createClient(draft.details)
+      }
+      setDraft(null)
+    } catch (error) {
+      if (error instanceof ClientDirectoryError) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    }
+  }
+
+  return (
+    <section className="module-card span-2">
+      <header className="module-heading">
+        <div>
+          <h2>Client portfolio</h2>
+          <p>Profiles of key retainers with contact and contract visibility.</p>
+        </div>
+        <div className="import-actions">
+          <button
+            type="button"
+            className="ghost"
+            disabled={!archivedCount && !showArchived}
+            onClick={() => setShowArchived((prev) => !prev)}
+          >
+            {showArchived ? 'Hide archived' : `Show archived (${archivedCount})`}
+          </button>
+          <button
+            type="button"
+            className="ghost"
+            onClick={() => setDraft({ clientId: null, details: { ...emptyClientDetails, country: 'India' } })}
+          >
+            Add client
+          </button>
+          <button type="button" className="outline" onClick={onDraftInvoice}>
+            Draft invoice
+          </button>
+        </div>
+      </header>
+
+      {draft ? (
+        <div className="settings-row numbering-row client-form">
+          <div className="numbering-fields">
+            {CLIENT_FIELDS.map((field) => (
+              <label key={field.name}>
+                <span>{field.label}</span>
+                <input
+                  type={field.type ?? 'text'}
+                  value={draft.details[field.name] ?? ''}
+                  onChange={(event) =>
+                    setDraft({ ...draft, details: { ...draft.details, [field.name]: event.target.value } })
+                  }
+                />
+              </label>
+            ))}
+          </div>
+          <div className="import-actions">
+            <button type="button" className="ghost" onClick={() => setDraft(null)}>
+              Cancel
+            </button>
+            <button type="button" className="primary" onClick={handleSave}>
+              {draft.clientId ? 'Save changes' : 'Create client'}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="client-grid">
+        {visibleClients.map((client) => (
+          <article key={client.id} className={client.archived ? 'client-card archived' : 'client-card'}>
+            <header>
+              <h3>{client.companyName}</h3>
+              <span>{client.contactName}</span>
+            </header>
+            <p className="client-meta">{client.email}</p>
+            <p className="client-meta">{client.phone}</p>
+            <p className="client-meta">
+              {[client.city, client.state].filter(Boolean).join(', ')} • {client.country}
+            </p>
+            {client.gstin ? <span className="chip">GSTIN: {client.gstin}</span> : null}
+            <p className="client-meta">
+              {billing[client.id]?.count ?? 0} invoices • Billed {formatInr(billing[client.id]?.billed ?? 0)} •
+              Outstanding {formatInr(billing[client.id]?.outstanding ?? 0)}
+            </p>
+            <div className="client-actions">
+              <button type="button" className="ghost" onClick={() => onViewStatement(client.id)}>
+                Statement
+              </button>
+              <button
+                type="button"
+                className="ghost"
+                onClick={() => setDraft({ clientId: client.id, details: toClientDetails(client) })}
+              >
+                Edit
+              </button>
+              <button type="button" className="ghost" onClick={() => setClientArchived(client.id, !client.archived)}>
+                {client.archived ? 'Restore' : 'Archive'}
+              </button>
+            </div>
+          </article>
+        ))}
+      </div>
+    </section>
+  )
+}
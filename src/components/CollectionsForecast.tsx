@@ -0,0 +1,172 @@
+import { useMemo, useState } from 'react'
+import { PAYMENT_GATEWAY } from '../data'
+import { formatMoney } from '../lib/currency'
+import { buildCashForecast, FORECAST_SCENARIO_LABELS, FORECAST_WEEKS } from '../lib/forecast'
+import { sumAmounts } from '../lib/money'
+import { useClients } from '../store/clientStore'
+import type {
+  EvaluatedInvoice,
+  ExchangeRateTable,
+  ForecastInflowKind,
+  ForecastScenario,
+  PaymentTransaction,
+} from '../types'
+import { ColumnChart } from './Charts'
+
+type CollectionsForecastProps = {
+  invoices: EvaluatedInvoice[]
+  transactions: PaymentTransaction[]
+  rates: ExchangeRateTable
+}
+
+const INFLOW_KIND_LABELS: Record<ForecastInflowKind, string> = {
+  'in-flight': 'Payment clearing',
+  scheduled: 'Expected payment',
+  retry: 'Retry after failure',
+}
+
+const SCENARIO_COLORS: Record<ForecastScenario, string> = {
+  expected: '#0e7a6e',
+  worst: '#c64822',
+}
+
+const formatWeek = (value: string) =>
+  new Intl.DateTimeFormat('en-IN', { day: 'numeric', month: 'short' }).format(new Date(`${value}T00:00:00`))
+
+const describeLateness = (days: number) => {
+  if (days === 0) {
+    return 'on the due date'
+  }
+  return days > 0 ? `${days} days late` : `${Math.abs(days)} days early`
+}
+
+export const CollectionsForecast = ({ invoices, transactions, rates }: CollectionsForecastProps) => {
+  const clients = useClients()
+  const [scenario, setScenario] = useState<ForecastScenario>('expected')
+  const forecast = useMemo(
+    () => buildCashForecast({ invoices, transactions, rates, channels: PAYMENT_GATEWAY.channels, scenario }),
+    [invoices, transactions, rates, scenario],
+  )
+  const clientNames = useMemo(
+    () => Object.fromEntries(clients.map((client) => [client.id, client.companyName])),
+    [clients],
+  )
+  const money = (value: number) => formatMoney(value, forecast.currency, { minorUnits: 0 })
+  const axis = (value: number) =>
+    new Intl.NumberFormat('en-IN', { notation: 'compact', maximumFractionDigits: 1 }).format(value)
+  const nextFourWeeks = sumAmounts(forecast.weeks.slice(0, 4), (week) => week.expected)
+  const weeksWithInflows = forecast.weeks.filter((week) => week.inflows.length)
+
+  return (
+    <section className="module-card span-2">
+      <header className="module-heading">
+        <div>
+          <h2>Cash-flow forecast</h2>
+          <p>
+            Projected collections per week for the next {FORECAST_WEEKS} weeks from {forecast.asOf}, adjusted for each
+            client&apos;s payment history and the success rate and settlement time of the channel they pay through.
+          </p>
+        </div>
+        <button
+          type="button"
+          className={scenario === 'worst' ? 'toggle on' : 'toggle'}
+          onClick={() => setScenario(scenario === 'worst' ? 'expected' : 'worst')}
+        >
+          {FORECAST_SCENARIO_LABELS.worst}
+        </button>
+      </header>
+
+      <div className="stat-grid">
+        <div className="stat-card primary">
+          <span className="label">Next 4 weeks</span>
+          <strong>{money(nextFourWeeks)}</strong>
+          <p>{FORECAST_SCENARIO_LABELS[scenario]} collections in the coming month.</p>
+        </div>
+        <div className="stat-card">
+          <span className="label">Next {FORECAST_WEEKS} weeks</span>
+          <strong>{money(forecast.total)}</strong>
+          <p>Total inflow inside the forecast window.</p>
+        </div>
+        <div className="stat-card">
+          <span className="label">Beyond {FORECAST_WEEKS} weeks</span>
+          <strong>{money(forecast.beyondHorizon)}</strong>
+          <p>Receivables expected to land after the window closes.</p>
+        </div>
+        {scenario === 'worst' ? (
+          <div className="stat-card warning">
+            <span className="label">At risk</span>
+            <strong>{money(forecast.atRisk)}</strong>
+            <p>Share of each balance the payment channel is expected to fail on, with no retry.</p>
+          </div>
+        ) : null}
+      </div>
+
+      <ColumnChart
+        categories={forecast.weeks.map((week, index) => `W${index + 1} ${formatWeek(week.weekStart)}`)}
+        series={[
+          {
+            label: `${FORECAST_SCENARIO_LABELS[scenario]} inflow`,
+            color: SCENARIO_COLORS[scenario],
+            values: forecast.weeks.map((week) => week.expected),
+          },
+        ]}
+        formatValue={axis}
+      />
+
+      {weeksWithInflows.length ? (
+        <table className="data-table forecast-table">
+          <thead>
+            <tr>
+              <th>Week</th>
+              <th>Invoice</th>
+              <th>Expected on</th>
+              <th>Basis</th>
+              <th>Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {weeksWithInflows.flatMap((week) =>
+              week.inflows.map((inflow, index) => (
+                <tr key={`${week.weekStart}-${inflow.invoiceId}-${index}`}>
+                  <td>
+                    {index === 0 ? (
+                      <>
+                        <strong>
+                          {formatWeek(week.weekStart)} – {formatWeek(week.weekEnd)}
+                        </strong>
+                        <span className="import-narrative">{money(week.expected)}</span>
+                      </>
+                    ) : null}
+                  </td>
+                  <td>
+                    <strong>{inflow.invoiceNumber}</strong>
+                    <span className="import-narrative">{clientNames[inflow.clientId] ?? inflow.clientId}</span>
+                  </td>
+                  <td>
+                    {inflow.expectedDate}
+                    <span className="import-narrative">Due {inflow.dueDate}</span>
+                  </td>
+                  <td>
+                    {INFLOW_KIND_LABELS[inflow.kind]}
+                    <span className="import-narrative">
+                      {inflow.method}
+                      {inflow.kind === 'in-flight' ? '' : ` • usually pays ${describeLateness(inflow.latenessDays)}`}
+                    </span>
+                  </td>
+                  <td>
+                    {formatMoney(inflow.amount, inflow.currency)}
+                    {inflow.currency !== forecast.currency ? (
+                      <span className="import-narrative">{money(inflow.baseAmount)}</span>
+                    ) : null}
+                  </td>
+                </tr>
+              )),
+            )}
+          </tbody>
+        </table>
+      ) : (
+        <p className="recurring-empty">No collections are expected in the next {FORECAST_WEEKS} weeks.</p>
+      )}
+    </section>
+  )
+}
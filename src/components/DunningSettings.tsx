@@ -0,0 +1,191 @@
+import { useMemo, useState } from 'react'
+import {
+  describeDunningOffset,
+  DUNNING_PLACEHOLDERS,
+  DunningError,
+  getDueReminders,
+  renderReminder,
+} from '../lib/dunning'
+import { useClients } from '../store/clientStore'
+import {
+  createDunningStep,
+  saveDunningSteps,
+  sendDueReminders,
+  useDunningSettings,
+  useSentReminders,
+} from '../store/dunningStore'
+import type { DunningStep, DunningTone, EvaluatedInvoice } from '../types'
+
+type DunningSettingsProps = {
+  invoices: EvaluatedInvoice[]
+}
+
+const DUNNING_TONES: DunningTone[] = ['Courtesy', 'Firm', 'Final']
+
+export const DunningSettings = ({ invoices }: DunningSettingsProps) => {
+  const settings = useDunningSettings()
+  const sent = useSentReminders()
+  const clients = useClients()
+  const [draftSteps, setDraftSteps] = useState<DunningStep[] | null>(null)
+  const [isSending, setIsSending] = useState(false)
+  const steps = draftSteps ?? settings.steps
+
+  const dueReminders = useMemo(
+    () => getDueReminders(invoices, settings.steps, sent, new Date()),
+    [invoices, settings.steps, sent],
+  )
+
+  const updateStep = (id: string, changes: Partial<DunningStep>) => {
+    setDraftSteps(steps.map((step) => (step.id === id ? { ...step, ...changes } : step)))
+  }
+
+  const handleSave = () => {
+    if (!draftSteps) {
+      return
+    }
+    try {
+      saveDunningSteps(draftSteps)
+      setDraftSteps(null)
+    } catch (error) {
+      if (error instanceof DunningError) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    }
+  }
+
+  const handleSend = async () => {
+    setIsSending(true)
+    try {
+      const reminders = await sendDueReminders(invoices)
+      const failed = reminders.filter((reminder) => reminder.status === 'Failed')
+      const sentCount = reminders.length - failed.length
+      window.alert(
+        `Sent ${sentCount} ${sentCount === 1 ? 'reminder' : 'reminders'}.` +
+          (failed.length ? ` ${failed.length} could not be sent; see the activity log for the reasons.` : ''),
+      )
+    } catch (error) {
+      window.alert(`Reminders could not be sent: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <section className="module-card">
+      <header className="module-heading">
+        <div>
+          <h2>Payment reminders</h2>
+          <p>
+            Steps run relative to each invoice&apos;s due date. Placeholders: {DUNNING_PLACEHOLDERS.join(' ')}
+          </p>
+        </div>
+        <button
+          type="button"
+          className="primary"
+          disabled={!settings.enabled || !dueReminders.length || isSending}
+          title={settings.enabled ? undefined : 'Reminders are disabled in the billing console settings.'}
+          onClick={handleSend}
+        >
+          {isSending
+            ? 'Sending reminders…'
+            : `Run ${dueReminders.length} due ${dueReminders.length === 1 ? 'reminder' : 'reminders'}`}
+        </button>
+      </header>
+
+      <div className="settings-panel">
+        {steps.map((step) => (
+          <div key={step.id} className="settings-row dunning-step">
+            <div className="numbering-fields">
+              <label>
+                <span>Label</span>
+                <input value={step.label} onChange={(event) => updateStep(step.id, { label: event.target.value })} />
+              </label>
+              <label>
+                <span>Days from due</span>
+                <input
+                  type="number"
+                  value={step.offsetDays}
+                  onChange={(event) => updateStep(step.id, { offsetDays: Number(event.target.value) || 0 })}
+                />
+              </label>
+              <label>
+                <span>Tone</span>
+                <select
+                  value={step.tone}
+                  onChange={(event) => updateStep(step.id, { tone: event.target.value as DunningTone })}
+                >
+                  {DUNNING_TONES.map((tone) => (
+                    <option key={tone} value={tone}>
+                      {tone}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <span className={`dunning-tone ${step.tone.toLowerCase()}`}>
+                {describeDunningOffset(step.offsetDays)}
+              </span>
+              <button
+                type="button"
+                className="ghost"
+                onClick={() => setDraftSteps(steps.filter((entry) => entry.id !== step.id))}
+              >
+                Remove
+              </button>
+            </div>
+            <label className="dunning-template">
+              <span>Subject</span>
+              <input value={step.subject} onChange={(event) => updateStep(step.id, { subject: event.target.value })} />
+            </label>
+            <label className="dunning-template">
+              <span>Message</span>
+              <textarea
+                rows={4}
+                value={step.body}
+                onChange={(event) => updateStep(step.id, { body: event.target.value })}
+              />
+            </label>
+          </div>
+        ))}
+      </div>
+      <div className="import-actions">
+        <button type="button" className="ghost" onClick={() => setDraftSteps([...steps, createDunningStep()])}>
+          Add step
+        </button>
+        <button type="button" className="ghost" disabled={!draftSteps} onClick={() => setDraftSteps(null)}>
+          Discard changes
+        </button>
+        <button type="button" className="outline" disabled={!draftSteps} onClick={handleSave}>
+          Save steps
+        </button>
+      </div>
+
+      {dueReminders.length ? (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Invoice</th>
+              <th>Step</th>
+              <th>Subject</th>
+            </tr>
+          </thead>
+          <tbody>
+            {dueReminders.map(({ invoice, step, daysFromDue }) => (
+              <tr key={`${invoice.id}-${step.id}`}>
+                <td>
+                  <strong>{invoice.invoiceNumber}</strong>
+                  <span className="import-narrative">{describeDunningOffset(daysFromDue)}</span>
+                </td>
+                <td>
+                  <span className={`dunning-tone ${step.tone.toLowerCase()}`}>{step.label}</span>
+                </td>
+                <td>{renderReminder(step, invoice, clients).subject}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+    </section>
+  )
+}
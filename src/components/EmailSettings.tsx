@@ -0,0 +1,113 @@
+import { downloadBlob } from '../lib/download'
+import { EMAIL_TRANSPORT_LABELS } from '../lib/email'
+import { clearMailbox, updateEmailSettings, useEmailSettings, useMailbox } from '../store/emailStore'
+import type { EmailTransportKind, MailboxEntry } from '../types'
+
+const EMAIL_TRANSPORTS = Object.keys(EMAIL_TRANSPORT_LABELS) as EmailTransportKind[]
+
+const handleDownload = (entry: MailboxEntry) => {
+  downloadBlob(new Blob([entry.raw], { type: 'message/rfc822' }), `${entry.id}.eml`)
+}
+
+export const EmailSettings = () => {
+  const settings = useEmailSettings()
+  const mailbox = useMailbox()
+
+  return (
+    <section className="module-card">
+      <header className="module-heading">
+        <div>
+          <h2>Email delivery</h2>
+          <p>
+            Invoices are sent through the selected transport. The local mailbox keeps the latest 20 messages on this
+            device so they can be opened as .eml files; large attachments are listed but not kept.
+          </p>
+        </div>
+        <button type="button" className="ghost" disabled={!mailbox.length} onClick={clearMailbox}>
+          Clear mailbox
+        </button>
+      </header>
+
+      <div className="settings-panel">
+        <div className="settings-row">
+          <div className="numbering-fields">
+            <label>
+              <span>Transport</span>
+              <select
+                value={settings.transport}
+                onChange={(event) => updateEmailSettings({ transport: event.target.value as EmailTransportKind })}
+              >
+                {EMAIL_TRANSPORTS.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {EMAIL_TRANSPORT_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <span>From address</span>
+              <input
+                type="email"
+                value={settings.fromAddress}
+                onChange={(event) => updateEmailSettings({ fromAddress: event.target.value })}
+              />
+            </label>
+            {settings.transport === 'smtp' ? (
+              <>
+                <label>
+                  <span>Relay URL</span>
+                  <input
+                    placeholder="ws://localhost:2525"
+                    value={settings.smtpRelayUrl}
+                    onChange={(event) => updateEmailSettings({ smtpRelayUrl: event.target.value })}
+                  />
+                </label>
+                <label>
+                  <span>HELO name</span>
+                  <input
+                    value={settings.smtpHeloName}
+                    onChange={(event) => updateEmailSettings({ smtpHeloName: event.target.value })}
+                  />
+                </label>
+              </>
+            ) : null}
+          </div>
+        </div>
+      </div>
+
+      {mailbox.length ? (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Sent</th>
+              <th>To</th>
+              <th>Subject</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {mailbox.map((entry) => (
+              <tr key={entry.id}>
+                <td>{new Date(entry.sentAt).toLocaleString('en-IN')}</td>
+                <td>{entry.to.join(', ')}</td>
+                <td>
+                  <strong>{entry.subject}</strong>
+                  {entry.attachmentNames.length ? (
+                    <span className="import-narrative">Attached: {entry.attachmentNames.join(', ')}</span>
+                  ) : null}
+                </td>
+                <td>
+                  <button type="button" className="ghost" onClick={() => handleDownload(entry)}>
+                    Download .eml
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="recurring-empty">The local mailbox is empty.</p>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react'
+import type { ChangeEvent } from 'react'
+import { formatDay } from '../lib/dates'
+import { BASE_CURRENCY, ExchangeRateError, parseExchangeRateCsv } from '../lib/exchangeRates'
+import { importExchangeRates, updateExchangeRate, useExchangeRates } from '../store/exchangeRateStore'
+import type { CurrencyCode } from '../types'
+
+export const ExchangeRateSettings = () => {
+  const rates = useExchangeRates()
+  const [drafts, setDrafts] = useState<Partial<Record<CurrencyCode, string>>>({})
+
+  const handleSave = (currency: CurrencyCode) => {
+    const draft = drafts[currency]
+    if (draft === undefined) {
+      return
+    }
+    try {
+      updateExchangeRate(currency, Number(draft))
+      setDrafts((prev) => ({ ...prev, [currency]: undefined }))
+    } catch (error) {
+      if (error instanceof ExchangeRateError) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    }
+  }
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) {
+      return
+    }
+    try {
+      const imported = parseExchangeRateCsv(await file.text(), formatDay(new Date()))
+      importExchangeRates(imported)
+      setDrafts({})
+      window.alert(`Imported ${imported.length} exchange ${imported.length === 1 ? 'rate' : 'rates'} from ${file.name}.`)
+    } catch (error) {
+      if (error instanceof ExchangeRateError) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    }
+  }
+
+  return (
+    <section className="module-card">
+      <header className="module-heading">
+        <div>
+          <h2>Exchange rates</h2>
+          <p>Rates to {BASE_CURRENCY} used for catalog pricing and reporting. Issued invoices keep their rate.</p>
+        </div>
+        <label className="file-picker">
+          Import CSV
+          <input type="file" accept=".csv,.txt" onChange={handleImport} />
+        </label>
+      </header>
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>Currency</th>
+            <th className="num">Rate ({BASE_CURRENCY})</th>
+            <th>Updated</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {Object.values(rates).map((rate) => (
+            <tr key={rate.currency}>
+              <td>
+                <strong>{rate.currency}</strong>
+              </td>
+              <td className="num">
+                {rate.currency === BASE_CURRENCY ? (
+                  '1.00'
+                ) : (
+                  <input
+                    className="rate-input"
+                    type="number"
+                    min={0}
+                    step="0.0001"
+                    value={drafts[rate.currency] ?? String(rate.rateToBase)}
+                    onChange={(event) => setDrafts((prev) => ({ ...prev, [rate.currency]: event.target.value }))}
+                  />
+                )}
+              </td>
+              <td>
+                {rate.updatedAt} • {rate.source}
+              </td>
+              <td className="num">
+                {rate.currency === BASE_CURRENCY ? null : (
+                  <button
+                    type="button"
+                    className="ghost"
+                    disabled={drafts[rate.currency] === undefined}
+                    onClick={() => handleSave(rate.currency)}
+                  >
+                    Save
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  )
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react'
+import { formatMoney } from '../lib/currency'
+import { createInstalment, getInstalmentTotal, splitIntoInstalments } from '../lib/instalments'
+import { subtractAmount } from '../lib/money'
+import type { CurrencyCode, Instalment } from '../types'
+
+type InstalmentPlanEditorProps = {
+  instalments: Instalment[]
+  currency: CurrencyCode
+  total: number
+  issueDate: string
+  dueDate: string
+  errors: Record<string, string>
+  showErrors: boolean
+  onChange: (instalments: Instalment[] | undefined) => void
+}
+
+const SPLIT_OPTIONS = [2, 3, 4, 6]
+
+export const InstalmentPlanEditor = ({
+  instalments,
+  currency,
+  total,
+  issueDate,
+  dueDate,
+  errors,
+  showErrors,
+  onChange,
+}: InstalmentPlanEditorProps) => {
+  const [splitCount, setSplitCount] = useState(3)
+  const scheduled = getInstalmentTotal(instalments)
+  const unscheduled = subtractAmount(total, scheduled)
+
+  const handleSplit = () => {
+    onChange(splitIntoInstalments(total, splitCount, issueDate, dueDate, currency))
+  }
+
+  const handleAdd = () => {
+    onChange([
+      ...instalments,
+      createInstalment(`Milestone ${instalments.length + 1}`, dueDate, Math.max(unscheduled, 0)),
+    ])
+  }
+
+  const handleFieldChange = <T extends keyof Instalment>(id: string, field: T, value: Instalment[T]) => {
+    onChange(instalments.map((instalment) => (instalment.id === id ? { ...instalment, [field]: value } : instalment)))
+  }
+
+  const handleRemove = (id: string) => {
+    const remaining = instalments.filter((instalment) => instalment.id !== id)
+    onChange(remaining.length ? remaining : undefined)
+  }
+
+  return (
+    <div className="form-section">
+      <div className="section-heading">
+        <h3>Instalment Plan</h3>
+        <span className="section-hint">Bill in milestones, each with its own due date.</span>
+      </div>
+      {instalments.length ? (
+        <>
+          <div className="instalment-list">
+            {instalments.map((instalment) => (
+              <div className="instalment-row" key={instalment.id}>
+                <label className="field">
+                  <span>Milestone</span>
+                  <input
+                    value={instalment.label}
+                    onChange={(event) => handleFieldChange(instalment.id, 'label', event.target.value)}
+                  />
+                </label>
+                <label className="field">
+                  <span>Due date</span>
+                  <input
+                    type="date"
+                    value={instalment.dueDate}
+                    onChange={(event) => handleFieldChange(instalment.id, 'dueDate', event.target.value)}
+                  />
+                </label>
+                <label className="field">
+                  <span>Amount ({currency})</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={instalment.amount}
+                    onChange={(event) => handleFieldChange(instalment.id, 'amount', Number(event.target.value) || 0)}
+                  />
+                </label>
+                <button type="button" className="ghost" onClick={() => handleRemove(instalment.id)}>
+                  Remove
+                </button>
+                {showErrors && errors[instalment.id] ? (
+                  <small className="field-error">{errors[instalment.id]}</small>
+                ) : null}
+              </div>
+            ))}
+          </div>
+          <p className="cell-sub">
+            {formatMoney(scheduled, currency)} of {formatMoney(total, currency)} scheduled
+            {unscheduled
+              ? ` • ${formatMoney(Math.abs(unscheduled), currency)} ${unscheduled > 0 ? 'still to schedule' : 'over'}`
+              : ''}
+          </p>
+          <div className="instalment-actions">
+            <button type="button" className="ghost" onClick={() => onChange(undefined)}>
+              Remove plan
+            </button>
+            <button type="button" className="outline" onClick={handleAdd}>
+              Add milestone
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="instalment-actions">
+          <select value={splitCount} onChange={(event) => setSplitCount(Number(event.target.value))}>
+            {SPLIT_OPTIONS.map((count) => (
+              <option key={count} value={count}>
+                {count} equal instalments
+              </option>
+            ))}
+          </select>
+          <button type="button" className="outline" onClick={handleSplit}>
+            Split invoice
+          </button>
+          <button type="button" className="outline" onClick={handleAdd}>
+            Add milestone
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
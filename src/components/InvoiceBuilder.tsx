@@ -1,73 +1,60 @@
 import { useEffect, useMemo, useRef, useState, type ChangeEvent } from 'react'
 import '../App.css'
-import { CLIENT_DIRECTORY, ORGANIZATION, PAYMENT_GATEWAY, SERVICE_CATALOG } from '../data'
+import { ORGANIZATION, PAYMENT_GATEWAY, SERVICE_CATALOG } from '../data'
+import { ClientDirectoryError, emptyClientDetails, toClientDetails } from '../lib/clients'
+import { createMoneyFormatter, CURRENCY_CODES, getCurrency } from '../lib/currency'
+import { addDays, formatDay } from '../lib/dates'
+import { downloadBlob } from '../lib/download'
+import {
+  BASE_CURRENCY,
+  convertAmount,
+  describeExchangeRate,
+  ExchangeRateError,
+  getInvoiceRate,
+} from '../lib/exchangeRates'
+import { describePlaceOfSupply } from '../lib/gst'
+import { generateId } from '../lib/ids'
+import { INSTALMENT_STATUS_TONE } from '../lib/instalments'
+import { normalizeFormState } from '../lib/invoiceForm'
+import { INVOICE_STATUS_TONE, InvoiceLifecycleError, isInvoiceLocked } from '../lib/invoiceLifecycle'
+import { renderInvoicePdf } from '../lib/invoicePdf'
+import { evaluateInvoiceStatus } from '../lib/invoiceStatus'
+import { calculateInvoiceTotals } from '../lib/invoiceTotals'
+import { createDraftNumber, isDraftNumber, NumberingError } from '../lib/numbering'
+import { subtractAmount } from '../lib/money'
+import { getPaymentOptions } from '../lib/paymentLinks'
+import { RecurringProfileError } from '../lib/recurring'
+import { readStoredJson } from '../lib/storage'
+import { countFormErrors, validateInvoiceForm } from '../lib/validation'
+import { useAdjustmentNotes } from '../store/adjustmentNoteStore'
+import { clientStore, createClient, useClients } from '../store/clientStore'
+import { useExchangeRates } from '../store/exchangeRateStore'
+import {
+  deleteDraftInvoice,
+  issueInvoiceFromForm,
+  saveInvoiceFromForm,
+  useInvoiceLedger,
+} from '../store/invoiceStore'
+import { useNumbering } from '../store/numberingStore'
+import { usePaymentTransactions } from '../store/paymentStore'
+import { createRecurringProfile } from '../store/recurringStore'
 import type {
   ClientDetails,
-  ClientProfile,
+  CurrencyCode,
+  Instalment,
+  InstalmentProgress,
   InvoiceFormState,
+  InvoiceMeta,
   LineItem,
   Service,
-  StoredInvoice,
 } from '../types'
+import { AdjustmentNotePanel } from './AdjustmentNotePanel'
+import { InstalmentPlanEditor } from './InstalmentPlanEditor'
+import { InvoiceEmailPanel } from './InvoiceEmailPanel'
+import { QrCode } from './QrCode'
 
-const currencyLocaleMap: Record<InvoiceFormState['currency'], string> = {
-  INR: 'en-IN',
-  USD: 'en-US',
-  EUR: 'de-DE',
-}
-
-const emptyClientDetails: ClientDetails = {
-  companyName: '',
-  contactName: '',
-  email: '',
-  phone: '',
-  addressLine1: '',
-  addressLine2: '',
-  city: '',
-  state: '',
-  postalCode: '',
-  country: '',
-  gstin: '',
-}
-
-const toClientDetails = (profile: ClientProfile): ClientDetails => ({
-  companyName: profile.companyName,
-  contactName: profile.contactName,
-  email: profile.email,
-  phone: profile.phone,
-  addressLine1: profile.addressLine1,
-  addressLine2: profile.addressLine2 ?? '',
-  city: profile.city,
-  state: profile.state,
-  postalCode: profile.postalCode,
-  country: profile.country,
-  gstin: profile.gstin ?? '',
-})
-
-const formatDateForInput = (date: Date) => date.toISOString().split('T')[0]
-
-const addDays = (date: Date, days: number) => {
-  const result = new Date(date)
-  result.setDate(result.getDate() + days)
-  return result
-}
-
-const generateId = () => Math.random().toString(36).slice(2, 10)
-
-const INVOICE_ARCHIVE_STORAGE_KEY = 'invoice-archive.v1'
 const INVOICE_DRAFT_STORAGE_KEY = 'invoice-draft.v1'
 
-const safeJsonParse = <T,>(value: string | null): T | null => {
-  if (!value) {
-    return null
-  }
-  try {
-    return JSON.parse(value) as T
-  } catch {
-    return null
-  }
-}
-
 const cloneFormState = (state: InvoiceFormState): InvoiceFormState => {
   const serialized = JSON.stringify(state)
   return JSON.parse(serialized) as InvoiceFormState
@@ -78,29 +65,33 @@ type DraftInvoicePayload = {
   formState: InvoiceFormState
 }
 
-const createLineItem = (service?: Service): LineItem => ({
+const DEFAULT_GST_RATE = 18
+
+const createLineItem = (service?: Service, defaultTaxRate = DEFAULT_GST_RATE): LineItem => ({
   id: generateId(),
   serviceId: service?.id ?? '',
   description: service?.description ?? '',
   quantity: 1,
   unitPrice: service?.unitRate ?? 0,
   discountRate: 0,
+  sacCode: service?.sacCode ?? '',
+  taxRate: service?.taxRate ?? defaultTaxRate,
   notes: '',
 })
 
 const createInitialState = (): InvoiceFormState => {
   const today = new Date()
-  const defaultClient = CLIENT_DIRECTORY[0]
+  const defaultClient = clientStore.getSnapshot().find((client) => !client.archived)
   return {
     clientSelectionId: defaultClient?.id ?? '',
     client: defaultClient ? toClientDetails(defaultClient) : { ...emptyClientDetails },
     currency: 'INR',
-    taxRate: 18,
+    taxRate: DEFAULT_GST_RATE,
     lineItems: [createLineItem(SERVICE_CATALOG[0])],
     meta: {
-      invoiceNumber: `ADS-${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}-${generateId()}`,
-      issueDate: formatDateForInput(today),
-      dueDate: formatDateForInput(addDays(today, 15)),
+      invoiceNumber: createDraftNumber(),
+      issueDate: formatDay(today),
+      dueDate: addDays(today, 15),
       projectName: 'Retainer Services',
       purchaseOrder: '',
       reference: '',
@@ -119,26 +110,32 @@ const serviceLookup = SERVICE_CATALOG.reduce<Record<string, Service>>((acc, serv
 export const InvoiceBuilder = () => {
   const [formState, setFormState] = useState<InvoiceFormState>(() => createInitialState())
   const [layoutMode, setLayoutMode] = useState<'split' | 'form' | 'preview'>('form')
-  const [savedInvoices, setSavedInvoices] = useState<StoredInvoice[]>(() => {
-    const stored = safeJsonParse<StoredInvoice[]>(
-      typeof window === 'undefined' ? null : window.localStorage.getItem(INVOICE_ARCHIVE_STORAGE_KEY),
-    )
-    return Array.isArray(stored) ? stored : []
-  })
   const [selectedSavedInvoiceId, setSelectedSavedInvoiceId] = useState('')
+  const [showValidation, setShowValidation] = useState(false)
   const [draftPayload, setDraftPayload] = useState<DraftInvoicePayload | null>(() => {
-    const stored = safeJsonParse<DraftInvoicePayload>(
-      typeof window === 'undefined' ? null : window.localStorage.getItem(INVOICE_DRAFT_STORAGE_KEY),
-    )
+    const stored = readStoredJson<DraftInvoicePayload>(INVOICE_DRAFT_STORAGE_KEY)
     return stored ?? null
   })
+  const ledger = useInvoiceLedger()
+  const savedInvoices = useMemo(() => ledger.filter((record) => record.formState), [ledger])
+  const selectedSavedInvoice = savedInvoices.find((record) => record.id === selectedSavedInvoiceId)
+  const clients = useClients()
+  const numbering = useNumbering()
+  const exchangeRates = useExchangeRates()
+  const transactions = usePaymentTransactions()
+  const adjustmentNotes = useAdjustmentNotes()
   const previewRef = useRef<HTMLDivElement>(null)
+  const formRef = useRef<HTMLFieldSetElement>(null)
   const hasUserSelectedLayout = useRef(false)
   const gatewayChannels = useMemo(() => PAYMENT_GATEWAY.channels.filter((channel) => channel.status !== 'Disabled'), [])
   const preferredGatewayChannel = useMemo(
     () => gatewayChannels.find((channel) => channel.status === 'Enabled') ?? gatewayChannels[0],
     [gatewayChannels],
   )
+  const selectableClients = useMemo(
+    () => clients.filter((client) => !client.archived || client.id === formState.clientSelectionId),
+    [clients, formState.clientSelectionId],
+  )
   const acceptedChannelSummary = useMemo(() => gatewayChannels.map((channel) => channel.label).join(' • '), [gatewayChannels])
 
   useEffect(() => {
@@ -167,13 +164,6 @@ export const InvoiceBuilder = () => {
     return () => mediaQuery.removeEventListener('change', listener)
   }, [])
 
-  useEffect(() => {
-    if (typeof window === 'undefined') {
-      return
-    }
-    window.localStorage.setItem(INVOICE_ARCHIVE_STORAGE_KEY, JSON.stringify(savedInvoices))
-  }, [savedInvoices])
-
   useEffect(() => {
     if (typeof window === 'undefined') {
       return
@@ -191,85 +181,106 @@ export const InvoiceBuilder = () => {
     return () => window.clearTimeout(handle)
   }, [formState])
 
-  const currencyFormatter = useMemo(
-    () =>
-      new Intl.NumberFormat(currencyLocaleMap[formState.currency], {
-        style: 'currency',
-        currency: formState.currency,
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
-      }),
-    [formState.currency],
-  )
+  const currencyFormatter = useMemo(() => createMoneyFormatter(formState.currency), [formState.currency])
+  const currencyLocale = getCurrency(formState.currency).locale
+  const formatSavedDate = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString(currencyLocale)
 
-  const totals = useMemo(() => {
-    const subtotal = formState.lineItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0)
-    const discountTotal = formState.lineItems.reduce(
-      (sum, item) => sum + (item.quantity * item.unitPrice * item.discountRate) / 100,
-      0,
-    )
-    const taxableAmount = Math.max(subtotal - discountTotal, 0)
-    const taxAmount = (taxableAmount * formState.taxRate) / 100
-    const total = taxableAmount + taxAmount
-    return {
-      subtotal,
-      discountTotal,
-      taxableAmount,
-      taxAmount,
-      total,
-    }
-  }, [formState.lineItems, formState.taxRate])
+  const totals = useMemo(() => calculateInvoiceTotals(formState), [formState])
+  const formErrors = useMemo(() => validateInvoiceForm(formState), [formState])
+  const formErrorCount = countFormErrors(formErrors)
 
-  const validateInvoice = (state: InvoiceFormState) => {
-    const issues: string[] = []
-    if (!state.meta.invoiceNumber.trim()) {
-      issues.push('Invoice number is required.')
-    }
-    if (!state.meta.issueDate.trim()) {
-      issues.push('Issue date is required.')
-    }
-    if (!state.meta.dueDate.trim()) {
-      issues.push('Due date is required.')
+  const ledgerRecord = useMemo(
+    () => ledger.find((record) => record.invoiceNumber === formState.meta.invoiceNumber.trim()),
+    [ledger, formState.meta.invoiceNumber],
+  )
+  const isLocked = ledgerRecord ? isInvoiceLocked(ledgerRecord.status) : false
+  // Issued invoices show what has been received against them; drafts only show the planned schedule.
+  const ledgerEvaluation = useMemo(
+    () =>
+      ledgerRecord && isLocked
+        ? evaluateInvoiceStatus(ledgerRecord, transactions, new Date(), adjustmentNotes)
+        : undefined,
+    [ledgerRecord, isLocked, transactions, adjustmentNotes],
+  )
+  const showBalance = Boolean(
+    ledgerEvaluation && (ledgerEvaluation.paidAmount > 0 || ledgerEvaluation.adjustedAmount !== totals.total),
+  )
+  const instalmentSchedule: Array<Instalment | InstalmentProgress> =
+    ledgerEvaluation?.instalments ?? formState.instalments ?? []
+  const hasInstalmentProgress = Boolean(ledgerEvaluation?.instalments)
+  const amountDue = ledgerEvaluation && showBalance ? ledgerEvaluation.outstanding : totals.total
+  // Draft numbers change on issue, so a link carrying one could never be matched to the receipt.
+  const paymentOptions = useMemo(
+    () =>
+      isDraftNumber(formState.meta.invoiceNumber)
+        ? []
+        : getPaymentOptions(
+            {
+              invoiceNumber: formState.meta.invoiceNumber.trim(),
+              amount: amountDue,
+              currency: formState.currency,
+              clientName: formState.client.companyName,
+            },
+            preferredGatewayChannel,
+          ),
+    [
+      formState.meta.invoiceNumber,
+      formState.currency,
+      formState.client.companyName,
+      amountDue,
+      preferredGatewayChannel,
+    ],
+  )
+  const exchangeRateLabel = useMemo(() => {
+    if (formState.currency === BASE_CURRENCY) {
+      return ''
     }
-    if (state.meta.issueDate && state.meta.dueDate) {
-      const issue = new Date(state.meta.issueDate)
-      const due = new Date(state.meta.dueDate)
-      if (!Number.isNaN(issue.getTime()) && !Number.isNaN(due.getTime()) && due.getTime() < issue.getTime()) {
-        issues.push('Due date must be on or after issue date.')
+    const lockedRate = isLocked ? ledgerRecord?.exchangeRate : undefined
+    const rate = getInvoiceRate({ currency: formState.currency, exchangeRate: lockedRate }, exchangeRates)
+    return describeExchangeRate(formState.currency, rate)
+  }, [formState.currency, isLocked, ledgerRecord, exchangeRates])
+
+  const persistToLedger = (state: InvoiceFormState = formState) => {
+    try {
+      return saveInvoiceFromForm(state)
+    } catch (error) {
+      if (error instanceof InvoiceLifecycleError) {
+        window.alert(error.message)
+        return undefined
       }
+      throw error
     }
-    if (!state.client.companyName.trim()) {
-      issues.push('Bill to company name is required.')
-    }
-    if (!state.client.addressLine1.trim()) {
-      issues.push('Bill to address line 1 is required.')
-    }
-    if (!state.client.city.trim()) {
-      issues.push('Bill to city is required.')
-    }
-    if (!state.client.state.trim()) {
-      issues.push('Bill to state is required.')
-    }
-    if (!state.client.postalCode.trim()) {
-      issues.push('Bill to postal code is required.')
-    }
-    if (!state.client.country.trim()) {
-      issues.push('Bill to country is required.')
-    }
-    if (!state.lineItems.length) {
-      issues.push('At least one line item is required.')
-    }
-    if (
-      state.lineItems.some((item) => !item.description.trim() || item.quantity <= 0 || item.unitPrice < 0 || item.discountRate < 0)
-    ) {
-      issues.push('Line items must include a description, quantity > 0, non-negative unit price, and non-negative discount.')
-    }
-    return issues
   }
 
+  const confirmDespiteErrors = (action: string) => {
+    setShowValidation(true)
+    return window.confirm(
+      `${formErrorCount} ${formErrorCount === 1 ? 'detail needs' : 'details need'} attention and ` +
+        `${formErrorCount === 1 ? 'is' : 'are'} highlighted in the form.\n\n${action} anyway?`,
+    )
+  }
+
+  // Blocking actions reveal every error and bring the first one into view instead of listing them in a dialog.
+  const revealErrors = () => {
+    setShowValidation(true)
+    window.requestAnimationFrame(() => {
+      formRef.current?.querySelector('.field-error')?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    })
+  }
+
+  const renderClientError = (field: keyof ClientDetails) => {
+    // Format problems show as soon as something is typed; missing values wait until an action is attempted.
+    const message =
+      showValidation || String(formState.client[field] ?? '').trim() ? formErrors.client[field] : undefined
+    return message ? <small className="field-error">{message}</small> : null
+  }
+
+  const renderMetaError = (field: keyof InvoiceMeta) =>
+    showValidation && formErrors.meta[field] ? <small className="field-error">{formErrors.meta[field]}</small> : null
+
   const handleClientSelectChange = (event: ChangeEvent<HTMLSelectElement>) => {
     const selectedId = event.target.value
-    const selectedProfile = CLIENT_DIRECTORY.find((client) => client.id === selectedId)
+    const selectedProfile = clients.find((client) => client.id === selectedId)
     setFormState((prev) => ({
       ...prev,
       clientSelectionId: selectedId,
@@ -277,6 +288,20 @@ export const InvoiceBuilder = () => {
     }))
   }
 
+  const handleSaveClient = () => {
+    try {
+      const client = createClient(formState.client)
+      setFormState((prev) => ({ ...prev, clientSelectionId: client.id }))
+      window.alert(`${client.companyName} was added to the client directory.`)
+    } catch (error) {
+      if (error instanceof ClientDirectoryError) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    }
+  }
+
   const handleClientDetailChange = (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = event.target
     setFormState((prev) => ({
@@ -300,11 +325,20 @@ export const InvoiceBuilder = () => {
   }
 
   const handleCurrencyChange = (event: ChangeEvent<HTMLSelectElement>) => {
-    const { value } = event.target
-    setFormState((prev) => ({
-      ...prev,
-      currency: value as InvoiceFormState['currency'],
-    }))
+    const nextCurrency = event.target.value as CurrencyCode
+    try {
+      const lineItems = formState.lineItems.map((item) => ({
+        ...item,
+        unitPrice: convertAmount(item.unitPrice, formState.currency, nextCurrency, exchangeRates),
+      }))
+      setFormState((prev) => ({ ...prev, currency: nextCurrency, lineItems }))
+    } catch (error) {
+      if (error instanceof ExchangeRateError) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    }
   }
 
   const handleTaxRateChange = (event: ChangeEvent<HTMLInputElement>) => {
@@ -322,6 +356,13 @@ export const InvoiceBuilder = () => {
     }))
   }
 
+  const handleInstalmentsChange = (instalments: Instalment[] | undefined) => {
+    setFormState((prev) => ({
+      ...prev,
+      instalments,
+    }))
+  }
+
   const handleAdditionalNoteChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
     setFormState((prev) => ({
       ...prev,
@@ -350,7 +391,11 @@ export const InvoiceBuilder = () => {
               ...item,
               serviceId,
               description: service ? service.description : item.description,
-              unitPrice: service ? service.unitRate : item.unitPrice,
+              unitPrice: service
+                ? convertAmount(service.unitRate, BASE_CURRENCY, prev.currency, exchangeRates)
+                : item.unitPrice,
+              sacCode: service ? service.sacCode : item.sacCode,
+              taxRate: service ? service.taxRate : item.taxRate,
             }
           : item,
       ),
@@ -360,7 +405,7 @@ export const InvoiceBuilder = () => {
   const handleAddLineItem = () => {
     setFormState((prev) => ({
       ...prev,
-      lineItems: [...prev.lineItems, createLineItem()],
+      lineItems: [...prev.lineItems, createLineItem(undefined, prev.taxRate)],
     }))
   }
 
@@ -373,91 +418,83 @@ export const InvoiceBuilder = () => {
 
   const handleNewInvoice = () => {
     setFormState(createInitialState())
+    setShowValidation(false)
     setSelectedSavedInvoiceId('')
     previewRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' })
   }
 
   const handleRegenerateInvoiceNumber = () => {
-    const today = new Date()
-    const invoiceNumber = `ADS-${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(
-      2,
-      '0',
-    )}-${generateId()}`
     setFormState((prev) => ({
       ...prev,
       meta: {
         ...prev.meta,
-        invoiceNumber,
+        invoiceNumber: createDraftNumber(),
       },
     }))
   }
 
-  const handleSaveInvoiceCopy = () => {
-    const issues = validateInvoice(formState)
-    if (issues.length && typeof window !== 'undefined') {
-      const proceed = window.confirm(`Some details are missing:\n\n${issues.join('\n')}\n\nSave anyway?`)
-      if (!proceed) {
-        return
-      }
+  const handleSaveInvoice = () => {
+    if (formErrorCount && !confirmDespiteErrors('Save')) {
+      return
     }
-
-    const savedAt = new Date().toISOString()
-    const invoice: StoredInvoice = {
-      id: generateId(),
-      invoiceNumber: formState.meta.invoiceNumber,
-      savedAt,
-      formState: cloneFormState(formState),
+    const record = persistToLedger()
+    if (record) {
+      setSelectedSavedInvoiceId(record.id)
     }
-    setSavedInvoices((prev) => [invoice, ...prev])
-    setSelectedSavedInvoiceId(invoice.id)
   }
 
-  const handleUpdateSavedInvoiceCopy = () => {
-    if (!selectedSavedInvoiceId) {
+  // A duplicate is a new draft, so it never inherits the source invoice's number.
+  const handleDuplicateSavedInvoice = () => {
+    const duplicate = cloneFormState(formState)
+    duplicate.meta.invoiceNumber = createDraftNumber()
+    const record = persistToLedger(duplicate)
+    if (!record) {
       return
     }
+    setFormState(duplicate)
+    setSelectedSavedInvoiceId(record.id)
+  }
 
-    const issues = validateInvoice(formState)
-    if (issues.length && typeof window !== 'undefined') {
-      const proceed = window.confirm(`Some details are missing:\n\n${issues.join('\n')}\n\nUpdate anyway?`)
-      if (!proceed) {
+  const handleIssueInvoice = () => {
+    if (formErrorCount) {
+      revealErrors()
+      return
+    }
+    try {
+      const issued = issueInvoiceFromForm(formState)
+      setFormState((prev) => ({ ...prev, meta: { ...prev.meta, invoiceNumber: issued.invoiceNumber } }))
+    } catch (error) {
+      if (error instanceof InvoiceLifecycleError || error instanceof NumberingError) {
+        window.alert(error.message)
         return
       }
+      throw error
     }
-
-    const savedAt = new Date().toISOString()
-    setSavedInvoices((prev) =>
-      prev.map((inv) =>
-        inv.id === selectedSavedInvoiceId
-          ? {
-              ...inv,
-              invoiceNumber: formState.meta.invoiceNumber,
-              savedAt,
-              formState: cloneFormState(formState),
-            }
-          : inv,
-      ),
-    )
   }
 
-  const handleDuplicateSavedInvoiceCopy = () => {
-    const savedAt = new Date().toISOString()
-    const invoice: StoredInvoice = {
-      id: generateId(),
-      invoiceNumber: formState.meta.invoiceNumber,
-      savedAt,
-      formState: cloneFormState(formState),
+  const handleMakeRecurring = () => {
+    if (formErrorCount) {
+      revealErrors()
+      return
+    }
+    try {
+      const profile = createRecurringProfile(formState)
+      window.alert(`"${profile.name}" repeats monthly from ${profile.startDate}. Adjust it under Recurring billing.`)
+    } catch (error) {
+      if (error instanceof RecurringProfileError) {
+        window.alert(error.message)
+        return
+      }
+      throw error
     }
-    setSavedInvoices((prev) => [invoice, ...prev])
-    setSelectedSavedInvoiceId(invoice.id)
   }
 
   const handleLoadSavedInvoice = (id: string) => {
     const match = savedInvoices.find((inv) => inv.id === id)
-    if (!match) {
+    if (!match?.formState) {
       return
     }
-    setFormState(cloneFormState(match.formState))
+    setFormState(normalizeFormState(cloneFormState(match.formState)))
     setSelectedSavedInvoiceId(match.id)
     hasUserSelectedLayout.current = true
     setLayoutMode('preview')
@@ -466,12 +503,20 @@ export const InvoiceBuilder = () => {
 
   const handleDeleteSavedInvoice = (id: string) => {
     if (typeof window !== 'undefined') {
-      const ok = window.confirm('Delete this saved invoice copy?')
+      const ok = window.confirm('Delete this draft invoice?')
       if (!ok) {
         return
       }
     }
-    setSavedInvoices((prev) => prev.filter((inv) => inv.id !== id))
+    try {
+      deleteDraftInvoice(id)
+    } catch (error) {
+      if (error instanceof InvoiceLifecycleError) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    }
     if (selectedSavedInvoiceId === id) {
       setSelectedSavedInvoiceId('')
     }
@@ -483,52 +528,37 @@ export const InvoiceBuilder = () => {
       return
     }
     const payload = JSON.stringify(match, null, 2)
-    const blob = new Blob([payload], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    const anchor = document.createElement('a')
-    anchor.href = url
-    anchor.download = `${match.invoiceNumber || 'invoice'}-${match.id}.json`
-    document.body.appendChild(anchor)
-    anchor.click()
-    anchor.remove()
-    URL.revokeObjectURL(url)
+    downloadBlob(new Blob([payload], { type: 'application/json' }), `${match.invoiceNumber || 'invoice'}-${match.id}.json`)
   }
 
   const handleGenerateInvoice = () => {
     previewRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' })
   }
 
-  const handlePrintInvoice = () => {
-    if (typeof window !== 'undefined') {
-      const issues = validateInvoice(formState)
-      if (issues.length) {
-        const proceed = window.confirm(`Some details are missing:\n\n${issues.join('\n')}\n\nContinue to print?`)
-        if (!proceed) {
-          return
-        }
-      }
-
-      const previousLayoutMode = layoutMode
-      const previousUserSelection = hasUserSelectedLayout.current
-      hasUserSelectedLayout.current = true
-      setLayoutMode('preview')
-
-      const restore = () => {
-        window.removeEventListener('afterprint', restore)
-        hasUserSelectedLayout.current = previousUserSelection
-        setLayoutMode(previousLayoutMode)
-      }
-
-      window.addEventListener('afterprint', restore)
-      window.setTimeout(() => window.print(), 50)
+  const renderPdf = () =>
+    renderInvoicePdf({
+      formState,
+      totals,
+      acceptedMethods: acceptedChannelSummary,
+      exchangeRateLabel,
+      balance: ledgerEvaluation,
+      instalments: instalmentSchedule,
+      paymentOptions,
+    })
+
+  const handleDownloadPdf = () => {
+    if (formErrorCount && !confirmDespiteErrors('Download')) {
+      return
     }
+
+    downloadBlob(renderPdf(), `${formState.meta.invoiceNumber || 'invoice'}.pdf`)
   }
 
   const handleRestoreDraft = () => {
     if (!draftPayload) {
       return
     }
-    setFormState(cloneFormState(draftPayload.formState))
+    setFormState(normalizeFormState(cloneFormState(draftPayload.formState)))
     hasUserSelectedLayout.current = true
     setLayoutMode('form')
   }
@@ -579,19 +609,25 @@ export const InvoiceBuilder = () => {
         <button type="button" className="primary" onClick={handleGenerateInvoice}>
           Generate Invoice Preview
         </button>
-        <button type="button" className="outline" onClick={handlePrintInvoice}>
-          Print Invoice
+        <button type="button" className="outline" onClick={handleDownloadPdf}>
+          Download PDF
+        </button>
+        <button type="button" className="outline" onClick={handleSaveInvoice} disabled={isLocked}>
+          Save draft
         </button>
-        <button type="button" className="outline" onClick={handleSaveInvoiceCopy}>
-          Save copy
+        <button type="button" className="outline" onClick={handleIssueInvoice} disabled={isLocked}>
+          Issue invoice
+        </button>
+        <button type="button" className="outline" onClick={handleMakeRecurring}>
+          Make recurring
         </button>
         <button type="button" className="ghost" onClick={handleRegenerateInvoiceNumber}>
-          Regenerate invoice #
+          New draft #
         </button>
         <button type="button" className="ghost" onClick={handleNewInvoice}>
           New invoice
         </button>
-        <div className="archive-controls" aria-label="Saved invoice archive">
+        <div className="archive-controls" aria-label="Saved invoices">
           <select
             value={selectedSavedInvoiceId}
             onChange={(event) => {
@@ -602,10 +638,10 @@ export const InvoiceBuilder = () => {
               }
             }}
           >
-            <option value="">Saved copies</option>
+            <option value="">Saved invoices</option>
             {savedInvoices.map((inv) => (
               <option key={inv.id} value={inv.id}>
-                {inv.invoiceNumber} • {new Date(inv.savedAt).toLocaleDateString(currencyLocaleMap[formState.currency])}
+                {`${inv.invoiceNumber} • ${inv.status} • ${formatSavedDate(inv.lastUpdated)}`}
               </option>
             ))}
           </select>
@@ -617,21 +653,13 @@ export const InvoiceBuilder = () => {
           >
             Export JSON
           </button>
-          <button
-            type="button"
-            className="ghost"
-            disabled={!selectedSavedInvoiceId}
-            onClick={handleUpdateSavedInvoiceCopy}
-          >
-            Update copy
-          </button>
-          <button type="button" className="ghost" onClick={handleDuplicateSavedInvoiceCopy}>
+          <button type="button" className="ghost" onClick={handleDuplicateSavedInvoice}>
             Duplicate
           </button>
           <button
             type="button"
             className="ghost"
-            disabled={!selectedSavedInvoiceId}
+            disabled={!selectedSavedInvoice || isInvoiceLocked(selectedSavedInvoice.status)}
             onClick={() => handleDeleteSavedInvoice(selectedSavedInvoiceId)}
           >
             Delete
@@ -665,7 +693,7 @@ export const InvoiceBuilder = () => {
       {draftPayload ? (
         <div className="draft-banner">
           <p>
-            Draft auto-saved {new Date(draftPayload.savedAt).toLocaleString(currencyLocaleMap[formState.currency])}
+            Draft auto-saved {new Date(draftPayload.savedAt).toLocaleString(currencyLocale)}
           </p>
           <div className="draft-actions">
             <button type="button" className="ghost" onClick={handleRestoreDraft}>
@@ -681,323 +709,403 @@ export const InvoiceBuilder = () => {
       <main className={workspaceClassName}>
         <section className={formPanelClassName}>
           <h2>Invoice Builder</h2>
-
-          <div className="form-section">
-            <div className="section-heading">
-              <h3>Client Information</h3>
-              <span className="section-hint">Select an existing client or customise details.</span>
+          {ledgerRecord && isLocked ? (
+            <div className="lock-banner">
+              <span className={`status-chip ${INVOICE_STATUS_TONE[ledgerRecord.status]}`}>{ledgerRecord.status}</span>
+              <p>
+                Invoice {ledgerRecord.invoiceNumber} has been issued and is read-only. Corrections require a credit note.
+              </p>
             </div>
-            <div className="field-grid">
-              <label className="field">
-                <span>Client profile</span>
-                <select value={formState.clientSelectionId} onChange={handleClientSelectChange}>
-                  <option value="">Custom client</option>
-                  {CLIENT_DIRECTORY.map((client) => (
-                    <option key={client.id} value={client.id}>
-                      {client.companyName}
-                    </option>
-                  ))}
-                </select>
-              </label>
-              <label className="field">
-                <span>Company name</span>
-                <input
-                  name="companyName"
-                  value={formState.client.companyName}
-                  onChange={handleClientDetailChange}
-                  placeholder="Enter client company"
-                />
-              </label>
-              <label className="field">
-                <span>Primary contact</span>
-                <input
-                  name="contactName"
-                  value={formState.client.contactName}
-                  onChange={handleClientDetailChange}
-                  placeholder="Requester name"
-                />
-              </label>
-              <label className="field">
-                <span>Email</span>
-                <input
-                  name="email"
-                  type="email"
-                  value={formState.client.email}
-                  onChange={handleClientDetailChange}
-                  placeholder="billing@email.com"
-                />
-              </label>
-              <label className="field">
-                <span>Phone</span>
-                <input
-                  name="phone"
-                  value={formState.client.phone}
-                  onChange={handleClientDetailChange}
-                  placeholder="+91"
-                />
-              </label>
-              <label className="field">
-                <span>GSTIN / Tax ID</span>
-                <input
-                  name="gstin"
-                  value={formState.client.gstin ?? ''}
-                  onChange={handleClientDetailChange}
-                  placeholder="Tax registration"
-                />
-              </label>
-              <label className="field field-wide">
-                <span>Address line 1</span>
-                <input
-                  name="addressLine1"
-                  value={formState.client.addressLine1}
-                  onChange={handleClientDetailChange}
-                  placeholder="Street address"
-                />
-              </label>
-              <label className="field field-wide">
-                <span>Address line 2</span>
-                <input
-                  name="addressLine2"
-                  value={formState.client.addressLine2 ?? ''}
-                  onChange={handleClientDetailChange}
-                  placeholder="Suite, floor, etc."
-                />
-              </label>
-              <label className="field">
-                <span>City</span>
-                <input
-                  name="city"
-                  value={formState.client.city}
-                  onChange={handleClientDetailChange}
-                  placeholder="City"
-                />
-              </label>
-              <label className="field">
-                <span>State</span>
-                <input
-                  name="state"
-                  value={formState.client.state}
-                  onChange={handleClientDetailChange}
-                  placeholder="State"
-                />
-              </label>
-              <label className="field">
-                <span>Postal code</span>
-                <input
-                  name="postalCode"
-                  value={formState.client.postalCode}
-                  onChange={handleClientDetailChange}
-                  placeholder="Postal code"
-                />
-              </label>
-              <label className="field">
-                <span>Country</span>
-                <input
-                  name="country"
-                  value={formState.client.country}
-                  onChange={handleClientDetailChange}
-                  placeholder="Country"
-                />
-              </label>
+          ) : null}
+          {ledgerRecord && isLocked ? <AdjustmentNotePanel invoice={ledgerRecord} /> : null}
+          {ledgerRecord && isLocked ? (
+            <InvoiceEmailPanel
+              invoice={ledgerRecord}
+              formState={formState}
+              total={totals.total}
+              renderPdf={renderPdf}
+            />
+          ) : null}
+          <fieldset className="form-lock" disabled={isLocked} ref={formRef}>
+            <div className="form-section">
+              <div className="section-heading">
+                <h3>Client Information</h3>
+                <span className="section-hint">Select an existing client or customise details.</span>
+                {formState.clientSelectionId ? null : (
+                  <button type="button" className="ghost" onClick={handleSaveClient}>
+                    Save as new client
+                  </button>
+                )}
+              </div>
+              <div className="field-grid">
+                <label className="field">
+                  <span>Client profile</span>
+                  <select value={formState.clientSelectionId} onChange={handleClientSelectChange}>
+                    <option value="">Custom client</option>
+                    {selectableClients.map((client) => (
+                      <option key={client.id} value={client.id}>
+                        {client.companyName}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="field">
+                  <span>Company name</span>
+                  <input
+                    name="companyName"
+                    value={formState.client.companyName}
+                    onChange={handleClientDetailChange}
+                    placeholder="Enter client company"
+                  />
+                  {renderClientError('companyName')}
+                </label>
+                <label className="field">
+                  <span>Primary contact</span>
+                  <input
+                    name="contactName"
+                    value={formState.client.contactName}
+                    onChange={handleClientDetailChange}
+                    placeholder="Requester name"
+                  />
+                  {renderClientError('contactName')}
+                </label>
+                <label className="field">
+                  <span>Email</span>
+                  <input
+                    name="email"
+                    type="email"
+                    value={formState.client.email}
+                    onChange={handleClientDetailChange}
+                    placeholder="billing@email.com"
+                  />
+                  {renderClientError('email')}
+                </label>
+                <label className="field">
+                  <span>Phone</span>
+                  <input
+                    name="phone"
+                    value={formState.client.phone}
+                    onChange={handleClientDetailChange}
+                    placeholder="+91"
+                  />
+                  {renderClientError('phone')}
+                </label>
+                <label className="field">
+                  <span>GSTIN / Tax ID</span>
+                  <input
+                    name="gstin"
+                    value={formState.client.gstin ?? ''}
+                    onChange={handleClientDetailChange}
+                    placeholder="Tax registration"
+                  />
+                  {renderClientError('gstin')}
+                </label>
+                <label className="field field-wide">
+                  <span>Address line 1</span>
+                  <input
+                    name="addressLine1"
+                    value={formState.client.addressLine1}
+                    onChange={handleClientDetailChange}
+                    placeholder="Street address"
+                  />
+                  {renderClientError('addressLine1')}
+                </label>
+                <label className="field field-wide">
+                  <span>Address line 2</span>
+                  <input
+                    name="addressLine2"
+                    value={formState.client.addressLine2 ?? ''}
+                    onChange={handleClientDetailChange}
+                    placeholder="Suite, floor, etc."
+                  />
+                </label>
+                <label className="field">
+                  <span>City</span>
+                  <input
+                    name="city"
+                    value={formState.client.city}
+                    onChange={handleClientDetailChange}
+                    placeholder="City"
+                  />
+                  {renderClientError('city')}
+                </label>
+                <label className="field">
+                  <span>State</span>
+                  <input
+                    name="state"
+                    value={formState.client.state}
+                    onChange={handleClientDetailChange}
+                    placeholder="State"
+                  />
+                  {renderClientError('state')}
+                </label>
+                <label className="field">
+                  <span>Postal code</span>
+                  <input
+                    name="postalCode"
+                    value={formState.client.postalCode}
+                    onChange={handleClientDetailChange}
+                    placeholder="Postal code"
+                  />
+                  {renderClientError('postalCode')}
+                </label>
+                <label className="field">
+                  <span>Country</span>
+                  <input
+                    name="country"
+                    value={formState.client.country}
+                    onChange={handleClientDetailChange}
+                    placeholder="Country"
+                  />
+                  {renderClientError('country')}
+                </label>
+              </div>
             </div>
-          </div>
 
-          <div className="form-section">
-            <div className="section-heading">
-              <h3>Invoice Details</h3>
-              <span className="section-hint">Standardised identifiers for finance reconciliation.</span>
-            </div>
-            <div className="field-grid">
-              <label className="field">
-                <span>Invoice number</span>
-                <input
-                  name="invoiceNumber"
-                  value={formState.meta.invoiceNumber}
-                  onChange={handleMetaChange}
-                />
-              </label>
-              <label className="field">
-                <span>Issue date</span>
-                <input
-                  type="date"
-                  name="issueDate"
-                  value={formState.meta.issueDate}
-                  onChange={handleMetaChange}
-                />
-              </label>
-              <label className="field">
-                <span>Due date</span>
-                <input type="date" name="dueDate" value={formState.meta.dueDate} onChange={handleMetaChange} />
-              </label>
-              <label className="field">
-                <span>Project / engagement</span>
-                <input
-                  name="projectName"
-                  value={formState.meta.projectName}
-                  onChange={handleMetaChange}
-                  placeholder="e.g. Digital Growth Retainer"
-                />
-              </label>
-              <label className="field">
-                <span>Purchase order</span>
-                <input
-                  name="purchaseOrder"
-                  value={formState.meta.purchaseOrder}
-                  onChange={handleMetaChange}
-                  placeholder="Optional reference"
-                />
-              </label>
-              <label className="field">
-                <span>Internal reference</span>
-                <input
-                  name="reference"
-                  value={formState.meta.reference}
-                  onChange={handleMetaChange}
-                  placeholder="Account manager, etc."
-                />
-              </label>
-              <label className="field">
-                <span>Currency</span>
-                <select value={formState.currency} onChange={handleCurrencyChange}>
-                  <option value="INR">INR</option>
-                  <option value="USD">USD</option>
-                  <option value="EUR">EUR</option>
-                </select>
-              </label>
-              <label className="field">
-                <span>Tax rate (%)</span>
-                <input
-                  type="number"
-                  min={0}
-                  step={0.5}
-                  value={formState.taxRate}
-                  onChange={handleTaxRateChange}
-                />
-              </label>
+            <div className="form-section">
+              <div className="section-heading">
+                <h3>Invoice Details</h3>
+                <span className="section-hint">Standardised identifiers for finance reconciliation.</span>
+              </div>
+              <div className="field-grid">
+                <label className="field">
+                  <span>Invoice number</span>
+                  <input name="invoiceNumber" value={formState.meta.invoiceNumber} readOnly />
+                  <small className="cell-sub">
+                    {isDraftNumber(formState.meta.invoiceNumber)
+                      ? `Next ${numbering.series.invoice.prefix} number is assigned when the invoice is issued.`
+                      : 'Allocated from the invoice series.'}
+                  </small>
+                </label>
+                <label className="field">
+                  <span>Issue date</span>
+                  <input
+                    type="date"
+                    name="issueDate"
+                    value={formState.meta.issueDate}
+                    onChange={handleMetaChange}
+                  />
+                  {renderMetaError('issueDate')}
+                </label>
+                <label className="field">
+                  <span>Due date</span>
+                  <input type="date" name="dueDate" value={formState.meta.dueDate} onChange={handleMetaChange} />
+                  {renderMetaError('dueDate')}
+                </label>
+                <label className="field">
+                  <span>Project / engagement</span>
+                  <input
+                    name="projectName"
+                    value={formState.meta.projectName}
+                    onChange={handleMetaChange}
+                    placeholder="e.g. Digital Growth Retainer"
+                  />
+                </label>
+                <label className="field">
+                  <span>Purchase order</span>
+                  <input
+                    name="purchaseOrder"
+                    value={formState.meta.purchaseOrder}
+                    onChange={handleMetaChange}
+                    placeholder="Optional reference"
+                  />
+                </label>
+                <label className="field">
+                  <span>Internal reference</span>
+                  <input
+                    name="reference"
+                    value={formState.meta.reference}
+                    onChange={handleMetaChange}
+                    placeholder="Account manager, etc."
+                  />
+                </label>
+                <label className="field">
+                  <span>Currency</span>
+                  <select value={formState.currency} onChange={handleCurrencyChange}>
+                    {CURRENCY_CODES.map((code) => (
+                      <option key={code} value={code}>
+                        {code} — {getCurrency(code).name}
+                      </option>
+                    ))}
+                  </select>
+                  {exchangeRateLabel ? (
+                    <small className="cell-sub">
+                      {isLocked ? 'Locked at issue' : 'Catalog prices converted at'} {exchangeRateLabel}
+                    </small>
+                  ) : null}
+                </label>
+                <label className="field">
+                  <span>Default GST rate (%)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={formState.taxRate}
+                    onChange={handleTaxRateChange}
+                  />
+                  <small className="cell-sub">
+                    {totals.tax.supplyType === 'intra-state' ? 'Intra-state supply' : 'Inter-state supply'} • Place of supply{' '}
+                    {describePlaceOfSupply(totals.tax.placeOfSupply)}
+                  </small>
+                </label>
+              </div>
             </div>
-          </div>
 
-          <div className="form-section">
-            <div className="section-heading">
-              <h3>Line Items</h3>
-              <span className="section-hint">Select billable services and tailor descriptions per engagement.</span>
-            </div>
-            <div className="line-items-table">
-              <div className="line-items-track">
-                <div className="table-head">
-                  <span>Service</span>
-                  <span>Description</span>
-                  <span>Unit price</span>
-                  <span>Quantity</span>
-                  <span>Discount %</span>
-                  <span>Amount</span>
-                  <span></span>
-                </div>
-                {formState.lineItems.map((item) => {
-                  const service = item.serviceId ? serviceLookup[item.serviceId] : undefined
-                  const lineBase = item.quantity * item.unitPrice
-                  const lineDiscount = (lineBase * item.discountRate) / 100
-                  const lineTotal = lineBase - lineDiscount
-                  return (
-                    <div className="table-row" key={item.id}>
-                      <div className="cell">
-                        <select value={item.serviceId} onChange={(event) => handleServiceChange(item.id, event.target.value)}>
-                          <option value="">Select service</option>
-                          {SERVICE_CATALOG.map((svc) => (
-                            <option key={svc.id} value={svc.id}>
-                              {svc.name}
-                            </option>
-                          ))}
-                        </select>
-                        {service ? <small className="cell-sub">{service.unit}</small> : null}
-                      </div>
-                      <div className="cell">
-                        <textarea
-                          value={item.description}
-                          onChange={(event) => handleLineItemFieldChange(item.id, 'description', event.target.value)}
-                          rows={3}
-                        />
-                        <textarea
-                          className="note"
-                          placeholder="Internal notes or deliverable highlights (optional)"
-                          value={item.notes ?? ''}
-                          onChange={(event) => handleLineItemFieldChange(item.id, 'notes', event.target.value)}
-                          rows={2}
-                        />
-                      </div>
-                      <div className="cell">
-                        <input
-                          type="number"
-                          min={0}
-                          step={0.01}
-                          value={item.unitPrice}
-                          onChange={(event) =>
-                            handleLineItemFieldChange(item.id, 'unitPrice', Number(event.target.value) || 0)
-                          }
-                        />
-                      </div>
-                      <div className="cell">
-                        <input
-                          type="number"
-                          min={0}
-                          step={0.5}
-                          value={item.quantity}
-                          onChange={(event) =>
-                            handleLineItemFieldChange(item.id, 'quantity', Number(event.target.value) || 0)
-                          }
-                        />
-                      </div>
-                      <div className="cell">
-                        <input
-                          type="number"
-                          min={0}
-                          max={100}
-                          step={0.5}
-                          value={item.discountRate}
-                          onChange={(event) =>
-                            handleLineItemFieldChange(item.id, 'discountRate', Number(event.target.value) || 0)
-                          }
-                        />
-                      </div>
-                      <div className="cell monetary">{currencyFormatter.format(lineTotal || 0)}</div>
-                      <div className="cell actions">
-                        <button type="button" className="ghost" onClick={() => handleRemoveLineItem(item.id)}>
-                          Remove
-                        </button>
+            <div className="form-section">
+              <div className="section-heading">
+                <h3>Line Items</h3>
+                <span className="section-hint">Select billable services and tailor descriptions per engagement.</span>
+              </div>
+              <div className="line-items-table">
+                <div className="line-items-track">
+                  <div className="table-head">
+                    <span>Service</span>
+                    <span>Description</span>
+                    <span>Unit price</span>
+                    <span>Quantity</span>
+                    <span>Discount %</span>
+                    <span>SAC / GST %</span>
+                    <span>Amount</span>
+                    <span></span>
+                  </div>
+                  {formState.lineItems.map((item, index) => {
+                    const service = item.serviceId ? serviceLookup[item.serviceId] : undefined
+                    const { lineTotal } = totals.lines[index]
+                    return (
+                      <div className="table-row" key={item.id}>
+                        <div className="cell">
+                          <select value={item.serviceId} onChange={(event) => handleServiceChange(item.id, event.target.value)}>
+                            <option value="">Select service</option>
+                            {SERVICE_CATALOG.map((svc) => (
+                              <option key={svc.id} value={svc.id}>
+                                {svc.name}
+                              </option>
+                            ))}
+                          </select>
+                          {service ? <small className="cell-sub">{service.unit}</small> : null}
+                        </div>
+                        <div className="cell">
+                          <textarea
+                            value={item.description}
+                            onChange={(event) => handleLineItemFieldChange(item.id, 'description', event.target.value)}
+                            rows={3}
+                          />
+                          {showValidation && formErrors.lineItems[item.id] ? (
+                            <small className="field-error">{formErrors.lineItems[item.id]}</small>
+                          ) : null}
+                          <textarea
+                            className="note"
+                            placeholder="Internal notes or deliverable highlights (optional)"
+                            value={item.notes ?? ''}
+                            onChange={(event) => handleLineItemFieldChange(item.id, 'notes', event.target.value)}
+                            rows={2}
+                          />
+                        </div>
+                        <div className="cell">
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.01}
+                            value={item.unitPrice}
+                            onChange={(event) =>
+                              handleLineItemFieldChange(item.id, 'unitPrice', Number(event.target.value) || 0)
+                            }
+                          />
+                        </div>
+                        <div className="cell">
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={item.quantity}
+                            onChange={(event) =>
+                              handleLineItemFieldChange(item.id, 'quantity', Number(event.target.value) || 0)
+                            }
+                          />
+                        </div>
+                        <div className="cell">
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            step={0.5}
+                            value={item.discountRate}
+                            onChange={(event) =>
+                              handleLineItemFieldChange(item.id, 'discountRate', Number(event.target.value) || 0)
+                            }
+                          />
+                        </div>
+                        <div className="cell">
+                          <input
+                            value={item.sacCode}
+                            placeholder="SAC / HSN"
+                            onChange={(event) => handleLineItemFieldChange(item.id, 'sacCode', event.target.value)}
+                          />
+                          <input
+                            type="number"
+                            min={0}
+                            max={28}
+                            step={0.25}
+                            value={item.taxRate}
+                            onChange={(event) =>
+                              handleLineItemFieldChange(item.id, 'taxRate', Math.max(Number(event.target.value) || 0, 0))
+                            }
+                          />
+                        </div>
+                        <div className="cell monetary">{currencyFormatter.format(lineTotal || 0)}</div>
+                        <div className="cell actions">
+                          <button type="button" className="ghost" onClick={() => handleRemoveLineItem(item.id)}>
+                            Remove
+                          </button>
+                        </div>
                       </div>
-                    </div>
-                  )
-                })}
+                    )
+                  })}
+                </div>
+              </div>
+              {showValidation && formErrors.general.length ? (
+                <small className="field-error">{formErrors.general.join(' ')}</small>
+              ) : null}
+              <div className="line-item-actions">
+                <button type="button" className="outline" onClick={handleAddLineItem}>
+                  Add line item
+                </button>
               </div>
             </div>
-            <div className="line-item-actions">
-              <button type="button" className="outline" onClick={handleAddLineItem}>
-                Add line item
-              </button>
-            </div>
-          </div>
 
-          <div className="form-section">
-            <div className="section-heading">
-              <h3>Terms &amp; Notes</h3>
-              <span className="section-hint">Set payment expectations and contextual remarks.</span>
-            </div>
-            <div className="field-grid single">
-              <label className="field field-wide">
-                <span>Payment terms</span>
-                <textarea value={formState.terms} rows={4} onChange={handleTermsChange} />
-              </label>
-              <label className="field field-wide">
-                <span>Additional note</span>
-                <textarea
-                  value={formState.additionalNote}
-                  rows={3}
-                  placeholder="Thank you message, delivery summary, or contextual briefing."
-                  onChange={handleAdditionalNoteChange}
-                />
-              </label>
+            <InstalmentPlanEditor
+              instalments={formState.instalments ?? []}
+              currency={formState.currency}
+              total={totals.total}
+              issueDate={formState.meta.issueDate}
+              dueDate={formState.meta.dueDate}
+              errors={formErrors.instalments}
+              showErrors={showValidation}
+              onChange={handleInstalmentsChange}
+            />
+
+            <div className="form-section">
+              <div className="section-heading">
+                <h3>Terms &amp; Notes</h3>
+                <span className="section-hint">Set payment expectations and contextual remarks.</span>
+              </div>
+              <div className="field-grid single">
+                <label className="field field-wide">
+                  <span>Payment terms</span>
+                  <textarea value={formState.terms} rows={4} onChange={handleTermsChange} />
+                </label>
+                <label className="field field-wide">
+                  <span>Additional note</span>
+                  <textarea
+                    value={formState.additionalNote}
+                    rows={3}
+                    placeholder="Thank you message, delivery summary, or contextual briefing."
+                    onChange={handleAdditionalNoteChange}
+                  />
+                </label>
+              </div>
             </div>
-          </div>
+          </fieldset>
         </section>
 
         <section className={previewPanelClassName} ref={previewRef}>
@@ -1041,6 +1149,16 @@ export const InvoiceBuilder = () => {
                     <dt>Currency</dt>
                     <dd>{formState.currency}</dd>
                   </div>
+                  <div>
+                    <dt>Place of supply</dt>
+                    <dd>{describePlaceOfSupply(totals.tax.placeOfSupply)}</dd>
+                  </div>
+                  {exchangeRateLabel ? (
+                    <div>
+                      <dt>Exchange rate</dt>
+                      <dd>{exchangeRateLabel}</dd>
+                    </div>
+                  ) : null}
                   {formState.meta.purchaseOrder ? (
                     <div>
                       <dt>PO</dt>
@@ -1083,27 +1201,29 @@ export const InvoiceBuilder = () => {
               <table className="invoice-table-doc">
                 <thead>
                   <tr>
-                    <th style={{ width: '52%' }}>Item / Description</th>
-                    <th style={{ width: '10%' }} className="num">
+                    <th style={{ width: '38%' }}>Item / Description</th>
+                    <th style={{ width: '10%' }}>SAC</th>
+                    <th style={{ width: '8%' }} className="num">
                       Qty
                     </th>
-                    <th style={{ width: '14%' }} className="num">
+                    <th style={{ width: '13%' }} className="num">
                       Rate
                     </th>
-                    <th style={{ width: '10%' }} className="num">
+                    <th style={{ width: '8%' }} className="num">
                       Disc.
                     </th>
-                    <th style={{ width: '14%' }} className="num">
+                    <th style={{ width: '8%' }} className="num">
+                      GST
+                    </th>
+                    <th style={{ width: '15%' }} className="num">
                       Amount
                     </th>
                   </tr>
                 </thead>
                 <tbody>
-                  {formState.lineItems.map((item) => {
+                  {formState.lineItems.map((item, index) => {
                     const service = item.serviceId ? serviceLookup[item.serviceId] : undefined
-                    const lineBase = item.quantity * item.unitPrice
-                    const lineDiscount = (lineBase * item.discountRate) / 100
-                    const lineTotal = lineBase - lineDiscount
+                    const { lineTotal } = totals.lines[index]
                     return (
                       <tr key={item.id}>
                         <td>
@@ -1111,9 +1231,11 @@ export const InvoiceBuilder = () => {
                           <div className="item-desc">{item.description || '—'}</div>
                           {item.notes ? <div className="item-notes">{item.notes}</div> : null}
                         </td>
+                        <td>{item.sacCode || '—'}</td>
                         <td className="num">{item.quantity}</td>
                         <td className="num">{currencyFormatter.format(item.unitPrice)}</td>
                         <td className="num">{item.discountRate ? `${item.discountRate}%` : '—'}</td>
+                        <td className="num">{item.taxRate}%</td>
                         <td className="num">{currencyFormatter.format(lineTotal)}</td>
                       </tr>
                     )
@@ -1123,6 +1245,39 @@ export const InvoiceBuilder = () => {
             </section>
 
             <section className="invoice-doc-summary">
+              <table className="invoice-table-doc invoice-tax-summary-doc">
+                <thead>
+                  <tr>
+                    <th>SAC</th>
+                    <th className="num">GST rate</th>
+                    <th className="num">Taxable value</th>
+                    {totals.tax.supplyType === 'intra-state' ? (
+                      <>
+                        <th className="num">CGST</th>
+                        <th className="num">{totals.tax.rows[0]?.components[1]?.code ?? 'SGST'}</th>
+                      </>
+                    ) : (
+                      <th className="num">IGST</th>
+                    )}
+                    <th className="num">Total tax</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {totals.tax.rows.map((row) => (
+                    <tr key={row.rate}>
+                      <td>{row.sacCodes.join(', ') || '—'}</td>
+                      <td className="num">{row.rate ? `${row.rate}%` : 'Zero-rated'}</td>
+                      <td className="num">{currencyFormatter.format(row.taxableAmount)}</td>
+                      {row.components.map((component) => (
+                        <td key={component.code} className="num">
+                          {currencyFormatter.format(component.amount)}
+                        </td>
+                      ))}
+                      <td className="num">{currencyFormatter.format(row.totalTax)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
               <table className="invoice-totals-doc">
                 <tbody>
                   <tr>
@@ -1137,18 +1292,77 @@ export const InvoiceBuilder = () => {
                     <td>Taxable amount</td>
                     <td className="num">{currencyFormatter.format(totals.taxableAmount)}</td>
                   </tr>
-                  <tr>
-                    <td>Tax @ {formState.taxRate.toFixed(2)}%</td>
-                    <td className="num">{currencyFormatter.format(totals.taxAmount)}</td>
-                  </tr>
-                  <tr className="grand">
-                    <td>Total due</td>
+                  {totals.tax.components.map((component) => (
+                    <tr key={`${component.code}-${component.rate}`}>
+                      <td>
+                        {component.code} @ {component.rate.toFixed(2)}%
+                      </td>
+                      <td className="num">{currencyFormatter.format(component.amount)}</td>
+                    </tr>
+                  ))}
+                  <tr className={showBalance ? undefined : 'grand'}>
+                    <td>{showBalance ? 'Invoice total' : 'Total due'}</td>
                     <td className="num">{currencyFormatter.format(totals.total)}</td>
                   </tr>
+                  {ledgerEvaluation && showBalance ? (
+                    <>
+                      {ledgerEvaluation.adjustedAmount !== totals.total ? (
+                        <tr>
+                          <td>Credit / debit notes</td>
+                          <td className="num">
+                            {currencyFormatter.format(subtractAmount(ledgerEvaluation.adjustedAmount, totals.total))}
+                          </td>
+                        </tr>
+                      ) : null}
+                      <tr>
+                        <td>Amount paid</td>
+                        <td className="num">{currencyFormatter.format(-ledgerEvaluation.paidAmount)}</td>
+                      </tr>
+                      <tr className="grand">
+                        <td>Balance due</td>
+                        <td className="num">{currencyFormatter.format(ledgerEvaluation.outstanding)}</td>
+                      </tr>
+                    </>
+                  ) : null}
                 </tbody>
               </table>
             </section>
 
+            {instalmentSchedule.length ? (
+              <section className="invoice-doc-items">
+                <h3 className="invoice-doc-schedule-title">Payment schedule</h3>
+                <table className="invoice-table-doc">
+                  <thead>
+                    <tr>
+                      <th>Milestone</th>
+                      <th>Due date</th>
+                      <th className="num">Amount</th>
+                      {hasInstalmentProgress ? <th className="num">Balance</th> : null}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {instalmentSchedule.map((instalment) => (
+                      <tr key={instalment.id}>
+                        <td>
+                          <div className="item-title">{instalment.label || '—'}</div>
+                          {'status' in instalment ? (
+                            <span className={`status-chip ${INSTALMENT_STATUS_TONE[instalment.status]}`}>
+                              {instalment.status}
+                            </span>
+                          ) : null}
+                        </td>
+                        <td>{instalment.dueDate}</td>
+                        <td className="num">{currencyFormatter.format(instalment.amount)}</td>
+                        {'outstanding' in instalment ? (
+                          <td className="num">{currencyFormatter.format(instalment.outstanding)}</td>
+                        ) : null}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            ) : null}
+
             <footer className="invoice-doc-footer">
               <div className="invoice-doc-payment">
                 <h3>Payment details</h3>
@@ -1164,6 +1378,23 @@ export const InvoiceBuilder = () => {
                     IFSC: {ORGANIZATION.bank.ifsc} • SWIFT: {ORGANIZATION.bank.swift}
                   </p>
                 </div>
+                {paymentOptions.length ? (
+                  <div className="payment-options">
+                    {paymentOptions.map((option) => (
+                      <div className="payment-option" key={option.kind}>
+                        {option.kind === 'upi' ? (
+                          <QrCode value={option.url} label={`UPI QR code for ${formState.meta.invoiceNumber}`} />
+                        ) : null}
+                        <div>
+                          <a className="payment-link" href={option.url} target="_blank" rel="noreferrer">
+                            {option.label} • {currencyFormatter.format(amountDue)}
+                          </a>
+                          <p className="payment-option-note">{option.description}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
               </div>
               <div className="invoice-doc-terms">
                 <h3>Terms</h3>
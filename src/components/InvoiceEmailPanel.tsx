@@ -0,0 +1,99 @@
+import { useMemo, useState } from 'react'
+import { composeInvoiceEmail, EMAIL_TRANSPORT_LABELS, EmailDeliveryError, parseRecipients } from '../lib/email'
+import { sendInvoiceEmail, useEmailDeliveries, useEmailSettings } from '../store/emailStore'
+import type { EmailAttachment, InvoiceFormState, InvoiceRecord } from '../types'
+
+type InvoiceEmailPanelProps = {
+  invoice: InvoiceRecord
+  formState: InvoiceFormState
+  total: number
+  renderPdf: () => Blob
+}
+
+export const InvoiceEmailPanel = ({ invoice, formState, total, renderPdf }: InvoiceEmailPanelProps) => {
+  const settings = useEmailSettings()
+  const deliveries = useEmailDeliveries()
+  const [recipients, setRecipients] = useState(formState.client.email)
+  const [isSending, setIsSending] = useState(false)
+
+  const invoiceDeliveries = useMemo(
+    () => deliveries.filter((delivery) => delivery.invoiceId === invoice.id),
+    [deliveries, invoice.id],
+  )
+
+  const handleSend = async () => {
+    setIsSending(true)
+    try {
+      const to = parseRecipients(recipients)
+      const attachments: EmailAttachment[] = settings.attachPdf
+        ? [
+            {
+              fileName: `${invoice.invoiceNumber}.pdf`,
+              contentType: 'application/pdf',
+              content: new Uint8Array(await renderPdf().arrayBuffer()),
+            },
+          ]
+        : []
+      const receipt = await sendInvoiceEmail(
+        invoice,
+        composeInvoiceEmail(formState, total, to, settings.fromAddress, attachments),
+      )
+      window.alert(`Invoice ${invoice.invoiceNumber} sent to ${receipt.accepted.join(', ')}.`)
+    } catch (error) {
+      if (error instanceof EmailDeliveryError) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="form-section">
+      <div className="section-heading">
+        <h3>Email invoice</h3>
+        <span className="section-hint">
+          Sent via {EMAIL_TRANSPORT_LABELS[settings.transport]}
+          {settings.attachPdf ? ' with the PDF attached' : ' without a PDF attachment'}.
+        </span>
+      </div>
+      <div className="field-grid">
+        <label className="field">
+          <span>Recipients</span>
+          <input
+            value={recipients}
+            placeholder="accounts@client.com, finance@client.com"
+            onChange={(event) => setRecipients(event.target.value)}
+          />
+        </label>
+      </div>
+      <div className="import-actions">
+        <button type="button" className="primary" disabled={isSending} onClick={handleSend}>
+          {isSending ? 'Sending…' : 'Send invoice'}
+        </button>
+      </div>
+
+      {invoiceDeliveries.length ? (
+        <ul className="adjustment-note-list">
+          {invoiceDeliveries.map((delivery) => (
+            <li key={delivery.id}>
+              <span className={`status-chip ${delivery.status === 'Sent' ? 'paid' : 'overdue'}`}>
+                {delivery.status}
+              </span>
+              <span>
+                {new Date(delivery.sentAt).toLocaleString('en-IN')} • {delivery.to.join(', ')} •{' '}
+                {EMAIL_TRANSPORT_LABELS[delivery.transport]}
+                {delivery.attachedPdf ? ' • PDF attached' : ''}
+                {delivery.error ? ` • ${delivery.error}` : ''}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="section-hint">This invoice has not been emailed yet.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+import { useMemo, useState } from 'react'
+import { allocateNumber, NumberingError, NUMBERING_TOKENS } from '../lib/numbering'
+import { updateNumberingSeries, useNumbering } from '../store/numberingStore'
+import type { NumberingSeries, NumberingSeriesId } from '../types'
+
+type NumberingSettingsProps = {
+  usedNumbers: Record<NumberingSeriesId, string[]>
+}
+
+const SERIES_ORDER: NumberingSeriesId[] = ['invoice', 'credit-note', 'debit-note']
+
+const previewNextNumber = (series: NumberingSeries, counters: Record<string, number>, used: string[]) => {
+  try {
+    return allocateNumber(series, counters, new Set(used), new Date()).number
+  } catch (error) {
+    if (error instanceof NumberingError) {
+      return error.message
+    }
+    throw error
+  }
+}
+
+export const NumberingSettings = ({ usedNumbers }: NumberingSettingsProps) => {
+  const numbering = useNumbering()
+  const [drafts, setDrafts] = useState<Partial<Record<NumberingSeriesId, NumberingSeries>>>({})
+
+  const rows = useMemo(
+    () =>
+      SERIES_ORDER.map((id) => {
+        const series = drafts[id] ?? numbering.series[id]
+        return { id, series, next: previewNextNumber(series, numbering.counters, usedNumbers[id]) }
+      }),
+    [drafts, numbering, usedNumbers],
+  )
+
+  const updateDraft = (id: NumberingSeriesId, changes: Partial<NumberingSeries>) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...(prev[id] ?? numbering.series[id]), ...changes } }))
+  }
+
+  const handleSave = (id: NumberingSeriesId) => {
+    const draft = drafts[id]
+    if (!draft) {
+      return
+    }
+    try {
+      updateNumberingSeries(id, {
+        prefix: draft.prefix,
+        pattern: draft.pattern,
+        padding: draft.padding,
+        resetEachFinancialYear: draft.resetEachFinancialYear,
+      })
+      setDrafts((prev) => {
+        const next = { ...prev }
+        delete next[id]
+        return next
+      })
+    } catch (error) {
+      if (error instanceof NumberingError) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    }
+  }
+
+  return (
+    <section className="module-card">
+      <header className="module-heading">
+        <div>
+          <h2>Document numbering</h2>
+          <p>Numbers are allocated when a document is issued. Tokens: {NUMBERING_TOKENS.join(' ')}</p>
+        </div>
+      </header>
+      <div className="settings-panel">
+        {rows.map(({ id, series, next }) => (
+          <div key={id} className="settings-row numbering-row">
+            <div>
+              <h3>{series.label}</h3>
+              <p>
+                Next: <strong>{next}</strong>
+              </p>
+            </div>
+            <div className="numbering-fields">
+              <label>
+                <span>Prefix</span>
+                <input value={series.prefix} onChange={(event) => updateDraft(id, { prefix: event.target.value })} />
+              </label>
+              <label>
+                <span>Pattern</span>
+                <input value={series.pattern} onChange={(event) => updateDraft(id, { pattern: event.target.value })} />
+              </label>
+              <label>
+                <span>Digits</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={series.padding}
+                  onChange={(event) => updateDraft(id, { padding: Number(event.target.value) || 1 })}
+                />
+              </label>
+              <label className="numbering-reset">
+                <input
+                  type="checkbox"
+                  checked={series.resetEachFinancialYear}
+                  onChange={(event) => updateDraft(id, { resetEachFinancialYear: event.target.checked })}
+                />
+                <span>Reset each April</span>
+              </label>
+              <button type="button" className="outline" disabled={!drafts[id]} onClick={() => handleSave(id)}>
+                Save
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,41 @@
+import { useMemo } from 'react'
+import { tryEncodeQrCode } from '../lib/qrCode'
+
+type QrCodeProps = {
+  value: string
+  label: string
+  size?: number
+}
+
+// Scanners need a light margin of four modules around the symbol.
+const QUIET_ZONE = 4
+
+export const QrCode = ({ value, label, size = 136 }: QrCodeProps) => {
+  const matrix = useMemo(() => tryEncodeQrCode(value), [value])
+
+  if (!matrix) {
+    return null
+  }
+
+  const extent = matrix.length + QUIET_ZONE * 2
+  const path = matrix
+    .flatMap((row, y) =>
+      row.map((dark, x) => (dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : '')).filter(Boolean),
+    )
+    .join('')
+
+  return (
+    <svg
+      className="qr-code"
+      role="img"
+      aria-label={label}
+      width={size}
+      height={size}
+      viewBox={`0 0 ${extent} ${extent}`}
+      shapeRendering="crispEdges"
+    >
+      <rect width={extent} height={extent} fill="#fff" />
+      <path d={path} fill="#0f2140" />
+    </svg>
+  )
+}
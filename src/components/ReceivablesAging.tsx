@@ -0,0 +1,148 @@
+import { useMemo, useState } from 'react'
+import { AGING_BUCKET_LABELS, AGING_BUCKETS, agingCsvRows, buildAgingReport } from '../lib/aging'
+import { csvBlob } from '../lib/csv'
+import { formatMoney } from '../lib/currency'
+import { downloadBlob } from '../lib/download'
+import { useClients } from '../store/clientStore'
+import type { AgingBucket, EvaluatedInvoice, ExchangeRateTable } from '../types'
+
+type ReceivablesAgingProps = {
+  invoices: EvaluatedInvoice[]
+  rates: ExchangeRateTable
+}
+
+// A null row key drills into a bucket across every client.
+type AgingSelection = { rowKey: string | null; bucket: AgingBucket | null }
+
+export const ReceivablesAging = ({ invoices, rates }: ReceivablesAgingProps) => {
+  const clients = useClients()
+  const [selection, setSelection] = useState<AgingSelection | null>(null)
+  const report = useMemo(() => buildAgingReport(invoices, rates), [invoices, rates])
+  const clientNames = useMemo(
+    () => Object.fromEntries(clients.map((client) => [client.id, client.companyName])),
+    [clients],
+  )
+
+  const drillDown = useMemo(() => {
+    if (!selection) {
+      return []
+    }
+    return report.rows
+      .filter((row) => !selection.rowKey || row.key === selection.rowKey)
+      .flatMap((row) =>
+        row.invoices
+          .filter((line) => !selection.bucket || line.bucket === selection.bucket)
+          .map((line) => ({ ...line, clientId: row.clientId, currency: row.currency })),
+      )
+  }, [report, selection])
+
+  const isSelected = (rowKey: string | null, bucket: AgingBucket | null) =>
+    selection?.rowKey === rowKey && selection?.bucket === bucket
+
+  const renderCell = (rowKey: string | null, bucket: AgingBucket | null, amount: number, currency = report.currency) =>
+    amount ? (
+      <button
+        type="button"
+        className={isSelected(rowKey, bucket) ? 'aging-cell active' : 'aging-cell'}
+        onClick={() => setSelection(isSelected(rowKey, bucket) ? null : { rowKey, bucket })}
+      >
+        {formatMoney(amount, currency, { minorUnits: 0 })}
+      </button>
+    ) : (
+      <span className="aging-empty">—</span>
+    )
+
+  const handleExport = () => {
+    downloadBlob(csvBlob(agingCsvRows(report, clientNames)), `ar-aging-${report.asOf}.csv`)
+  }
+
+  return (
+    <section className="module-card span-2">
+      <header className="module-heading">
+        <div>
+          <h2>Receivables aging</h2>
+          <p>
+            Outstanding balances by days past due as of {report.asOf}. Client rows are in their billing currency; the
+            totals row is in {report.currency}. Select an amount to see the invoices behind it.
+          </p>
+        </div>
+        <button type="button" className="outline" disabled={!report.rows.length} onClick={handleExport}>
+          Export CSV
+        </button>
+      </header>
+
+      {report.rows.length ? (
+        <table className="data-table aging-table">
+          <thead>
+            <tr>
+              <th>Client</th>
+              {AGING_BUCKETS.map((bucket) => (
+                <th key={bucket}>{AGING_BUCKET_LABELS[bucket]}</th>
+              ))}
+              <th>Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.rows.map((row) => (
+              <tr key={row.key}>
+                <td>
+                  <strong>{clientNames[row.clientId] ?? row.clientId}</strong>
+                  <span className="import-narrative">{row.currency}</span>
+                </td>
+                {AGING_BUCKETS.map((bucket) => (
+                  <td key={bucket}>{renderCell(row.key, bucket, row.buckets[bucket], row.currency)}</td>
+                ))}
+                <td>{renderCell(row.key, null, row.total, row.currency)}</td>
+              </tr>
+            ))}
+            <tr className="statement-total">
+              <td>All clients ({report.currency})</td>
+              {AGING_BUCKETS.map((bucket) => (
+                <td key={bucket}>{renderCell(null, bucket, report.totals[bucket])}</td>
+              ))}
+              <td>{renderCell(null, null, report.total)}</td>
+            </tr>
+          </tbody>
+        </table>
+      ) : (
+        <p className="recurring-empty">Nothing is outstanding.</p>
+      )}
+
+      {selection && drillDown.length ? (
+        <table className="data-table aging-drilldown">
+          <thead>
+            <tr>
+              <th>Invoice</th>
+              <th>Client</th>
+              <th>Due date</th>
+              <th>Days past due</th>
+              <th>Outstanding</th>
+            </tr>
+          </thead>
+          <tbody>
+            {drillDown.map((line) => (
+              <tr key={line.key}>
+                <td>
+                  <strong>{line.invoiceNumber}</strong>
+                  <span className="import-narrative">
+                    {line.instalmentLabel ? `${line.instalmentLabel} • ` : ''}
+                    {AGING_BUCKET_LABELS[line.bucket]}
+                  </span>
+                </td>
+                <td>{clientNames[line.clientId] ?? line.clientId}</td>
+                <td>{line.dueDate}</td>
+                <td>{line.daysPastDue}</td>
+                <td>
+                  {formatMoney(line.outstanding, line.currency)}
+                  {line.currency !== report.currency ? (
+                    <span className="import-narrative">{formatMoney(line.baseOutstanding, report.currency)}</span>
+                  ) : null}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+    </section>
+  )
+}
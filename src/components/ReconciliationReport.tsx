@@ -0,0 +1,113 @@
+import { useMemo } from 'react'
+import { formatMoney } from '../lib/currency'
+import { csvBlob } from '../lib/csv'
+import { downloadBlob } from '../lib/download'
+import { reconcilePayments, reconciliationReportRows } from '../lib/reconciliation'
+import { useClients } from '../store/clientStore'
+import type { AdjustmentNote, CurrencyCode, ExchangeRateTable, InvoiceRecord, PaymentTransaction } from '../types'
+
+type ReconciliationReportProps = {
+  invoices: InvoiceRecord[]
+  transactions: PaymentTransaction[]
+  notes: AdjustmentNote[]
+  rates: ExchangeRateTable
+}
+
+const formatAmount = (value: number, currency: CurrencyCode) => formatMoney(value, currency)
+
+export const ReconciliationReport = ({ invoices, transactions, notes, rates }: ReconciliationReportProps) => {
+  const clients = useClients()
+  const clientNames = useMemo(
+    () =>
+      clients.reduce<Record<string, string>>((acc, client) => {
+        acc[client.id] = client.companyName
+        return acc
+      }, {}),
+    [clients],
+  )
+  const report = useMemo(
+    () => reconcilePayments(invoices, transactions, new Date(), notes, rates),
+    [invoices, transactions, notes, rates],
+  )
+
+  const handleExport = () => {
+    downloadBlob(
+      csvBlob(reconciliationReportRows(report, clientNames)),
+      `reconciliation-${report.generatedAt.split('T')[0]}.csv`,
+    )
+  }
+
+  return (
+    <section className="module-card span-2">
+      <header className="module-heading">
+        <div>
+          <h2>Payment reconciliation</h2>
+          <p>Receipts matched to invoices with paid, pending and outstanding balances.</p>
+        </div>
+        <button type="button" className="outline" onClick={handleExport}>
+          Export CSV
+        </button>
+      </header>
+      <div className="summary-grid">
+        <div>
+          <span className="label">Billed</span>
+          <strong>{formatAmount(report.totals.billed, 'INR')}</strong>
+        </div>
+        <div>
+          <span className="label">Collected</span>
+          <strong>{formatAmount(report.totals.collected, 'INR')}</strong>
+        </div>
+        <div>
+          <span className="label">Outstanding</span>
+          <strong>{formatAmount(report.totals.outstanding, 'INR')}</strong>
+        </div>
+        <div>
+          <span className="label">Gateway fees</span>
+          <strong>{formatAmount(report.totals.fees, 'INR')}</strong>
+        </div>
+      </div>
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>Invoice</th>
+            <th>Client</th>
+            <th className="num">Billed</th>
+            <th className="num">Collected</th>
+            <th className="num">Pending</th>
+            <th className="num">Outstanding</th>
+            <th>State</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.invoices.map((line) => (
+            <tr key={line.invoiceId}>
+              <td>
+                <strong>{line.invoiceNumber}</strong>
+              </td>
+              <td>{clientNames[line.clientId] ?? '—'}</td>
+              <td className="num">{formatAmount(line.billed, line.currency)}</td>
+              <td className="num">{formatAmount(line.paid, line.currency)}</td>
+              <td className="num">{line.pending ? formatAmount(line.pending, line.currency) : '—'}</td>
+              <td className="num">{formatAmount(line.outstanding, line.currency)}</td>
+              <td>
+                <span className={`recon-state ${line.state.toLowerCase().replace(/\s+/g, '-')}`}>{line.state}</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {report.exceptions.length ? (
+        <div className="exception-list">
+          <h3>Exceptions</h3>
+          {report.exceptions.map((exception, index) => (
+            <div key={`${exception.type}-${exception.transactionId ?? exception.invoiceId}-${index}`} className="exception-row">
+              <span className={`exception-type ${exception.type}`}>{exception.type.replace(/-/g, ' ')}</span>
+              <p>{exception.message}</p>
+              <strong>{formatAmount(exception.amount, exception.currency)}</strong>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </section>
+  )
+}
@@ -0,0 +1,231 @@
+import { useMemo, useState } from 'react'
+import { PAYMENT_GATEWAY } from '../data'
+import { formatMoney } from '../lib/currency'
+import { formatDay } from '../lib/dates'
+import { subtractAmount, sumAmounts } from '../lib/money'
+import { PaymentAllocationError, suggestAllocations } from '../lib/payments'
+import { useClients } from '../store/clientStore'
+import { recordPayment } from '../store/paymentStore'
+import type { CurrencyCode, EvaluatedInvoice, PaymentMethod } from '../types'
+
+type RecordPaymentProps = {
+  invoices: EvaluatedInvoice[]
+}
+
+const PAYMENT_METHODS = [...new Set<PaymentMethod>(PAYMENT_GATEWAY.channels.map((channel) => channel.method))]
+
+const today = () => formatDay(new Date())
+
+const toAmount = (value: string) => {
+  const amount = Number(value)
+  return Number.isFinite(amount) && amount > 0 ? amount : 0
+}
+
+export const RecordPayment = ({ invoices }: RecordPaymentProps) => {
+  const clients = useClients()
+  const openInvoices = useMemo(() => invoices.filter((invoice) => invoice.evaluation.outstanding > 0), [invoices])
+  const payers = clients.filter((client) => openInvoices.some((invoice) => invoice.clientId === client.id))
+  const [clientId, setClientId] = useState('')
+  const [currency, setCurrency] = useState<CurrencyCode | ''>('')
+  const [amount, setAmount] = useState('')
+  const [method, setMethod] = useState<PaymentMethod>('Wire Transfer')
+  const [receivedOn, setReceivedOn] = useState(today)
+  const [reference, setReference] = useState('')
+  const [allocations, setAllocations] = useState<Record<string, string>>({})
+
+  const selectedClientId = clientId || payers[0]?.id || ''
+  const clientInvoices = openInvoices
+    .filter((invoice) => invoice.clientId === selectedClientId)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+  const currencies = [...new Set(clientInvoices.map((invoice) => invoice.currency))]
+  const selectedCurrency = currency && currencies.includes(currency) ? currency : currencies[0]
+  const candidates = clientInvoices.filter((invoice) => invoice.currency === selectedCurrency)
+  const received = toAmount(amount)
+  const allocated = sumAmounts(candidates, (invoice) => toAmount(allocations[invoice.id] ?? ''))
+  const unallocated = Math.max(subtractAmount(received, allocated), 0)
+
+  const reset = () => {
+    setAmount('')
+    setReference('')
+    setAllocations({})
+  }
+
+  const handleClientChange = (nextClientId: string) => {
+    setClientId(nextClientId)
+    setCurrency('')
+    setAllocations({})
+  }
+
+  const handleAutoAllocate = () => {
+    setAllocations(
+      Object.fromEntries(
+        suggestAllocations(received, candidates).map((allocation) => [allocation.invoiceId, String(allocation.amount)]),
+      ),
+    )
+  }
+
+  const handleRecord = () => {
+    if (!selectedCurrency) {
+      return
+    }
+    try {
+      recordPayment(
+        {
+          clientId: selectedClientId,
+          amount: received,
+          currency: selectedCurrency,
+          method,
+          receivedAt: `${receivedOn}T00:00:00+05:30`,
+          reference,
+          allocations: candidates.map((invoice) => ({
+            invoiceId: invoice.id,
+            amount: toAmount(allocations[invoice.id] ?? ''),
+          })),
+        },
+        invoices,
+      )
+      reset()
+    } catch (error) {
+      if (error instanceof PaymentAllocationError) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    }
+  }
+
+  return (
+    <section className="module-card span-2">
+      <header className="module-heading">
+        <div>
+          <h2>Record a payment</h2>
+          <p>
+            Log a receipt against one or several open invoices. Part payments leave the balance open; invoices on an
+            instalment plan settle their earliest instalments first.
+          </p>
+        </div>
+      </header>
+
+      {payers.length ? (
+        <>
+          <div className="settings-row numbering-row payment-form">
+            <div className="numbering-fields">
+              <label>
+                <span>Client</span>
+                <select value={selectedClientId} onChange={(event) => handleClientChange(event.target.value)}>
+                  {payers.map((client) => (
+                    <option key={client.id} value={client.id}>
+                      {client.companyName}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {currencies.length > 1 ? (
+                <label>
+                  <span>Currency</span>
+                  <select
+                    value={selectedCurrency}
+                    onChange={(event) => {
+                      setCurrency(event.target.value as CurrencyCode)
+                      setAllocations({})
+                    }}
+                  >
+                    {currencies.map((code) => (
+                      <option key={code} value={code}>
+                        {code}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+              <label>
+                <span>Amount received ({selectedCurrency})</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={amount}
+                  onChange={(event) => setAmount(event.target.value)}
+                />
+              </label>
+              <label>
+                <span>Method</span>
+                <select value={method} onChange={(event) => setMethod(event.target.value as PaymentMethod)}>
+                  {PAYMENT_METHODS.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <span>Received on</span>
+                <input type="date" value={receivedOn} onChange={(event) => setReceivedOn(event.target.value)} />
+              </label>
+              <label>
+                <span>Reference / UTR</span>
+                <input value={reference} onChange={(event) => setReference(event.target.value)} />
+              </label>
+            </div>
+          </div>
+
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Invoice</th>
+                <th>Due date</th>
+                <th className="num">Outstanding</th>
+                <th className="num">Allocate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {candidates.map((invoice) => {
+                const nextInstalment = invoice.evaluation.instalments?.find((instalment) => instalment.outstanding > 0)
+                return (
+                  <tr key={invoice.id}>
+                    <td>
+                      <strong>{invoice.invoiceNumber}</strong>
+                      <span className="import-narrative">{invoice.engagement}</span>
+                    </td>
+                    <td>
+                      {nextInstalment ? nextInstalment.dueDate : invoice.dueDate}
+                      {nextInstalment ? <span className="import-narrative">{nextInstalment.label}</span> : null}
+                    </td>
+                    <td className="num">{formatMoney(invoice.evaluation.outstanding, invoice.currency)}</td>
+                    <td className="num">
+                      <input
+                        className="rate-input"
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={allocations[invoice.id] ?? ''}
+                        onChange={(event) => setAllocations((prev) => ({ ...prev, [invoice.id]: event.target.value }))}
+                      />
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+
+          <div className="import-actions">
+            <span className="payment-allocation-summary">
+              {selectedCurrency
+                ? `${formatMoney(allocated, selectedCurrency)} allocated • ` +
+                  `${formatMoney(unallocated, selectedCurrency)} left to allocate`
+                : null}
+            </span>
+            <button type="button" className="outline" disabled={!received} onClick={handleAutoAllocate}>
+              Allocate oldest first
+            </button>
+            <button type="button" className="primary" disabled={!received || !allocated} onClick={handleRecord}>
+              Record payment
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="recurring-empty">No invoices are awaiting payment.</p>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,291 @@
+import { useMemo, useState } from 'react'
+import { formatMoney } from '../lib/currency'
+import { formatDay } from '../lib/dates'
+import { ExchangeRateError } from '../lib/exchangeRates'
+import { InvoiceLifecycleError } from '../lib/invoiceLifecycle'
+import { calculateInvoiceTotals } from '../lib/invoiceTotals'
+import { NumberingError } from '../lib/numbering'
+import {
+  buildRecurringInvoice,
+  describeRecurringPeriod,
+  getDueRuns,
+  getUpcomingRuns,
+  RECURRING_CADENCE_LABELS,
+  RecurringProfileError,
+} from '../lib/recurring'
+import { useClients } from '../store/clientStore'
+import {
+  deleteRecurringProfile,
+  generateDueInvoices,
+  updateRecurringProfile,
+  useRecurringProfiles,
+} from '../store/recurringStore'
+import type { RecurringProfileChanges } from '../store/recurringStore'
+import type { RecurringCadence, RecurringProfile } from '../types'
+
+const UPCOMING_RUNS_PER_PROFILE = 3
+
+const isHandledError = (error: unknown): error is Error =>
+  error instanceof RecurringProfileError ||
+  error instanceof InvoiceLifecycleError ||
+  error instanceof NumberingError ||
+  error instanceof ExchangeRateError
+
+export const RecurringProfiles = () => {
+  const profiles = useRecurringProfiles()
+  const clients = useClients()
+  const clientNames = useMemo(
+    () => Object.fromEntries(clients.map((client) => [client.id, client.companyName])),
+    [clients],
+  )
+  const [drafts, setDrafts] = useState<Record<string, RecurringProfileChanges>>({})
+  const today = formatDay(new Date())
+
+  const dueCount = useMemo(
+    () => profiles.reduce((count, profile) => count + getDueRuns(profile, today).length, 0),
+    [profiles, today],
+  )
+
+  const upcomingRuns = useMemo(
+    () =>
+      profiles
+        .flatMap((profile) =>
+          getUpcomingRuns(profile, UPCOMING_RUNS_PER_PROFILE).map((run) => ({
+            run,
+            profile,
+            amount: calculateInvoiceTotals(buildRecurringInvoice(profile, run)).total,
+          })),
+        )
+        .sort((a, b) => a.run.issueDate.localeCompare(b.run.issueDate)),
+    [profiles],
+  )
+
+  const updateDraft = (id: string, changes: RecurringProfileChanges) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }))
+  }
+
+  const clearDraft = (id: string) => {
+    setDrafts((prev) => {
+      const next = { ...prev }
+      delete next[id]
+      return next
+    })
+  }
+
+  const handleSave = (id: string, changes: RecurringProfileChanges) => {
+    try {
+      updateRecurringProfile(id, changes)
+      clearDraft(id)
+    } catch (error) {
+      if (isHandledError(error)) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    }
+  }
+
+  const handleDelete = (profile: RecurringProfile) => {
+    if (!window.confirm(`Delete the recurring profile "${profile.name}"? Invoices already raised are kept.`)) {
+      return
+    }
+    deleteRecurringProfile(profile.id)
+    clearDraft(profile.id)
+  }
+
+  const handleGenerate = () => {
+    try {
+      const issued = generateDueInvoices(today)
+      window.alert(
+        `Issued ${issued.length} recurring ${issued.length === 1 ? 'invoice' : 'invoices'}: ${issued
+          .map((record) => record.invoiceNumber)
+          .join(', ')}`,
+      )
+    } catch (error) {
+      if (isHandledError(error)) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    }
+  }
+
+  return (
+    <div className="operations-grid">
+      <section className="module-card">
+        <header className="module-heading">
+          <div>
+            <h2>Recurring profiles</h2>
+            <p>Retainers billed on a schedule. Use “Make recurring” in the invoice builder to add one.</p>
+          </div>
+          <button type="button" className="primary" disabled={!dueCount} onClick={handleGenerate}>
+            Issue {dueCount} due {dueCount === 1 ? 'invoice' : 'invoices'}
+          </button>
+        </header>
+        {profiles.length ? (
+          <div className="settings-panel">
+            {profiles.map((profile) => {
+              const draft = drafts[profile.id]
+              const current = { ...profile, ...draft }
+              return (
+                <div key={profile.id} className="settings-row numbering-row">
+                  <div>
+                    <h3>{current.name}</h3>
+                    <p>
+                      {clientNames[profile.clientId] ?? profile.template.client.companyName} •{' '}
+                      {formatMoney(calculateInvoiceTotals(profile.template).total, profile.template.currency)} per
+                      period • {profile.invoiceIds.length} raised
+                    </p>
+                  </div>
+                  <div className="numbering-fields">
+                    <label>
+                      <span>Name</span>
+                      <input
+                        value={current.name}
+                        onChange={(event) => updateDraft(profile.id, { name: event.target.value })}
+                      />
+                    </label>
+                    <label>
+                      <span>Cadence</span>
+                      <select
+                        value={current.cadence}
+                        onChange={(event) =>
+                          updateDraft(profile.id, { cadence: event.target.value as RecurringCadence })
+                        }
+                      >
+                        {Object.entries(RECURRING_CADENCE_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    {current.cadence === 'custom' ? (
+                      <label>
+                        <span>Every (months)</span>
+                        <input
+                          type="number"
+                          min={1}
+                          max={24}
+                          value={current.intervalMonths}
+                          onChange={(event) =>
+                            updateDraft(profile.id, { intervalMonths: Number(event.target.value) || 0 })
+                          }
+                        />
+                      </label>
+                    ) : null}
+                    <label>
+                      <span>Starts</span>
+                      <input
+                        type="date"
+                        value={current.startDate}
+                        onChange={(event) => updateDraft(profile.id, { startDate: event.target.value })}
+                      />
+                    </label>
+                    <label>
+                      <span>Ends</span>
+                      <input
+                        type="date"
+                        value={current.endDate ?? ''}
+                        onChange={(event) => updateDraft(profile.id, { endDate: event.target.value })}
+                      />
+                    </label>
+                    <label>
+                      <span>Terms (days)</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={180}
+                        value={current.paymentTermsDays}
+                        onChange={(event) =>
+                          updateDraft(profile.id, { paymentTermsDays: Number(event.target.value) || 0 })
+                        }
+                      />
+                    </label>
+                    <label className="numbering-reset">
+                      <input
+                        type="checkbox"
+                        checked={current.proration === 'daily'}
+                        onChange={(event) =>
+                          updateDraft(profile.id, { proration: event.target.checked ? 'daily' : 'none' })
+                        }
+                      />
+                      <span>Prorate partial periods</span>
+                    </label>
+                    <button
+                      type="button"
+                      className="outline"
+                      disabled={!draft}
+                      onClick={() => handleSave(profile.id, draft ?? {})}
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      className="ghost"
+                      onClick={() =>
+                        handleSave(profile.id, { status: profile.status === 'Active' ? 'Paused' : 'Active' })
+                      }
+                    >
+                      {profile.status === 'Active' ? 'Pause' : 'Resume'}
+                    </button>
+                    <button type="button" className="ghost" onClick={() => handleDelete(profile)}>
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        ) : (
+          <p className="recurring-empty">No recurring profiles yet.</p>
+        )}
+      </section>
+
+      <section className="module-card">
+        <header className="module-heading">
+          <div>
+            <h2>Upcoming runs</h2>
+            <p>The next {UPCOMING_RUNS_PER_PROFILE} invoices each active profile will raise.</p>
+          </div>
+        </header>
+        {upcomingRuns.length ? (
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Issue date</th>
+                <th>Profile</th>
+                <th>Period</th>
+                <th>Due</th>
+                <th className="num">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {upcomingRuns.map(({ run, profile, amount }) => (
+                <tr key={`${profile.id}-${run.periodStart}`}>
+                  <td>
+                    {run.issueDate}
+                    {run.issueDate <= today ? <span className="status-chip pending recurring-due">Due now</span> : null}
+                  </td>
+                  <td>{profile.name}</td>
+                  <td>
+                    {describeRecurringPeriod(run)}
+                    {run.prorationFactor < 1 ? (
+                      <small className="recurring-note">
+                        Prorated {run.coveredDays}/{run.periodDays} days
+                      </small>
+                    ) : null}
+                  </td>
+                  <td>{run.dueDate}</td>
+                  <td className="num">{formatMoney(amount, profile.template.currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="recurring-empty">No runs scheduled.</p>
+        )}
+      </section>
+    </div>
+  )
+}
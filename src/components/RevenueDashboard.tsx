@@ -0,0 +1,158 @@
+import { useMemo, useState } from 'react'
+import { buildRevenueAnalytics, getPeriodDelta, getPeriodRange, REVENUE_PERIOD_LABELS } from '../lib/analytics'
+import { formatMoney } from '../lib/currency'
+import { useClients } from '../store/clientStore'
+import type { EvaluatedInvoice, ExchangeRateTable, PaymentTransaction, RevenueBreakdown, RevenuePeriod } from '../types'
+import { BarBreakdown, ColumnChart } from './Charts'
+
+type RevenueDashboardProps = {
+  invoices: EvaluatedInvoice[]
+  transactions: PaymentTransaction[]
+  rates: ExchangeRateTable
+}
+
+const BILLED_COLOR = '#2f4f96'
+const COLLECTED_COLOR = '#0e7a6e'
+const SERIES = [
+  { label: 'Billed', color: BILLED_COLOR },
+  { label: 'Collected', color: COLLECTED_COLOR },
+]
+const BREAKDOWN_LIMIT = 6
+
+const toBreakdownRows = (rows: RevenueBreakdown[]) =>
+  rows.slice(0, BREAKDOWN_LIMIT).map((row) => ({ key: row.key, label: row.label, values: [row.billed, row.collected] }))
+
+// Anchors on the last day of the target period so past periods are measured in full; the current one stops at today.
+const shiftAnchor = (anchor: Date, period: RevenuePeriod, direction: -1 | 1) => {
+  const months = { month: 1, quarter: 3, year: 12 }[period]
+  const target = new Date(anchor.getFullYear(), anchor.getMonth() + months * direction, 1)
+  const [year, month, day] = getPeriodRange(period, target).to.split('-').map(Number)
+  const periodEnd = new Date(year, month - 1, day)
+  const today = new Date()
+  return periodEnd < today ? periodEnd : today
+}
+
+export const RevenueDashboard = ({ invoices, transactions, rates }: RevenueDashboardProps) => {
+  const clients = useClients()
+  const [period, setPeriod] = useState<RevenuePeriod>('quarter')
+  const [anchor, setAnchor] = useState(() => new Date())
+
+  const analytics = useMemo(
+    () => buildRevenueAnalytics({ invoices, transactions, rates, clients, period, today: anchor }),
+    [invoices, transactions, rates, clients, period, anchor],
+  )
+  const { current, previous, currency } = analytics
+  const isLatest = getPeriodRange(period, anchor).to >= getPeriodRange(period).to
+
+  const compact = (value: number) => formatMoney(value, currency, { minorUnits: 0 })
+  const axis = (value: number) =>
+    new Intl.NumberFormat('en-IN', { notation: 'compact', maximumFractionDigits: 1 }).format(value)
+
+  const renderDelta = (currentValue: number | null, previousValue: number | null, lowerIsBetter = false) => {
+    const delta = currentValue === null || previousValue === null ? null : getPeriodDelta(currentValue, previousValue)
+    if (delta === null) {
+      return <p>No comparable figure for the previous period.</p>
+    }
+    const improved = lowerIsBetter ? delta <= 0 : delta >= 0
+    return (
+      <p className={improved ? 'revenue-delta up' : 'revenue-delta down'}>
+        {delta > 0 ? '▲' : delta < 0 ? '▼' : '•'} {Math.abs(delta)}% vs {previous.from} to {previous.to}
+      </p>
+    )
+  }
+
+  return (
+    <section className="module-card span-2">
+      <header className="module-heading">
+        <div>
+          <h2>Revenue analytics</h2>
+          <p>
+            Billed and collected revenue in {currency} for {current.from} to {current.to}, broken down by service
+            category, client, and engagement.
+          </p>
+        </div>
+        <div className="revenue-controls">
+          <select value={period} onChange={(event) => setPeriod(event.target.value as RevenuePeriod)}>
+            {(Object.keys(REVENUE_PERIOD_LABELS) as RevenuePeriod[]).map((option) => (
+              <option key={option} value={option}>
+                {REVENUE_PERIOD_LABELS[option]}
+              </option>
+            ))}
+          </select>
+          <button type="button" className="outline" onClick={() => setAnchor(shiftAnchor(anchor, period, -1))}>
+            ◀ Previous
+          </button>
+          <button
+            type="button"
+            className="outline"
+            disabled={isLatest}
+            onClick={() => setAnchor(shiftAnchor(anchor, period, 1))}
+          >
+            Next ▶
+          </button>
+          <button type="button" className="outline" disabled={isLatest} onClick={() => setAnchor(new Date())}>
+            Today
+          </button>
+        </div>
+      </header>
+
+      <div className="stat-grid">
+        <div className="stat-card primary">
+          <span className="label">Billed</span>
+          <strong>{compact(current.billed)}</strong>
+          {renderDelta(current.billed, previous.billed)}
+        </div>
+        <div className="stat-card">
+          <span className="label">Collected</span>
+          <strong>{compact(current.collected)}</strong>
+          {renderDelta(current.collected, previous.collected)}
+        </div>
+        <div className="stat-card">
+          <span className="label">Days sales outstanding</span>
+          <strong>{current.dso === null ? '—' : `${current.dso} days`}</strong>
+          {renderDelta(current.dso, previous.dso, true)}
+        </div>
+      </div>
+
+      <h3 className="revenue-chart-title">Monthly trend</h3>
+      <ColumnChart
+        categories={analytics.months.map((month) => month.label)}
+        series={[
+          { ...SERIES[0], values: analytics.months.map((month) => month.billed) },
+          { ...SERIES[1], values: analytics.months.map((month) => month.collected) },
+        ]}
+        formatValue={axis}
+      />
+
+      <div className="revenue-breakdowns">
+        <div>
+          <h3 className="revenue-chart-title">By service category</h3>
+          <BarBreakdown
+            rows={toBreakdownRows(analytics.byCategory)}
+            series={SERIES}
+            formatValue={compact}
+            emptyLabel="No revenue by category in this period."
+          />
+        </div>
+        <div>
+          <h3 className="revenue-chart-title">By client</h3>
+          <BarBreakdown
+            rows={toBreakdownRows(analytics.byClient)}
+            series={SERIES}
+            formatValue={compact}
+            emptyLabel="No revenue by client in this period."
+          />
+        </div>
+        <div>
+          <h3 className="revenue-chart-title">By engagement</h3>
+          <BarBreakdown
+            rows={toBreakdownRows(analytics.byEngagement)}
+            series={SERIES}
+            formatValue={compact}
+            emptyLabel="No revenue by engagement in this period."
+          />
+        </div>
+      </div>
+    </section>
+  )
+}
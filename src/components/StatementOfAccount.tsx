@@ -0,0 +1,167 @@
+import { useMemo, useState } from 'react'
+import { findClient } from '../lib/clients'
+import { csvBlob } from '../lib/csv'
+import { formatMoney } from '../lib/currency'
+import { downloadBlob } from '../lib/download'
+import { buildClientStatement, getQuarterRange, getStatementCurrencies, statementCsvRows } from '../lib/statement'
+import { renderStatementPdf } from '../lib/statementPdf'
+import { useClients } from '../store/clientStore'
+import type { AdjustmentNote, CurrencyCode, EvaluatedInvoice, ExchangeRateTable, PaymentTransaction } from '../types'
+
+type StatementOfAccountProps = {
+  clientId: string
+  onClientChange: (clientId: string) => void
+  invoices: EvaluatedInvoice[]
+  transactions: PaymentTransaction[]
+  notes: AdjustmentNote[]
+  rates: ExchangeRateTable
+}
+
+export const StatementOfAccount = ({
+  clientId,
+  onClientChange,
+  invoices,
+  transactions,
+  notes,
+  rates,
+}: StatementOfAccountProps) => {
+  const clients = useClients()
+  const [range, setRange] = useState(() => getQuarterRange())
+  const [selectedCurrency, setSelectedCurrency] = useState<CurrencyCode>()
+  const client = findClient(clients, clientId)
+
+  const input = useMemo(
+    () => ({ clientId, invoices, transactions, notes, rates, ...range }),
+    [clientId, invoices, transactions, notes, rates, range],
+  )
+  const currencies = useMemo(() => getStatementCurrencies(input), [input])
+  const currency = selectedCurrency && currencies.includes(selectedCurrency) ? selectedCurrency : currencies[0]
+  const statement = useMemo(() => buildClientStatement(input, currency), [input, currency])
+  const money = (value: number) => formatMoney(value, statement.currency)
+  const clientSlug = client?.companyName.replace(/[^a-z0-9]+/gi, '-').toLowerCase() ?? clientId
+  const currencySuffix = currencies.length > 1 ? `-${currency.toLowerCase()}` : ''
+  const fileName = `statement-${clientSlug}${currencySuffix}-${range.to}`
+
+  const handleExportCsv = () => {
+    downloadBlob(csvBlob(statementCsvRows(statement, client?.companyName ?? clientId)), `${fileName}.csv`)
+  }
+
+  const handleDownloadPdf = () => {
+    if (client) {
+      downloadBlob(renderStatementPdf(statement, client), `${fileName}.pdf`)
+    }
+  }
+
+  return (
+    <section className="module-card span-2">
+      <header className="module-heading">
+        <div>
+          <h2>Statement of account</h2>
+          <p>Invoices, notes and receipts with a running balance in {statement.currency}.</p>
+        </div>
+        <div className="import-actions">
+          <button type="button" className="ghost" disabled={!client} onClick={handleExportCsv}>
+            Export CSV
+          </button>
+          <button type="button" className="outline" disabled={!client} onClick={handleDownloadPdf}>
+            Download PDF
+          </button>
+        </div>
+      </header>
+
+      <div className="settings-row numbering-row">
+        <div className="numbering-fields">
+          <label>
+            <span>Client</span>
+            <select value={clientId} onChange={(event) => onClientChange(event.target.value)}>
+              <option value="">Select a client</option>
+              {clients.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.companyName}
+                  {entry.archived ? ' (archived)' : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+          {currencies.length > 1 ? (
+            <label>
+              <span>Currency</span>
+              <select value={currency} onChange={(event) => setSelectedCurrency(event.target.value as CurrencyCode)}>
+                {currencies.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+          <label>
+            <span>From</span>
+            <input
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(event) => setRange((prev) => ({ ...prev, from: event.target.value }))}
+            />
+          </label>
+          <label>
+            <span>To</span>
+            <input
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(event) => setRange((prev) => ({ ...prev, to: event.target.value }))}
+            />
+          </label>
+          <button type="button" className="ghost" onClick={() => setRange(getQuarterRange())}>
+            This quarter
+          </button>
+        </div>
+      </div>
+
+      {client ? (
+        <table className="data-table statement-table">
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Type</th>
+              <th>Reference</th>
+              <th>Debit</th>
+              <th>Credit</th>
+              <th>Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="statement-total">
+              <td>{statement.from}</td>
+              <td colSpan={4}>Opening balance</td>
+              <td>{money(statement.openingBalance)}</td>
+            </tr>
+            {statement.entries.map((entry) => (
+              <tr key={entry.id}>
+                <td>{entry.date}</td>
+                <td>{entry.kind}</td>
+                <td>
+                  <strong>{entry.reference}</strong>
+                  <span className="import-narrative">{entry.description}</span>
+                </td>
+                <td>{entry.debit ? money(entry.debit) : ''}</td>
+                <td>{entry.credit ? money(entry.credit) : ''}</td>
+                <td>{money(entry.balance)}</td>
+              </tr>
+            ))}
+            <tr className="statement-total">
+              <td>{statement.to}</td>
+              <td colSpan={2}>Closing balance</td>
+              <td>{money(statement.totalDebits)}</td>
+              <td>{money(statement.totalCredits)}</td>
+              <td>{money(statement.closingBalance)}</td>
+            </tr>
+          </tbody>
+        </table>
+      ) : (
+        <p className="recurring-empty">Pick a client to build their statement.</p>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react'
+import { PAYMENT_GATEWAY } from '../data'
+import { WEBHOOK_SIGNATURE_HEADER, WebhookError } from '../lib/webhooks'
+import {
+  createWebhookSecret,
+  redeliverWebhook,
+  updateWebhookSettings,
+  useWebhookDeliveries,
+  useWebhookSettings,
+} from '../store/webhookStore'
+import type { InvoiceRecord, WebhookDelivery, WebhookDeliveryOutcome } from '../types'
+
+type WebhookDeliveriesProps = {
+  invoices: InvoiceRecord[]
+}
+
+const OUTCOME_TONE: Record<WebhookDeliveryOutcome, string> = {
+  Processed: 'paid',
+  Duplicate: 'pending',
+  Rejected: 'overdue',
+}
+
+export const WebhookDeliveries = ({ invoices }: WebhookDeliveriesProps) => {
+  const settings = useWebhookSettings()
+  const deliveries = useWebhookDeliveries()
+  const [showSecret, setShowSecret] = useState(false)
+
+  const handleRotate = () => {
+    const ok = window.confirm(
+      `Rotate the webhook secret? Update it in the ${PAYMENT_GATEWAY.providerName} dashboard too, or deliveries ` +
+        'will be rejected.',
+    )
+    if (ok) {
+      updateWebhookSettings({ secret: createWebhookSecret() })
+    }
+  }
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    try {
+      await redeliverWebhook(delivery, invoices)
+    } catch (error) {
+      if (error instanceof WebhookError) {
+        window.alert(error.message)
+        return
+      }
+      throw error
+    }
+  }
+
+  return (
+    <section className="module-card span-2">
+      <header className="module-heading">
+        <div>
+          <h2>Webhook deliveries</h2>
+          <p>
+            {PAYMENT_GATEWAY.providerName} posts payment, failure and refund events to{' '}
+            {PAYMENT_GATEWAY.credentials.webhookUrl}. Each body is checked against the {WEBHOOK_SIGNATURE_HEADER}{' '}
+            HMAC before it touches the ledger, and redelivered events are acknowledged without being applied twice.
+          </p>
+        </div>
+      </header>
+
+      <div className="settings-row numbering-row">
+        <div className="numbering-fields">
+          <label>
+            <span>Signing secret</span>
+            <input
+              className="webhook-secret"
+              type={showSecret ? 'text' : 'password'}
+              value={settings.secret}
+              onChange={(event) => updateWebhookSettings({ secret: event.target.value })}
+            />
+          </label>
+        </div>
+        <div className="import-actions">
+          <button type="button" className="ghost" onClick={() => setShowSecret(!showSecret)}>
+            {showSecret ? 'Hide' : 'Reveal'}
+          </button>
+          <button type="button" className="outline" onClick={handleRotate}>
+            Rotate secret
+          </button>
+        </div>
+      </div>
+
+      {deliveries.length ? (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Received</th>
+              <th>Event</th>
+              <th>Outcome</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {deliveries.map((delivery) => (
+              <tr key={delivery.id}>
+                <td>{new Date(delivery.receivedAt).toLocaleString('en-IN')}</td>
+                <td>
+                  <strong>{delivery.eventType ?? 'Unknown event'}</strong>
+                  {delivery.eventId ? <span className="import-narrative">{delivery.eventId}</span> : null}
+                </td>
+                <td>
+                  <span className={`status-chip ${OUTCOME_TONE[delivery.outcome]}`}>{delivery.outcome}</span>
+                  <span className="import-narrative">{delivery.message}</span>
+                </td>
+                <td>
+                  <button type="button" className="ghost" onClick={() => handleRedeliver(delivery)}>
+                    Redeliver
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="recurring-empty">No webhook deliveries yet. Use Test webhook to send a signed sample payment.</p>
+      )}
+    </section>
+  )
+}
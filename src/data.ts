@@ -1,7 +1,14 @@
 import type {
   ActivityLog,
   ClientProfile,
+  CurrencyCode,
+  CurrencyDefinition,
+  ExchangeRateTable,
   InvoiceRecord,
+  DunningStep,
+  MoneyRoundingPolicy,
+  NumberingSeries,
+  NumberingSeriesId,
   PaymentGatewayConfig,
   PaymentTransaction,
   Service,
@@ -13,7 +20,7 @@ export const ORGANIZATION = {
   legalName: 'Aurora Digital Solutions Pvt. Ltd.',
   displayName: 'Aurora Digital Solutions',
   tagline: 'Strategic Digital Expertise Delivered',
-  taxRegistration: 'GSTIN: 27AABCU9603R1Z7',
+  taxRegistration: 'GSTIN: 27AABCU9603R1ZN',
   address: {
     line1: '7th Floor, Crest Tower',
     line2: 'Bandra Kurla Complex',
@@ -33,6 +40,7 @@ export const ORGANIZATION = {
     accountNumber: '018901290384',
     ifsc: 'HRZN0001290',
     swift: 'HRZNINBB',
+    upiId: 'auroradigital@hrznbank',
   },
 }
 
@@ -45,6 +53,8 @@ export const SERVICE_CATALOG: Service[] = [
       'Monthly optimization of on-page, off-page, and technical SEO assets with reporting and analytics.',
     unit: 'Monthly Retainer',
     unitRate: 65000,
+    sacCode: '998361',
+    taxRate: 18,
   },
   {
     id: 'svc-dm-002',
@@ -54,6 +64,8 @@ export const SERVICE_CATALOG: Service[] = [
       'End-to-end campaign management across social platforms including creative production and performance tracking.',
     unit: 'Campaign',
     unitRate: 54000,
+    sacCode: '998366',
+    taxRate: 18,
   },
   {
     id: 'svc-web-001',
@@ -63,6 +75,8 @@ export const SERVICE_CATALOG: Service[] = [
       'Responsive redesign with UX strategy, CMS integration, QA, and deployment.',
     unit: 'Project',
     unitRate: 185000,
+    sacCode: '998314',
+    taxRate: 18,
   },
   {
     id: 'svc-web-002',
@@ -72,6 +86,8 @@ export const SERVICE_CATALOG: Service[] = [
       'Full-stack eCommerce implementation with payment gateway integration and admin training.',
     unit: 'Project',
     unitRate: 275000,
+    sacCode: '998314',
+    taxRate: 18,
   },
   {
     id: 'svc-soft-001',
@@ -81,6 +97,8 @@ export const SERVICE_CATALOG: Service[] = [
       'Build and integrate tailored CRM module with existing enterprise systems.',
     unit: 'Sprint',
     unitRate: 95000,
+    sacCode: '998314',
+    taxRate: 18,
   },
   {
     id: 'svc-soft-002',
@@ -90,6 +108,8 @@ export const SERVICE_CATALOG: Service[] = [
       'Secure API integration including documentation, testing, and deployment support.',
     unit: 'Integration Package',
     unitRate: 132000,
+    sacCode: '998313',
+    taxRate: 18,
   },
 ]
 
@@ -123,6 +143,218 @@ export const SERVICE_SHOWCASES: ServiceShowcase[] = [
   },
 ]
 
+export const CURRENCIES: Record<CurrencyCode, CurrencyDefinition> = {
+  INR: {
+    code: 'INR',
+    name: 'Indian Rupee',
+    minorUnits: 2,
+    locale: 'en-IN',
+    symbol: '₹',
+    symbolPosition: 'before',
+    roundingIncrement: 0.01,
+  },
+  USD: {
+    code: 'USD',
+    name: 'US Dollar',
+    minorUnits: 2,
+    locale: 'en-US',
+    symbol: '$',
+    symbolPosition: 'before',
+    roundingIncrement: 0.01,
+  },
+  EUR: {
+    code: 'EUR',
+    name: 'Euro',
+    minorUnits: 2,
+    locale: 'de-DE',
+    symbol: '€',
+    symbolPosition: 'after',
+    roundingIncrement: 0.01,
+  },
+  GBP: {
+    code: 'GBP',
+    name: 'Pound Sterling',
+    minorUnits: 2,
+    locale: 'en-GB',
+    symbol: '£',
+    symbolPosition: 'before',
+    roundingIncrement: 0.01,
+  },
+  AED: {
+    code: 'AED',
+    name: 'UAE Dirham',
+    minorUnits: 2,
+    locale: 'en-AE',
+    symbol: 'AED',
+    symbolPosition: 'before',
+    roundingIncrement: 0.01,
+  },
+  SGD: {
+    code: 'SGD',
+    name: 'Singapore Dollar',
+    minorUnits: 2,
+    locale: 'en-SG',
+    symbol: 'S$',
+    symbolPosition: 'before',
+    roundingIncrement: 0.01,
+  },
+  AUD: {
+    code: 'AUD',
+    name: 'Australian Dollar',
+    minorUnits: 2,
+    locale: 'en-AU',
+    symbol: 'A$',
+    symbolPosition: 'before',
+    roundingIncrement: 0.01,
+  },
+  CAD: {
+    code: 'CAD',
+    name: 'Canadian Dollar',
+    minorUnits: 2,
+    locale: 'en-CA',
+    symbol: 'C$',
+    symbolPosition: 'before',
+    roundingIncrement: 0.01,
+  },
+  CHF: {
+    code: 'CHF',
+    name: 'Swiss Franc',
+    minorUnits: 2,
+    locale: 'de-CH',
+    symbol: 'CHF',
+    symbolPosition: 'before',
+    roundingIncrement: 0.05,
+  },
+  JPY: {
+    code: 'JPY',
+    name: 'Japanese Yen',
+    minorUnits: 0,
+    locale: 'ja-JP',
+    symbol: '¥',
+    symbolPosition: 'before',
+    roundingIncrement: 1,
+  },
+  SAR: {
+    code: 'SAR',
+    name: 'Saudi Riyal',
+    minorUnits: 2,
+    locale: 'en-SA',
+    symbol: 'SAR',
+    symbolPosition: 'before',
+    roundingIncrement: 0.01,
+  },
+  KWD: {
+    code: 'KWD',
+    name: 'Kuwaiti Dinar',
+    minorUnits: 3,
+    locale: 'en-KW',
+    symbol: 'KWD',
+    symbolPosition: 'before',
+    roundingIncrement: 0.001,
+  },
+}
+
+// Each line settles to the smallest currency unit before it is totalled; halves round away from zero.
+export const MONEY_ROUNDING: MoneyRoundingPolicy = {
+  mode: 'half-up',
+  level: 'line',
+}
+
+export const EXCHANGE_RATES: ExchangeRateTable = {
+  INR: { currency: 'INR', rateToBase: 1, updatedAt: '2025-06-01', source: 'Default' },
+  USD: { currency: 'USD', rateToBase: 85.6, updatedAt: '2025-06-01', source: 'Default' },
+  EUR: { currency: 'EUR', rateToBase: 97.2, updatedAt: '2025-06-01', source: 'Default' },
+  GBP: { currency: 'GBP', rateToBase: 115.4, updatedAt: '2025-06-01', source: 'Default' },
+  AED: { currency: 'AED', rateToBase: 23.31, updatedAt: '2025-06-01', source: 'Default' },
+  SGD: { currency: 'SGD', rateToBase: 66.45, updatedAt: '2025-06-01', source: 'Default' },
+  AUD: { currency: 'AUD', rateToBase: 55.2, updatedAt: '2025-06-01', source: 'Default' },
+  CAD: { currency: 'CAD', rateToBase: 62.5, updatedAt: '2025-06-01', source: 'Default' },
+  CHF: { currency: 'CHF', rateToBase: 104.1, updatedAt: '2025-06-01', source: 'Default' },
+  JPY: { currency: 'JPY', rateToBase: 0.594, updatedAt: '2025-06-01', source: 'Default' },
+  SAR: { currency: 'SAR', rateToBase: 22.82, updatedAt: '2025-06-01', source: 'Default' },
+  KWD: { currency: 'KWD', rateToBase: 279.6, updatedAt: '2025-06-01', source: 'Default' },
+}
+
+export const NUMBERING_SERIES: Record<NumberingSeriesId, NumberingSeries> = {
+  invoice: {
+    id: 'invoice',
+    label: 'Tax invoices',
+    prefix: 'ADS',
+    pattern: '{PREFIX}-{FY_START}-{SEQ}',
+    padding: 3,
+    resetEachFinancialYear: true,
+  },
+  'credit-note': {
+    id: 'credit-note',
+    label: 'Credit notes',
+    prefix: 'CN',
+    pattern: '{PREFIX}-{FY}-{SEQ}',
+    padding: 3,
+    resetEachFinancialYear: true,
+  },
+  'debit-note': {
+    id: 'debit-note',
+    label: 'Debit notes',
+    prefix: 'DN',
+    pattern: '{PREFIX}-{FY}-{SEQ}',
+    padding: 3,
+    resetEachFinancialYear: true,
+  },
+}
+
+export const DUNNING_STEPS: DunningStep[] = [
+  {
+    id: 'dun-pre-due',
+    offsetDays: -3,
+    label: 'Upcoming due date',
+    tone: 'Courtesy',
+    subject: 'Invoice {invoiceNumber} is due on {dueDate}',
+    body:
+      'Hi {contactName},\n\nA quick reminder that invoice {invoiceNumber} for {amount} is due on {dueDate}. ' +
+      'Please ignore this note if payment is already on its way.\n\nThanks,\n{organization}',
+  },
+  {
+    id: 'dun-first',
+    offsetDays: 1,
+    label: 'First reminder',
+    tone: 'Courtesy',
+    subject: 'Invoice {invoiceNumber} is now overdue',
+    body:
+      'Hi {contactName},\n\nInvoice {invoiceNumber} was due on {dueDate} and {amount} remains open. ' +
+      'Could you confirm when we can expect payment?\n\nThanks,\n{organization}',
+  },
+  {
+    id: 'dun-second',
+    offsetDays: 7,
+    label: 'Second reminder',
+    tone: 'Firm',
+    subject: 'Second reminder: {invoiceNumber} is {daysOverdue} days overdue',
+    body:
+      'Hi {contactName},\n\nWe have not yet received payment of {amount} against invoice {invoiceNumber}, ' +
+      'now {daysOverdue} days past its due date. Please arrange payment this week or let us know of any ' +
+      'issue with the invoice.\n\nRegards,\n{organization}',
+  },
+  {
+    id: 'dun-final',
+    offsetDays: 15,
+    label: 'Final notice',
+    tone: 'Final',
+    subject: 'Final notice: {invoiceNumber} — {amount} overdue',
+    body:
+      'Dear {contactName},\n\nInvoice {invoiceNumber} is {daysOverdue} days overdue with {amount} outstanding. ' +
+      'Unless payment is received within 7 days, services on this account may be paused and the matter ' +
+      'passed to our accounts team.\n\nRegards,\n{organization}',
+  },
+]
+
+export const INVOICE_EMAIL_TEMPLATE = {
+  subject: 'Invoice {invoiceNumber} from {organization}',
+  body:
+    'Hi {contactName},\n\nPlease find invoice {invoiceNumber} for {projectName}. The amount of {amount} is due ' +
+    'on {dueDate}.\n\nPayment details are on the invoice. Reply to this email with any questions.\n\n' +
+    'Thanks,\n{organization}',
+}
+
 export const PAYMENT_GATEWAY: PaymentGatewayConfig = {
   id: 'pg-razor-001',
   providerName: 'Razorpay Enterprise',
@@ -136,6 +368,7 @@ export const PAYMENT_GATEWAY: PaymentGatewayConfig = {
     keyEnding: '89F2',
     webhookUrl: 'https://auroradigital.in/api/payments/webhook',
   },
+  checkoutUrl: 'https://pay.auroradigital.in/checkout',
   channels: [
     {
       id: 'pg-ch-upi',
@@ -247,7 +480,7 @@ export const INVOICE_LEDGER: InvoiceRecord[] = [
     engagement: 'eCommerce Revamp Sprint 2',
     currency: 'INR',
     amount: 275000,
-    status: 'Overdue',
+    status: 'Pending',
     issueDate: '2025-05-10',
     dueDate: '2025-05-25',
     lastUpdated: '2025-06-10',
@@ -384,7 +617,7 @@ export const CLIENT_DIRECTORY: ClientProfile[] = [
     state: 'Maharashtra',
     postalCode: '400058',
     country: 'India',
-    gstin: '27AACCN1234B1Z9',
+    gstin: '27AACCN1234B1Z3',
   },
   {
     id: 'cl-aurora-002',
@@ -410,6 +643,6 @@ export const CLIENT_DIRECTORY: ClientProfile[] = [
     state: 'Uttar Pradesh',
     postalCode: '201309',
     country: 'India',
-    gstin: '09AAHFO6521K1ZW',
+    gstin: '09AAHFO6521K1ZY',
   },
 ]
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import type { AdjustmentNote, AdjustmentNoteKind, InvoiceFormState, InvoiceRecord, LineItem } from '../types'
+import {
+  AdjustmentNoteError,
+  buildAdjustmentNote,
+  getCreditedQuantities,
+  getInvoiceAdjustment,
+  getReversibleQuantities,
+} from './adjustmentNotes'
+import { emptyClientDetails } from './clients'
+import { isDraftNumber } from './numbering'
+
+const lineItem = (id: string, quantity: number, unitPrice: number): LineItem => ({
+  id,
+  serviceId: 'svc-1',
+  description: `Service ${id}`,
+  quantity,
+  unitPrice,
+  discountRate: 0,
+  sacCode: '998314',
+  taxRate: 18,
+})
+
+const formState = {
+  clientSelectionId: 'cl-1',
+  client: { ...emptyClientDetails, companyName: 'Northwind', state: 'Maharashtra', country: 'India' },
+  currency: 'INR',
+  taxRate: 18,
+  lineItems: [lineItem('l1', 10, 1000), lineItem('l2', 2.5, 4000)],
+} as InvoiceFormState
+
+const invoice: InvoiceRecord = {
+  id: 'inv-1',
+  invoiceNumber: 'ADS-2025-041',
+  clientId: 'cl-1',
+  engagement: 'Retainer',
+  currency: 'INR',
+  amount: 23600,
+  status: 'Pending',
+  issueDate: '2025-09-01',
+  dueDate: '2025-09-30',
+  lastUpdated: '2025-09-01',
+  formState,
+}
+
+const input = (quantities: Record<string, number>, kind: AdjustmentNoteKind = 'Credit Note') => ({
+  kind,
+  invoice,
+  quantities,
+  reason: 'Scope reduced',
+  issueDate: '2025-10-01',
+})
+
+const raise = (quantities: Record<string, number>, notes: AdjustmentNote[] = [], kind?: AdjustmentNoteKind) =>
+  buildAdjustmentNote(input(quantities, kind), notes)
+
+describe('getReversibleQuantities', () => {
+  it('leaves what has not yet been credited on each line', () => {
+    const first = raise({ l1: 4 })
+    const second = raise({ l1: 1.5, l2: 0.25 }, [first])
+    expect(getCreditedQuantities(invoice.id, [first, second])).toEqual({ l1: 5.5, l2: 0.25 })
+    expect(getReversibleQuantities(invoice, [first, second])).toEqual({ l1: 4.5, l2: 2.25 })
+  })
+
+  it('ignores debit notes and notes for other invoices', () => {
+    const debit = raise({ l1: 3 }, [], 'Debit Note')
+    const elsewhere = { ...raise({ l1: 2 }), invoiceId: 'inv-2' }
+    expect(getReversibleQuantities(invoice, [debit, elsewhere])).toEqual({ l1: 10, l2: 2.5 })
+  })
+})
+
+describe('buildAdjustmentNote', () => {
+  it('prices the selected quantities with GST under a draft number', () => {
+    const note = raise({ l1: 2 })
+    expect(note.lineItems.map((item) => [item.id, item.quantity])).toEqual([['l1', 2]])
+    expect(note.amount).toBe(2360)
+    expect(isDraftNumber(note.noteNumber)).toBe(true)
+  })
+
+  it('refuses to credit more than remains on a line', () => {
+    const first = raise({ l2: 2 })
+    expect(() => raise({ l2: 0.75 }, [first])).toThrow(AdjustmentNoteError)
+    expect(() => raise({ l2: 0.75 }, [first])).toThrow(
+      'Only 0.5 of "Service l2" remains to be credited on ADS-2025-041.',
+    )
+    expect(raise({ l2: 0.5 }, [first]).lineItems[0].quantity).toBe(0.5)
+  })
+
+  it('rejects drafts, an empty selection and a missing reason', () => {
+    const draft = { ...input({ l1: 1 }), invoice: { ...invoice, status: 'Draft' as const } }
+    expect(() => buildAdjustmentNote(draft, [])).toThrow('only issued invoices can be adjusted')
+    expect(() => raise({ l1: 0 })).toThrow('Select at least one line item quantity to adjust.')
+    expect(() => buildAdjustmentNote({ ...input({ l1: 1 }), reason: ' ' }, [])).toThrow(
+      'Enter a reason for the credit note.',
+    )
+  })
+})
+
+describe('getInvoiceAdjustment', () => {
+  it('adds debit notes and takes off credit notes', () => {
+    const credit = raise({ l1: 1 })
+    const debit = raise({ l2: 0.5 }, [], 'Debit Note')
+    expect(getInvoiceAdjustment(invoice.id, [credit, debit])).toBe(1180)
+  })
+})
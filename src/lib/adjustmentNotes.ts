@@ -0,0 +1,106 @@
+import type { AdjustmentNote, AdjustmentNoteKind, InvoiceRecord, LineItem, NumberingSeriesId } from '../types'
+import { generateId } from './ids'
+import { calculateLineItemTotals } from './invoiceTotals'
+import { sumAmounts } from './money'
+import { createDraftNumber } from './numbering'
+
+export const ADJUSTMENT_NOTE_SERIES: Record<AdjustmentNoteKind, NumberingSeriesId> = {
+  'Credit Note': 'credit-note',
+  'Debit Note': 'debit-note',
+}
+
+export class AdjustmentNoteError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AdjustmentNoteError'
+  }
+}
+
+export type AdjustmentQuantities = Record<string, number>
+
+export interface AdjustmentNoteInput {
+  kind: AdjustmentNoteKind
+  invoice: InvoiceRecord
+  quantities: AdjustmentQuantities
+  reason: string
+  issueDate: string
+}
+
+const roundQuantity = (value: number) => Math.round(value * 1000) / 1000
+
+export const getNotesForInvoice = (invoiceId: string, notes: AdjustmentNote[]) =>
+  notes.filter((note) => note.invoiceId === invoiceId)
+
+// Debit notes add to what the client owes and credit notes reduce it.
+export const getInvoiceAdjustment = (invoiceId: string, notes: AdjustmentNote[]) =>
+  sumAmounts(getNotesForInvoice(invoiceId, notes), (note) => (note.kind === 'Debit Note' ? note.amount : -note.amount))
+
+export const getCreditedQuantities = (invoiceId: string, notes: AdjustmentNote[]): AdjustmentQuantities =>
+  getNotesForInvoice(invoiceId, notes)
+    .filter((note) => note.kind === 'Credit Note')
+    .reduce<AdjustmentQuantities>((acc, note) => {
+      note.lineItems.forEach((item) => {
+        acc[item.id] = roundQuantity((acc[item.id] ?? 0) + item.quantity)
+      })
+      return acc
+    }, {})
+
+export const getReversibleQuantities = (invoice: InvoiceRecord, notes: AdjustmentNote[]): AdjustmentQuantities => {
+  const credited = getCreditedQuantities(invoice.id, notes)
+  return (invoice.formState?.lineItems ?? []).reduce<AdjustmentQuantities>((acc, item) => {
+    acc[item.id] = Math.max(roundQuantity(item.quantity - (credited[item.id] ?? 0)), 0)
+    return acc
+  }, {})
+}
+
+export const buildAdjustmentNote = (
+  { kind, invoice, quantities, reason, issueDate }: AdjustmentNoteInput,
+  notes: AdjustmentNote[],
+  now: Date = new Date(),
+): AdjustmentNote => {
+  const formState = invoice.formState
+  if (!formState) {
+    throw new AdjustmentNoteError(
+      `Invoice ${invoice.invoiceNumber} has no stored line items, so a ${kind.toLowerCase()} cannot reference it.`,
+    )
+  }
+  if (invoice.status === 'Draft' || invoice.status === 'Void') {
+    throw new AdjustmentNoteError(
+      `Invoice ${invoice.invoiceNumber} is ${invoice.status.toLowerCase()}; only issued invoices can be adjusted.`,
+    )
+  }
+  if (!reason.trim()) {
+    throw new AdjustmentNoteError(`Enter a reason for the ${kind.toLowerCase()}.`)
+  }
+
+  const reversible = getReversibleQuantities(invoice, notes)
+  const lineItems: LineItem[] = formState.lineItems
+    .map((item) => ({ ...item, quantity: roundQuantity(quantities[item.id] ?? 0) }))
+    .filter((item) => item.quantity > 0)
+
+  if (!lineItems.length) {
+    throw new AdjustmentNoteError('Select at least one line item quantity to adjust.')
+  }
+  const overCredited = lineItems.find((item) => kind === 'Credit Note' && item.quantity > (reversible[item.id] ?? 0))
+  if (overCredited) {
+    throw new AdjustmentNoteError(
+      `Only ${reversible[overCredited.id] ?? 0} of "${overCredited.description}" remains to be credited on ${invoice.invoiceNumber}.`,
+    )
+  }
+
+  return {
+    id: `note-${generateId()}`,
+    kind,
+    noteNumber: createDraftNumber(),
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    clientId: invoice.clientId,
+    client: { ...formState.client },
+    currency: invoice.currency,
+    issueDate,
+    reason: reason.trim(),
+    lineItems,
+    amount: calculateLineItemTotals(lineItems, formState.client, formState.currency).total,
+    createdAt: now.toISOString(),
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import { EXCHANGE_RATES } from '../data'
+import type { InvoiceRecord } from '../types'
+import { agingCsvRows, buildAgingReport, getAgingBucket } from './aging'
+import { evaluateInvoices } from './invoiceStatus'
+
+const today = new Date(2025, 9, 31)
+
+const record = (id: string, changes: Partial<InvoiceRecord>): InvoiceRecord => ({
+  id,
+  invoiceNumber: `ADS/2025-26/${id}`,
+  clientId: 'cl-1',
+  engagement: 'Retainer',
+  currency: 'INR',
+  amount: 10000,
+  status: 'Pending',
+  issueDate: '2025-07-01',
+  dueDate: '2025-10-20',
+  lastUpdated: '2025-07-01',
+  ...changes,
+})
+
+const invoices = evaluateInvoices(
+  [
+    record('0001', {}),
+    record('0002', { currency: 'USD', amount: 1000, exchangeRate: 80, dueDate: '2025-08-01' }),
+    record('0003', { status: 'Paid' }),
+    record('0004', {
+      clientId: 'cl-2',
+      amount: 30000,
+      dueDate: '2025-11-30',
+      instalments: [
+        { id: 'i1', label: 'Kick-off', dueDate: '2025-08-15', amount: 10000 },
+        { id: 'i2', label: 'Midpoint', dueDate: '2025-10-15', amount: 10000 },
+        { id: 'i3', label: 'Handover', dueDate: '2025-11-30', amount: 10000 },
+      ],
+    }),
+  ],
+  [],
+  today,
+)
+
+describe('getAgingBucket', () => {
+  it('puts each boundary day in the lower bucket', () => {
+    expect([0, 1, 30, 31, 60, 61, 90, 91].map(getAgingBucket)).toEqual([
+      'current',
+      '1-30',
+      '1-30',
+      '31-60',
+      '31-60',
+      '61-90',
+      '61-90',
+      '90+',
+    ])
+  })
+})
+
+describe('buildAgingReport', () => {
+  const report = buildAgingReport(invoices, EXCHANGE_RATES, today)
+
+  it('keeps one row per client and currency, largest rupee balance first', () => {
+    expect(report.rows.map((row) => [row.key, row.total, row.baseTotal])).toEqual([
+      ['cl-1:USD', 1000, 80000],
+      ['cl-2:INR', 30000, 30000],
+      ['cl-1:INR', 10000, 10000],
+    ])
+    expect(report.rows[0].buckets['90+']).toBe(1000)
+  })
+
+  it('ages each open instalment from its own due date', () => {
+    const row = report.rows.find((entry) => entry.clientId === 'cl-2')!
+    expect(row.buckets).toEqual({ current: 10000, '1-30': 10000, '31-60': 0, '61-90': 10000, '90+': 0 })
+    expect(row.invoices.map((line) => [line.instalmentLabel, line.daysPastDue])).toEqual([
+      ['Kick-off', 77],
+      ['Midpoint', 16],
+      ['Handover', 0],
+    ])
+  })
+
+  it('totals every bucket in rupees at the locked rate and skips settled invoices', () => {
+    expect(report.totals).toEqual({ current: 10000, '1-30': 20000, '31-60': 0, '61-90': 10000, '90+': 80000 })
+    expect(report.total).toBe(120000)
+    expect(report.rows.flatMap((row) => row.invoices).some((line) => line.invoiceId === '0003')).toBe(false)
+  })
+
+  it('exports invoice lines with the instalment they belong to', () => {
+    const rows = agingCsvRows(report, { 'cl-2': 'Northwind' })
+    expect(rows).toContainEqual([
+      'Northwind',
+      'ADS/2025-26/0004 (Midpoint)',
+      '2025-10-15',
+      16,
+      '1–30 days',
+      'INR',
+      '10000.00',
+      '10000.00',
+    ])
+  })
+})
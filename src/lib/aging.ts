@@ -0,0 +1,148 @@
+import type { AgingBucket, AgingInvoice, AgingReport, AgingRow, EvaluatedInvoice, ExchangeRateTable } from '../types'
+import type { CsvCell } from './csv'
+import { formatAmount } from './currency'
+import { formatDay } from './dates'
+import { BASE_CURRENCY, toBaseAmount } from './exchangeRates'
+import { addAmounts } from './money'
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', '1-30', '31-60', '61-90', '90+']
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: 'Current',
+  '1-30': '1–30 days',
+  '31-60': '31–60 days',
+  '61-90': '61–90 days',
+  '90+': '90+ days',
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({
+  current: 0,
+  '1-30': 0,
+  '31-60': 0,
+  '61-90': 0,
+  '90+': 0,
+})
+
+export const getAgingBucket = (daysPastDue: number): AgingBucket => {
+  if (daysPastDue <= 0) {
+    return 'current'
+  }
+  if (daysPastDue <= 30) {
+    return '1-30'
+  }
+  if (daysPastDue <= 60) {
+    return '31-60'
+  }
+  return daysPastDue <= 90 ? '61-90' : '90+'
+}
+
+// An invoice paid in instalments ages each open instalment from its own due date rather than the oldest one.
+const getAgingParts = (invoice: EvaluatedInvoice) => {
+  const { outstanding, daysPastDue, instalments } = invoice.evaluation
+  const open = instalments?.filter((instalment) => instalment.outstanding > 0) ?? []
+  return open.length
+    ? open.map((instalment) => ({
+        key: `${invoice.id}:${instalment.id}`,
+        instalmentLabel: instalment.label,
+        dueDate: instalment.dueDate,
+        daysPastDue: instalment.daysPastDue,
+        outstanding: instalment.outstanding,
+      }))
+    : [{ key: invoice.id, instalmentLabel: undefined, dueDate: invoice.dueDate, daysPastDue, outstanding }]
+}
+
+// Rows are per client and currency so foreign balances stay in the currency the client actually owes; the grand
+// totals convert each invoice to INR at its locked rate.
+export const buildAgingReport = (
+  invoices: EvaluatedInvoice[],
+  rates: ExchangeRateTable,
+  now: Date = new Date(),
+): AgingReport => {
+  const rows = new Map<string, AgingRow>()
+  const totals = emptyBuckets()
+  let total = 0
+
+  invoices
+    .filter((invoice) => invoice.evaluation.outstanding > 0)
+    .forEach((invoice) => {
+      const key = `${invoice.clientId}:${invoice.currency}`
+      const row = rows.get(key) ?? {
+        key,
+        clientId: invoice.clientId,
+        currency: invoice.currency,
+        buckets: emptyBuckets(),
+        total: 0,
+        baseTotal: 0,
+        invoices: [],
+      }
+      getAgingParts(invoice).forEach(({ outstanding, daysPastDue, ...part }) => {
+        const bucket = getAgingBucket(daysPastDue)
+        const baseOutstanding = toBaseAmount(outstanding, invoice, rates)
+        const line: AgingInvoice = {
+          ...part,
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          daysPastDue,
+          bucket,
+          outstanding,
+          baseOutstanding,
+        }
+        row.buckets[bucket] = addAmounts(row.buckets[bucket], outstanding)
+        row.total = addAmounts(row.total, outstanding)
+        row.baseTotal = addAmounts(row.baseTotal, baseOutstanding)
+        row.invoices.push(line)
+        totals[bucket] = addAmounts(totals[bucket], baseOutstanding)
+        total = addAmounts(total, baseOutstanding)
+      })
+      rows.set(key, row)
+    })
+
+  return {
+    asOf: formatDay(now),
+    currency: BASE_CURRENCY,
+    rows: [...rows.values()]
+      .map((row) => ({ ...row, invoices: row.invoices.sort((a, b) => b.daysPastDue - a.daysPastDue) }))
+      .sort((a, b) => b.baseTotal - a.baseTotal),
+    totals,
+    total,
+  }
+}
+
+export const agingCsvRows = (report: AgingReport, clientNames: Record<string, string>): CsvCell[][] => {
+  const clientName = (clientId: string) => clientNames[clientId] ?? clientId
+  const bucketLabels = AGING_BUCKETS.map((bucket) => AGING_BUCKET_LABELS[bucket])
+  const baseLabel = `(${report.currency})`
+  return [
+    ['Accounts receivable aging', `As of ${report.asOf}`],
+    [],
+    ['Client', 'Currency', ...bucketLabels, 'Total', `Total ${baseLabel}`],
+    ...report.rows.map((row) => [
+      clientName(row.clientId),
+      row.currency,
+      ...AGING_BUCKETS.map((bucket) => formatAmount(row.buckets[bucket], row.currency)),
+      formatAmount(row.total, row.currency),
+      formatAmount(row.baseTotal, report.currency),
+    ]),
+    [
+      'All clients',
+      report.currency,
+      ...AGING_BUCKETS.map((bucket) => formatAmount(report.totals[bucket], report.currency)),
+      formatAmount(report.total, report.currency),
+      formatAmount(report.total, report.currency),
+    ],
+    [],
+    ['Client', 'Invoice', 'Due date', 'Days past due', 'Bucket', 'Currency', 'Outstanding', `Outstanding ${baseLabel}`],
+    ...report.rows.flatMap((row) =>
+      row.invoices.map((line) => [
+        clientName(row.clientId),
+        line.instalmentLabel ? `${line.invoiceNumber} (${line.instalmentLabel})` : line.invoiceNumber,
+        line.dueDate,
+        line.daysPastDue,
+        AGING_BUCKET_LABELS[line.bucket],
+        row.currency,
+        formatAmount(line.outstanding, row.currency),
+        formatAmount(line.baseOutstanding, report.currency),
+      ]),
+    ),
+  ]
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { EXCHANGE_RATES } from '../data'
+import type { InvoiceRecord, PaymentTransaction } from '../types'
+import { buildRevenueAnalytics, getPeriodDelta, getPeriodRange } from './analytics'
+import { evaluateInvoices } from './invoiceStatus'
+
+const today = new Date(2025, 8, 15)
+
+const record = (id: string, changes: Partial<InvoiceRecord>): InvoiceRecord => ({
+  id,
+  invoiceNumber: `ADS-2025-${id}`,
+  clientId: 'cl-1',
+  engagement: 'Retainer',
+  currency: 'INR',
+  amount: 10000,
+  status: 'Pending',
+  issueDate: '2025-08-10',
+  dueDate: '2025-09-09',
+  lastUpdated: '2025-08-10',
+  ...changes,
+})
+
+const transactions: PaymentTransaction[] = [
+  {
+    id: 't1',
+    invoiceId: '001',
+    clientId: 'cl-1',
+    amount: 4000,
+    currency: 'INR',
+    method: 'UPI',
+    status: 'Succeeded',
+    receivedAt: '2025-09-05T10:00:00+05:30',
+    feeAmount: 0,
+    netAmount: 4000,
+    reference: 'UTR-1',
+  },
+]
+
+const invoices = evaluateInvoices(
+  [
+    record('001', {}),
+    record('002', { issueDate: '2025-09-02', amount: 20000, engagement: 'Audit' }),
+    record('003', { issueDate: '2025-09-10', clientId: 'cl-2', currency: 'USD', amount: 100, exchangeRate: 80 }),
+    record('004', { issueDate: '2025-07-01', amount: 5000, status: 'Written Off', lastUpdated: '2025-08-20' }),
+    record('005', { issueDate: '2025-09-12', status: 'Draft' }),
+  ],
+  transactions,
+  today,
+)
+
+const analytics = buildRevenueAnalytics({
+  invoices,
+  transactions,
+  rates: EXCHANGE_RATES,
+  clients: [],
+  period: 'month',
+  today,
+})
+
+describe('getPeriodRange', () => {
+  it('spans the month, the calendar quarter or the April financial year', () => {
+    expect(getPeriodRange('month', today)).toEqual({ from: '2025-09-01', to: '2025-09-30' })
+    expect(getPeriodRange('quarter', today)).toEqual({ from: '2025-07-01', to: '2025-09-30' })
+    expect(getPeriodRange('year', new Date(2026, 1, 1))).toEqual({ from: '2025-04-01', to: '2026-03-31' })
+  })
+})
+
+describe('buildRevenueAnalytics', () => {
+  it('totals billing and collections in rupees at the locked rate, leaving out drafts', () => {
+    expect(analytics.current).toMatchObject({ from: '2025-09-01', billed: 28000, collected: 4000 })
+    expect(analytics.byClient.map((row) => [row.key, row.billed, row.collected])).toEqual([
+      ['cl-1', 20000, 4000],
+      ['cl-2', 8000, 0],
+    ])
+  })
+
+  it('works out DSO over the days elapsed in a period still in progress', () => {
+    // Receivable on 15 September is 34,000 against 28,000 billed over 15 days.
+    expect(analytics.current.dso).toBe(18)
+  })
+
+  it('uses the whole of a past period and clears written-off balances from receivables', () => {
+    // 10,000 still open on 31 August against 10,000 billed over 31 days; the July invoice was written off.
+    expect(analytics.previous).toMatchObject({ from: '2025-08-01', to: '2025-08-31', billed: 10000, dso: 31 })
+  })
+
+  it('leaves DSO empty for a period with nothing billed', () => {
+    const quiet = buildRevenueAnalytics({
+      invoices,
+      transactions,
+      rates: EXCHANGE_RATES,
+      clients: [],
+      period: 'month',
+      today: new Date(2025, 11, 1),
+    })
+    expect(quiet.current.dso).toBeNull()
+  })
+
+  it('ends the monthly trend on the current month', () => {
+    expect(analytics.months).toHaveLength(12)
+    expect(analytics.months.at(-1)).toMatchObject({ key: '2025-09', billed: 28000, collected: 4000 })
+    expect(analytics.months.at(-2)).toMatchObject({ key: '2025-08', billed: 10000, collected: 0 })
+  })
+})
+
+describe('getPeriodDelta', () => {
+  it('gives the change in percent to one decimal, or null without a baseline', () => {
+    expect(getPeriodDelta(28000, 10000)).toBe(180)
+    expect(getPeriodDelta(2000, 3000)).toBe(-33.3)
+    expect(getPeriodDelta(500, 0)).toBeNull()
+  })
+})
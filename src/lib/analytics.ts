@@ -0,0 +1,216 @@
+import { SERVICE_CATALOG } from '../data'
+import type {
+  ClientProfile,
+  EvaluatedInvoice,
+  ExchangeRateTable,
+  PaymentTransaction,
+  RevenueAnalytics,
+  RevenueBreakdown,
+  RevenueCategory,
+  RevenuePeriod,
+  RevenuePeriodSummary,
+} from '../types'
+import { addDays, daysBetween, formatDay, parseDay } from './dates'
+import { BASE_CURRENCY, toBaseAmount } from './exchangeRates'
+import { calculateInvoiceTotals } from './invoiceTotals'
+import { addAmounts, multiplyAmount, roundAmount, subtractAmount, sumAmounts } from './money'
+import { getFinancialYear } from './numbering'
+import { getInvoicePayments } from './payments'
+import { getQuarterRange } from './statement'
+
+export interface RevenueAnalyticsInput {
+  invoices: EvaluatedInvoice[]
+  transactions: PaymentTransaction[]
+  rates: ExchangeRateTable
+  clients: ClientProfile[]
+  period: RevenuePeriod
+  today?: Date
+}
+
+export const REVENUE_PERIOD_LABELS: Record<RevenuePeriod, string> = {
+  month: 'Month',
+  quarter: 'Quarter',
+  year: 'Financial year',
+}
+
+const MONTHS_IN_TREND = 12
+
+type RevenueEventKind = 'billed' | 'collected' | 'written-off'
+
+interface RevenueEvent {
+  date: string
+  kind: RevenueEventKind
+  amount: number
+  clientId: string
+  engagement: string
+  categoryShares: Array<[RevenueCategory, number]>
+}
+
+const serviceCategories = new Map(SERVICE_CATALOG.map((service) => [service.id, service.category]))
+
+export const getPeriodRange = (period: RevenuePeriod, date: Date = new Date()) => {
+  if (period === 'quarter') {
+    return getQuarterRange(date)
+  }
+  if (period === 'year') {
+    const { startYear } = getFinancialYear(date)
+    return { from: `${startYear}-04-01`, to: `${startYear + 1}-03-31` }
+  }
+  return {
+    from: formatDay(new Date(date.getFullYear(), date.getMonth(), 1)),
+    to: formatDay(new Date(date.getFullYear(), date.getMonth() + 1, 0)),
+  }
+}
+
+// Invoices saved from the builder split by the category of each line's service; ledger entries without line
+// items have nothing to split on.
+const getCategoryShares = (invoice: EvaluatedInvoice): Array<[RevenueCategory, number]> => {
+  if (!invoice.formState?.lineItems.length) {
+    return [['Uncategorised', 1]]
+  }
+  const byCategory = new Map<RevenueCategory, number>()
+  calculateInvoiceTotals(invoice.formState).lines.forEach(({ item, lineTotal }) => {
+    const category = serviceCategories.get(item.serviceId) ?? 'Uncategorised'
+    byCategory.set(category, addAmounts(byCategory.get(category) ?? 0, lineTotal))
+  })
+  const total = sumAmounts([...byCategory.values()], (value) => value)
+  if (total <= 0) {
+    return [['Uncategorised', 1]]
+  }
+  return [...byCategory.entries()].map(([category, value]) => [category, value / total])
+}
+
+const collectEvents = ({ invoices, transactions, rates }: RevenueAnalyticsInput) => {
+  const events: RevenueEvent[] = []
+  invoices
+    .filter((invoice) => invoice.status !== 'Draft' && invoice.status !== 'Void')
+    .forEach((invoice) => {
+      const base = {
+        clientId: invoice.clientId,
+        engagement: invoice.engagement,
+        categoryShares: getCategoryShares(invoice),
+      }
+      const billed = invoice.evaluation.adjustedAmount
+      events.push({ ...base, date: invoice.issueDate, kind: 'billed', amount: toBaseAmount(billed, invoice, rates) })
+
+      const payments = getInvoicePayments(invoice.id, transactions)
+      payments.forEach((txn) => {
+        events.push({
+          ...base,
+          date: txn.receivedAt.split('T')[0],
+          kind: 'collected',
+          amount: toBaseAmount(txn.amount, txn.currency === invoice.currency ? invoice : txn, rates),
+        })
+      })
+
+      // Matches the statement of account: a manual "paid" or "written off" settles whatever receipts do not cover.
+      const unsettled = subtractAmount(billed, sumAmounts(payments, (txn) => txn.amount))
+      if ((invoice.status === 'Paid' || invoice.status === 'Written Off') && unsettled > 0) {
+        events.push({
+          ...base,
+          date: invoice.lastUpdated.split('T')[0],
+          kind: invoice.status === 'Paid' ? 'collected' : 'written-off',
+          amount: toBaseAmount(unsettled, invoice, rates),
+        })
+      }
+    })
+  return events
+}
+
+const inRange = (event: RevenueEvent, from: string, to: string) => event.date >= from && event.date <= to
+
+const sumEvents = (events: RevenueEvent[], kind: RevenueEventKind) =>
+  sumAmounts(
+    events.filter((event) => event.kind === kind),
+    (event) => event.amount,
+  )
+
+// DSO = receivables at period end ÷ revenue billed in the period × days in the period. A period still in
+// progress only counts the days elapsed so far.
+const summarizePeriod = (events: RevenueEvent[], from: string, to: string, today: string): RevenuePeriodSummary => {
+  const periodEvents = events.filter((event) => inRange(event, from, to))
+  const billed = sumEvents(periodEvents, 'billed')
+  const collected = sumEvents(periodEvents, 'collected')
+  const asOf = to < today ? to : today
+  const toDate = events.filter((event) => event.date <= asOf)
+  const receivable = subtractAmount(
+    sumEvents(toDate, 'billed'),
+    addAmounts(sumEvents(toDate, 'collected'), sumEvents(toDate, 'written-off')),
+  )
+  const days = daysBetween(from, asOf) + 1
+  return {
+    from,
+    to,
+    billed,
+    collected,
+    dso: billed > 0 ? Math.round((Math.max(receivable, 0) / billed) * days) : null,
+  }
+}
+
+const breakdownBy = (
+  events: RevenueEvent[],
+  keyOf: (event: RevenueEvent) => Array<[string, number]>,
+  labelOf: (key: string) => string,
+) => {
+  const rows = new Map<string, RevenueBreakdown>()
+  events.forEach((event) => {
+    const { kind } = event
+    if (kind === 'written-off') {
+      return
+    }
+    keyOf(event).forEach(([key, share]) => {
+      const row = rows.get(key) ?? { key, label: labelOf(key), billed: 0, collected: 0 }
+      const amount = share === 1 ? event.amount : roundAmount(multiplyAmount(event.amount, share), BASE_CURRENCY)
+      row[kind] = addAmounts(row[kind], amount)
+      rows.set(key, row)
+    })
+  })
+  return [...rows.values()].sort((a, b) => b.billed - a.billed || b.collected - a.collected)
+}
+
+export const buildRevenueAnalytics = (input: RevenueAnalyticsInput): RevenueAnalytics => {
+  const today = input.today ?? new Date()
+  const events = collectEvents(input)
+  const current = getPeriodRange(input.period, today)
+  const previous = getPeriodRange(input.period, parseDay(addDays(current.from, -1)))
+  const periodEvents = events.filter((event) => inRange(event, current.from, current.to))
+  const clientNames = new Map(input.clients.map((client) => [client.id, client.companyName]))
+
+  const months = Array.from({ length: MONTHS_IN_TREND }, (_, index) => {
+    const month = new Date(today.getFullYear(), today.getMonth() - (MONTHS_IN_TREND - 1 - index), 1)
+    const range = getPeriodRange('month', month)
+    const monthEvents = events.filter((event) => inRange(event, range.from, range.to))
+    return {
+      key: range.from.slice(0, 7),
+      label: month.toLocaleDateString('en-IN', { month: 'short', year: '2-digit' }),
+      billed: sumEvents(monthEvents, 'billed'),
+      collected: sumEvents(monthEvents, 'collected'),
+    }
+  })
+
+  return {
+    currency: BASE_CURRENCY,
+    current: summarizePeriod(events, current.from, current.to, formatDay(today)),
+    previous: summarizePeriod(events, previous.from, previous.to, formatDay(today)),
+    months,
+    byCategory: breakdownBy(
+      periodEvents,
+      (event) => event.categoryShares,
+      (key) => key,
+    ),
+    byClient: breakdownBy(
+      periodEvents,
+      (event) => [[event.clientId, 1]],
+      (key) => clientNames.get(key) ?? key,
+    ),
+    byEngagement: breakdownBy(
+      periodEvents,
+      (event) => [[event.engagement, 1]],
+      (key) => key,
+    ),
+  }
+}
+
+// Percentage change against the previous period; null when there is nothing to compare with.
+export const getPeriodDelta = (current: number, previous: number) =>
+  previous ? Math.round(((current - previous) / previous) * 1000) / 10 : null
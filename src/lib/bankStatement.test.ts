@@ -0,0 +1,132 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import {
+  BankStatementError,
+  detectStatementFormat,
+  parseBankStatementCsv,
+  parseCamt053,
+  parseMt940,
+} from './bankStatement'
+
+describe('parseBankStatementCsv', () => {
+  const csv = [
+    'Account statement for 50200012345678',
+    'Txn Date,Narration,Ref No,Withdrawal,Deposit,Balance',
+    '01/10/2025,NEFT-HDFC0000123-NORTHWIND TRADERS-ADS 2025 041,UTIB12345678901,,"11,800.00","1,11,800.00"',
+    '02/10/2025,ATM WITHDRAWAL,,"5,000.00",,"1,06,800.00"',
+    '03-Oct-2025,IMPS-ACME LABS-RETAINER,,,2500,"1,09,300.00"',
+    '03-Oct-2025,IMPS-ACME LABS-RETAINER,,,2500,"1,11,800.00"',
+  ].join('\n')
+  const statement = parseBankStatementCsv(csv)
+
+  it('reads credits after the header row and skips debits', () => {
+    expect(statement.skipped).toBe(1)
+    expect(statement.entries.map((entry) => [entry.bookingDate, entry.amount, entry.reference])).toEqual([
+      ['2025-10-01', 11800, 'UTIB12345678901'],
+      ['2025-10-03', 2500, ''],
+      ['2025-10-03', 2500, ''],
+    ])
+  })
+
+  it('takes the payer from the narration when there is no payer column', () => {
+    expect(statement.entries[0].counterparty).toBe('NORTHWIND TRADERS')
+    expect(statement.entries[0].currency).toBe('INR')
+  })
+
+  it('gives every receipt its own id, including identical lines', () => {
+    const ids = statement.entries.map((entry) => entry.id)
+    expect(new Set(ids).size).toBe(ids.length)
+    expect(parseBankStatementCsv(csv).entries.map((entry) => entry.id)).toEqual(ids)
+  })
+
+  it('tells apart receipts with the same date and amount but different narrations', () => {
+    const csv = ['Date,Description,Amount', '2025-10-05,UPI from Northwind,1000', '2025-10-05,UPI from Acme Labs,1000']
+    const { entries } = parseBankStatementCsv(csv.join('\n'))
+    expect(entries[0].id).not.toBe(entries[1].id)
+  })
+})
+
+describe('parseMt940', () => {
+  const mt940 = [
+    ':20:STMT2510',
+    ':25:HDFCINBB/50200012345678',
+    ':28C:00042/001',
+    ':60F:C250930INR100000,00',
+    ':61:2510011001C11800,00NTRFUTIB12345678901//HDFC0001',
+    ':86:NEFT?20ADS 2025 041?32NORTHWIND TRADERS',
+    ':61:2510021002D5000,00NCHKATM001',
+    ':86:ATM WITHDRAWAL',
+    ':61:2510031003C2500,5NTRFNONREF',
+    ':86:RECEIVED FROM ACME LABS',
+    ':62F:C251003INR109300,50',
+  ].join('\n')
+  const statement = parseMt940(mt940)
+
+  it('reads credit lines in the statement currency and skips debits', () => {
+    expect(statement.format).toBe('mt940')
+    expect(statement.skipped).toBe(1)
+    expect(statement.entries.map((entry) => [entry.bookingDate, entry.amount, entry.currency])).toEqual([
+      ['2025-10-01', 11800, 'INR'],
+      ['2025-10-03', 2500.5, 'INR'],
+    ])
+  })
+
+  it('takes the reference, payer and narrative from the :61: and :86: fields', () => {
+    expect(statement.entries[0]).toMatchObject({
+      reference: 'UTIB12345678901',
+      counterparty: 'NORTHWIND TRADERS',
+      narrative: 'NEFT ADS 2025 041 NORTHWIND TRADERS',
+    })
+    expect(statement.entries[1].counterparty).toBe('ACME LABS')
+  })
+})
+
+describe('parseCamt053', () => {
+  const entry = (amount: string, indicator: string, endToEndId: string, payer: string) => `
+    <Ntry>
+      <Amt Ccy="USD">${amount}</Amt>
+      <CdtDbtInd>${indicator}</CdtDbtInd>
+      <BookgDt><Dt>2025-10-06</Dt></BookgDt>
+      <AcctSvcrRef>SVC-${endToEndId}</AcctSvcrRef>
+      <NtryDtls><TxDtls>
+        <Refs><EndToEndId>${endToEndId}</EndToEndId></Refs>
+        <RltdPties><Dbtr><Nm>${payer}</Nm></Dbtr></RltdPties>
+        <RmtInf><Ustrd>Invoice ADS-2025-041</Ustrd></RmtInf>
+      </TxDtls></NtryDtls>
+    </Ntry>`
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt><Stmt>
+    ${entry('1200.00', 'CRDT', 'E2E-001', 'Northwind Inc')}
+    ${entry('300.00', 'DBIT', 'E2E-002', 'Card fees')}
+    ${entry('1200.00', 'CRDT', 'NOTPROVIDED', 'Acme Labs')}
+  </Stmt></BkToCstmrStmt>
+</Document>`
+  const statement = parseCamt053(xml)
+
+  it('reads credit entries and skips debits', () => {
+    expect(statement.skipped).toBe(1)
+    const rows = statement.entries.map((item) => [item.bookingDate, item.amount, item.currency, item.counterparty])
+    expect(rows).toEqual([
+      ['2025-10-06', 1200, 'USD', 'Northwind Inc'],
+      ['2025-10-06', 1200, 'USD', 'Acme Labs'],
+    ])
+  })
+
+  it('falls back to the servicer reference when the end-to-end id is not provided', () => {
+    expect(statement.entries.map((item) => item.reference)).toEqual(['E2E-001', 'SVC-NOTPROVIDED'])
+    expect(statement.entries[0].narrative).toBe('Invoice ADS-2025-041')
+  })
+
+  it('rejects a file that is not well-formed XML', () => {
+    expect(() => parseCamt053('<Document><Ntry></Document>')).toThrow(BankStatementError)
+  })
+})
+
+describe('detectStatementFormat', () => {
+  it('recognises each format by extension or content', () => {
+    expect(detectStatementFormat('october.xml', '')).toBe('camt053')
+    expect(detectStatementFormat('export.txt', ':20:STMT2510\n:25:HDFCINBB')).toBe('mt940')
+    expect(detectStatementFormat('october.csv', 'Date,Amount')).toBe('csv')
+  })
+})
@@ -0,0 +1,312 @@
+import type {
+  BankStatementEntry,
+  BankStatementFormat,
+  ClientProfile,
+  EvaluatedInvoice,
+  InvoiceMatchSuggestion,
+  PaymentMethod,
+  PaymentTransaction,
+} from '../types'
+import { parseCsv } from './csv'
+import { isCurrencyCode } from './currency'
+
+type Currency = BankStatementEntry['currency']
+
+export class BankStatementError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BankStatementError'
+  }
+}
+
+export interface ParsedBankStatement {
+  format: BankStatementFormat
+  entries: BankStatementEntry[]
+  skipped: number
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const normalizeDate = (value: string) => {
+  const trimmed = value.trim()
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (match) {
+    return `${match[1]}-${pad(Number(match[2]))}-${pad(Number(match[3]))}`
+  }
+  match = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/)
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3])
+    return `${year}-${pad(Number(match[2]))}-${pad(Number(match[1]))}`
+  }
+  match = trimmed.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[a-z]*[\s-](\d{2,4})$/)
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase()) + 1
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3])
+    return month ? `${year}-${pad(month)}-${pad(Number(match[1]))}` : ''
+  }
+  return ''
+}
+
+const parseAmount = (value: string) => {
+  const cleaned = value.replace(/[^\d.,-]/g, '')
+  if (!cleaned) {
+    return 0
+  }
+  // MT940 uses a comma as the decimal separator; CSV exports use it for grouping.
+  const normalized =
+    /,\d{1,2}$/.test(cleaned) && !cleaned.includes('.') ? cleaned.replace(',', '.') : cleaned.replace(/,/g, '')
+  const amount = Number(normalized)
+  return Number.isFinite(amount) ? amount : 0
+}
+
+// FNV-1a keeps the id short while still telling apart receipts that share a date, amount and reference.
+const hashText = (value: string) => {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < value.length; index += 1) {
+    hash = Math.imul(hash ^ value.charCodeAt(index), 0x01000193)
+  }
+  return (hash >>> 0).toString(36)
+}
+
+// Ids are derived from the entry itself so that re-importing an overlapping statement flags the same receipts as
+// already recorded. Identical lines within one statement are separate receipts, so repeats are numbered.
+const entryId = (bookingDate: string, amount: number, reference: string, narrative: string) => {
+  const suffix = reference.replace(/[^A-Za-z0-9]/g, '').slice(-12)
+  return `bank-${bookingDate.replace(/-/g, '')}-${Math.round(amount * 100)}-${suffix}-${hashText(narrative)}`
+}
+
+const withUniqueIds = (entries: BankStatementEntry[]) => {
+  const seen = new Map<string, number>()
+  return entries.map((entry) => {
+    const count = (seen.get(entry.id) ?? 0) + 1
+    seen.set(entry.id, count)
+    return count > 1 ? { ...entry, id: `${entry.id}-${count}` } : entry
+  })
+}
+
+// Bank narrations chain channel, IFSC, payer and remarks with separators; the payer is the longest wordy segment.
+const payerFromNarrative = (narrative: string) =>
+  narrative
+    .split(/[/-]/)
+    .map((segment) => segment.trim())
+    .filter((segment) => /[A-Za-z]{3}/.test(segment) && !/\d/.test(segment))
+    .sort((a, b) => b.length - a.length)[0] ?? ''
+
+const findColumn = (headers: string[], pattern: RegExp) => headers.findIndex((header) => pattern.test(header))
+
+export const parseBankStatementCsv = (text: string, defaultCurrency: Currency = 'INR'): ParsedBankStatement => {
+  const rows = parseCsv(text)
+  const headerIndex = rows.findIndex((row) => row.some((cell) => /date/i.test(cell)))
+  if (headerIndex < 0) {
+    return { format: 'csv', entries: [], skipped: rows.length }
+  }
+  const headers = rows[headerIndex].map((header) => header.trim().toLowerCase())
+  const columns = {
+    date: findColumn(headers, /(value|txn|transaction|booking|posting)?\s*date/),
+    narrative: findColumn(headers, /narration|description|particulars|remarks|details/),
+    reference: findColumn(headers, /utr|ref|cheque|chq/),
+    credit: findColumn(headers, /credit|deposit|cr\b/),
+    amount: findColumn(headers, /^amount$|^amt$/),
+    counterparty: findColumn(headers, /remitter|counterparty|payer|name/),
+    currency: findColumn(headers, /currency|ccy/),
+  }
+
+  const entries: BankStatementEntry[] = []
+  let skipped = 0
+  rows.slice(headerIndex + 1).forEach((row) => {
+    const cell = (index: number) => (index >= 0 ? (row[index] ?? '').trim() : '')
+    const bookingDate = normalizeDate(cell(columns.date))
+    const amount = parseAmount(cell(columns.credit >= 0 ? columns.credit : columns.amount))
+    const currency = (cell(columns.currency) || defaultCurrency).toUpperCase()
+    if (!bookingDate || amount <= 0 || !isCurrencyCode(currency)) {
+      skipped += 1
+      return
+    }
+    const narrative = cell(columns.narrative)
+    const reference = cell(columns.reference) || narrative.match(/[A-Z]{4}[A-Z0-9]{8,}/)?.[0] || ''
+    entries.push({
+      id: entryId(bookingDate, amount, reference, narrative),
+      bookingDate,
+      amount,
+      currency: currency as Currency,
+      reference,
+      counterparty: cell(columns.counterparty) || payerFromNarrative(narrative),
+      narrative,
+    })
+  })
+  return { format: 'csv', entries: withUniqueIds(entries), skipped }
+}
+
+export const parseMt940 = (text: string): ParsedBankStatement => {
+  const fields: { tag: string; value: string }[] = []
+  text.split(/\r?\n/).forEach((line) => {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/)
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] })
+    } else if (fields.length && line.trim() && !line.startsWith('-}')) {
+      fields[fields.length - 1].value += `\n${line}`
+    }
+  })
+
+  const openingBalance = fields.find((field) => field.tag === '60F' || field.tag === '60M')
+  const statementCurrency = openingBalance?.value.slice(7, 10).toUpperCase() ?? 'INR'
+
+  const entries: BankStatementEntry[] = []
+  let skipped = 0
+  fields.forEach((field, index) => {
+    if (field.tag !== '61') {
+      return
+    }
+    // :61:YYMMDD[MMDD]{C|D|RC|RD}[funds code]amount{N|F|S}xxx reference[//bank reference]
+    const match = field.value.match(
+      /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)[A-Z]?([\d,]+)[NFS][A-Z0-9]{3}([^\n/]*)(?:\/\/([^\n]*))?/,
+    )
+    const narrativeField = fields[index + 1]?.tag === '86' ? fields[index + 1].value.replace(/\n/g, ' ') : ''
+    if (!match || match[5] !== 'C' || !isCurrencyCode(statementCurrency)) {
+      skipped += 1
+      return
+    }
+    const bookingDate = `20${match[1]}-${match[2]}-${match[3]}`
+    const amount = parseAmount(match[6])
+    const reference = (match[7] || match[8] || '').trim()
+    const counterparty =
+      narrativeField.match(/\?3[23]([^?]+)/)?.[1] ?? narrativeField.match(/(?:BY|FROM)\s+([A-Z][\w .&]+)/i)?.[1] ?? ''
+    const narrative = narrativeField.replace(/\?\d{2}/g, ' ').replace(/\s+/g, ' ').trim()
+    entries.push({
+      id: entryId(bookingDate, amount, reference, narrative),
+      bookingDate,
+      amount,
+      currency: statementCurrency as Currency,
+      reference,
+      counterparty: counterparty.trim(),
+      narrative,
+    })
+  })
+  return { format: 'mt940', entries: withUniqueIds(entries), skipped }
+}
+
+export const parseCamt053 = (text: string): ParsedBankStatement => {
+  const document = new DOMParser().parseFromString(text, 'application/xml')
+  if (document.getElementsByTagName('parsererror').length) {
+    throw new BankStatementError('The CAMT.053 statement is not well-formed XML.')
+  }
+  const first = (parent: Element | Document, name: string) => parent.getElementsByTagNameNS('*', name)[0]
+  const textOf = (parent: Element | undefined, name: string) =>
+    parent ? (first(parent, name)?.textContent?.trim() ?? '') : ''
+
+  const entries: BankStatementEntry[] = []
+  let skipped = 0
+  Array.from(document.getElementsByTagNameNS('*', 'Ntry')).forEach((entry) => {
+    const amountElement = first(entry, 'Amt')
+    const currency = amountElement?.getAttribute('Ccy')?.toUpperCase() ?? ''
+    const bookingDate = normalizeDate(textOf(first(entry, 'BookgDt'), 'Dt') || textOf(first(entry, 'BookgDt'), 'DtTm'))
+    const amount = parseAmount(amountElement?.textContent ?? '')
+    if (textOf(entry, 'CdtDbtInd') !== 'CRDT' || !bookingDate || amount <= 0 || !isCurrencyCode(currency)) {
+      skipped += 1
+      return
+    }
+    const endToEndId = textOf(entry, 'EndToEndId').replace(/^NOTPROVIDED$/, '')
+    const reference = endToEndId || textOf(entry, 'AcctSvcrRef') || textOf(entry, 'NtryRef')
+    const narrative = [textOf(entry, 'Ustrd'), textOf(entry, 'AddtlNtryInf')].filter(Boolean).join(' ')
+    entries.push({
+      id: entryId(bookingDate, amount, reference, narrative),
+      bookingDate,
+      amount,
+      currency: currency as Currency,
+      reference,
+      counterparty: textOf(first(entry, 'Dbtr'), 'Nm'),
+      narrative,
+    })
+  })
+  return { format: 'camt053', entries: withUniqueIds(entries), skipped }
+}
+
+export const detectStatementFormat = (fileName: string, text: string): BankStatementFormat => {
+  const head = text.trimStart().slice(0, 400)
+  if (/\.xml$/i.test(fileName) || head.startsWith('<?xml') || head.includes('camt.053')) {
+    return 'camt053'
+  }
+  if (/\.(sta|940|mt940)$/i.test(fileName) || /^:20:/m.test(head) || /\{4:/.test(head)) {
+    return 'mt940'
+  }
+  return 'csv'
+}
+
+export const parseBankStatement = (fileName: string, text: string): ParsedBankStatement => {
+  const format = detectStatementFormat(fileName, text)
+  if (format === 'camt053') {
+    return parseCamt053(text)
+  }
+  if (format === 'mt940') {
+    return parseMt940(text)
+  }
+  return parseBankStatementCsv(text)
+}
+
+const tokenize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token.length > 2 && !['pvt', 'ltd', 'llp', 'the', 'and', 'private', 'limited'].includes(token))
+
+export const suggestInvoiceMatches = (
+  entry: BankStatementEntry,
+  invoices: EvaluatedInvoice[],
+  clients: ClientProfile[],
+): InvoiceMatchSuggestion[] => {
+  const haystack = `${entry.reference} ${entry.narrative}`.toUpperCase().replace(/\s+/g, '')
+  const payerTokens = new Set(tokenize(`${entry.counterparty} ${entry.narrative}`))
+
+  return invoices
+    .filter((invoice) => invoice.evaluation.outstanding > 0 && invoice.currency === entry.currency)
+    .map((invoice) => {
+      const reasons: string[] = []
+      let score = 0
+      if (haystack.includes(invoice.invoiceNumber.toUpperCase().replace(/\s+/g, ''))) {
+        score += 60
+        reasons.push('Invoice number in reference')
+      }
+      const outstanding = invoice.evaluation.outstanding
+      if (Math.abs(outstanding - entry.amount) < 0.01) {
+        score += 30
+        reasons.push('Exact outstanding amount')
+      } else if (Math.abs(invoice.amount - entry.amount) < 0.01) {
+        score += 25
+        reasons.push('Exact invoice amount')
+      } else if (entry.amount < outstanding) {
+        score += 5
+        reasons.push('Possible part payment')
+      }
+      const client = clients.find((profile) => profile.id === invoice.clientId)
+      const clientTokens = client ? tokenize(client.companyName) : []
+      if (clientTokens.length && clientTokens.some((token) => payerTokens.has(token))) {
+        score += 25
+        reasons.push(`Payer matches ${client?.companyName}`)
+      }
+      return { invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber, score, reasons }
+    })
+    .filter((suggestion) => suggestion.score >= 25)
+    .sort((a, b) => b.score - a.score)
+}
+
+const inferPaymentMethod = (entry: BankStatementEntry): PaymentMethod =>
+  /swift|wire|inward remit|fx|forex/i.test(`${entry.narrative} ${entry.reference}`) || entry.currency !== 'INR'
+    ? 'Wire Transfer'
+    : 'NetBanking'
+
+export const toPaymentTransaction = (entry: BankStatementEntry, invoice: EvaluatedInvoice): PaymentTransaction => ({
+  id: `txn-${entry.id}`,
+  invoiceId: invoice.id,
+  clientId: invoice.clientId,
+  amount: entry.amount,
+  currency: entry.currency,
+  method: inferPaymentMethod(entry),
+  status: 'Succeeded',
+  receivedAt: `${entry.bookingDate}T00:00:00+05:30`,
+  feeAmount: 0,
+  netAmount: entry.amount,
+  reference: entry.reference || entry.id,
+})
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import type { ClientDetails, ClientProfile } from '../types'
+import { ClientDirectoryError, normalizeClientDetails, toClientDetails, validateClientDetails } from './clients'
+
+const details: ClientDetails = {
+  companyName: 'Northwind Traders Pvt Ltd',
+  contactName: 'Asha Rao',
+  email: 'accounts@northwind.example',
+  phone: '+91 98200 12345',
+  addressLine1: '14 Marine Drive',
+  addressLine2: '',
+  city: 'Mumbai',
+  state: 'Maharashtra',
+  postalCode: '400020',
+  country: 'India',
+  gstin: '27AAPFU0939F1ZV',
+}
+
+const directory: ClientProfile[] = [
+  { id: 'cl-1', ...details },
+  { id: 'cl-2', ...details, companyName: 'Acme Labs LLP', gstin: '', archived: true },
+]
+
+describe('normalizeClientDetails', () => {
+  it('trims every field and upper-cases the GSTIN', () => {
+    const normalized = normalizeClientDetails({
+      ...details,
+      companyName: '  Northwind Traders Pvt Ltd ',
+      email: ' accounts@northwind.example ',
+      gstin: ' 27aapfu0939f1zv ',
+    })
+    expect(normalized).toEqual(details)
+  })
+
+  it('round-trips a stored profile without its id or archive flag', () => {
+    expect(toClientDetails(directory[1])).toEqual({ ...details, companyName: 'Acme Labs LLP', gstin: '' })
+  })
+})
+
+describe('validateClientDetails', () => {
+  it('accepts a complete new client', () => {
+    expect(() => validateClientDetails({ ...details, companyName: 'Contoso' }, directory)).not.toThrow()
+  })
+
+  it('requires a primary contact and an email for directory entries', () => {
+    expect(() => validateClientDetails({ ...details, companyName: 'Contoso', contactName: ' ' }, directory)).toThrow(
+      'Primary contact is required.',
+    )
+    expect(() => validateClientDetails({ ...details, companyName: 'Contoso', email: '' }, directory)).toThrow(
+      ClientDirectoryError,
+    )
+  })
+
+  it('applies the GSTIN and address rules before saving', () => {
+    expect(() =>
+      validateClientDetails({ ...details, companyName: 'Contoso', gstin: '27AAPFU0939F1ZA' }, directory),
+    ).toThrow(ClientDirectoryError)
+    expect(() => validateClientDetails({ ...details, companyName: 'Contoso', postalCode: '04002' }, directory)).toThrow(
+      ClientDirectoryError,
+    )
+  })
+
+  it('rejects a company name already in the directory, ignoring case and spacing', () => {
+    expect(() => validateClientDetails({ ...details, companyName: ' northwind traders pvt ltd' }, directory)).toThrow(
+      'Northwind Traders Pvt Ltd is already in the client directory.',
+    )
+  })
+
+  it('names archived duplicates so they can be restored instead', () => {
+    expect(() => validateClientDetails({ ...details, companyName: 'ACME LABS LLP', gstin: '' }, directory)).toThrow(
+      'Acme Labs LLP is already in the client directory (archived).',
+    )
+  })
+
+  it('lets a client keep its own name when edited', () => {
+    expect(() => validateClientDetails({ ...details, city: 'Pune' }, directory, 'cl-1')).not.toThrow()
+  })
+})
@@ -0,0 +1,77 @@
+import type { ClientDetails, ClientFieldErrors, ClientProfile } from '../types'
+import { validateClientFields } from './validation'
+
+export class ClientDirectoryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ClientDirectoryError'
+  }
+}
+
+export const emptyClientDetails: ClientDetails = {
+  companyName: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  addressLine1: '',
+  addressLine2: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  country: '',
+  gstin: '',
+}
+
+export const toClientDetails = (profile: ClientProfile): ClientDetails => ({
+  companyName: profile.companyName,
+  contactName: profile.contactName,
+  email: profile.email,
+  phone: profile.phone,
+  addressLine1: profile.addressLine1,
+  addressLine2: profile.addressLine2 ?? '',
+  city: profile.city,
+  state: profile.state,
+  postalCode: profile.postalCode,
+  country: profile.country,
+  gstin: profile.gstin ?? '',
+})
+
+export const normalizeClientDetails = (details: ClientDetails): ClientDetails => ({
+  ...details,
+  companyName: details.companyName.trim(),
+  contactName: details.contactName.trim(),
+  email: details.email.trim(),
+  phone: details.phone.trim(),
+  addressLine1: details.addressLine1.trim(),
+  addressLine2: details.addressLine2?.trim() ?? '',
+  city: details.city.trim(),
+  state: details.state.trim(),
+  postalCode: details.postalCode.trim(),
+  country: details.country.trim(),
+  gstin: details.gstin?.trim().toUpperCase() ?? '',
+})
+
+// `clientId` is the profile being edited, so it does not clash with its own company name.
+export const validateClientDetails = (details: ClientDetails, clients: ClientProfile[], clientId?: string) => {
+  const errors: ClientFieldErrors = {
+    ...validateClientFields(details),
+    ...(details.contactName.trim() ? {} : { contactName: 'Primary contact is required.' }),
+    ...(details.email.trim() ? {} : { email: 'Email is required.' }),
+  }
+  const [firstError] = Object.values(errors)
+  if (firstError) {
+    throw new ClientDirectoryError(firstError)
+  }
+  const companyName = details.companyName.trim().toLowerCase()
+  const duplicate = clients.find(
+    (client) => client.id !== clientId && client.companyName.trim().toLowerCase() === companyName,
+  )
+  if (duplicate) {
+    throw new ClientDirectoryError(
+      `${duplicate.companyName} is already in the client directory${duplicate.archived ? ' (archived)' : ''}.`,
+    )
+  }
+}
+
+export const findClient = (clients: ClientProfile[], clientId: string) =>
+  clients.find((client) => client.id === clientId)
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { CURRENCY_CODES, formatAmount, formatMoney, getCurrency, isCurrencyCode } from './currency'
+
+describe('currency registry', () => {
+  it('lists every supported code with its own definition', () => {
+    expect(CURRENCY_CODES).toContain('INR')
+    expect(CURRENCY_CODES.every((code) => getCurrency(code).code === code)).toBe(true)
+  })
+
+  it('only accepts registered codes', () => {
+    expect(isCurrencyCode('KWD')).toBe(true)
+    expect(isCurrencyCode('usd')).toBe(false)
+    expect(isCurrencyCode('XYZ')).toBe(false)
+  })
+
+  it('records the minor units of each currency', () => {
+    expect(getCurrency('INR').minorUnits).toBe(2)
+    expect(getCurrency('JPY').minorUnits).toBe(0)
+    expect(getCurrency('KWD').minorUnits).toBe(3)
+  })
+})
+
+describe('formatAmount', () => {
+  it('writes plain digits at the currency precision', () => {
+    expect(formatAmount(1234.5, 'INR')).toBe('1234.50')
+    expect(formatAmount(1234.5, 'JPY')).toBe('1235')
+    expect(formatAmount(12.5, 'KWD')).toBe('12.500')
+  })
+})
+
+describe('formatMoney', () => {
+  it('groups digits the way the currency locale does', () => {
+    expect(formatMoney(1234567.5, 'INR')).toBe('₹12,34,567.50')
+    expect(formatMoney(1234567.5, 'USD')).toBe('$1,234,567.50')
+  })
+
+  it('shows no decimals for JPY and three for KWD', () => {
+    expect(formatMoney(150000, 'JPY')).toBe('¥150,000')
+    expect(formatMoney(12.5, 'KWD')).toBe('KWD 12.500')
+  })
+
+  it('places suffix symbols after the digits with a space', () => {
+    expect(formatMoney(1234.5, 'EUR')).toBe('1.234,50 €')
+  })
+
+  it('can show the ISO code and override the precision', () => {
+    expect(formatMoney(99.5, 'USD', { display: 'code' })).toBe('USD 99.50')
+    expect(formatMoney(1234.56, 'INR', { minorUnits: 0 })).toBe('₹1,235')
+  })
+
+  it('keeps the sign in front of the symbol and drops it when the value rounds to zero', () => {
+    expect(formatMoney(-250, 'INR')).toBe('-₹250.00')
+    expect(formatMoney(-0.001, 'INR')).toBe('₹0.00')
+  })
+})
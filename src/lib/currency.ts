@@ -0,0 +1,38 @@
+import { CURRENCIES } from '../data'
+import type { CurrencyCode, CurrencyDefinition } from '../types'
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[]
+
+export const isCurrencyCode = (value: string): value is CurrencyCode => value in CURRENCIES
+
+export const getCurrency = (code: CurrencyCode): CurrencyDefinition => CURRENCIES[code]
+
+// Plain digits at the currency's own precision, for CSV exports and payment links rather than people.
+export const formatAmount = (value: number, code: CurrencyCode) => value.toFixed(getCurrency(code).minorUnits)
+
+export interface MoneyFormatOptions {
+  display?: 'symbol' | 'code'
+  minorUnits?: number
+}
+
+export const createMoneyFormatter = (code: CurrencyCode, options: MoneyFormatOptions = {}) => {
+  const currency = getCurrency(code)
+  const fractionDigits = options.minorUnits ?? currency.minorUnits
+  const numberFormat = new Intl.NumberFormat(currency.locale, {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  })
+  const marker = options.display === 'code' ? currency.code : currency.symbol
+  // Multi-letter markers read better with a space; single glyphs like ₹ or $ sit against the digits.
+  const gap = options.display === 'code' || marker.length > 2 || currency.symbolPosition === 'after' ? ' ' : ''
+  return {
+    format: (value: number) => {
+      const digits = numberFormat.format(Math.abs(value))
+      const sign = value < 0 && Number(digits.replace(/[^\d]/g, '')) !== 0 ? '-' : ''
+      return currency.symbolPosition === 'after' ? `${sign}${digits}${gap}${marker}` : `${sign}${marker}${gap}${digits}`
+    },
+  }
+}
+
+export const formatMoney = (value: number, code: CurrencyCode, options?: MoneyFormatOptions) =>
+  createMoneyFormatter(code, options).format(value)
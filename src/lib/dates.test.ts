@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { addDays, addMonths, daysBetween, formatDay, parseDay } from './dates'
+
+describe('parseDay and formatDay', () => {
+  it('round-trips a calendar day through local midnight', () => {
+    const date = parseDay('2026-03-01')
+    expect([date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()]).toEqual([2026, 2, 1, 0])
+    expect(formatDay(date)).toBe('2026-03-01')
+  })
+
+  it('reads the date part of a timestamp and drops the time of a Date', () => {
+    expect(formatDay(parseDay('2025-10-01T18:45:00.000Z'))).toBe('2025-10-01')
+    expect(parseDay(new Date(2025, 9, 1, 23, 59)).getHours()).toBe(0)
+  })
+})
+
+describe('addDays', () => {
+  it('rolls over month and year ends', () => {
+    expect(addDays('2025-12-31', 1)).toBe('2026-01-01')
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29')
+    expect(addDays(new Date(2025, 0, 20), 15)).toBe('2025-02-04')
+  })
+})
+
+describe('addMonths', () => {
+  it('keeps the day where the month allows it', () => {
+    expect(addMonths('2025-01-31', 1)).toBe('2025-02-28')
+    expect(addMonths('2025-05-31', 1)).toBe('2025-06-30')
+    expect(addMonths('2025-11-15', 3)).toBe('2026-02-15')
+  })
+})
+
+describe('daysBetween', () => {
+  it('counts calendar days whichever way round', () => {
+    expect(daysBetween('2025-09-30', '2025-10-31')).toBe(31)
+    expect(daysBetween('2025-10-31', '2025-09-30')).toBe(-31)
+    expect(daysBetween('2025-03-01', '2025-11-01')).toBe(245)
+  })
+})
@@ -0,0 +1,32 @@
+// Invoice, due and payment dates are calendar days ('YYYY-MM-DD') in the user's own time zone. Parsing to local
+// midnight and doing arithmetic on the calendar fields keeps every module on the same day, even across DST changes.
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// Timestamps such as a payment's receivedAt count on the date they were recorded under.
+export const parseDay = (value: string | Date) => {
+  if (value instanceof Date) {
+    return new Date(value.getFullYear(), value.getMonth(), value.getDate())
+  }
+  const [year, month, day] = value.split('T')[0].split('-').map(Number)
+  return new Date(year, (month || 1) - 1, day || 1)
+}
+
+export const formatDay = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+export const addDays = (value: string | Date, days: number) => {
+  const date = parseDay(value)
+  return formatDay(new Date(date.getFullYear(), date.getMonth(), date.getDate() + days))
+}
+
+// Keeps the day where the month allows it, so the 31st plus one month is the 30th in June.
+export const addMonths = (value: string | Date, months: number) => {
+  const date = parseDay(value)
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate()
+  return formatDay(new Date(date.getFullYear(), date.getMonth() + months, Math.min(date.getDate(), lastDay)))
+}
+
+export const daysBetween = (from: string | Date, to: string | Date) =>
+  Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / DAY_IN_MS)
@@ -0,0 +1,13 @@
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  if (typeof window === 'undefined') {
+    return
+  }
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = fileName
+  document.body.appendChild(anchor)
+  anchor.click()
+  anchor.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,100 @@
+import { ORGANIZATION } from '../data'
+import type { ClientProfile, DueReminder, DunningStep, EvaluatedInvoice, InvoiceStatus, SentReminder } from '../types'
+import { findClient } from './clients'
+import { formatMoney } from './currency'
+import { daysBetween } from './dates'
+
+export const DUNNING_PLACEHOLDERS = [
+  '{contactName}',
+  '{companyName}',
+  '{invoiceNumber}',
+  '{amount}',
+  '{dueDate}',
+  '{daysOverdue}',
+  '{organization}',
+] as const
+
+export class DunningError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DunningError'
+  }
+}
+
+const OPEN_STATUSES = new Set<InvoiceStatus>(['Pending', 'Partially Paid', 'Overdue'])
+
+export const sortDunningSteps = (steps: DunningStep[]) => [...steps].sort((a, b) => a.offsetDays - b.offsetDays)
+
+export const describeDunningOffset = (offsetDays: number) => {
+  if (offsetDays === 0) {
+    return 'On the due date'
+  }
+  const days = `${Math.abs(offsetDays)} ${Math.abs(offsetDays) === 1 ? 'day' : 'days'}`
+  return offsetDays < 0 ? `${days} before due` : `${days} after due`
+}
+
+export const validateDunningSteps = (steps: DunningStep[]) => {
+  const offsets = new Set<number>()
+  steps.forEach((step) => {
+    if (!step.label.trim() || !step.subject.trim() || !step.body.trim()) {
+      throw new DunningError(`${step.label || 'Reminder step'}: a label, subject and message are required.`)
+    }
+    if (!Number.isInteger(step.offsetDays) || step.offsetDays < -30 || step.offsetDays > 120) {
+      throw new DunningError(`${step.label}: send reminders between 30 days before and 120 days after the due date.`)
+    }
+    if (offsets.has(step.offsetDays)) {
+      const when = describeDunningOffset(step.offsetDays).toLowerCase()
+      throw new DunningError(`Two reminder steps are scheduled ${when}.`)
+    }
+    offsets.add(step.offsetDays)
+  })
+}
+
+export const getReminderRecipient = (invoice: EvaluatedInvoice, clients: ClientProfile[]) =>
+  findClient(clients, invoice.clientId)?.email ?? invoice.formState?.client.email ?? ''
+
+export const renderReminder = (
+  step: DunningStep,
+  invoice: EvaluatedInvoice,
+  clients: ClientProfile[],
+  today: Date = new Date(),
+) => {
+  const client = findClient(clients, invoice.clientId) ?? invoice.formState?.client
+  const values: Record<(typeof DUNNING_PLACEHOLDERS)[number], string> = {
+    '{contactName}': client?.contactName || 'there',
+    '{companyName}': client?.companyName ?? '',
+    '{invoiceNumber}': invoice.invoiceNumber,
+    '{amount}': formatMoney(invoice.evaluation.outstanding, invoice.currency),
+    '{dueDate}': invoice.dueDate,
+    '{daysOverdue}': String(Math.max(daysBetween(invoice.dueDate, today), 0)),
+    '{organization}': ORGANIZATION.displayName,
+  }
+  const fill = (template: string) =>
+    DUNNING_PLACEHOLDERS.reduce((text, placeholder) => text.split(placeholder).join(values[placeholder]), template)
+  return { subject: fill(step.subject), body: fill(step.body) }
+}
+
+// Only the latest step an invoice has reached is sent. Steps passed over while the engine was off are skipped,
+// so a client never receives a courtesy note and a final notice on the same day. A failed send is tried again.
+export const getDueReminders = (
+  invoices: EvaluatedInvoice[],
+  steps: DunningStep[],
+  sent: SentReminder[],
+  today: Date = new Date(),
+): DueReminder[] => {
+  const ordered = sortDunningSteps(steps)
+  return invoices.flatMap((invoice) => {
+    if (!OPEN_STATUSES.has(invoice.evaluation.status) || invoice.evaluation.outstanding <= 0) {
+      return []
+    }
+    const daysFromDue = daysBetween(invoice.dueDate, today)
+    const step = ordered.filter((entry) => entry.offsetDays <= daysFromDue).pop()
+    const alreadySent = sent.some(
+      (reminder) => reminder.invoiceId === invoice.id && reminder.stepId === step?.id && reminder.status !== 'Failed',
+    )
+    if (!step || alreadySent) {
+      return []
+    }
+    return [{ invoice, step, daysFromDue }]
+  })
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import type { EmailMessage } from '../types'
+import { buildMimeMessage, EmailDeliveryError, parseRecipients } from './email'
+
+const decodeBase64 = (value: string) =>
+  new TextDecoder().decode(Uint8Array.from(atob(value.replace(/\r\n/g, '')), (char) => char.charCodeAt(0)))
+
+describe('parseRecipients', () => {
+  it('splits on commas, semicolons and spaces', () => {
+    expect(parseRecipients(' a@northwind.example; b@northwind.example,c@northwind.example ')).toEqual([
+      'a@northwind.example',
+      'b@northwind.example',
+      'c@northwind.example',
+    ])
+  })
+
+  it('rejects an empty list or a malformed address', () => {
+    expect(() => parseRecipients(' , ')).toThrow('Add at least one recipient.')
+    expect(() => parseRecipients('a@northwind.example, not-an-address')).toThrow(EmailDeliveryError)
+  })
+})
+
+describe('buildMimeMessage', () => {
+  const message: EmailMessage = {
+    from: 'billing@auroradigital.example',
+    to: ['accounts@northwind.example', 'cfo@northwind.example'],
+    subject: 'Invoice for ₹11,800',
+    text: 'Hello Asha,\nPlease find the invoice attached.',
+    attachments: [
+      { fileName: 'ADS-2025-041.pdf', contentType: 'application/pdf', content: new Uint8Array(120).fill(65) },
+    ],
+  }
+  const raw = buildMimeMessage(message, '<1@auroradigital.example>', new Date(Date.UTC(2025, 9, 1, 9, 30)))
+  const boundary = raw.match(/boundary="([^"]+)"/)![1]
+  const parts = raw.split(`--${boundary}`)
+
+  it('writes the envelope headers with an encoded non-ASCII subject', () => {
+    expect(raw).toContain('To: accounts@northwind.example, cfo@northwind.example\r\n')
+    expect(raw).toContain('Date: Wed, 01 Oct 2025 09:30:00 +0000\r\n')
+    expect(raw).toContain('Message-ID: <1@auroradigital.example>\r\n')
+    const subject = raw.match(/Subject: =\?UTF-8\?B\?(.+)\?=/)![1]
+    expect(decodeBase64(subject)).toBe('Invoice for ₹11,800')
+  })
+
+  it('sends the body with CRLF line endings and attachments in 76-character lines', () => {
+    expect(parts).toHaveLength(4)
+    expect(decodeBase64(parts[1].split('\r\n\r\n')[1])).toBe('Hello Asha,\r\nPlease find the invoice attached.')
+    expect(parts[2]).toContain('Content-Disposition: attachment; filename="ADS-2025-041.pdf"')
+    const lines = parts[2].split('\r\n\r\n')[1].trim().split('\r\n')
+    expect(lines.every((line) => line.length <= 76)).toBe(true)
+    expect(decodeBase64(lines.join(''))).toBe('A'.repeat(120))
+    expect(raw.endsWith(`--${boundary}--\r\n`)).toBe(true)
+  })
+})
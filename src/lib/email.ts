@@ -0,0 +1,119 @@
+import { INVOICE_EMAIL_TEMPLATE, ORGANIZATION } from '../data'
+import type { EmailAttachment, EmailMessage, EmailTransportKind, InvoiceFormState } from '../types'
+import { formatMoney } from './currency'
+import { generateId } from './ids'
+
+export class EmailDeliveryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EmailDeliveryError'
+  }
+}
+
+export interface EmailReceipt {
+  messageId: string
+  accepted: string[]
+}
+
+export interface EmailTransport {
+  kind: EmailTransportKind
+  send: (message: EmailMessage) => Promise<EmailReceipt>
+}
+
+export const EMAIL_TRANSPORT_LABELS: Record<EmailTransportKind, string> = {
+  mailbox: 'Local mailbox',
+  smtp: 'SMTP relay',
+}
+
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[a-z]{2,}$/i
+
+export const isEmailAddress = (value: string) => EMAIL_ADDRESS_PATTERN.test(value.trim())
+
+export const parseRecipients = (value: string) => {
+  const recipients = value
+    .split(/[,;\s]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  const invalid = recipients.find((entry) => !isEmailAddress(entry))
+  if (invalid) {
+    throw new EmailDeliveryError(`${invalid} is not a valid email address.`)
+  }
+  if (!recipients.length) {
+    throw new EmailDeliveryError('Add at least one recipient.')
+  }
+  return recipients
+}
+
+export const createMessageId = (from: string) => `<${Date.now()}.${generateId()}@${from.split('@')[1] ?? 'localhost'}>`
+
+export const composeInvoiceEmail = (
+  formState: InvoiceFormState,
+  total: number,
+  to: string[],
+  from: string,
+  attachments: EmailAttachment[] = [],
+): EmailMessage => {
+  const values: Record<string, string> = {
+    '{contactName}': formState.client.contactName || formState.client.companyName || 'there',
+    '{invoiceNumber}': formState.meta.invoiceNumber,
+    '{projectName}': formState.meta.projectName || 'our recent work',
+    '{amount}': formatMoney(total, formState.currency),
+    '{dueDate}': formState.meta.dueDate,
+    '{organization}': ORGANIZATION.displayName,
+  }
+  const fill = (template: string) =>
+    Object.entries(values).reduce((text, [placeholder, value]) => text.split(placeholder).join(value), template)
+  return {
+    from,
+    to,
+    subject: fill(INVOICE_EMAIL_TEMPLATE.subject),
+    text: fill(INVOICE_EMAIL_TEMPLATE.body),
+    attachments,
+  }
+}
+
+const CRLF = '\r\n'
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = ''
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000))
+  }
+  return btoa(binary)
+}
+
+// RFC 2045 caps encoded lines at 76 characters.
+const wrapBase64 = (value: string) => value.match(/.{1,76}/g)?.join(CRLF) ?? ''
+
+// Non-ASCII header text (₹, accented client names) is sent as an RFC 2047 encoded word.
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${toBase64(new TextEncoder().encode(value))}?=`
+
+export const buildMimeMessage = (message: EmailMessage, messageId: string, date: Date = new Date()) => {
+  const boundary = `=_aurora_${generateId()}`
+  const headers = [
+    `From: ${encodeHeader(ORGANIZATION.displayName)} <${message.from}>`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+  ]
+  const textPart = [
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(toBase64(new TextEncoder().encode(message.text.replace(/\r?\n/g, CRLF)))),
+  ]
+  const attachmentParts = message.attachments.flatMap((attachment) => [
+    `--${boundary}`,
+    `Content-Type: ${attachment.contentType}; name="${attachment.fileName}"`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: attachment; filename="${attachment.fileName}"`,
+    '',
+    wrapBase64(toBase64(attachment.content)),
+  ])
+  return [...headers, '', ...textPart, ...attachmentParts, `--${boundary}--`, ''].join(CRLF)
+}
@@ -0,0 +1,72 @@
+import type { CurrencyCode, ExchangeRate, ExchangeRateTable, InvoiceRecord } from '../types'
+import { parseCsv } from './csv'
+import { isCurrencyCode } from './currency'
+import { multiplyAmount, roundAmount, roundMoney } from './money'
+
+export const BASE_CURRENCY: CurrencyCode = 'INR'
+
+export class ExchangeRateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ExchangeRateError'
+  }
+}
+
+export const getRateToBase = (currency: CurrencyCode, rates: ExchangeRateTable) => {
+  if (currency === BASE_CURRENCY) {
+    return 1
+  }
+  const rate = rates[currency]?.rateToBase
+  if (!rate || rate <= 0) {
+    throw new ExchangeRateError(`No exchange rate is configured for ${currency}.`)
+  }
+  return rate
+}
+
+export const convertAmount = (amount: number, from: CurrencyCode, to: CurrencyCode, rates: ExchangeRateTable) =>
+  from === to ? amount : roundMoney(multiplyAmount(amount, getRateToBase(from, rates)) / getRateToBase(to, rates), to)
+
+// Issued invoices keep the rate they were raised at; drafts and older records follow the live table.
+export const getInvoiceRate = (record: Pick<InvoiceRecord, 'currency' | 'exchangeRate'>, rates: ExchangeRateTable) =>
+  record.exchangeRate ?? getRateToBase(record.currency, rates)
+
+export const toBaseAmount = (
+  amount: number,
+  record: Pick<InvoiceRecord, 'currency' | 'exchangeRate'>,
+  rates: ExchangeRateTable,
+) => roundAmount(multiplyAmount(amount, getInvoiceRate(record, rates)), BASE_CURRENCY)
+
+export const describeExchangeRate = (currency: CurrencyCode, rate: number) =>
+  `1 ${currency} = ${rate.toFixed(4).replace(/0{1,2}$/, '')} ${BASE_CURRENCY}`
+
+// Accepts "currency,rate[,date]" rows with or without a header, e.g. exported from the RBI reference rate page.
+export const parseExchangeRateCsv = (text: string, today: string): ExchangeRate[] => {
+  const parsed: ExchangeRate[] = []
+  parseCsv(text).forEach((row, index) => {
+    const [currencyCell = '', rateCell = '', dateCell = ''] = row.map((cell) => cell.trim())
+    const currency = currencyCell.toUpperCase()
+    if (!currency || (index === 0 && Number.isNaN(Number(rateCell)))) {
+      return
+    }
+    if (!isCurrencyCode(currency)) {
+      throw new ExchangeRateError(`Row ${index + 1}: ${currencyCell} is not a supported invoice currency.`)
+    }
+    const rateToBase = Number(rateCell.replace(/,/g, ''))
+    if (!Number.isFinite(rateToBase) || rateToBase <= 0) {
+      throw new ExchangeRateError(`Row ${index + 1}: "${rateCell}" is not a valid rate for ${currency}.`)
+    }
+    if (currency === BASE_CURRENCY && rateToBase !== 1) {
+      throw new ExchangeRateError(`Row ${index + 1}: ${BASE_CURRENCY} is the base currency and must stay at 1.`)
+    }
+    parsed.push({
+      currency,
+      rateToBase,
+      updatedAt: /^\d{4}-\d{2}-\d{2}$/.test(dateCell) ? dateCell : today,
+      source: 'Import',
+    })
+  })
+  if (!parsed.length) {
+    throw new ExchangeRateError('The file does not contain any exchange rates.')
+  }
+  return parsed
+}
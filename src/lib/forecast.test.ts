@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { EXCHANGE_RATES } from '../data'
+import type { InvoiceRecord, PaymentGatewayChannel, PaymentTransaction } from '../types'
+import { buildCashForecast, FORECAST_WEEKS } from './forecast'
+import { evaluateInvoices } from './invoiceStatus'
+
+const today = new Date(2025, 9, 1)
+
+const record = (id: string, changes: Partial<InvoiceRecord>): InvoiceRecord => ({
+  id,
+  invoiceNumber: `ADS-2025-${id}`,
+  clientId: 'cl-1',
+  engagement: 'Retainer',
+  currency: 'INR',
+  amount: 10000,
+  status: 'Pending',
+  issueDate: '2025-07-01',
+  dueDate: '2025-10-10',
+  lastUpdated: '2025-07-01',
+  ...changes,
+})
+
+const receipt = (
+  id: string,
+  invoiceId: string,
+  amount: number,
+  receivedAt: string,
+  changes: Partial<PaymentTransaction> = {},
+): PaymentTransaction => ({
+  id,
+  invoiceId,
+  clientId: 'cl-1',
+  amount,
+  currency: 'INR',
+  method: 'NetBanking',
+  status: 'Succeeded',
+  receivedAt,
+  feeAmount: 0,
+  netAmount: amount,
+  reference: `UTR-${id}`,
+  ...changes,
+})
+
+const channels: PaymentGatewayChannel[] = [
+  { id: 'ch-nb', label: 'NetBanking', method: 'NetBanking', status: 'Enabled', successRate: 90, slaMinutes: 1440 },
+]
+
+// cl-1 paid 10 and 4 days late, so it is expected 7 days late and 10 days late in the worst case. cl-2 has no
+// history and borrows the portfolio's.
+const transactions = [
+  receipt('t1', 'h1', 10000, '2025-08-11T10:00:00+05:30'),
+  receipt('t2', 'h2', 10000, '2025-09-05T10:00:00+05:30'),
+  receipt('t3', 'q', 3000, '2025-09-30T10:00:00+05:30', { status: 'Pending' }),
+]
+
+const invoices = evaluateInvoices(
+  [
+    record('h1', { status: 'Paid', dueDate: '2025-08-01' }),
+    record('h2', { status: 'Paid', dueDate: '2025-09-01' }),
+    record('o', {}),
+    record('p', { clientId: 'cl-2', currency: 'USD', amount: 100, exchangeRate: 80, dueDate: '2025-09-01' }),
+    record('q', { amount: 5000, dueDate: '2026-03-01' }),
+  ],
+  transactions,
+  today,
+)
+
+const forecast = (scenario: 'expected' | 'worst') =>
+  buildCashForecast({ invoices, transactions, rates: EXCHANGE_RATES, channels, scenario, today })
+
+const describeWeeks = (result: ReturnType<typeof buildCashForecast>) =>
+  result.weeks
+    .filter((week) => week.inflows.length)
+    .map((week) => [
+      week.weekStart,
+      week.expected,
+      week.inflows.map((inflow) => `${inflow.invoiceId}:${inflow.kind}:${inflow.expectedDate}`),
+    ])
+
+describe('buildCashForecast', () => {
+  it('lays out weeks starting today', () => {
+    const { weeks, asOf } = forecast('expected')
+    expect(asOf).toBe('2025-10-01')
+    expect(weeks).toHaveLength(FORECAST_WEEKS)
+    expect([weeks[1].weekStart, weeks[1].weekEnd]).toEqual(['2025-10-08', '2025-10-14'])
+  })
+
+  it('expects each client to pay as late as it usually does, plus the channel settlement time', () => {
+    const result = forecast('expected')
+    expect(describeWeeks(result)).toEqual([
+      ['2025-10-01', 10200, ['p:scheduled:2025-10-01', 'q:in-flight:2025-10-01']],
+      ['2025-10-08', 800, ['p:retry:2025-10-08']],
+      ['2025-10-15', 9000, ['o:scheduled:2025-10-18']],
+      ['2025-10-22', 1000, ['o:retry:2025-10-25']],
+    ])
+    expect(result.weeks[2].inflows[0].latenessDays).toBe(7)
+  })
+
+  it('sends failed attempts to a retry a week later and keeps far-off dues beyond the horizon', () => {
+    const result = forecast('expected')
+    expect(result.total).toBe(21000)
+    expect(result.beyondHorizon).toBe(2000)
+    expect(result.atRisk).toBe(0)
+  })
+
+  it('uses the slowest payment on record and counts failures as at risk in the worst case', () => {
+    const result = forecast('worst')
+    expect(describeWeeks(result)).toEqual([
+      ['2025-10-01', 10200, ['p:scheduled:2025-10-01', 'q:in-flight:2025-10-01']],
+      ['2025-10-15', 9000, ['o:scheduled:2025-10-21']],
+    ])
+    expect([result.total, result.beyondHorizon, result.atRisk]).toEqual([19200, 1800, 2000])
+  })
+})
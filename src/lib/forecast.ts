@@ -0,0 +1,171 @@
+import type {
+  CashForecast,
+  EvaluatedInvoice,
+  ExchangeRateTable,
+  ForecastInflow,
+  ForecastScenario,
+  ForecastWeek,
+  PaymentGatewayChannel,
+  PaymentTransaction,
+} from '../types'
+import { addDays, daysBetween, formatDay } from './dates'
+import { BASE_CURRENCY, toBaseAmount } from './exchangeRates'
+import { addAmounts, percentageOf, roundAmount, subtractAmount, sumAmounts } from './money'
+import { getAllocations, getInvoicePayments } from './payments'
+
+export interface CashForecastInput {
+  invoices: EvaluatedInvoice[]
+  transactions: PaymentTransaction[]
+  rates: ExchangeRateTable
+  channels: PaymentGatewayChannel[]
+  scenario: ForecastScenario
+  today?: Date
+}
+
+export const FORECAST_WEEKS = 12
+
+export const FORECAST_SCENARIO_LABELS: Record<ForecastScenario, string> = {
+  expected: 'Expected',
+  worst: 'Worst case',
+}
+
+// A failed collection attempt is usually chased and retried within a week.
+const RETRY_AFTER_DAYS = 7
+const MINUTES_PER_DAY = 24 * 60
+
+const laterOf = (a: string, b: string) => (a > b ? a : b)
+
+// Days between the due date and each successful receipt, per client. Negative values are early payments.
+const getLatenessHistory = (invoices: EvaluatedInvoice[], transactions: PaymentTransaction[]) => {
+  const dueDates = new Map(invoices.map((invoice) => [invoice.id, invoice.dueDate]))
+  const history = new Map<string, number[]>()
+  transactions
+    .filter((txn) => txn.status === 'Succeeded')
+    .forEach((txn) => {
+      getAllocations(txn).forEach((allocation) => {
+        const dueDate = dueDates.get(allocation.invoiceId)
+        if (!dueDate) {
+          return
+        }
+        const samples = history.get(txn.clientId) ?? []
+        samples.push(daysBetween(dueDate, txn.receivedAt))
+        history.set(txn.clientId, samples)
+      })
+    })
+  return history
+}
+
+// Clients without a payment history borrow the portfolio's behaviour. The worst case assumes every invoice is
+// paid as late as the slowest payment on record and never before it is due.
+const getExpectedLateness = (samples: number[], scenario: ForecastScenario) => {
+  if (!samples.length) {
+    return 0
+  }
+  if (scenario === 'worst') {
+    return Math.max(0, ...samples)
+  }
+  return Math.round(samples.reduce((total, days) => total + days, 0) / samples.length)
+}
+
+// Clients are assumed to pay the way they last paid; otherwise through the first healthy channel on the gateway.
+const getClientChannel = (clientId: string, transactions: PaymentTransaction[], channels: PaymentGatewayChannel[]) => {
+  const available = channels.filter((channel) => channel.status !== 'Disabled')
+  const lastMethod = transactions
+    .filter((txn) => txn.clientId === clientId)
+    .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt))[0]?.method
+  return (
+    available.find((channel) => channel.method === lastMethod) ??
+    available.find((channel) => channel.status === 'Enabled') ??
+    available[0]
+  )
+}
+
+export const buildCashForecast = (input: CashForecastInput): CashForecast => {
+  const { invoices, transactions, rates, channels, scenario } = input
+  const asOf = formatDay(input.today ?? new Date())
+  const history = getLatenessHistory(invoices, transactions)
+  const portfolio = [...history.values()].flat()
+  const inflows: ForecastInflow[] = []
+  let atRisk = 0
+
+  invoices
+    .filter((invoice) => invoice.evaluation.outstanding > 0)
+    .forEach((invoice) => {
+      const channel = getClientChannel(invoice.clientId, transactions, channels)
+      const settlementDays = channel ? Math.ceil(channel.slaMinutes / MINUTES_PER_DAY) : 0
+      const successRate = channel?.successRate ?? 100
+      const latenessDays = getExpectedLateness(history.get(invoice.clientId) ?? portfolio, scenario)
+      const base = {
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        clientId: invoice.clientId,
+        currency: invoice.currency,
+        method: channel?.method ?? 'Wire Transfer',
+        latenessDays,
+      }
+      const push = (amount: number, expectedDate: string, kind: ForecastInflow['kind'], dueDate = invoice.dueDate) => {
+        if (amount > 0) {
+          const baseAmount = toBaseAmount(amount, invoice, rates)
+          inflows.push({ ...base, dueDate, amount, baseAmount, expectedDate, kind })
+        }
+      }
+
+      // Instalment plans are collected on each instalment's own due date.
+      const { instalments, outstanding } = invoice.evaluation
+      const dues = (instalments ?? [{ dueDate: invoice.dueDate, outstanding }])
+        .filter((due) => due.outstanding > 0)
+        .map((due) => ({ dueDate: due.dueDate, remaining: due.outstanding }))
+
+      // Payments already initiated only need to clear the channel, and settle the earliest dues first.
+      getInvoicePayments(invoice.id, transactions, 'Pending').forEach((txn) => {
+        let unapplied = txn.amount
+        dues.forEach((due) => {
+          const applied = Math.min(unapplied, due.remaining)
+          due.remaining = subtractAmount(due.remaining, applied)
+          unapplied = subtractAmount(unapplied, applied)
+        })
+        push(subtractAmount(txn.amount, unapplied), laterOf(addDays(txn.receivedAt, settlementDays), asOf), 'in-flight')
+      })
+
+      dues.forEach((due) => {
+        const expectedDate = laterOf(addDays(due.dueDate, latenessDays + settlementDays), asOf)
+        const succeeds = roundAmount(percentageOf(due.remaining, successRate), invoice.currency)
+        const fails = subtractAmount(due.remaining, succeeds)
+        push(succeeds, expectedDate, 'scheduled', due.dueDate)
+        if (scenario === 'worst') {
+          atRisk = addAmounts(atRisk, toBaseAmount(fails, invoice, rates))
+        } else {
+          push(fails, addDays(expectedDate, RETRY_AFTER_DAYS), 'retry', due.dueDate)
+        }
+      })
+    })
+
+  const weeks: ForecastWeek[] = Array.from({ length: FORECAST_WEEKS }, (_, index) => ({
+    weekStart: addDays(asOf, index * 7),
+    weekEnd: addDays(asOf, index * 7 + 6),
+    expected: 0,
+    inflows: [],
+  }))
+  let beyondHorizon = 0
+  inflows
+    .sort((a, b) => a.expectedDate.localeCompare(b.expectedDate))
+    .forEach((inflow) => {
+      const week = weeks[Math.floor(daysBetween(asOf, inflow.expectedDate) / 7)]
+      if (!week) {
+        beyondHorizon = addAmounts(beyondHorizon, inflow.baseAmount)
+        return
+      }
+      week.expected = addAmounts(week.expected, inflow.baseAmount)
+      week.inflows.push(inflow)
+    })
+
+  return {
+    currency: BASE_CURRENCY,
+    scenario,
+    asOf,
+    weeks,
+    total: sumAmounts(weeks, (week) => week.expected),
+    beyondHorizon,
+    atRisk,
+  }
+}
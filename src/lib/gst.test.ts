@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import { calculateGst, FOREIGN_PLACE_OF_SUPPLY, getStateCode, resolvePlaceOfSupply, summarizeGstByRate } from './gst'
+import { roundAmount } from './money'
+
+const MAHARASHTRA = '27'
+
+const mumbaiClient = { state: 'Maharashtra', gstin: '27AACCN1234B1Z3', country: 'India' }
+const bengaluruClient = { state: 'Karnataka', gstin: '29AAECP3245L1Z3', country: 'India' }
+const chandigarhClient = { state: 'Chandigarh', gstin: '', country: 'India' }
+const londonClient = { state: 'Greater London', gstin: '', country: 'United Kingdom' }
+
+const toPaise = (amount: number) => roundAmount(amount, 'INR')
+
+describe('getStateCode', () => {
+  it('prefers the code in the GSTIN over the state name', () => {
+    expect(getStateCode('Karnataka', '27AACCN1234B1Z3')).toBe('27')
+  })
+
+  it('matches state names regardless of case, spacing and ampersands', () => {
+    expect(getStateCode('jammu & kashmir')).toBe('01')
+    expect(getStateCode('Tamil  Nadu')).toBe('33')
+  })
+
+  it('returns an empty code for an unknown state', () => {
+    expect(getStateCode('Atlantis')).toBe('')
+  })
+})
+
+describe('calculateGst', () => {
+  it('splits an intra-state supply into equal CGST and SGST', () => {
+    const result = calculateGst(10000, 18, MAHARASHTRA, mumbaiClient)
+    expect(result.supplyType).toBe('intra-state')
+    expect(result.placeOfSupply).toBe('27')
+    expect(result.components).toEqual([
+      { code: 'CGST', rate: 9, amount: 900 },
+      { code: 'SGST', rate: 9, amount: 900 },
+    ])
+    expect(result.totalTax).toBe(1800)
+  })
+
+  it('charges IGST on an inter-state supply', () => {
+    const result = calculateGst(10000, 18, MAHARASHTRA, bengaluruClient)
+    expect(result.supplyType).toBe('inter-state')
+    expect(result.placeOfSupply).toBe('29')
+    expect(result.components).toEqual([{ code: 'IGST', rate: 18, amount: 1800 }])
+  })
+
+  it('levies UGST instead of SGST when the supplier is in a union territory without a legislature', () => {
+    const result = calculateGst(5000, 12, '04', chandigarhClient)
+    expect(result.supplyType).toBe('intra-state')
+    expect(result.components.map((component) => component.code)).toEqual(['CGST', 'UGST'])
+    expect(result.totalTax).toBe(600)
+  })
+
+  it('treats a recipient outside India as an inter-state supply to place of supply 96', () => {
+    expect(resolvePlaceOfSupply(londonClient)).toBe(FOREIGN_PLACE_OF_SUPPLY)
+    const result = calculateGst(2000, 18, MAHARASHTRA, londonClient)
+    expect(result.placeOfSupply).toBe('96')
+    expect(result.supplyType).toBe('inter-state')
+    expect(result.components).toEqual([{ code: 'IGST', rate: 18, amount: 360 }])
+  })
+
+  it('rounds each half of a split to the paisa, half up', () => {
+    const result = calculateGst(1000.5, 18, MAHARASHTRA, mumbaiClient, toPaise)
+    expect(result.components.map((component) => component.amount)).toEqual([90.05, 90.05])
+    expect(result.totalTax).toBe(180.1)
+  })
+
+  it('rounds a half rupee up when tax is settled to whole rupees', () => {
+    const toRupee = (amount: number) => roundAmount(amount, 'JPY')
+    expect(calculateGst(50, 5, MAHARASHTRA, bengaluruClient, toRupee).totalTax).toBe(3)
+    expect(calculateGst(70, 5, MAHARASHTRA, mumbaiClient, toRupee).components[0].amount).toBe(2)
+  })
+
+  it('keeps amounts exact when no rounding is given', () => {
+    expect(calculateGst(0.1, 18, MAHARASHTRA, bengaluruClient).totalTax).toBe(0.018)
+  })
+})
+
+describe('summarizeGstByRate', () => {
+  const lines = [
+    { taxableAmount: 1000, taxRate: 18, sacCode: '998314' },
+    { taxableAmount: 500, taxRate: 5, sacCode: '998361' },
+    { taxableAmount: 250.25, taxRate: 18, sacCode: '998313' },
+    { taxableAmount: 300, taxRate: 0, sacCode: '' },
+  ]
+
+  it('groups lines by rate, highest first, with their SAC codes', () => {
+    const summary = summarizeGstByRate(lines, MAHARASHTRA, mumbaiClient, toPaise)
+    expect(summary.rows.map((row) => [row.rate, row.taxableAmount, row.sacCodes])).toEqual([
+      [18, 1250.25, ['998313', '998314']],
+      [5, 500, ['998361']],
+      [0, 300, []],
+    ])
+  })
+
+  it('totals each component across rates and leaves out zero-rated components', () => {
+    const summary = summarizeGstByRate(lines, MAHARASHTRA, mumbaiClient, toPaise)
+    expect(summary.components).toEqual([
+      { code: 'CGST', rate: 9, amount: 112.52 },
+      { code: 'SGST', rate: 9, amount: 112.52 },
+      { code: 'CGST', rate: 2.5, amount: 12.5 },
+      { code: 'SGST', rate: 2.5, amount: 12.5 },
+    ])
+    expect(summary.totalTax).toBe(250.04)
+  })
+
+  it('rounds the taxable amount of each rate group before taxing it', () => {
+    const summary = summarizeGstByRate(
+      [
+        { taxableAmount: 0.005, taxRate: 18, sacCode: '998314' },
+        { taxableAmount: 99.99, taxRate: 18, sacCode: '998314' },
+      ],
+      MAHARASHTRA,
+      bengaluruClient,
+      toPaise,
+    )
+    expect(summary.rows[0].taxableAmount).toBe(100)
+    expect(summary.totalTax).toBe(18)
+  })
+})
@@ -0,0 +1,191 @@
+import type {
+  ClientDetails,
+  GstSummary,
+  GstSupplyType,
+  TaxableLine,
+  TaxBreakdown,
+  TaxComponent,
+  TaxRateSummary,
+} from '../types'
+import { addAmounts, percentageOf, sumAmounts } from './money'
+
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+}
+
+// Union territories without a legislature levy UGST in place of SGST.
+const UNION_TERRITORY_CODES = new Set(['04', '26', '31', '35', '38'])
+
+const GSTIN_PATTERN = /\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]/
+
+const normalizeStateName = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/&/g, 'and')
+    .replace(/[^a-z]/g, '')
+
+export const extractGstin = (value: string) => value.toUpperCase().match(GSTIN_PATTERN)?.[0] ?? ''
+
+export const getStateCode = (state: string, gstin?: string) => {
+  const gstinCode = gstin ? extractGstin(gstin).slice(0, 2) : ''
+  if (gstinCode && GST_STATE_CODES[gstinCode]) {
+    return gstinCode
+  }
+  const normalized = normalizeStateName(state)
+  if (!normalized) {
+    return ''
+  }
+  return Object.keys(GST_STATE_CODES).find((code) => normalizeStateName(GST_STATE_CODES[code]) === normalized) ?? ''
+}
+
+// Place of supply code 96 is reserved for recipients outside India.
+export const FOREIGN_PLACE_OF_SUPPLY = '96'
+
+export const describePlaceOfSupply = (stateCode: string) => {
+  if (stateCode === FOREIGN_PLACE_OF_SUPPLY) {
+    return `Outside India (${stateCode})`
+  }
+  return GST_STATE_CODES[stateCode] ? `${GST_STATE_CODES[stateCode]} (${stateCode})` : '—'
+}
+
+export const resolvePlaceOfSupply = (recipient: Pick<ClientDetails, 'state' | 'gstin' | 'country'>) => {
+  const country = recipient.country.trim().toLowerCase()
+  if (country && country !== 'india') {
+    return FOREIGN_PLACE_OF_SUPPLY
+  }
+  return getStateCode(recipient.state, recipient.gstin)
+}
+
+export const determineSupplyType = (supplierStateCode: string, placeOfSupply: string): GstSupplyType =>
+  placeOfSupply && placeOfSupply !== supplierStateCode ? 'inter-state' : 'intra-state'
+
+const splitGst = (
+  taxableAmount: number,
+  rate: number,
+  supplyType: GstSupplyType,
+  supplierStateCode: string,
+  round: (amount: number) => number,
+): TaxComponent[] => {
+  if (supplyType === 'intra-state') {
+    const halfRate = rate / 2
+    const halfAmount = round(percentageOf(taxableAmount, halfRate))
+    return [
+      { code: 'CGST', rate: halfRate, amount: halfAmount },
+      { code: UNION_TERRITORY_CODES.has(supplierStateCode) ? 'UGST' : 'SGST', rate: halfRate, amount: halfAmount },
+    ]
+  }
+  return [{ code: 'IGST', rate, amount: round(percentageOf(taxableAmount, rate)) }]
+}
+
+const sumTax = (components: TaxComponent[]) => sumAmounts(components, (component) => component.amount)
+
+const keepExact = (amount: number) => amount
+
+export const calculateGst = (
+  taxableAmount: number,
+  rate: number,
+  supplierStateCode: string,
+  recipient: Pick<ClientDetails, 'state' | 'gstin' | 'country'>,
+  round: (amount: number) => number = keepExact,
+): TaxBreakdown => {
+  const placeOfSupply = resolvePlaceOfSupply(recipient)
+  const supplyType = determineSupplyType(supplierStateCode, placeOfSupply)
+  const components = splitGst(taxableAmount, rate, supplyType, supplierStateCode, round)
+  return {
+    supplyType,
+    placeOfSupply,
+    components,
+    totalTax: sumTax(components),
+  }
+}
+
+export const summarizeGstByRate = (
+  lines: TaxableLine[],
+  supplierStateCode: string,
+  recipient: Pick<ClientDetails, 'state' | 'gstin' | 'country'>,
+  round: (amount: number) => number = keepExact,
+): GstSummary => {
+  const placeOfSupply = resolvePlaceOfSupply(recipient)
+  const supplyType = determineSupplyType(supplierStateCode, placeOfSupply)
+
+  const groups = new Map<number, { taxableAmount: number; sacCodes: Set<string> }>()
+  lines.forEach((line) => {
+    const group = groups.get(line.taxRate) ?? { taxableAmount: 0, sacCodes: new Set<string>() }
+    group.taxableAmount = addAmounts(group.taxableAmount, line.taxableAmount)
+    if (line.sacCode) {
+      group.sacCodes.add(line.sacCode)
+    }
+    groups.set(line.taxRate, group)
+  })
+
+  const rows: TaxRateSummary[] = [...groups.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([rate, group]) => {
+      const taxableAmount = round(group.taxableAmount)
+      const components = splitGst(taxableAmount, rate, supplyType, supplierStateCode, round)
+      return {
+        rate,
+        sacCodes: [...group.sacCodes].sort(),
+        taxableAmount,
+        components,
+        totalTax: sumTax(components),
+      }
+    })
+
+  const components = rows
+    .flatMap((row) => row.components)
+    .filter((component) => component.rate > 0)
+    .reduce<TaxComponent[]>((acc, component) => {
+      const existing = acc.find((entry) => entry.code === component.code && entry.rate === component.rate)
+      if (existing) {
+        existing.amount = addAmounts(existing.amount, component.amount)
+      } else {
+        acc.push({ ...component })
+      }
+      return acc
+    }, [])
+
+  return {
+    supplyType,
+    placeOfSupply,
+    rows,
+    components,
+    totalTax: sumTax(components),
+  }
+}
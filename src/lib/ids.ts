@@ -0,0 +1 @@
+export const generateId = () => Math.random().toString(36).slice(2, 10)
@@ -0,0 +1,42 @@
+import type { CurrencyCode, Instalment, InstalmentStatus } from '../types'
+import { generateId } from './ids'
+import { addDays, daysBetween } from './dates'
+import { multiplyAmount, roundAmount, subtractAmount, sumAmounts } from './money'
+
+export const INSTALMENT_STATUS_TONE: Record<InstalmentStatus, string> = {
+  Upcoming: 'pending',
+  'Partially Paid': 'partially-paid',
+  Paid: 'paid',
+  Overdue: 'overdue',
+}
+
+export const createInstalment = (label: string, dueDate: string, amount: number): Instalment => ({
+  id: generateId(),
+  label,
+  dueDate,
+  amount,
+})
+
+export const getInstalmentTotal = (instalments: Instalment[]) =>
+  sumAmounts(instalments, (instalment) => instalment.amount)
+
+// Equal parts spaced evenly up to the final due date; rounding differences land on the last instalment.
+export const splitIntoInstalments = (
+  total: number,
+  count: number,
+  firstDueDate: string,
+  finalDueDate: string,
+  currency: CurrencyCode,
+): Instalment[] => {
+  const parts = Math.max(Math.floor(count), 1)
+  const share = roundAmount(multiplyAmount(total, 1 / parts), currency)
+  const spacing = parts > 1 ? Math.max(daysBetween(firstDueDate, finalDueDate), 0) / (parts - 1) : 0
+  return Array.from({ length: parts }, (_, index) => {
+    const isLast = index === parts - 1
+    return createInstalment(
+      `Instalment ${index + 1} of ${parts}`,
+      isLast && parts > 1 ? finalDueDate : addDays(firstDueDate, Math.round(spacing * index)),
+      isLast ? subtractAmount(total, multiplyAmount(share, parts - 1)) : share,
+    )
+  })
+}
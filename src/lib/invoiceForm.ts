@@ -0,0 +1,15 @@
+import { SERVICE_CATALOG } from '../data'
+import type { InvoiceFormState } from '../types'
+
+// Copies saved before per-line tax existed carry no SAC code or rate on their line items.
+export const normalizeFormState = (state: InvoiceFormState): InvoiceFormState => ({
+  ...state,
+  lineItems: state.lineItems.map((item) => {
+    const service = item.serviceId ? SERVICE_CATALOG.find((entry) => entry.id === item.serviceId) : undefined
+    return {
+      ...item,
+      sacCode: item.sacCode ?? service?.sacCode ?? '',
+      taxRate: item.taxRate ?? service?.taxRate ?? state.taxRate,
+    }
+  }),
+})
@@ -0,0 +1,78 @@
+import type { ActivityLog, InvoiceRecord, InvoiceStatus } from '../types'
+import { formatDay } from './dates'
+import { generateId } from './ids'
+
+// Overdue is derived from the due date (see invoiceStatus.ts) rather than entered; records persisted with it
+// before that existed move on exactly like Pending ones.
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  Draft: ['Pending', 'Void'],
+  Pending: ['Partially Paid', 'Paid', 'Void', 'Written Off'],
+  'Partially Paid': ['Paid', 'Written Off'],
+  Overdue: ['Partially Paid', 'Paid', 'Void', 'Written Off'],
+  Paid: [],
+  Void: [],
+  'Written Off': [],
+}
+
+export const INVOICE_STATUS_TONE: Record<InvoiceStatus, string> = {
+  Draft: 'draft',
+  Pending: 'pending',
+  'Partially Paid': 'partially-paid',
+  Paid: 'paid',
+  Overdue: 'overdue',
+  Void: 'void',
+  'Written Off': 'written-off',
+}
+
+const TRANSITION_VERBS: Partial<Record<InvoiceStatus, string>> = {
+  Pending: 'issued',
+  'Partially Paid': 'marked partially paid',
+  Paid: 'marked paid',
+  Void: 'voided',
+  'Written Off': 'written off',
+}
+
+export class InvoiceLifecycleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvoiceLifecycleError'
+  }
+}
+
+export const canTransition = (from: InvoiceStatus, to: InvoiceStatus) => INVOICE_TRANSITIONS[from].includes(to)
+
+export const isInvoiceLocked = (status: InvoiceStatus) => status !== 'Draft'
+
+export const assertInvoiceEditable = (record: InvoiceRecord) => {
+  if (isInvoiceLocked(record.status)) {
+    throw new InvoiceLifecycleError(
+      `Invoice ${record.invoiceNumber} is ${record.status.toLowerCase()} and can no longer be edited. Raise a credit note to correct it.`,
+    )
+  }
+}
+
+export const transitionInvoice = (
+  record: InvoiceRecord,
+  nextStatus: InvoiceStatus,
+  actor: string,
+  now: Date = new Date(),
+): { record: InvoiceRecord; activity: ActivityLog } => {
+  if (!canTransition(record.status, nextStatus)) {
+    throw new InvoiceLifecycleError(`Invoice ${record.invoiceNumber} cannot move from ${record.status} to ${nextStatus}.`)
+  }
+  return {
+    record: {
+      ...record,
+      status: nextStatus,
+      lastUpdated: formatDay(now),
+    },
+    activity: {
+      id: `act-${generateId()}`,
+      timestamp: now.toISOString(),
+      summary: `Invoice ${record.invoiceNumber} ${TRANSITION_VERBS[nextStatus] ?? `moved to ${nextStatus}`} by ${actor}`,
+      actor,
+      activityType: nextStatus === 'Paid' || nextStatus === 'Partially Paid' ? 'payment' : 'invoice',
+      relatedInvoiceId: record.id,
+    },
+  }
+}
@@ -0,0 +1,401 @@
+import { ORGANIZATION, SERVICE_CATALOG } from '../data'
+import type {
+  Instalment,
+  InstalmentProgress,
+  InvoiceFormState,
+  InvoiceStatusEvaluation,
+  InvoiceTotals,
+  PaymentOption,
+} from '../types'
+import { createMoneyFormatter } from './currency'
+import { describePlaceOfSupply } from './gst'
+import { createPdfDocument, hexToPdfColor, type PdfDocument } from './pdf'
+import { tryEncodeQrCode, type QrMatrix } from './qrCode'
+
+export interface InvoicePdfInput {
+  formState: InvoiceFormState
+  totals: InvoiceTotals
+  acceptedMethods: string
+  exchangeRateLabel?: string
+  balance?: InvoiceStatusEvaluation
+  instalments?: Array<Instalment | InstalmentProgress>
+  paymentOptions?: PaymentOption[]
+}
+
+const MARGIN = 40
+const INK = hexToPdfColor('#1f2a44')
+const MUTED = hexToPdfColor('#5b6478')
+const RULE = hexToPdfColor('#cdd6e5')
+const HEADER_FILL = hexToPdfColor('#e9effc')
+const GRAND_FILL = hexToPdfColor('#f5f7fb')
+
+const serviceNames = SERVICE_CATALOG.reduce<Record<string, string>>((acc, service) => {
+  acc[service.id] = service.name
+  return acc
+}, {})
+
+type Column = { label: string; width: number; align: 'left' | 'right' }
+
+const drawTableHeader = (doc: PdfDocument, columns: Column[], y: number) => {
+  const width = doc.pageWidth - MARGIN * 2
+  doc.rect(MARGIN, y, width, 20, { fill: HEADER_FILL })
+  let x = MARGIN
+  columns.forEach((column) => {
+    doc.text(column.label.toUpperCase(), column.align === 'right' ? x + column.width - 6 : x + 6, y + 13, {
+      font: 'bold',
+      size: 7.5,
+      color: MUTED,
+      align: column.align,
+    })
+    x += column.width
+  })
+  return y + 20
+}
+
+// Links have no spaces to wrap at, so they are broken wherever the column runs out.
+const breakToWidth = (doc: PdfDocument, value: string, maxWidth: number, size: number) => {
+  const lines: string[] = []
+  let current = ''
+  for (const char of value) {
+    if (current && doc.measureText(current + char, size) > maxWidth) {
+      lines.push(current)
+      current = char
+    } else {
+      current += char
+    }
+  }
+  return [...lines, current]
+}
+
+// Dark modules are drawn as horizontal runs to keep the content stream small.
+const drawQrCode = (doc: PdfDocument, matrix: QrMatrix, x: number, y: number, size: number) => {
+  const quietZone = 4
+  const moduleSize = size / (matrix.length + quietZone * 2)
+  matrix.forEach((row, rowIndex) => {
+    let start = -1
+    row.forEach((dark, column) => {
+      if (dark && start < 0) {
+        start = column
+      }
+      if (start >= 0 && (!dark || column === row.length - 1)) {
+        const end = dark ? column + 1 : column
+        doc.rect(
+          x + (start + quietZone) * moduleSize,
+          y + (rowIndex + quietZone) * moduleSize,
+          (end - start) * moduleSize,
+          moduleSize,
+          { fill: INK },
+        )
+        start = -1
+      }
+    })
+  })
+}
+
+export const renderInvoicePdf = ({
+  formState,
+  totals,
+  acceptedMethods,
+  exchangeRateLabel,
+  balance,
+  instalments = [],
+  paymentOptions = [],
+}: InvoicePdfInput) => {
+  // The standard PDF fonts have no ₹ glyph, so amounts carry the ISO code instead of a symbol.
+  const amountFormatter = createMoneyFormatter(formState.currency, { display: 'code' })
+  const money = (value: number) => amountFormatter.format(value)
+
+  const doc = createPdfDocument(`Invoice ${formState.meta.invoiceNumber}`)
+  const contentWidth = doc.pageWidth - MARGIN * 2
+  const bottomLimit = doc.pageHeight - MARGIN - 24
+  let y = MARGIN
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottomLimit) {
+      doc.addPage()
+      y = MARGIN
+      return true
+    }
+    return false
+  }
+
+  // Header: brand block on the left, document title and meta on the right.
+  doc.text(ORGANIZATION.displayName, MARGIN, y + 14, { font: 'bold', size: 16, color: INK })
+  const brandLines = [
+    ORGANIZATION.legalName,
+    `${ORGANIZATION.address.line1}${ORGANIZATION.address.line2 ? `, ${ORGANIZATION.address.line2}` : ''}`,
+    `${ORGANIZATION.address.city}, ${ORGANIZATION.address.state} ${ORGANIZATION.address.postalCode}, ${ORGANIZATION.address.country}`,
+    ORGANIZATION.taxRegistration,
+    `${ORGANIZATION.contact.email} • ${ORGANIZATION.contact.phone}`,
+    ORGANIZATION.contact.website,
+  ]
+  brandLines.forEach((text, index) => {
+    doc.text(text, MARGIN, y + 32 + index * 12, { size: 8.5, color: MUTED })
+  })
+
+  const rightEdge = doc.pageWidth - MARGIN
+  doc.text('INVOICE', rightEdge, y + 16, { font: 'bold', size: 22, color: INK, align: 'right' })
+  const metaRows: [string, string][] = [
+    ['Invoice #', formState.meta.invoiceNumber],
+    ['Issue date', formState.meta.issueDate],
+    ['Due date', formState.meta.dueDate],
+    ['Currency', formState.currency],
+    ['Place of supply', describePlaceOfSupply(totals.tax.placeOfSupply)],
+  ]
+  if (exchangeRateLabel) {
+    metaRows.push(['Exchange rate', exchangeRateLabel])
+  }
+  if (formState.meta.purchaseOrder) {
+    metaRows.push(['PO', formState.meta.purchaseOrder])
+  }
+  if (formState.meta.reference) {
+    metaRows.push(['Reference', formState.meta.reference])
+  }
+  metaRows.forEach(([label, value], index) => {
+    const rowY = y + 36 + index * 12
+    doc.text(label, rightEdge - 130, rowY, { size: 8.5, color: MUTED, align: 'right' })
+    doc.text(value || '—', rightEdge, rowY, { font: 'bold', size: 8.5, color: INK, align: 'right' })
+  })
+
+  y += Math.max(32 + brandLines.length * 12, 36 + metaRows.length * 12) + 8
+  doc.line(MARGIN, y, rightEdge, y, { stroke: RULE })
+  y += 18
+
+  // Parties
+  const columnWidth = contentWidth / 2 - 10
+  const client = formState.client
+  const billToLines = [
+    client.contactName ? `Attn: ${client.contactName}` : '',
+    client.addressLine1,
+    client.addressLine2 ?? '',
+    `${[client.city, client.state].filter(Boolean).join(', ')} ${client.postalCode}`.trim(),
+    client.country,
+    client.gstin ? `Tax ID: ${client.gstin}` : '',
+    client.email,
+    client.phone,
+  ].filter(Boolean)
+  const engagementLines = formState.additionalNote ? doc.wrapText(formState.additionalNote, columnWidth, 8.5) : []
+
+  doc.text('BILL TO', MARGIN, y, { font: 'bold', size: 7.5, color: MUTED })
+  doc.text(client.companyName || '—', MARGIN, y + 14, { font: 'bold', size: 10.5, color: INK })
+  billToLines.forEach((text, index) => doc.text(text, MARGIN, y + 27 + index * 11, { size: 8.5, color: INK }))
+
+  const engagementX = MARGIN + contentWidth / 2 + 10
+  doc.text('ENGAGEMENT', engagementX, y, { font: 'bold', size: 7.5, color: MUTED })
+  doc.text(formState.meta.projectName || '—', engagementX, y + 14, { font: 'bold', size: 10.5, color: INK })
+  engagementLines.forEach((text, index) => doc.text(text, engagementX, y + 27 + index * 11, { size: 8.5, color: MUTED }))
+
+  y += 27 + Math.max(billToLines.length, engagementLines.length) * 11 + 14
+
+  // Line items
+  const itemColumns: Column[] = [
+    { label: 'Item / Description', width: contentWidth * 0.38, align: 'left' },
+    { label: 'SAC', width: contentWidth * 0.1, align: 'left' },
+    { label: 'Qty', width: contentWidth * 0.07, align: 'right' },
+    { label: 'Rate', width: contentWidth * 0.14, align: 'right' },
+    { label: 'Disc.', width: contentWidth * 0.08, align: 'right' },
+    { label: 'GST', width: contentWidth * 0.08, align: 'right' },
+    { label: 'Amount', width: contentWidth * 0.15, align: 'right' },
+  ]
+  const descriptionWidth = itemColumns[0].width - 12
+  y = drawTableHeader(doc, itemColumns, y)
+
+  totals.lines.forEach(({ item, lineTotal }) => {
+    const title = item.serviceId ? serviceNames[item.serviceId] ?? 'Custom service' : 'Custom service'
+    const descriptionLines = doc.wrapText(item.description || '—', descriptionWidth, 8.5)
+    const noteLines = item.notes ? doc.wrapText(item.notes, descriptionWidth, 7.5) : []
+    const rowHeight = 14 + descriptionLines.length * 11 + noteLines.length * 10 + 8
+    if (ensureSpace(rowHeight)) {
+      y = drawTableHeader(doc, itemColumns, y)
+    }
+
+    const cells = [
+      item.sacCode || '—',
+      String(item.quantity),
+      money(item.unitPrice),
+      item.discountRate ? `${item.discountRate}%` : '—',
+      `${item.taxRate}%`,
+      money(lineTotal),
+    ]
+    doc.text(title, MARGIN + 6, y + 13, { font: 'bold', size: 9, color: INK })
+    descriptionLines.forEach((text, index) => doc.text(text, MARGIN + 6, y + 25 + index * 11, { size: 8.5, color: INK }))
+    noteLines.forEach((text, index) =>
+      doc.text(text, MARGIN + 6, y + 25 + descriptionLines.length * 11 + index * 10, { size: 7.5, color: MUTED }),
+    )
+
+    let x = MARGIN + itemColumns[0].width
+    cells.forEach((value, index) => {
+      const column = itemColumns[index + 1]
+      doc.text(value, column.align === 'right' ? x + column.width - 6 : x + 6, y + 13, {
+        size: 8.5,
+        color: INK,
+        align: column.align,
+      })
+      x += column.width
+    })
+
+    y += rowHeight
+    doc.line(MARGIN, y, rightEdge, y, { stroke: RULE })
+  })
+
+  y += 16
+
+  // Rate-wise tax summary
+  const stateTaxCode = totals.tax.rows[0]?.components[1]?.code ?? 'SGST'
+  const taxComponentLabels = totals.tax.supplyType === 'intra-state' ? ['CGST', stateTaxCode] : ['IGST']
+  const taxColumns: Column[] = [
+    { label: 'SAC', width: contentWidth * 0.2, align: 'left' },
+    { label: 'GST rate', width: contentWidth * 0.14, align: 'right' },
+    { label: 'Taxable value', width: contentWidth * 0.22, align: 'right' },
+    ...taxComponentLabels.map<Column>((label) => ({
+      label,
+      width: (contentWidth * 0.26) / taxComponentLabels.length,
+      align: 'right',
+    })),
+    { label: 'Total tax', width: contentWidth * 0.18, align: 'right' },
+  ]
+  ensureSpace(20 + totals.tax.rows.length * 18)
+  y = drawTableHeader(doc, taxColumns, y)
+  totals.tax.rows.forEach((row) => {
+    const cells = [
+      row.sacCodes.join(', ') || '—',
+      row.rate ? `${row.rate}%` : 'Zero-rated',
+      money(row.taxableAmount),
+      ...row.components.map((component) => money(component.amount)),
+      money(row.totalTax),
+    ]
+    let x = MARGIN
+    cells.forEach((value, index) => {
+      const column = taxColumns[index]
+      doc.text(value, column.align === 'right' ? x + column.width - 6 : x + 6, y + 12, {
+        size: 8,
+        color: INK,
+        align: column.align,
+      })
+      x += column.width
+    })
+    y += 18
+    doc.line(MARGIN, y, rightEdge, y, { stroke: RULE })
+  })
+
+  y += 14
+
+  // Totals
+  const totalRows: [string, string][] = [
+    ['Subtotal', money(totals.subtotal)],
+    ['Discounts', money(totals.discountTotal)],
+    ['Taxable amount', money(totals.taxableAmount)],
+    ...totals.tax.components.map<[string, string]>((component) => [
+      `${component.code} @ ${component.rate.toFixed(2)}%`,
+      money(component.amount),
+    ]),
+  ]
+  // Once anything has been paid or adjusted, the grand total becomes the balance still owed.
+  const balanceDue =
+    balance && (balance.paidAmount > 0 || balance.adjustedAmount !== totals.total) ? balance.outstanding : undefined
+  if (balance && balanceDue !== undefined) {
+    totalRows.push(['Invoice total', money(totals.total)])
+    if (balance.adjustedAmount !== totals.total) {
+      totalRows.push(['Credit / debit notes', money(balance.adjustedAmount - totals.total)])
+    }
+    totalRows.push(['Amount paid', money(-balance.paidAmount)])
+  }
+  const totalsWidth = 240
+  const totalsX = rightEdge - totalsWidth
+  ensureSpace(totalRows.length * 18 + 24)
+  totalRows.forEach(([label, value]) => {
+    doc.text(label, totalsX + 8, y + 12, { size: 9, color: INK })
+    doc.text(value, rightEdge - 8, y + 12, { font: 'bold', size: 9, color: INK, align: 'right' })
+    y += 18
+    doc.line(totalsX, y, rightEdge, y, { stroke: RULE })
+  })
+  doc.rect(totalsX, y, totalsWidth, 22, { fill: GRAND_FILL })
+  const grandLabel = balanceDue === undefined ? 'Total due' : 'Balance due'
+  const grandValue = money(balanceDue ?? totals.total)
+  doc.text(grandLabel, totalsX + 8, y + 15, { font: 'bold', size: 10.5, color: INK })
+  doc.text(grandValue, rightEdge - 8, y + 15, { font: 'bold', size: 10.5, color: INK, align: 'right' })
+  y += 40
+
+  // Payment schedule
+  if (instalments.length) {
+    const hasProgress = instalments.some((instalment) => 'outstanding' in instalment)
+    const scheduleColumns: Column[] = [
+      { label: 'Milestone', width: contentWidth * (hasProgress ? 0.4 : 0.55), align: 'left' },
+      { label: 'Due date', width: contentWidth * 0.2, align: 'left' },
+      ...(hasProgress ? [{ label: 'Status', width: contentWidth * 0.15, align: 'left' } as Column] : []),
+      { label: 'Amount', width: contentWidth * (hasProgress ? 0.125 : 0.25), align: 'right' },
+      ...(hasProgress ? [{ label: 'Balance', width: contentWidth * 0.125, align: 'right' } as Column] : []),
+    ]
+    ensureSpace(40 + instalments.length * 18)
+    doc.text('PAYMENT SCHEDULE', MARGIN, y, { font: 'bold', size: 7.5, color: MUTED })
+    y = drawTableHeader(doc, scheduleColumns, y + 8)
+    instalments.forEach((instalment) => {
+      const cells = [
+        instalment.label || '—',
+        instalment.dueDate,
+        ...('status' in instalment ? [instalment.status] : []),
+        money(instalment.amount),
+        ...('outstanding' in instalment ? [money(instalment.outstanding)] : []),
+      ]
+      let x = MARGIN
+      cells.forEach((value, index) => {
+        const column = scheduleColumns[index]
+        doc.text(value, column.align === 'right' ? x + column.width - 6 : x + 6, y + 12, {
+          size: 8,
+          color: INK,
+          align: column.align,
+        })
+        x += column.width
+      })
+      y += 18
+      doc.line(MARGIN, y, rightEdge, y, { stroke: RULE })
+    })
+    y += 22
+  }
+
+  // Payment details and terms
+  const paymentLines = [
+    ...doc.wrapText(`Accepted methods: ${acceptedMethods || 'Bank transfer'}`, columnWidth, 8.5),
+    `Beneficiary: ${ORGANIZATION.bank.beneficiary}`,
+    `Bank: ${ORGANIZATION.bank.bankName} • A/C No: ${ORGANIZATION.bank.accountNumber}`,
+    `IFSC: ${ORGANIZATION.bank.ifsc} • SWIFT: ${ORGANIZATION.bank.swift}`,
+    ...paymentOptions
+      .filter((option) => option.kind === 'checkout')
+      .flatMap((option) => breakToWidth(doc, `${option.label}: ${option.url}`, columnWidth, 8.5)),
+  ]
+  const termLines = [
+    ...doc.wrapText(formState.terms, columnWidth, 8.5),
+    '',
+    `Thank you for partnering with ${ORGANIZATION.displayName}.`,
+  ]
+  const upiOption = paymentOptions.find((option) => option.kind === 'upi')
+  const upiMatrix = upiOption ? tryEncodeQrCode(upiOption.url) : undefined
+  const qrSize = 88
+  const paymentHeight = paymentLines.length * 11 + (upiMatrix ? qrSize + 8 : 0)
+  ensureSpace(30 + Math.max(paymentHeight, termLines.length * 11))
+  doc.line(MARGIN, y, rightEdge, y, { stroke: RULE })
+  y += 18
+  doc.text('PAYMENT DETAILS', MARGIN, y, { font: 'bold', size: 7.5, color: MUTED })
+  doc.text('TERMS', engagementX, y, { font: 'bold', size: 7.5, color: MUTED })
+  paymentLines.forEach((text, index) => doc.text(text, MARGIN, y + 14 + index * 11, { size: 8.5, color: INK }))
+  termLines.forEach((text, index) => doc.text(text, engagementX, y + 14 + index * 11, { size: 8.5, color: INK }))
+  if (upiOption && upiMatrix) {
+    const qrY = y + 8 + paymentLines.length * 11
+    drawQrCode(doc, upiMatrix, MARGIN - 6, qrY, qrSize)
+    doc.text(upiOption.label, MARGIN + qrSize, qrY + qrSize / 2 - 4, { font: 'bold', size: 8.5, color: INK })
+    doc.text(upiOption.description, MARGIN + qrSize, qrY + qrSize / 2 + 8, { size: 8, color: MUTED })
+  }
+
+  const pageCount = doc.pageCount()
+  for (let index = 0; index < pageCount; index += 1) {
+    doc.setPage(index)
+    doc.text(
+      `${formState.meta.invoiceNumber} • Page ${index + 1} of ${pageCount}`,
+      rightEdge,
+      doc.pageHeight - MARGIN + 8,
+      { size: 7.5, color: MUTED, align: 'right' },
+    )
+  }
+
+  return new Blob([doc.output()], { type: 'application/pdf' })
+}
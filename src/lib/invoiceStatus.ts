@@ -0,0 +1,111 @@
+import type {
+  AdjustmentNote,
+  EvaluatedInvoice,
+  Instalment,
+  InstalmentProgress,
+  InstalmentStatus,
+  InvoiceRecord,
+  InvoiceStatusEvaluation,
+  PaymentTransaction,
+} from '../types'
+import { getInvoiceAdjustment } from './adjustmentNotes'
+import { daysBetween } from './dates'
+import { addAmounts, subtractAmount, sumAmounts } from './money'
+import { getAllocatedAmount } from './payments'
+
+export const getPaidAmount = (invoiceId: string, transactions: PaymentTransaction[]) =>
+  sumAmounts(
+    transactions.filter((txn) => txn.status === 'Succeeded'),
+    (txn) => getAllocatedAmount(txn, invoiceId),
+  )
+
+// Credit and debit notes change what is owed after the plan was agreed. The difference comes off (or goes on) the
+// latest instalments so earlier milestones keep their agreed amounts; payments then settle instalments in due order.
+export const evaluateInstalments = (
+  instalments: Instalment[],
+  adjustedAmount: number,
+  paidAmount: number,
+  today: Date = new Date(),
+): InstalmentProgress[] => {
+  const schedule = [...instalments].sort((a, b) => a.dueDate.localeCompare(b.dueDate)).map((item) => ({ ...item }))
+  let difference = subtractAmount(adjustedAmount, sumAmounts(schedule, (instalment) => instalment.amount))
+  if (difference > 0 && schedule.length) {
+    const last = schedule[schedule.length - 1]
+    last.amount = addAmounts(last.amount, difference)
+  }
+  for (let index = schedule.length - 1; index >= 0 && difference < 0; index -= 1) {
+    const reduction = Math.min(schedule[index].amount, -difference)
+    schedule[index].amount = subtractAmount(schedule[index].amount, reduction)
+    difference = addAmounts(difference, reduction)
+  }
+
+  let unapplied = paidAmount
+  return schedule.map((instalment) => {
+    const paid = Math.min(unapplied, instalment.amount)
+    unapplied = subtractAmount(unapplied, paid)
+    const outstanding = subtractAmount(instalment.amount, paid)
+    const daysPastDue = outstanding > 0 ? Math.max(daysBetween(instalment.dueDate, today), 0) : 0
+    let status: InstalmentStatus = 'Upcoming'
+    if (outstanding <= 0) {
+      status = 'Paid'
+    } else if (daysPastDue > 0) {
+      status = 'Overdue'
+    } else if (paid > 0) {
+      status = 'Partially Paid'
+    }
+    return { ...instalment, paid, outstanding, status, daysPastDue }
+  })
+}
+
+export const evaluateInvoiceStatus = (
+  record: InvoiceRecord,
+  transactions: PaymentTransaction[],
+  today: Date = new Date(),
+  notes: AdjustmentNote[] = [],
+): InvoiceStatusEvaluation => {
+  const paidAmount = getPaidAmount(record.id, transactions)
+  const adjustedAmount = Math.max(addAmounts(record.amount, getInvoiceAdjustment(record.id, notes)), 0)
+
+  if (record.status === 'Draft' || record.status === 'Void' || record.status === 'Written Off') {
+    return { status: record.status, daysPastDue: 0, paidAmount, adjustedAmount, outstanding: 0 }
+  }
+  const scheduleFor = (paid: number) =>
+    record.instalments?.length ? evaluateInstalments(record.instalments, adjustedAmount, paid, today) : undefined
+  if (record.status === 'Paid') {
+    return {
+      status: 'Paid',
+      daysPastDue: 0,
+      paidAmount: Math.max(paidAmount, adjustedAmount),
+      adjustedAmount,
+      outstanding: 0,
+      instalments: scheduleFor(adjustedAmount),
+    }
+  }
+
+  const instalments = scheduleFor(paidAmount)
+  const outstanding = Math.max(subtractAmount(adjustedAmount, paidAmount), 0)
+  if (outstanding <= 0) {
+    return { status: 'Paid', daysPastDue: 0, paidAmount, adjustedAmount, outstanding: 0, instalments }
+  }
+
+  // On an instalment plan the invoice is overdue as soon as any instalment is, measured from the oldest one.
+  const daysPastDue = instalments
+    ? Math.max(0, ...instalments.map((instalment) => instalment.daysPastDue))
+    : Math.max(daysBetween(record.dueDate, today), 0)
+  return {
+    status: daysPastDue > 0 ? 'Overdue' : paidAmount > 0 ? 'Partially Paid' : 'Pending',
+    daysPastDue,
+    paidAmount,
+    adjustedAmount,
+    outstanding,
+    instalments,
+  }
+}
+
+export const evaluateInvoices = (
+  records: InvoiceRecord[],
+  transactions: PaymentTransaction[],
+  today: Date = new Date(),
+  notes: AdjustmentNote[] = [],
+): EvaluatedInvoice[] =>
+  records.map((record) => ({ ...record, evaluation: evaluateInvoiceStatus(record, transactions, today, notes) }))
@@ -0,0 +1,54 @@
+import { MONEY_ROUNDING, ORGANIZATION } from '../data'
+import type {
+  ClientDetails,
+  CurrencyCode,
+  InvoiceFormState,
+  InvoiceLineTotals,
+  InvoiceTotals,
+  LineItem,
+  MoneyRoundingPolicy,
+} from '../types'
+import { getStateCode, summarizeGstByRate } from './gst'
+import { addAmounts, multiplyAmount, percentageOf, roundAmount, subtractAmount, sumAmounts } from './money'
+
+export const SUPPLIER_STATE_CODE = getStateCode(ORGANIZATION.address.state, ORGANIZATION.taxRegistration)
+
+export const calculateLineItemTotals = (
+  lineItems: LineItem[],
+  client: ClientDetails,
+  currency: CurrencyCode,
+  policy: MoneyRoundingPolicy = MONEY_ROUNDING,
+): InvoiceTotals => {
+  const round = (amount: number) => roundAmount(amount, currency, policy.mode)
+  // Invoice-level rounding keeps each line exact and only settles the summary figures.
+  const settleLine = policy.level === 'line' ? round : (amount: number) => amount
+  const lines: InvoiceLineTotals[] = lineItems.map((item) => {
+    const lineBase = settleLine(multiplyAmount(item.quantity, item.unitPrice))
+    const lineDiscount = settleLine(percentageOf(lineBase, item.discountRate))
+    return { item, lineBase, lineDiscount, lineTotal: subtractAmount(lineBase, lineDiscount) }
+  })
+  const subtotal = round(sumAmounts(lines, (line) => line.lineBase))
+  const taxableAmount = Math.max(round(sumAmounts(lines, (line) => line.lineTotal)), 0)
+  const tax = summarizeGstByRate(
+    lines.map((line) => ({
+      taxableAmount: line.lineTotal,
+      taxRate: line.item.taxRate,
+      sacCode: line.item.sacCode,
+    })),
+    SUPPLIER_STATE_CODE,
+    client,
+    round,
+  )
+  return {
+    lines,
+    subtotal,
+    // Derived rather than summed so that subtotal less discount always prints as the taxable amount.
+    discountTotal: subtractAmount(subtotal, taxableAmount),
+    taxableAmount,
+    tax,
+    total: addAmounts(taxableAmount, tax.totalTax),
+  }
+}
+
+export const calculateInvoiceTotals = (state: InvoiceFormState): InvoiceTotals =>
+  calculateLineItemTotals(state.lineItems, state.client, state.currency)
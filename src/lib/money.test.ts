@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addAmounts,
+  calculateGatewayFee,
+  multiplyAmount,
+  percentageOf,
+  roundAmount,
+  roundMoney,
+  subtractAmount,
+  sumAmounts,
+} from './money'
+
+describe('addAmounts', () => {
+  it('adds without binary floating-point drift', () => {
+    expect(addAmounts(0.1, 0.2)).toBe(0.3)
+    expect(addAmounts(1885.75, 1885.75)).toBe(3771.5)
+  })
+
+  it('handles negative amounts and an empty list', () => {
+    expect(addAmounts(10, -10.01)).toBe(-0.01)
+    expect(addAmounts()).toBe(0)
+  })
+
+  it('accepts amounts written in exponent notation', () => {
+    expect(addAmounts(1e-7, 1)).toBe(1.0000001)
+  })
+
+  it('rejects values that are not finite', () => {
+    expect(() => addAmounts(Number.NaN)).toThrow(RangeError)
+    expect(() => addAmounts(Number.POSITIVE_INFINITY)).toThrow(RangeError)
+  })
+})
+
+describe('subtractAmount and sumAmounts', () => {
+  it('subtracts exactly', () => {
+    expect(subtractAmount(0.3, 0.1)).toBe(0.2)
+  })
+
+  it('sums a picked field', () => {
+    expect(sumAmounts([{ amount: 0.1 }, { amount: 0.2 }, { amount: 0.3 }], (item) => item.amount)).toBe(0.6)
+  })
+})
+
+describe('multiplyAmount and percentageOf', () => {
+  it('multiplies exactly', () => {
+    expect(multiplyAmount(1.1, 3)).toBe(3.3)
+    expect(multiplyAmount(19.99, 100)).toBe(1999)
+  })
+
+  it('takes a percentage without rounding', () => {
+    expect(percentageOf(1000.5, 9)).toBe(90.045)
+    expect(percentageOf(333.33, 18)).toBe(59.9994)
+  })
+})
+
+describe('roundAmount', () => {
+  it('rounds to the currency minor unit, half up by default', () => {
+    expect(roundAmount(90.045, 'INR')).toBe(90.05)
+    expect(roundAmount(-90.045, 'INR')).toBe(-90.05)
+  })
+
+  it('supports banker’s rounding', () => {
+    expect(roundAmount(2.125, 'USD', 'half-even')).toBe(2.12)
+    expect(roundAmount(2.135, 'USD', 'half-even')).toBe(2.14)
+  })
+
+  it('respects currencies without two decimal places', () => {
+    expect(roundAmount(1234.5, 'JPY')).toBe(1235)
+    expect(roundAmount(1.2345, 'KWD')).toBe(1.235)
+  })
+
+  it('leaves an amount that is already settled untouched', () => {
+    expect(roundAmount(12.3, 'INR')).toBe(12.3)
+  })
+})
+
+describe('roundMoney', () => {
+  it('rounds to the cash increment of the currency', () => {
+    expect(roundMoney(10.02, 'CHF')).toBe(10)
+    expect(roundMoney(10.03, 'CHF')).toBe(10.05)
+    expect(roundMoney(10.025, 'CHF')).toBe(10.05)
+  })
+})
+
+describe('calculateGatewayFee', () => {
+  it('charges the percentage and rounds to the minor unit', () => {
+    expect(calculateGatewayFee(1000, 'INR', 2)).toBe(20)
+    expect(calculateGatewayFee(1234.56, 'INR', 1.99)).toBe(24.57)
+  })
+})
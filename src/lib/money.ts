@@ -0,0 +1,80 @@
+import { MONEY_ROUNDING, PAYMENT_GATEWAY } from '../data'
+import type { CurrencyCode, RoundingMode } from '../types'
+import { getCurrency } from './currency'
+
+// Amounts are combined as integer digits with a decimal scale, so 0.1 + 0.2 is 0.3 and 3771.5 stays exact.
+interface Decimal {
+  units: bigint
+  scale: number
+}
+
+const pow10 = (digits: number) => 10n ** BigInt(digits)
+
+const toDecimal = (value: number): Decimal => {
+  if (!Number.isFinite(value)) {
+    throw new RangeError(`${value} is not a valid money amount.`)
+  }
+  const text = /e/i.test(String(value)) ? value.toFixed(12) : String(value)
+  const [whole, fraction = ''] = text.split('.')
+  return { units: BigInt(whole + fraction), scale: fraction.length }
+}
+
+const fromDecimal = ({ units, scale }: Decimal) => Number(`${units}e-${scale}`)
+
+const rescale = (value: Decimal, scale: number): bigint => value.units * pow10(scale - value.scale)
+
+const divideRounded = (numerator: bigint, denominator: bigint, mode: RoundingMode) => {
+  const magnitude = numerator < 0n ? -numerator : numerator
+  let quotient = magnitude / denominator
+  const twiceRemainder = (magnitude % denominator) * 2n
+  const isHalf = twiceRemainder === denominator
+  if (twiceRemainder > denominator || (isHalf && (mode === 'half-up' || quotient % 2n === 1n))) {
+    quotient += 1n
+  }
+  return numerator < 0n ? -quotient : quotient
+}
+
+const roundDecimal = (value: Decimal, digits: number, mode: RoundingMode): Decimal =>
+  value.scale <= digits
+    ? value
+    : { units: divideRounded(value.units, pow10(value.scale - digits), mode), scale: digits }
+
+export const addAmounts = (...amounts: number[]) => {
+  const decimals = amounts.map(toDecimal)
+  const scale = Math.max(0, ...decimals.map((decimal) => decimal.scale))
+  return fromDecimal({ units: decimals.reduce((sum, decimal) => sum + rescale(decimal, scale), 0n), scale })
+}
+
+export const subtractAmount = (amount: number, deduction: number) => addAmounts(amount, -deduction)
+
+export const sumAmounts = <T>(items: T[], pick: (item: T) => number) => addAmounts(...items.map(pick))
+
+export const multiplyAmount = (amount: number, factor: number) => {
+  const left = toDecimal(amount)
+  const right = toDecimal(factor)
+  return fromDecimal({ units: left.units * right.units, scale: left.scale + right.scale })
+}
+
+export const percentageOf = (amount: number, rate: number) => {
+  const product = toDecimal(multiplyAmount(amount, rate))
+  return fromDecimal({ ...product, scale: product.scale + 2 })
+}
+
+// Settles an exact amount to the currency's minor unit: paise and cents, whole yen, or fils.
+export const roundAmount = (amount: number, code: CurrencyCode, mode: RoundingMode = MONEY_ROUNDING.mode) =>
+  fromDecimal(roundDecimal(toDecimal(amount), getCurrency(code).minorUnits, mode))
+
+// Rounds to the smallest amount the currency settles in cash, such as 5 rappen for CHF.
+export const roundMoney = (amount: number, code: CurrencyCode, mode: RoundingMode = MONEY_ROUNDING.mode) => {
+  const value = toDecimal(amount)
+  const increment = toDecimal(getCurrency(code).roundingIncrement)
+  const scale = Math.max(value.scale, increment.scale)
+  const steps = divideRounded(rescale(value, scale), rescale(increment, scale), mode)
+  return fromDecimal({ units: steps * increment.units, scale: increment.scale })
+}
+
+export const calculateGatewayFee = (
+  amount: number,
+  code: CurrencyCode,
+  feePercentage: number = PAYMENT_GATEWAY.feePercentage,
+) => roundAmount(percentageOf(amount, feePercentage), code)
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import type { NumberingSeries } from '../types'
+import {
+  allocateNumber,
+  createDraftNumber,
+  formatDocumentNumber,
+  getFinancialYear,
+  highestSequenceInUse,
+  isDraftNumber,
+  NumberingError,
+  validateNumberingSeries,
+} from './numbering'
+
+const invoiceSeries: NumberingSeries = {
+  id: 'invoice',
+  label: 'Tax invoices',
+  prefix: 'ADS',
+  pattern: '{PREFIX}/{FY}/{SEQ}',
+  padding: 4,
+  resetEachFinancialYear: true,
+}
+
+describe('getFinancialYear', () => {
+  it('starts the financial year in April', () => {
+    expect(getFinancialYear('2025-04-01')).toEqual({ startYear: 2025, label: '2025-26' })
+    expect(getFinancialYear('2026-03-31')).toEqual({ startYear: 2025, label: '2025-26' })
+  })
+
+  it('wraps the short year label at the century', () => {
+    expect(getFinancialYear('2099-12-01').label).toBe('2099-00')
+  })
+})
+
+describe('formatDocumentNumber', () => {
+  it('fills every pattern token', () => {
+    const series = { ...invoiceSeries, pattern: '{PREFIX}-{FY_START}{MM}-{YYYY}-{SEQ}', padding: 3 }
+    expect(formatDocumentNumber(series, 7, '2026-02-14')).toBe('ADS-202502-2026-007')
+  })
+
+  it('does not truncate sequences wider than the padding', () => {
+    expect(formatDocumentNumber(invoiceSeries, 12345, '2025-06-01')).toBe('ADS/2025-26/12345')
+  })
+})
+
+describe('validateNumberingSeries', () => {
+  it('accepts the default series', () => {
+    expect(() => validateNumberingSeries(invoiceSeries)).not.toThrow()
+  })
+
+  it.each([
+    [{ pattern: '{PREFIX}/{DAY}/{SEQ}' }, /not a supported pattern token/],
+    [{ pattern: '{PREFIX}/{FY}' }, /both \{PREFIX\} and \{SEQ\}/],
+    [{ pattern: '{PREFIX}/{YYYY}/{SEQ}' }, /needs \{FY\} or \{FY_START\}/],
+    [{ padding: 0 }, /between 1 and 10 digits/],
+    [{ prefix: 'ADS 01' }, /may only contain/],
+    [{ prefix: 'DRAFT', pattern: '{PREFIX}-{SEQ}', resetEachFinancialYear: false }, /reserved for drafts/],
+  ])('rejects %o', (changes, message) => {
+    expect(() => validateNumberingSeries({ ...invoiceSeries, ...changes })).toThrow(NumberingError)
+    expect(() => validateNumberingSeries({ ...invoiceSeries, ...changes })).toThrow(message)
+  })
+})
+
+describe('highestSequenceInUse', () => {
+  it('only counts numbers issued under the same pattern and period', () => {
+    const numbers = ['ADS/2025-26/0009', 'ADS/2025-26/0012', 'ADS/2024-25/0040', 'CN/2025-26/0099', 'ADS-2025-0050']
+    expect(highestSequenceInUse(invoiceSeries, '2025-09-01', numbers)).toBe(12)
+    expect(highestSequenceInUse(invoiceSeries, '2026-04-01', numbers)).toBe(0)
+  })
+})
+
+describe('allocateNumber', () => {
+  it('advances the counter for the series and financial year', () => {
+    const first = allocateNumber(invoiceSeries, {}, new Set(), '2025-09-01')
+    expect(first.number).toBe('ADS/2025-26/0001')
+    const second = allocateNumber(invoiceSeries, first.counters, new Set([first.number]), '2025-09-02')
+    expect(second.number).toBe('ADS/2025-26/0002')
+    expect(second.counters).toEqual({ 'invoice:2025-26': 2 })
+  })
+
+  it('restarts the sequence in a new financial year', () => {
+    const result = allocateNumber(invoiceSeries, { 'invoice:2025-26': 41 }, new Set(), '2026-04-01')
+    expect(result.number).toBe('ADS/2026-27/0001')
+    expect(result.counters).toEqual({ 'invoice:2025-26': 41, 'invoice:2026-27': 1 })
+  })
+
+  it('keeps one running counter when the series does not reset', () => {
+    const series = { ...invoiceSeries, pattern: '{PREFIX}-{SEQ}', resetEachFinancialYear: false }
+    const result = allocateNumber(series, { 'invoice:all': 99 }, new Set(), '2026-04-01')
+    expect(result.number).toBe('ADS-0100')
+  })
+
+  it('skips numbers that are already in use', () => {
+    const used = new Set(['ADS/2025-26/0003', 'ADS/2025-26/0004'])
+    const result = allocateNumber(invoiceSeries, { 'invoice:2025-26': 1 }, used, '2025-09-01')
+    expect(result.number).toBe('ADS/2025-26/0005')
+  })
+
+  it('refuses to allocate from an invalid series', () => {
+    expect(() => allocateNumber({ ...invoiceSeries, padding: 11 }, {}, new Set(), '2025-09-01')).toThrow(
+      NumberingError,
+    )
+  })
+})
+
+describe('draft numbers', () => {
+  it('marks drafts with a reserved prefix', () => {
+    const draft = createDraftNumber()
+    expect(draft).toMatch(/^DRAFT-[0-9A-Z]+$/)
+    expect(isDraftNumber(` ${draft}`)).toBe(true)
+    expect(isDraftNumber('ADS/2025-26/0001')).toBe(false)
+  })
+})
@@ -0,0 +1,101 @@
+import type { NumberingSeries } from '../types'
+import { parseDay } from './dates'
+import { generateId } from './ids'
+
+export const DRAFT_NUMBER_PREFIX = 'DRAFT-'
+
+export const NUMBERING_TOKENS = ['{PREFIX}', '{FY}', '{FY_START}', '{YYYY}', '{MM}', '{SEQ}'] as const
+
+export class NumberingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NumberingError'
+  }
+}
+
+export const createDraftNumber = () => `${DRAFT_NUMBER_PREFIX}${generateId().toUpperCase()}`
+
+export const isDraftNumber = (value: string) => value.trim().startsWith(DRAFT_NUMBER_PREFIX)
+
+// Indian financial years run April to March, so January 2026 still belongs to 2025-26.
+export const getFinancialYear = (value: string | Date) => {
+  const date = parseDay(value)
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1
+  return { startYear, label: `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}` }
+}
+
+export const getSeriesPeriod = (series: NumberingSeries, value: string | Date) =>
+  series.resetEachFinancialYear ? getFinancialYear(value).label : 'all'
+
+const renderPattern = (series: NumberingSeries, value: string | Date, sequence: string) => {
+  const date = parseDay(value)
+  const financialYear = getFinancialYear(date)
+  const tokens: Record<string, string> = {
+    '{PREFIX}': series.prefix,
+    '{FY}': financialYear.label,
+    '{FY_START}': String(financialYear.startYear),
+    '{YYYY}': String(date.getFullYear()),
+    '{MM}': String(date.getMonth() + 1).padStart(2, '0'),
+    '{SEQ}': sequence,
+  }
+  return series.pattern.replace(/\{[A-Z_]+\}/g, (token) => tokens[token] ?? token)
+}
+
+export const formatDocumentNumber = (series: NumberingSeries, sequence: number, value: string | Date) =>
+  renderPattern(series, value, String(sequence).padStart(series.padding, '0'))
+
+export const validateNumberingSeries = (series: NumberingSeries) => {
+  const unknownToken = series.pattern
+    .match(/\{[A-Z_]+\}/g)
+    ?.find((token) => !(NUMBERING_TOKENS as readonly string[]).includes(token))
+  if (unknownToken) {
+    throw new NumberingError(`${series.label}: ${unknownToken} is not a supported pattern token.`)
+  }
+  if (!series.pattern.includes('{PREFIX}') || !series.pattern.includes('{SEQ}')) {
+    throw new NumberingError(`${series.label}: the pattern must include both {PREFIX} and {SEQ}.`)
+  }
+  if (series.resetEachFinancialYear && !/\{FY(_START)?\}/.test(series.pattern)) {
+    throw new NumberingError(`${series.label}: a series that resets each April needs {FY} or {FY_START} in its pattern.`)
+  }
+  if (!Number.isInteger(series.padding) || series.padding < 1 || series.padding > 10) {
+    throw new NumberingError(`${series.label}: sequence padding must be between 1 and 10 digits.`)
+  }
+  if (!/^[A-Za-z0-9/_-]*$/.test(series.prefix)) {
+    throw new NumberingError(`${series.label}: the prefix may only contain letters, digits, "-", "_" and "/".`)
+  }
+  if (isDraftNumber(formatDocumentNumber(series, 1, new Date()))) {
+    throw new NumberingError(`${series.label}: numbers starting with ${DRAFT_NUMBER_PREFIX} are reserved for drafts.`)
+  }
+}
+
+// Numbers already issued under the current pattern (for example seeded ledger entries) move the counter forward.
+export const highestSequenceInUse = (series: NumberingSeries, value: string | Date, numbers: Iterable<string>) => {
+  const placeholder = '\u0000'
+  const escaped = renderPattern(series, value, placeholder).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const matcher = new RegExp(`^${escaped.replace(placeholder, '(\\d+)')}$`)
+  let highest = 0
+  for (const number of numbers) {
+    const match = number.match(matcher)
+    if (match) {
+      highest = Math.max(highest, Number(match[1]))
+    }
+  }
+  return highest
+}
+
+export const allocateNumber = (
+  series: NumberingSeries,
+  counters: Record<string, number>,
+  usedNumbers: Set<string>,
+  value: string | Date,
+) => {
+  validateNumberingSeries(series)
+  const counterKey = `${series.id}:${getSeriesPeriod(series, value)}`
+  let sequence = Math.max(counters[counterKey] ?? 0, highestSequenceInUse(series, value, usedNumbers))
+  let number = ''
+  do {
+    sequence += 1
+    number = formatDocumentNumber(series, sequence, value)
+  } while (usedNumbers.has(number))
+  return { number, counters: { ...counters, [counterKey]: sequence } }
+}
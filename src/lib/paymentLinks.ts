@@ -0,0 +1,90 @@
+import { ORGANIZATION, PAYMENT_GATEWAY } from '../data'
+import type {
+  PaymentGatewayChannel,
+  PaymentGatewayConfig,
+  PaymentLinkRequest,
+  PaymentMethod,
+  PaymentOption,
+} from '../types'
+import { formatAmount } from './currency'
+
+const formatLinkAmount = ({ amount, currency }: PaymentLinkRequest) => formatAmount(amount, currency)
+
+// UPI apps show '+' literally and some reject an escaped '@' in the payee address, so encoding is done by hand.
+const toQueryString = (params: Record<string, string>) =>
+  Object.entries(params)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%40/g, '@')}`)
+    .join('&')
+
+// UPI only settles in rupees, so foreign-currency invoices get no deep link.
+export const buildUpiLink = (
+  request: PaymentLinkRequest,
+  vpa: string = ORGANIZATION.bank.upiId,
+  payeeName: string = ORGANIZATION.bank.beneficiary,
+) => {
+  if (request.currency !== 'INR' || !vpa || !(request.amount > 0)) {
+    return undefined
+  }
+  return `upi://pay?${toQueryString({
+    pa: vpa,
+    pn: payeeName,
+    am: formatLinkAmount(request),
+    cu: request.currency,
+    tr: request.invoiceNumber,
+    tn: `Invoice ${request.invoiceNumber}`,
+  })}`
+}
+
+export const buildCheckoutLink = (
+  request: PaymentLinkRequest,
+  method?: PaymentMethod,
+  gateway: PaymentGatewayConfig = PAYMENT_GATEWAY,
+) =>
+  `${gateway.checkoutUrl}?${toQueryString({
+    merchant: gateway.credentials.merchantId,
+    invoice: request.invoiceNumber,
+    amount: formatLinkAmount(request),
+    currency: request.currency,
+    name: request.clientName ?? '',
+    method: method ?? '',
+  })}`
+
+// An option dedicated to the preferred channel leads, then any option that accepts it, such as hosted checkout.
+export const getPaymentOptions = (
+  request: PaymentLinkRequest,
+  preferredChannel?: PaymentGatewayChannel,
+  gateway: PaymentGatewayConfig = PAYMENT_GATEWAY,
+): PaymentOption[] => {
+  if (!request.invoiceNumber || !(request.amount > 0) || gateway.status === 'Disconnected') {
+    return []
+  }
+  const liveChannels = gateway.channels.filter((channel) => channel.status !== 'Disabled')
+  const options: PaymentOption[] = []
+  const upiLink = liveChannels.some((channel) => channel.method === 'UPI') ? buildUpiLink(request) : undefined
+  if (upiLink) {
+    options.push({
+      kind: 'upi',
+      label: 'Pay by UPI',
+      description: `Scan with any UPI app or pay ${ORGANIZATION.bank.upiId}`,
+      url: upiLink,
+      methods: ['UPI'],
+    })
+  }
+  if (liveChannels.length) {
+    options.push({
+      kind: 'checkout',
+      label: 'Pay online',
+      description: `Secure checkout by ${gateway.providerName}`,
+      url: buildCheckoutLink(request, preferredChannel?.method, gateway),
+      methods: liveChannels.map((channel) => channel.method),
+    })
+  }
+  const rank = (option: PaymentOption) => {
+    if (!preferredChannel || !option.methods.includes(preferredChannel.method)) {
+      return 2
+    }
+    return option.methods.length === 1 ? 0 : 1
+  }
+  return options.sort((a, b) => rank(a) - rank(b))
+}
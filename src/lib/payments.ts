@@ -0,0 +1,114 @@
+import type {
+  CurrencyCode,
+  EvaluatedInvoice,
+  PaymentAllocation,
+  PaymentTransaction,
+  PaymentTransactionStatus,
+} from '../types'
+import { formatMoney } from './currency'
+import { multiplyAmount, roundAmount, subtractAmount, sumAmounts } from './money'
+
+export class PaymentAllocationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PaymentAllocationError'
+  }
+}
+
+// Receipts recorded before allocations existed settle only the invoice they reference.
+export const getAllocations = (txn: PaymentTransaction): PaymentAllocation[] =>
+  txn.allocations?.length ? txn.allocations : [{ invoiceId: txn.invoiceId, amount: txn.amount }]
+
+const getGrossAllocation = (txn: PaymentTransaction, invoiceId: string) =>
+  sumAmounts(
+    getAllocations(txn).filter((allocation) => allocation.invoiceId === invoiceId),
+    (allocation) => allocation.amount,
+  )
+
+// Refunds come back off each invoice in proportion to what the receipt paid towards it.
+const getRefundShare = (txn: PaymentTransaction, grossAmount: number) => {
+  if (!txn.refundedAmount || !txn.amount) {
+    return 0
+  }
+  return grossAmount === txn.amount
+    ? txn.refundedAmount
+    : roundAmount(multiplyAmount(txn.refundedAmount, grossAmount / txn.amount), txn.currency)
+}
+
+export const getAllocatedAmount = (txn: PaymentTransaction, invoiceId: string) => {
+  const grossAmount = getGrossAllocation(txn, invoiceId)
+  return subtractAmount(grossAmount, getRefundShare(txn, grossAmount))
+}
+
+export const isAllocatedTo = (txn: PaymentTransaction, invoiceId: string) =>
+  getAllocations(txn).some((allocation) => allocation.invoiceId === invoiceId)
+
+// The part of a receipt that applies to one invoice, with gateway fees shared in proportion to the amount.
+// Gateways keep their fee on a refund, so the fee share is worked out before refunds are taken off.
+export const toInvoicePayment = (txn: PaymentTransaction, invoiceId: string): PaymentTransaction => {
+  const grossAmount = getGrossAllocation(txn, invoiceId)
+  const amount = subtractAmount(grossAmount, getRefundShare(txn, grossAmount))
+  const feeAmount =
+    grossAmount === txn.amount || !txn.amount
+      ? txn.feeAmount
+      : roundAmount(multiplyAmount(txn.feeAmount, grossAmount / txn.amount), txn.currency)
+  return { ...txn, invoiceId, amount, feeAmount, netAmount: subtractAmount(amount, feeAmount) }
+}
+
+export const getInvoicePayments = (
+  invoiceId: string,
+  transactions: PaymentTransaction[],
+  status: PaymentTransactionStatus = 'Succeeded',
+) =>
+  transactions
+    .filter((txn) => txn.status === status && isAllocatedTo(txn, invoiceId))
+    .map((txn) => toInvoicePayment(txn, invoiceId))
+
+// Oldest due date first, so a lump sum clears the longest-outstanding balances before newer ones.
+export const suggestAllocations = (amount: number, invoices: EvaluatedInvoice[]): PaymentAllocation[] => {
+  let remaining = amount
+  return [...invoices]
+    .filter((invoice) => invoice.evaluation.outstanding > 0)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+    .flatMap((invoice) => {
+      const allocated = Math.min(remaining, invoice.evaluation.outstanding)
+      remaining = subtractAmount(remaining, allocated)
+      return allocated > 0 ? [{ invoiceId: invoice.id, amount: allocated }] : []
+    })
+}
+
+export const validateAllocations = (
+  amount: number,
+  currency: CurrencyCode,
+  allocations: PaymentAllocation[],
+  invoices: EvaluatedInvoice[],
+) => {
+  if (!(amount > 0)) {
+    throw new PaymentAllocationError('Enter the amount received.')
+  }
+  const applied = allocations.filter((allocation) => allocation.amount > 0)
+  if (!applied.length) {
+    throw new PaymentAllocationError('Allocate the payment to at least one invoice.')
+  }
+  applied.forEach((allocation) => {
+    const invoice = invoices.find((record) => record.id === allocation.invoiceId)
+    if (!invoice) {
+      throw new PaymentAllocationError(`Invoice ${allocation.invoiceId} does not exist in the ledger.`)
+    }
+    if (invoice.currency !== currency) {
+      throw new PaymentAllocationError(`${invoice.invoiceNumber} is billed in ${invoice.currency}, not ${currency}.`)
+    }
+    if (allocation.amount > invoice.evaluation.outstanding) {
+      throw new PaymentAllocationError(
+        `${invoice.invoiceNumber} has only ${formatMoney(invoice.evaluation.outstanding, currency)} outstanding.`,
+      )
+    }
+  })
+  const allocated = sumAmounts(applied, (allocation) => allocation.amount)
+  if (allocated !== amount) {
+    throw new PaymentAllocationError(
+      `Allocations add up to ${formatMoney(allocated, currency)} but ${formatMoney(amount, currency)} was received.`,
+    )
+  }
+  return applied
+}
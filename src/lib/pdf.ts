@@ -0,0 +1,253 @@
+export type PdfFont = 'regular' | 'bold'
+
+export type PdfColor = [number, number, number]
+
+export interface PdfTextOptions {
+  font?: PdfFont
+  size?: number
+  color?: PdfColor
+  align?: 'left' | 'right' | 'center'
+}
+
+export interface PdfShapeOptions {
+  fill?: PdfColor
+  stroke?: PdfColor
+  lineWidth?: number
+}
+
+export interface PdfDocument {
+  readonly pageWidth: number
+  readonly pageHeight: number
+  addPage: () => void
+  setPage: (index: number) => void
+  pageCount: () => number
+  text: (value: string, x: number, y: number, options?: PdfTextOptions) => void
+  line: (x1: number, y1: number, x2: number, y2: number, options?: PdfShapeOptions) => void
+  rect: (x: number, y: number, width: number, height: number, options?: PdfShapeOptions) => void
+  measureText: (value: string, size: number, font?: PdfFont) => number
+  wrapText: (value: string, maxWidth: number, size: number, font?: PdfFont) => string[]
+  output: () => Uint8Array<ArrayBuffer>
+}
+
+export const A4_PORTRAIT = { width: 595.28, height: 841.89 }
+
+// Glyph advance widths (1/1000 em) for WinAnsi codes 32–126, from the standard Helvetica AFM metrics.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+]
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+]
+
+const WIN_ANSI_SPECIALS: Record<string, { code: number; width: number }> = {
+  '•': { code: 0x95, width: 350 },
+  '–': { code: 0x96, width: 556 },
+  '—': { code: 0x97, width: 1000 },
+  '‘': { code: 0x91, width: 222 },
+  '’': { code: 0x92, width: 222 },
+  '“': { code: 0x93, width: 333 },
+  '”': { code: 0x94, width: 333 },
+  '€': { code: 0x80, width: 556 },
+  '…': { code: 0x85, width: 1000 },
+}
+
+const FONT_RESOURCE: Record<PdfFont, string> = {
+  regular: 'F1',
+  bold: 'F2',
+}
+
+const toWinAnsi = (char: string) => {
+  const special = WIN_ANSI_SPECIALS[char]
+  if (special) {
+    return special.code
+  }
+  const code = char.charCodeAt(0)
+  if (code === 0xa0 || code === 0x202f || code === 0x2009) {
+    return 32
+  }
+  if ((code >= 32 && code <= 126) || (code >= 0xa1 && code <= 0xff)) {
+    return code
+  }
+  return 63
+}
+
+const glyphWidth = (char: string, font: PdfFont) => {
+  const special = WIN_ANSI_SPECIALS[char]
+  if (special) {
+    return special.width
+  }
+  const code = toWinAnsi(char)
+  const table = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  return code >= 32 && code <= 126 ? table[code - 32] : 556
+}
+
+const formatNumber = (value: number) => {
+  const rounded = Math.round(value * 100) / 100
+  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(2)
+}
+
+const colorOperands = (color: PdfColor) => color.map((channel) => formatNumber(channel)).join(' ')
+
+const encodePdfString = (value: string) => {
+  let encoded = ''
+  for (const char of value) {
+    const code = toWinAnsi(char)
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      encoded += `\\${String.fromCharCode(code)}`
+    } else if (code > 126) {
+      encoded += `\\${code.toString(8).padStart(3, '0')}`
+    } else {
+      encoded += String.fromCharCode(code)
+    }
+  }
+  return `(${encoded})`
+}
+
+export const hexToPdfColor = (hex: string): PdfColor => {
+  const normalized = hex.replace('#', '')
+  const value = Number.parseInt(normalized.length === 3 ? normalized.replace(/(.)/g, '$1$1') : normalized, 16)
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255]
+}
+
+export const createPdfDocument = (
+  title: string,
+  pageSize: { width: number; height: number } = A4_PORTRAIT,
+): PdfDocument => {
+  const pages: string[][] = [[]]
+  let currentPage = 0
+
+  const flipY = (y: number) => pageSize.height - y
+
+  const measureText = (value: string, size: number, font: PdfFont = 'regular') => {
+    let units = 0
+    for (const char of value) {
+      units += glyphWidth(char, font)
+    }
+    return (units * size) / 1000
+  }
+
+  const wrapText = (value: string, maxWidth: number, size: number, font: PdfFont = 'regular') => {
+    const lines: string[] = []
+    value.split(/\r?\n/).forEach((paragraph) => {
+      const words = paragraph.split(/\s+/).filter(Boolean)
+      if (!words.length) {
+        lines.push('')
+        return
+      }
+      let current = ''
+      words.forEach((word) => {
+        const candidate = current ? `${current} ${word}` : word
+        if (measureText(candidate, size, font) <= maxWidth || !current) {
+          current = candidate
+        } else {
+          lines.push(current)
+          current = word
+        }
+      })
+      lines.push(current)
+    })
+    return lines
+  }
+
+  const text = (value: string, x: number, y: number, options: PdfTextOptions = {}) => {
+    const font = options.font ?? 'regular'
+    const size = options.size ?? 10
+    const width = measureText(value, size, font)
+    const offset = options.align === 'right' ? width : options.align === 'center' ? width / 2 : 0
+    const commands = pages[currentPage]
+    commands.push(
+      'BT',
+      `${colorOperands(options.color ?? [0, 0, 0])} rg`,
+      `/${FONT_RESOURCE[font]} ${formatNumber(size)} Tf`,
+      `${formatNumber(x - offset)} ${formatNumber(flipY(y))} Td`,
+      `${encodePdfString(value)} Tj`,
+      'ET',
+    )
+  }
+
+  const line = (x1: number, y1: number, x2: number, y2: number, options: PdfShapeOptions = {}) => {
+    pages[currentPage].push(
+      `${colorOperands(options.stroke ?? [0, 0, 0])} RG`,
+      `${formatNumber(options.lineWidth ?? 0.5)} w`,
+      `${formatNumber(x1)} ${formatNumber(flipY(y1))} m ${formatNumber(x2)} ${formatNumber(flipY(y2))} l S`,
+    )
+  }
+
+  const rect = (x: number, y: number, width: number, height: number, options: PdfShapeOptions = {}) => {
+    const commands = pages[currentPage]
+    const path = `${formatNumber(x)} ${formatNumber(flipY(y + height))} ${formatNumber(width)} ${formatNumber(height)} re`
+    if (options.fill) {
+      commands.push(`${colorOperands(options.fill)} rg`)
+    }
+    if (options.stroke) {
+      commands.push(`${colorOperands(options.stroke)} RG`, `${formatNumber(options.lineWidth ?? 0.5)} w`)
+    }
+    commands.push(`${path} ${options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S'}`)
+  }
+
+  const output = () => {
+    const objects: string[] = []
+    const pageObjectIds = pages.map((_, index) => 5 + index * 2)
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+    objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+    pages.forEach((commands, index) => {
+      const pageId = pageObjectIds[index]
+      const stream = commands.join('\n')
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(pageSize.width)} ${formatNumber(pageSize.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+      objects[pageId + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    })
+    const infoId = objects.length
+    objects[infoId] = `<< /Title ${encodePdfString(title)} /Producer (Aurora Billing Desk) >>`
+
+    let body = '%PDF-1.4\n'
+    const offsets: number[] = []
+    for (let id = 1; id < objects.length; id += 1) {
+      offsets[id] = body.length
+      body += `${id} 0 obj\n${objects[id]}\nendobj\n`
+    }
+    const xrefOffset = body.length
+    body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+    for (let id = 1; id < objects.length; id += 1) {
+      body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+    }
+    body += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    const bytes = new Uint8Array(body.length)
+    for (let index = 0; index < body.length; index += 1) {
+      bytes[index] = body.charCodeAt(index) & 0xff
+    }
+    return bytes
+  }
+
+  return {
+    pageWidth: pageSize.width,
+    pageHeight: pageSize.height,
+    addPage: () => {
+      pages.push([])
+      currentPage = pages.length - 1
+    },
+    setPage: (index: number) => {
+      currentPage = Math.min(Math.max(index, 0), pages.length - 1)
+    },
+    pageCount: () => pages.length,
+    text,
+    line,
+    rect,
+    measureText,
+    wrapText,
+    output,
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { encodeQrCode, type QrMatrix, tryEncodeQrCode } from './qrCode'
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+]
+
+const readFormat = (matrix: QrMatrix) => {
+  const positions: Array<[number, number]> = [
+    [8, 0],
+    [8, 1],
+    [8, 2],
+    [8, 3],
+    [8, 4],
+    [8, 5],
+    [8, 7],
+    [8, 8],
+    [7, 8],
+    [5, 8],
+    [4, 8],
+    [3, 8],
+    [2, 8],
+    [1, 8],
+    [0, 8],
+  ]
+  const bits = positions.reduce((value, [x, y], index) => value | (Number(matrix[y][x]) << index), 0) ^ 0x5412
+  return { level: bits >>> 13, mask: (bits >>> 10) & 7, bits }
+}
+
+const hasFinder = (matrix: QrMatrix, left: number, top: number) =>
+  Array.from({ length: 7 }, (_, dy) =>
+    Array.from({ length: 7 }, (_, dx) => {
+      const distance = Math.max(Math.abs(dx - 3), Math.abs(dy - 3))
+      return matrix[top + dy][left + dx] === (distance !== 2)
+    }).every(Boolean),
+  ).every(Boolean)
+
+// Reads the data codewords of a version 1 symbol back out, following the zigzag placement order.
+const readVersionOneCodewords = (matrix: QrMatrix) => {
+  const size = matrix.length
+  const isFunction = (x: number, y: number) =>
+    x === 6 || y === 6 || (x <= 8 && y <= 8) || (x >= size - 8 && y <= 8) || (x <= 8 && y >= size - 8)
+  const mask = MASKS[readFormat(matrix).mask]
+  const bits: number[] = []
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {
+      right = 5
+    }
+    const upward = ((right + 1) & 2) === 0
+    for (let vertical = 0; vertical < size; vertical += 1) {
+      for (let offset = 0; offset < 2; offset += 1) {
+        const x = right - offset
+        const y = upward ? size - 1 - vertical : vertical
+        if (!isFunction(x, y)) {
+          bits.push(Number(matrix[y][x] !== mask(x, y)))
+        }
+      }
+    }
+  }
+  const codewords: number[] = []
+  for (let index = 0; index + 8 <= bits.length; index += 8) {
+    codewords.push(bits.slice(index, index + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return codewords
+}
+
+describe('encodeQrCode', () => {
+  it('picks the smallest version that holds the text', () => {
+    expect(encodeQrCode('INV-1').length).toBe(21)
+    expect(encodeQrCode('x'.repeat(14)).length).toBe(21)
+    expect(encodeQrCode('x'.repeat(15)).length).toBe(25)
+    expect(encodeQrCode('x'.repeat(213)).length).toBe(57)
+  })
+
+  it('draws the three finder patterns and the timing patterns', () => {
+    const matrix = encodeQrCode('upi://pay?pa=auroradigital@hrznbank&am=1500.00&cu=INR')
+    const size = matrix.length
+    expect(hasFinder(matrix, 0, 0)).toBe(true)
+    expect(hasFinder(matrix, size - 7, 0)).toBe(true)
+    expect(hasFinder(matrix, 0, size - 7)).toBe(true)
+    for (let index = 8; index < size - 8; index += 1) {
+      expect(matrix[6][index]).toBe(index % 2 === 0)
+      expect(matrix[index][6]).toBe(index % 2 === 0)
+    }
+    expect(matrix[size - 8][8]).toBe(true)
+  })
+
+  it('writes format information for error-correction level M', () => {
+    const { level, bits } = readFormat(encodeQrCode('Invoice INV/2025-26/0042'))
+    expect(level).toBe(0)
+    let remainder = bits >>> 10
+    for (let step = 0; step < 10; step += 1) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    }
+    expect(bits & 0x3ff).toBe(remainder)
+  })
+
+  it('stores the text as UTF-8 bytes followed by the standard padding', () => {
+    const text = 'Pay ₹10'
+    const bytes = [...new TextEncoder().encode(text)]
+    const data = readVersionOneCodewords(encodeQrCode(text)).slice(0, 16)
+    // Mode 0100 and an 8-bit length, then the bytes shifted by the 4-bit header.
+    const expectedBits = [
+      '0100',
+      bytes.length.toString(2).padStart(8, '0'),
+      ...bytes.map((byte) => byte.toString(2).padStart(8, '0')),
+      '0000',
+    ].join('')
+    const expected = expectedBits.match(/.{8}/g)!.map((byte) => Number.parseInt(byte, 2))
+    const padding = Array.from({ length: 16 - expected.length }, (_, index) => (index % 2 ? 0x11 : 0xec))
+    expect(data).toEqual([...expected, ...padding])
+  })
+
+  it('throws a RangeError for text longer than version 10 can hold', () => {
+    expect(() => encodeQrCode('x'.repeat(214))).toThrow(RangeError)
+  })
+})
+
+describe('tryEncodeQrCode', () => {
+  it('returns undefined instead of throwing when the text does not fit', () => {
+    expect(tryEncodeQrCode('x'.repeat(500))).toBeUndefined()
+    expect(tryEncodeQrCode('INV-1')).toHaveLength(21)
+  })
+})
@@ -0,0 +1,349 @@
+// A byte-mode QR Code encoder at error-correction level M, enough for payment links without a third-party library.
+// Versions 1–10 hold up to 213 bytes, which covers any UPI deep link.
+
+export type QrMatrix = boolean[][]
+
+const MAX_VERSION = 10
+const ECC_CODEWORDS_PER_BLOCK = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26]
+const ERROR_CORRECTION_BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5]
+// Level M is encoded as 00 in the format information.
+const FORMAT_LEVEL_BITS = 0
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0
+
+const getRawDataModules = (version: number) => {
+  let modules = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2
+    modules -= (25 * alignmentCount - 10) * alignmentCount - 55
+    if (version >= 7) {
+      modules -= 36
+    }
+  }
+  return modules
+}
+
+const getDataCodewords = (version: number) =>
+  Math.floor(getRawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version]
+
+const getCountBits = (version: number) => (version < 10 ? 8 : 16)
+
+// Bytes that fit once the 4-bit mode indicator and the length field are written.
+const getByteCapacity = (version: number) => Math.floor((getDataCodewords(version) * 8 - 4 - getCountBits(version)) / 8)
+
+const getAlignmentPositions = (version: number) => {
+  if (version === 1) {
+    return []
+  }
+  const size = version * 4 + 17
+  const count = Math.floor(version / 7) + 2
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2
+  const positions = [6]
+  for (let position = size - 7; positions.length < count; position -= step) {
+    positions.splice(1, 0, position)
+  }
+  return positions
+}
+
+// Galois field GF(2^8) arithmetic with the QR reducing polynomial x^8 + x^4 + x^3 + x^2 + 1.
+const multiplyField = (x: number, y: number) => {
+  let product = 0
+  for (let bit = 7; bit >= 0; bit -= 1) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d)
+    product ^= ((y >>> bit) & 1) * x
+  }
+  return product
+}
+
+const getReedSolomonDivisor = (degree: number) => {
+  const divisor = new Array<number>(degree).fill(0)
+  divisor[degree - 1] = 1
+  let root = 1
+  for (let step = 0; step < degree; step += 1) {
+    for (let index = 0; index < degree; index += 1) {
+      divisor[index] = multiplyField(divisor[index], root)
+      if (index + 1 < degree) {
+        divisor[index] ^= divisor[index + 1]
+      }
+    }
+    root = multiplyField(root, 0x02)
+  }
+  return divisor
+}
+
+const getReedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const remainder = new Array<number>(divisor.length).fill(0)
+  data.forEach((byte) => {
+    const factor = byte ^ (remainder.shift() as number)
+    remainder.push(0)
+    divisor.forEach((coefficient, index) => {
+      remainder[index] ^= multiplyField(coefficient, factor)
+    })
+  })
+  return remainder
+}
+
+const encodeData = (bytes: Uint8Array, version: number) => {
+  const capacity = getDataCodewords(version) * 8
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let index = length - 1; index >= 0; index -= 1) {
+      bits.push((value >>> index) & 1)
+    }
+  }
+  append(0b0100, 4)
+  append(bytes.length, getCountBits(version))
+  bytes.forEach((byte) => append(byte, 8))
+  append(0, Math.min(4, capacity - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8)
+  }
+  const codewords: number[] = []
+  for (let index = 0; index < bits.length; index += 8) {
+    codewords.push(bits.slice(index, index + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return codewords
+}
+
+// Splits the data into blocks, appends each block's error correction and interleaves the result.
+const addErrorCorrection = (data: number[], version: number) => {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version]
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version]
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8)
+  const shortBlockCount = blockCount - (rawCodewords % blockCount)
+  const shortBlockLength = Math.floor(rawCodewords / blockCount)
+  const divisor = getReedSolomonDivisor(eccLength)
+  const blocks: number[][] = []
+  let offset = 0
+  for (let index = 0; index < blockCount; index += 1) {
+    const dataLength = shortBlockLength - eccLength + (index < shortBlockCount ? 0 : 1)
+    const block = data.slice(offset, offset + dataLength)
+    offset += dataLength
+    const ecc = getReedSolomonRemainder(block, divisor)
+    // Short blocks get a placeholder so every block lines up column by column when interleaving.
+    if (index < shortBlockCount) {
+      block.push(-1)
+    }
+    blocks.push([...block, ...ecc])
+  }
+  const result: number[] = []
+  for (let column = 0; column < blocks[0].length; column += 1) {
+    blocks.forEach((block) => {
+      if (block[column] !== -1) {
+        result.push(block[column])
+      }
+    })
+  }
+  return result
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+]
+
+const FINDER_LIKE = [true, false, true, true, true, false, true]
+const QUIET_RUN = [false, false, false, false]
+
+const isQuietRun = (modules: boolean[]) => modules.length === QUIET_RUN.length && modules.every((module) => !module)
+
+const getLinePenalty = (line: boolean[]) => {
+  let penalty = 0
+  let runLength = 1
+  for (let index = 1; index <= line.length; index += 1) {
+    if (index < line.length && line[index] === line[index - 1]) {
+      runLength += 1
+      continue
+    }
+    if (runLength >= 5) {
+      penalty += runLength - 2
+    }
+    runLength = 1
+  }
+  const padded = [...QUIET_RUN, ...line, ...QUIET_RUN]
+  for (let index = 0; index + FINDER_LIKE.length <= padded.length; index += 1) {
+    const matches = FINDER_LIKE.every((module, offset) => padded[index + offset] === module)
+    if (!matches) {
+      continue
+    }
+    const before = padded.slice(Math.max(index - 4, 0), index)
+    const after = padded.slice(index + FINDER_LIKE.length, index + FINDER_LIKE.length + 4)
+    if (isQuietRun(before) || isQuietRun(after)) {
+      penalty += 40
+    }
+  }
+  return penalty
+}
+
+const getPenalty = (modules: QrMatrix) => {
+  const size = modules.length
+  let penalty = 0
+  let dark = 0
+  for (let y = 0; y < size; y += 1) {
+    penalty += getLinePenalty(modules[y])
+    penalty += getLinePenalty(modules.map((row) => row[y]))
+    for (let x = 0; x < size; x += 1) {
+      dark += modules[y][x] ? 1 : 0
+      if (
+        x + 1 < size &&
+        y + 1 < size &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        penalty += 3
+      }
+    }
+  }
+  const total = size * size
+  return penalty + Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10
+}
+
+const buildMatrix = (codewords: number[], version: number, mask: number) => {
+  const size = version * 4 + 17
+  const modules: QrMatrix = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+  const reserved: QrMatrix = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark
+    reserved[y][x] = true
+  }
+
+  for (let index = 0; index < size; index += 1) {
+    setFunction(6, index, index % 2 === 0)
+    setFunction(index, 6, index % 2 === 0)
+  }
+  const drawFinder = (centerX: number, centerY: number) => {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const x = centerX + dx
+        const y = centerY + dy
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          setFunction(x, y, distance !== 2 && distance !== 4)
+        }
+      }
+    }
+  }
+  drawFinder(3, 3)
+  drawFinder(size - 4, 3)
+  drawFinder(3, size - 4)
+  const alignment = getAlignmentPositions(version)
+  alignment.forEach((y, row) => {
+    alignment.forEach((x, column) => {
+      const overlapsFinder =
+        (row === 0 && column === 0) ||
+        (row === 0 && column === alignment.length - 1) ||
+        (row === alignment.length - 1 && column === 0)
+      if (overlapsFinder) {
+        return
+      }
+      for (let dy = -2; dy <= 2; dy += 1) {
+        for (let dx = -2; dx <= 2; dx += 1) {
+          setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+        }
+      }
+    })
+  })
+
+  const formatData = (FORMAT_LEVEL_BITS << 3) | mask
+  let formatRemainder = formatData
+  for (let step = 0; step < 10; step += 1) {
+    formatRemainder = (formatRemainder << 1) ^ ((formatRemainder >>> 9) * 0x537)
+  }
+  const formatBits = ((formatData << 10) | formatRemainder) ^ 0x5412
+  for (let index = 0; index <= 5; index += 1) {
+    setFunction(8, index, getBit(formatBits, index))
+  }
+  setFunction(8, 7, getBit(formatBits, 6))
+  setFunction(8, 8, getBit(formatBits, 7))
+  setFunction(7, 8, getBit(formatBits, 8))
+  for (let index = 9; index < 15; index += 1) {
+    setFunction(14 - index, 8, getBit(formatBits, index))
+  }
+  for (let index = 0; index < 8; index += 1) {
+    setFunction(size - 1 - index, 8, getBit(formatBits, index))
+  }
+  for (let index = 8; index < 15; index += 1) {
+    setFunction(8, size - 15 + index, getBit(formatBits, index))
+  }
+  setFunction(8, size - 8, true)
+
+  if (version >= 7) {
+    let versionRemainder = version
+    for (let step = 0; step < 12; step += 1) {
+      versionRemainder = (versionRemainder << 1) ^ ((versionRemainder >>> 11) * 0x1f25)
+    }
+    const versionBits = (version << 12) | versionRemainder
+    for (let index = 0; index < 18; index += 1) {
+      const along = size - 11 + (index % 3)
+      const across = Math.floor(index / 3)
+      setFunction(along, across, getBit(versionBits, index))
+      setFunction(across, along, getBit(versionBits, index))
+    }
+  }
+
+  // Codewords fill two-module columns in a zigzag from the bottom-right, skipping the vertical timing pattern.
+  let bitIndex = 0
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {
+      right = 5
+    }
+    const upward = ((right + 1) & 2) === 0
+    for (let vertical = 0; vertical < size; vertical += 1) {
+      for (let offset = 0; offset < 2; offset += 1) {
+        const x = right - offset
+        const y = upward ? size - 1 - vertical : vertical
+        if (reserved[y][x]) {
+          continue
+        }
+        const dark = bitIndex < codewords.length * 8 && getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7))
+        modules[y][x] = dark !== MASKS[mask](x, y)
+        bitIndex += 1
+      }
+    }
+  }
+  return modules
+}
+
+export const encodeQrCode = (text: string): QrMatrix => {
+  const bytes = new TextEncoder().encode(text)
+  let version = 1
+  while (version <= MAX_VERSION && bytes.length > getByteCapacity(version)) {
+    version += 1
+  }
+  if (version > MAX_VERSION) {
+    throw new RangeError(`${bytes.length} bytes is too long for a QR code; the limit is 213 bytes.`)
+  }
+  const codewords = addErrorCorrection(encodeData(bytes, version), version)
+  let best: QrMatrix | undefined
+  let bestPenalty = Infinity
+  MASKS.forEach((_, mask) => {
+    const candidate = buildMatrix(codewords, version, mask)
+    const penalty = getPenalty(candidate)
+    if (penalty < bestPenalty) {
+      best = candidate
+      bestPenalty = penalty
+    }
+  })
+  return best as QrMatrix
+}
+
+// For callers that would rather leave the code out than fail when the text is too long.
+export const tryEncodeQrCode = (text: string) => {
+  try {
+    return encodeQrCode(text)
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return undefined
+    }
+    throw error
+  }
+}
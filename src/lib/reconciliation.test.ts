@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+import { EXCHANGE_RATES } from '../data'
+import type { AdjustmentNote, InvoiceRecord, PaymentTransaction } from '../types'
+import { reconcilePayments } from './reconciliation'
+
+const invoice = (id: string, changes: Partial<InvoiceRecord> = {}): InvoiceRecord => ({
+  id,
+  invoiceNumber: `ADS-2025-${id}`,
+  clientId: 'cl-1',
+  engagement: 'Retainer',
+  currency: 'INR',
+  amount: 10000,
+  status: 'Pending',
+  issueDate: '2025-09-01',
+  dueDate: '2025-09-30',
+  lastUpdated: '2025-09-01',
+  ...changes,
+})
+
+const receipt = (
+  id: string,
+  invoiceId: string,
+  amount: number,
+  changes: Partial<PaymentTransaction> = {},
+): PaymentTransaction => ({
+  id,
+  invoiceId,
+  clientId: 'cl-1',
+  amount,
+  currency: 'INR',
+  method: 'NetBanking',
+  status: 'Succeeded',
+  receivedAt: '2025-09-15T10:00:00+05:30',
+  feeAmount: 0,
+  netAmount: amount,
+  reference: `UTR-${id}`,
+  ...changes,
+})
+
+const now = new Date('2025-10-01T00:00:00Z')
+
+describe('reconcilePayments', () => {
+  it('settles an invoice whose receipts add up to the billed amount', () => {
+    const report = reconcilePayments(
+      [invoice('001', { status: 'Paid' })],
+      [receipt('t1', '001', 6000, { feeAmount: 120, netAmount: 5880 }), receipt('t2', '001', 4000)],
+      now,
+    )
+    expect(report.invoices[0]).toMatchObject({
+      state: 'Settled',
+      paid: 10000,
+      fees: 120,
+      net: 9880,
+      outstanding: 0,
+      transactionIds: ['t1', 't2'],
+    })
+    expect(report.exceptions).toEqual([])
+  })
+
+  it('keeps a part payment outstanding and counts pending receipts separately', () => {
+    const report = reconcilePayments(
+      [invoice('002')],
+      [receipt('t3', '002', 2500.5), receipt('t4', '002', 1000, { status: 'Pending' })],
+      now,
+    )
+    expect(report.invoices[0]).toMatchObject({
+      state: 'Partially paid',
+      paid: 2500.5,
+      pending: 1000,
+      outstanding: 7499.5,
+    })
+  })
+
+  it('reports receipts for unknown invoices, failed attempts and currency mismatches', () => {
+    const report = reconcilePayments(
+      [invoice('003'), invoice('004', { currency: 'USD', amount: 500, exchangeRate: 84 })],
+      [receipt('t5', 'missing', 800), receipt('t6', '003', 10000, { status: 'Failed' }), receipt('t7', '004', 500)],
+      now,
+    )
+    expect(report.exceptions.map((exception) => [exception.type, exception.transactionId])).toEqual([
+      ['unmatched-receipt', 't5'],
+      ['failed-attempt', 't6'],
+      ['currency-mismatch', 't7'],
+    ])
+    expect(report.invoices.map((line) => line.state)).toEqual(['Unpaid', 'Unpaid'])
+  })
+
+  it('matches a split receipt allocation by allocation', () => {
+    const report = reconcilePayments(
+      [invoice('005'), invoice('006', { amount: 5000 })],
+      [
+        receipt('t8', '005', 12000, {
+          allocations: [
+            { invoiceId: '005', amount: 10000 },
+            { invoiceId: '006', amount: 2000 },
+          ],
+        }),
+      ],
+      now,
+    )
+    expect(report.invoices.map((line) => [line.state, line.paid, line.outstanding])).toEqual([
+      ['Settled', 10000, 0],
+      ['Partially paid', 2000, 3000],
+    ])
+  })
+
+  it('flags overpayments and invoices marked paid without receipts', () => {
+    const report = reconcilePayments(
+      [invoice('007'), invoice('008', { status: 'Paid' })],
+      [receipt('t9', '007', 10500), receipt('t10', '008', 4000)],
+      now,
+    )
+    expect(report.exceptions.map((exception) => [exception.type, exception.invoiceId, exception.amount])).toEqual([
+      ['overpayment', '007', 500],
+      ['missing-receipt', '008', 6000],
+    ])
+    expect(report.invoices[0].state).toBe('Overpaid')
+  })
+
+  it('bills net of credit notes and totals foreign invoices at their locked rate', () => {
+    const creditNote = { id: 'cn-1', kind: 'Credit Note', invoiceId: '009', amount: 2000 } as AdjustmentNote
+    const report = reconcilePayments(
+      [invoice('009'), invoice('010', { currency: 'USD', amount: 100, exchangeRate: 80 })],
+      [receipt('t11', '009', 8000)],
+      now,
+      [creditNote],
+      EXCHANGE_RATES,
+    )
+    expect(report.invoices[0]).toMatchObject({ billed: 8000, state: 'Settled' })
+    expect(report.totals).toEqual({ billed: 16000, collected: 8000, outstanding: 8000, fees: 0, overpaid: 0 })
+  })
+})
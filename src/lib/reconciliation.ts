@@ -0,0 +1,212 @@
+import { EXCHANGE_RATES } from '../data'
+import type {
+  AdjustmentNote,
+  ExchangeRateTable,
+  InvoiceReconciliation,
+  InvoiceRecord,
+  PaymentTransaction,
+  ReconciliationException,
+  ReconciliationReport,
+  ReconciliationState,
+} from '../types'
+import { getInvoiceAdjustment } from './adjustmentNotes'
+import type { CsvCell } from './csv'
+import { formatAmount, formatMoney } from './currency'
+import { toBaseAmount } from './exchangeRates'
+import { addAmounts, subtractAmount, sumAmounts } from './money'
+import { getAllocations, toInvoicePayment } from './payments'
+
+const RECONCILABLE_STATUSES = new Set<InvoiceRecord['status']>([
+  'Pending',
+  'Partially Paid',
+  'Paid',
+  'Overdue',
+  'Written Off',
+])
+
+const resolveState = (billed: number, paid: number): ReconciliationState => {
+  if (paid <= 0) {
+    return 'Unpaid'
+  }
+  if (paid < billed) {
+    return 'Partially paid'
+  }
+  return paid > billed ? 'Overpaid' : 'Settled'
+}
+
+export const reconcilePayments = (
+  invoices: InvoiceRecord[],
+  transactions: PaymentTransaction[],
+  now: Date = new Date(),
+  notes: AdjustmentNote[] = [],
+  rates: ExchangeRateTable = EXCHANGE_RATES,
+): ReconciliationReport => {
+  const invoiceLookup = new Map(invoices.map((invoice) => [invoice.id, invoice]))
+  const exceptions: ReconciliationException[] = []
+  const matched = new Map<string, PaymentTransaction[]>()
+
+  transactions.forEach((txn) => {
+    const invoice = invoiceLookup.get(txn.invoiceId)
+    if (txn.status === 'Failed') {
+      exceptions.push({
+        type: 'failed-attempt',
+        transactionId: txn.id,
+        invoiceId: invoice?.id,
+        amount: txn.amount,
+        currency: txn.currency,
+        message: `${txn.method} payment ${txn.reference} failed${invoice ? ` for ${invoice.invoiceNumber}` : ''}.`,
+      })
+      return
+    }
+    // A receipt split across invoices is matched allocation by allocation.
+    getAllocations(txn).forEach((allocation) => {
+      const target = invoiceLookup.get(allocation.invoiceId)
+      if (!target) {
+        exceptions.push({
+          type: 'unmatched-receipt',
+          transactionId: txn.id,
+          amount: allocation.amount,
+          currency: txn.currency,
+          message: `Receipt ${txn.reference} references unknown invoice ${allocation.invoiceId || '(none)'}.`,
+        })
+        return
+      }
+      if (txn.currency !== target.currency) {
+        exceptions.push({
+          type: 'currency-mismatch',
+          transactionId: txn.id,
+          invoiceId: target.id,
+          amount: allocation.amount,
+          currency: txn.currency,
+          message: `Receipt ${txn.reference} is in ${txn.currency} but ${target.invoiceNumber} is billed in ${target.currency}.`,
+        })
+        return
+      }
+      matched.set(target.id, [...(matched.get(target.id) ?? []), toInvoicePayment(txn, target.id)])
+    })
+  })
+
+  const lines: InvoiceReconciliation[] = invoices
+    .filter((invoice) => RECONCILABLE_STATUSES.has(invoice.status))
+    .map((invoice) => {
+      // Billed reflects credit and debit notes so that a credited invoice is not reported as short-paid.
+      const billed = Math.max(addAmounts(invoice.amount, getInvoiceAdjustment(invoice.id, notes)), 0)
+      const receipts = matched.get(invoice.id) ?? []
+      const settled = receipts.filter((txn) => txn.status === 'Succeeded')
+      const paid = sumAmounts(settled, (txn) => txn.amount)
+      const pending = sumAmounts(
+        receipts.filter((txn) => txn.status === 'Pending'),
+        (txn) => txn.amount,
+      )
+      const fees = sumAmounts(settled, (txn) => txn.feeAmount)
+      const net = sumAmounts(settled, (txn) => txn.netAmount)
+      const overpaid = Math.max(subtractAmount(paid, billed), 0)
+
+      if (overpaid > 0) {
+        exceptions.push({
+          type: 'overpayment',
+          invoiceId: invoice.id,
+          amount: overpaid,
+          currency: invoice.currency,
+          message: `${invoice.invoiceNumber} received ${formatMoney(overpaid, invoice.currency)} more than billed.`,
+        })
+      }
+      if (invoice.status === 'Paid' && paid < billed) {
+        const shortfall = subtractAmount(billed, paid)
+        exceptions.push({
+          type: 'missing-receipt',
+          invoiceId: invoice.id,
+          amount: shortfall,
+          currency: invoice.currency,
+          message: `${invoice.invoiceNumber} is marked paid without matching receipts for ${formatMoney(
+            shortfall,
+            invoice.currency,
+          )}.`,
+        })
+      }
+
+      return {
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        clientId: invoice.clientId,
+        currency: invoice.currency,
+        billed,
+        paid,
+        pending,
+        fees,
+        net,
+        outstanding:
+          invoice.status === 'Written Off' || invoice.status === 'Paid' ? 0 : Math.max(subtractAmount(billed, paid), 0),
+        overpaid,
+        state: resolveState(billed, paid),
+        transactionIds: receipts.map((txn) => txn.id),
+      }
+    })
+
+  return {
+    generatedAt: now.toISOString(),
+    invoices: lines,
+    exceptions,
+    // Lines stay in the invoice currency; totals are reported in INR at each invoice's rate.
+    totals: lines.reduce(
+      (acc, line) => {
+        const record = invoiceLookup.get(line.invoiceId) ?? line
+        const inBase = (amount: number) => toBaseAmount(amount, record, rates)
+        return {
+          billed: addAmounts(acc.billed, inBase(line.billed)),
+          collected: addAmounts(acc.collected, inBase(line.paid)),
+          outstanding: addAmounts(acc.outstanding, inBase(line.outstanding)),
+          fees: addAmounts(acc.fees, inBase(line.fees)),
+          overpaid: addAmounts(acc.overpaid, inBase(line.overpaid)),
+        }
+      },
+      { billed: 0, collected: 0, outstanding: 0, fees: 0, overpaid: 0 },
+    ),
+  }
+}
+
+export const reconciliationReportRows = (
+  report: ReconciliationReport,
+  clientNames: Record<string, string>,
+): CsvCell[][] => [
+  ['Reconciliation report', report.generatedAt],
+  [],
+  [
+    'Invoice',
+    'Client',
+    'Currency',
+    'Billed',
+    'Collected',
+    'Pending',
+    'Fees',
+    'Net settled',
+    'Outstanding',
+    'Overpaid',
+    'State',
+    'Transactions',
+  ],
+  ...report.invoices.map((line) => [
+    line.invoiceNumber,
+    clientNames[line.clientId] ?? line.clientId,
+    line.currency,
+    formatAmount(line.billed, line.currency),
+    formatAmount(line.paid, line.currency),
+    formatAmount(line.pending, line.currency),
+    formatAmount(line.fees, line.currency),
+    formatAmount(line.net, line.currency),
+    formatAmount(line.outstanding, line.currency),
+    formatAmount(line.overpaid, line.currency),
+    line.state,
+    line.transactionIds.join(' '),
+  ]),
+  [],
+  ['Exception', 'Transaction', 'Invoice', 'Currency', 'Amount', 'Detail'],
+  ...report.exceptions.map((exception) => [
+    exception.type,
+    exception.transactionId ?? '',
+    exception.invoiceId ?? '',
+    exception.currency,
+    formatAmount(exception.amount, exception.currency),
+    exception.message,
+  ]),
+]
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest'
+import type { InvoiceFormState, RecurringProfile } from '../types'
+import { emptyClientDetails } from './clients'
+import { isDraftNumber } from './numbering'
+import {
+  buildRecurringInvoice,
+  getDueRuns,
+  getUpcomingRuns,
+  listRecurringRuns,
+  RecurringProfileError,
+  validateRecurringProfile,
+} from './recurring'
+
+const template = {
+  clientSelectionId: 'cl-1',
+  client: { ...emptyClientDetails, companyName: 'Northwind' },
+  currency: 'INR',
+  taxRate: 18,
+  lineItems: [
+    {
+      id: 'l1',
+      serviceId: 'svc-1',
+      description: 'Support retainer',
+      quantity: 1,
+      unitPrice: 60000,
+      discountRate: 0,
+      sacCode: '998314',
+      taxRate: 18,
+    },
+  ],
+  meta: { invoiceNumber: 'DRAFT-T', issueDate: '', dueDate: '', projectName: '' },
+  terms: '',
+  additionalNote: '',
+  instalments: [{ id: 'i1', label: 'Kick-off', dueDate: '2025-01-01', amount: 1000 }],
+} as InvoiceFormState
+
+const profile = (changes: Partial<RecurringProfile> = {}): RecurringProfile => ({
+  id: 'rp-1',
+  name: 'Support retainer',
+  clientId: 'cl-1',
+  template,
+  cadence: 'monthly',
+  intervalMonths: 1,
+  startDate: '2025-01-31',
+  paymentTermsDays: 15,
+  proration: 'none',
+  status: 'Active',
+  invoiceIds: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  ...changes,
+})
+
+const periods = (runs: { periodStart: string; periodEnd: string }[]) =>
+  runs.map((run) => `${run.periodStart}..${run.periodEnd}`)
+
+describe('listRecurringRuns', () => {
+  it('bills whole periods from the start date, keeping the day where the month allows it', () => {
+    expect(periods(getUpcomingRuns(profile(), 3))).toEqual([
+      '2025-01-31..2025-02-27',
+      '2025-02-28..2025-03-30',
+      '2025-03-31..2025-04-29',
+    ])
+    expect(getUpcomingRuns(profile(), 1)[0].dueDate).toBe('2025-02-15')
+  })
+
+  it('steps quarterly and custom cadences by their interval', () => {
+    const quarterly = profile({ cadence: 'quarterly', startDate: '2025-04-01' })
+    expect(getUpcomingRuns(quarterly, 2).map((run) => run.issueDate)).toEqual(['2025-04-01', '2025-07-01'])
+    const everySixMonths = profile({ cadence: 'custom', intervalMonths: 6, startDate: '2025-04-01' })
+    expect(getUpcomingRuns(everySixMonths, 2).map((run) => run.issueDate)).toEqual(['2025-04-01', '2025-10-01'])
+  })
+
+  it('stops at the end date and skips periods already billed', () => {
+    const ended = profile({ startDate: '2025-01-01', endDate: '2025-03-15', lastPeriodStart: '2025-01-01' })
+    expect(periods(listRecurringRuns(ended))).toEqual(['2025-02-01..2025-02-28', '2025-03-01..2025-03-31'])
+  })
+
+  it('returns only runs issued by the given day, and none for a paused profile', () => {
+    const monthly = profile({ startDate: '2025-01-01' })
+    expect(getDueRuns(monthly, '2025-03-01').map((run) => run.issueDate)).toEqual([
+      '2025-01-01',
+      '2025-02-01',
+      '2025-03-01',
+    ])
+    expect(getDueRuns({ ...monthly, status: 'Paused' }, '2025-03-01')).toEqual([])
+  })
+})
+
+describe('daily proration', () => {
+  it('charges a mid-month start and end for the days they cover', () => {
+    const prorated = profile({ startDate: '2025-01-11', endDate: '2025-03-10', proration: 'daily' })
+    const runs = listRecurringRuns(prorated)
+    expect(periods(runs)).toEqual(['2025-01-11..2025-01-31', '2025-02-01..2025-02-28', '2025-03-01..2025-03-10'])
+    expect(runs.map((run) => [run.coveredDays, run.periodDays])).toEqual([
+      [21, 31],
+      [28, 28],
+      [10, 31],
+    ])
+  })
+
+  it('prorates quarters against the financial-year calendar quarter', () => {
+    const [first] = listRecurringRuns(profile({ cadence: 'quarterly', startDate: '2025-05-16', proration: 'daily' }))
+    expect([first.periodStart, first.periodEnd, first.coveredDays, first.periodDays]).toEqual([
+      '2025-05-16',
+      '2025-06-30',
+      46,
+      91,
+    ])
+  })
+})
+
+describe('buildRecurringInvoice', () => {
+  it('scales quantities for a partial period and notes the proration', () => {
+    const prorated = profile({ startDate: '2025-01-11', proration: 'daily' })
+    const [run] = listRecurringRuns(prorated, { limit: 1 })
+    const form = buildRecurringInvoice(prorated, run)
+    expect(form.lineItems[0].quantity).toBe(0.677)
+    expect(form.lineItems[0].notes).toBe('Prorated for 21 of 31 days.')
+    expect(form.lineItems[0].id).not.toBe('l1')
+  })
+
+  it('dates a full-period invoice from the run under a fresh draft number', () => {
+    const [run] = getUpcomingRuns(profile(), 1)
+    const form = buildRecurringInvoice(profile(), run)
+    expect(form.lineItems[0].quantity).toBe(1)
+    expect(form.meta).toMatchObject({ issueDate: '2025-01-31', dueDate: '2025-02-15' })
+    expect(form.meta.projectName).toMatch(/^Support retainer \(/)
+    expect(isDraftNumber(form.meta.invoiceNumber)).toBe(true)
+    expect(form.instalments).toBeUndefined()
+  })
+})
+
+describe('validateRecurringProfile', () => {
+  it('accepts a complete profile', () => {
+    expect(() => validateRecurringProfile(profile())).not.toThrow()
+  })
+
+  it('rejects an end date before the start, an out-of-range interval and long payment terms', () => {
+    expect(() => validateRecurringProfile(profile({ endDate: '2025-01-01' }))).toThrow(RecurringProfileError)
+    expect(() => validateRecurringProfile(profile({ cadence: 'custom', intervalMonths: 25 }))).toThrow(
+      'a custom cadence repeats every 1 to 24 months',
+    )
+    expect(() => validateRecurringProfile(profile({ paymentTermsDays: 181 }))).toThrow(
+      'payment terms must be between 0 and 180 days',
+    )
+  })
+})
@@ -0,0 +1,152 @@
+import type { InvoiceFormState, RecurringCadence, RecurringProfile, RecurringRun } from '../types'
+import { addDays, addMonths, daysBetween, formatDay, parseDay } from './dates'
+import { generateId } from './ids'
+import { createDraftNumber } from './numbering'
+
+export const RECURRING_CADENCE_LABELS: Record<RecurringCadence, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  custom: 'Custom',
+}
+
+export class RecurringProfileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecurringProfileError'
+  }
+}
+
+// Bounds the schedule walk for profiles without an end date.
+const MAX_PERIODS = 600
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const daysInclusive = (from: string, to: string) => daysBetween(from, to) + 1
+
+const roundQuantity = (value: number) => Math.round(value * 1000) / 1000
+
+export const getIntervalMonths = (profile: Pick<RecurringProfile, 'cadence' | 'intervalMonths'>) => {
+  if (profile.cadence === 'monthly') {
+    return 1
+  }
+  if (profile.cadence === 'quarterly') {
+    return 3
+  }
+  return profile.intervalMonths
+}
+
+// Prorated profiles bill calendar periods (quarters follow the April financial year), so a start or end date
+// inside a period is charged for the days it covers. Other profiles bill whole periods from the start date.
+const getScheduleAnchor = (profile: RecurringProfile) => {
+  if (profile.proration === 'none') {
+    return profile.startDate
+  }
+  const start = parseDay(profile.startDate)
+  const month = profile.cadence === 'quarterly' ? start.getMonth() - (start.getMonth() % 3) : start.getMonth()
+  return formatDay(new Date(start.getFullYear(), month, 1))
+}
+
+const getRunAt = (profile: RecurringProfile, anchor: string, index: number): RecurringRun | null => {
+  const interval = getIntervalMonths(profile)
+  const calendarStart = addMonths(anchor, index * interval)
+  const calendarEnd = addDays(addMonths(anchor, (index + 1) * interval), -1)
+  if (profile.endDate && calendarStart > profile.endDate) {
+    return null
+  }
+  const periodDays = daysInclusive(calendarStart, calendarEnd)
+  const prorated = profile.proration === 'daily'
+  const periodStart = prorated && profile.startDate > calendarStart ? profile.startDate : calendarStart
+  const periodEnd = prorated && profile.endDate && profile.endDate < calendarEnd ? profile.endDate : calendarEnd
+  if (periodEnd < periodStart) {
+    return null
+  }
+  const coveredDays = daysInclusive(periodStart, periodEnd)
+  return {
+    profileId: profile.id,
+    periodStart,
+    periodEnd,
+    issueDate: periodStart,
+    dueDate: addDays(periodStart, profile.paymentTermsDays),
+    prorationFactor: coveredDays / periodDays,
+    coveredDays,
+    periodDays,
+  }
+}
+
+export const listRecurringRuns = (
+  profile: RecurringProfile,
+  { until, limit = MAX_PERIODS }: { until?: string; limit?: number } = {},
+) => {
+  const anchor = getScheduleAnchor(profile)
+  const runs: RecurringRun[] = []
+  for (let index = 0; index < MAX_PERIODS && runs.length < limit; index += 1) {
+    const run = getRunAt(profile, anchor, index)
+    if (!run || (until && run.issueDate > until)) {
+      break
+    }
+    if (!profile.lastPeriodStart || run.periodStart > profile.lastPeriodStart) {
+      runs.push(run)
+    }
+  }
+  return runs
+}
+
+export const getDueRuns = (profile: RecurringProfile, asOf: string) =>
+  profile.status === 'Active' ? listRecurringRuns(profile, { until: asOf }) : []
+
+export const getUpcomingRuns = (profile: RecurringProfile, count: number) =>
+  profile.status === 'Active' ? listRecurringRuns(profile, { limit: count }) : []
+
+const describeDay = (value: string) =>
+  parseDay(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })
+
+export const describeRecurringPeriod = (run: RecurringRun) =>
+  `${describeDay(run.periodStart)} – ${describeDay(run.periodEnd)}`
+
+export const buildRecurringInvoice = (profile: RecurringProfile, run: RecurringRun): InvoiceFormState => {
+  const template = JSON.parse(JSON.stringify(profile.template)) as InvoiceFormState
+  const period = describeRecurringPeriod(run)
+  const prorated = run.prorationFactor < 1
+  return {
+    ...template,
+    lineItems: template.lineItems.map((item) => ({
+      ...item,
+      id: generateId(),
+      quantity: prorated ? roundQuantity(item.quantity * run.prorationFactor) : item.quantity,
+      notes: prorated
+        ? [item.notes, `Prorated for ${run.coveredDays} of ${run.periodDays} days.`].filter(Boolean).join(' ')
+        : item.notes,
+    })),
+    meta: {
+      ...template.meta,
+      invoiceNumber: createDraftNumber(),
+      issueDate: run.issueDate,
+      dueDate: run.dueDate,
+      projectName: `${template.meta.projectName || profile.name} (${period})`,
+    },
+    // Milestone plans are dated for one engagement, so each run is billed in full on its own due date.
+    instalments: undefined,
+  }
+}
+
+export const validateRecurringProfile = (profile: RecurringProfile) => {
+  if (!profile.name.trim()) {
+    throw new RecurringProfileError('Give the recurring profile a name.')
+  }
+  if (!profile.clientId || !profile.template.lineItems.length) {
+    throw new RecurringProfileError(`${profile.name}: the template needs a client and at least one line item.`)
+  }
+  if (!ISO_DATE_PATTERN.test(profile.startDate)) {
+    throw new RecurringProfileError(`${profile.name}: choose a start date.`)
+  }
+  if (profile.endDate && (!ISO_DATE_PATTERN.test(profile.endDate) || profile.endDate < profile.startDate)) {
+    throw new RecurringProfileError(`${profile.name}: the end date must fall on or after the start date.`)
+  }
+  const interval = getIntervalMonths(profile)
+  if (!Number.isInteger(interval) || interval < 1 || interval > 24) {
+    throw new RecurringProfileError(`${profile.name}: a custom cadence repeats every 1 to 24 months.`)
+  }
+  if (!Number.isInteger(profile.paymentTermsDays) || profile.paymentTermsDays < 0 || profile.paymentTermsDays > 180) {
+    throw new RecurringProfileError(`${profile.name}: payment terms must be between 0 and 180 days.`)
+  }
+}
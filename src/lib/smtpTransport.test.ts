@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { EmailMessage } from '../types'
+import { EmailDeliveryError } from './email'
+import { createSmtpTransport, openWebSocketSmtpConnection, SMTP_TIMEOUT_MS } from './smtpTransport'
+
+type RelayMode = 'answer' | 'refuse' | 'never-open' | 'never-greet' | 'hang-up'
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+// Plays the relay side of the dialogue, replying to each command the way a small SMTP server would.
+class FakeWebSocket {
+  static OPEN = 1
+  static mode: RelayMode = 'answer'
+  static rejectRecipient = ''
+  static last: FakeWebSocket | undefined
+
+  readyState = 0
+  binaryType = 'blob'
+  sent: string[] = []
+  closed = false
+  onopen: (() => void) | null = null
+  onmessage: ((event: { data: ArrayBuffer | string }) => void) | null = null
+  onclose: (() => void) | null = null
+  onerror: (() => void) | null = null
+  private inData = false
+  readonly url: string
+
+  constructor(url: string) {
+    this.url = url
+    FakeWebSocket.last = this
+    queueMicrotask(() => {
+      if (FakeWebSocket.mode === 'refuse') {
+        this.onerror?.()
+      } else if (FakeWebSocket.mode !== 'never-open') {
+        this.readyState = FakeWebSocket.OPEN
+        this.onopen?.()
+        if (FakeWebSocket.mode !== 'never-greet') {
+          this.reply('220 relay.test ESMTP ready')
+        }
+      }
+    })
+  }
+
+  send(data: Uint8Array) {
+    const text = decoder.decode(data)
+    this.sent.push(text)
+    if (this.inData) {
+      this.inData = false
+      this.reply('250 2.0.0 queued')
+    } else if (text.startsWith('EHLO')) {
+      this.reply('250-relay.test\r\n250 SIZE 10485760')
+    } else if (text.startsWith('MAIL')) {
+      this.reply('250 2.1.0 ok')
+    } else if (text.startsWith('RCPT')) {
+      if (FakeWebSocket.mode === 'hang-up') {
+        this.close()
+      } else {
+        this.reply(text.includes(FakeWebSocket.rejectRecipient || '\0') ? '550 5.1.1 no such user' : '250 2.1.5 ok')
+      }
+    } else if (text.startsWith('DATA')) {
+      this.inData = true
+      this.reply('354 end with <CRLF>.<CRLF>')
+    } else if (text.startsWith('QUIT')) {
+      this.reply('221 2.0.0 bye')
+    }
+  }
+
+  close() {
+    if (!this.closed) {
+      this.closed = true
+      this.readyState = 3
+      this.onclose?.()
+    }
+  }
+
+  private reply(text: string) {
+    this.onmessage?.({ data: encoder.encode(`${text}\r\n`).buffer as ArrayBuffer })
+  }
+}
+
+const message: EmailMessage = {
+  from: 'billing@auroradigital.example',
+  to: ['accounts@northwind.example'],
+  subject: 'Invoice ADS-2025-041',
+  text: 'Please find the invoice attached.',
+  attachments: [],
+}
+
+const transport = createSmtpTransport(() => openWebSocketSmtpConnection('ws://relay.test'), {
+  heloName: 'billing.test',
+})
+
+describe('SMTP transport over a WebSocket relay', () => {
+  beforeEach(() => {
+    vi.stubGlobal('WebSocket', FakeWebSocket)
+    FakeWebSocket.mode = 'answer'
+    FakeWebSocket.rejectRecipient = ''
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('walks through the dialogue and returns the message id', async () => {
+    const receipt = await transport.send(message)
+    const socket = FakeWebSocket.last!
+    expect(socket.sent.slice(0, 4)).toEqual([
+      'EHLO billing.test\r\n',
+      'MAIL FROM:<billing@auroradigital.example>\r\n',
+      'RCPT TO:<accounts@northwind.example>\r\n',
+      'DATA\r\n',
+    ])
+    expect(socket.sent[4]).toContain(`Message-ID: ${receipt.messageId}`)
+    expect(socket.sent[4].endsWith('\r\n.\r\n')).toBe(true)
+    expect(socket.sent[5]).toBe('QUIT\r\n')
+    expect(receipt.accepted).toEqual(['accounts@northwind.example'])
+    expect(socket.closed).toBe(true)
+  })
+
+  it('reports the step and reply the relay refused', async () => {
+    FakeWebSocket.rejectRecipient = 'accounts@northwind.example'
+    await expect(transport.send(message)).rejects.toThrow('SMTP RCPT failed: 550 5.1.1 no such user')
+    expect(FakeWebSocket.last!.closed).toBe(true)
+  })
+
+  it('explains an unreachable relay', async () => {
+    FakeWebSocket.mode = 'refuse'
+    await expect(transport.send(message)).rejects.toThrow('Could not reach the SMTP relay at ws://relay.test.')
+  })
+
+  it('fails when the relay hangs up in the middle of the dialogue', async () => {
+    FakeWebSocket.mode = 'hang-up'
+    await expect(transport.send(message)).rejects.toThrow('The SMTP relay closed the connection.')
+  })
+
+  it('gives up on a relay that never accepts the connection', async () => {
+    vi.useFakeTimers()
+    FakeWebSocket.mode = 'never-open'
+    const sending = expect(transport.send(message)).rejects.toThrow(/did not accept the connection within 30 seconds/)
+    await vi.advanceTimersByTimeAsync(SMTP_TIMEOUT_MS)
+    await sending
+    expect(FakeWebSocket.last!.closed).toBe(true)
+  })
+
+  it('gives up on a relay that stops answering and closes the socket', async () => {
+    vi.useFakeTimers()
+    FakeWebSocket.mode = 'never-greet'
+    const sending = transport.send(message)
+    const outcome = expect(sending).rejects.toThrow(EmailDeliveryError)
+    await vi.advanceTimersByTimeAsync(SMTP_TIMEOUT_MS)
+    await outcome
+    await expect(sending).rejects.toThrow('SMTP greeting failed: no reply within 30 seconds.')
+    expect(FakeWebSocket.last!.closed).toBe(true)
+  })
+})
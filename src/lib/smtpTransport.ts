@@ -0,0 +1,160 @@
+import type { EmailMessage } from '../types'
+import { buildMimeMessage, createMessageId, EmailDeliveryError } from './email'
+import type { EmailTransport } from './email'
+
+// A duplex text channel to an SMTP server. Browsers cannot open TCP sockets, so the app uses a WebSocket to a
+// TCP relay; a wrapped Node socket works just as well.
+export interface SmtpConnection {
+  write: (data: string) => void
+  read: () => Promise<string>
+  close: () => void
+}
+
+export interface SmtpTransportOptions {
+  heloName: string
+  // How long to wait for each reply before giving up on a relay that has gone quiet.
+  timeoutMs?: number
+}
+
+export const SMTP_TIMEOUT_MS = 30_000
+
+interface SmtpReply {
+  code: number
+  text: string
+}
+
+const createReplyReader = (connection: SmtpConnection) => {
+  let buffer = ''
+  return async (): Promise<SmtpReply> => {
+    const lines: string[] = []
+    for (;;) {
+      const newline = buffer.indexOf('\n')
+      if (newline === -1) {
+        buffer += await connection.read()
+        continue
+      }
+      const line = buffer.slice(0, newline).replace(/\r$/, '')
+      buffer = buffer.slice(newline + 1)
+      lines.push(line)
+      // Multi-line replies use "250-" on every line but the last, which uses "250 ".
+      if (/^\d{3}( |$)/.test(line)) {
+        return { code: Number(line.slice(0, 3)), text: lines.map((entry) => entry.slice(4)).join('\n') }
+      }
+    }
+  }
+}
+
+const withTimeout = <T,>(promise: Promise<T>, timeoutMs: number, onTimeout: () => Error) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(onTimeout()), timeoutMs)
+    promise.then(
+      (value) => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      (error: unknown) => {
+        clearTimeout(timer)
+        reject(error)
+      },
+    )
+  })
+
+const describeTimeout = (timeoutMs: number) => `${Math.round(timeoutMs / 1000)} seconds`
+
+// Lines starting with "." would otherwise end the DATA section early (RFC 5321 §4.5.2).
+const dotStuff = (raw: string) => raw.replace(/(^|\r\n)\./g, '$1..')
+
+export const createSmtpTransport = (
+  openConnection: () => Promise<SmtpConnection>,
+  { heloName, timeoutMs = SMTP_TIMEOUT_MS }: SmtpTransportOptions,
+): EmailTransport => ({
+  kind: 'smtp',
+  send: async (message: EmailMessage) => {
+    const connection = await openConnection()
+    const readReply = createReplyReader(connection)
+    const expect = async (step: string, accepted: number[]) => {
+      // The socket is closed on timeout, which also releases the read still waiting on it.
+      const reply = await withTimeout(readReply(), timeoutMs, () => {
+        connection.close()
+        return new EmailDeliveryError(`SMTP ${step} failed: no reply within ${describeTimeout(timeoutMs)}.`)
+      })
+      if (!accepted.includes(reply.code)) {
+        throw new EmailDeliveryError(`SMTP ${step} failed: ${reply.code} ${reply.text}`)
+      }
+      return reply
+    }
+    const command = async (line: string, accepted: number[]) => {
+      connection.write(`${line}\r\n`)
+      return expect(line.split(/[\s:]/)[0], accepted)
+    }
+
+    try {
+      const messageId = createMessageId(message.from)
+      await expect('greeting', [220])
+      await command(`EHLO ${heloName}`, [250])
+      await command(`MAIL FROM:<${message.from}>`, [250])
+      for (const recipient of message.to) {
+        await command(`RCPT TO:<${recipient}>`, [250, 251])
+      }
+      await command('DATA', [354])
+      connection.write(`${dotStuff(buildMimeMessage(message, messageId)).replace(/\r\n$/, '')}\r\n.\r\n`)
+      await expect('DATA', [250])
+      await command('QUIT', [221])
+      return { messageId, accepted: message.to }
+    } finally {
+      connection.close()
+    }
+  },
+})
+
+export const openWebSocketSmtpConnection = (
+  url: string,
+  connectTimeoutMs = SMTP_TIMEOUT_MS,
+): Promise<SmtpConnection> =>
+  new Promise((resolve, reject) => {
+    const socket = new WebSocket(url)
+    const connectTimer = setTimeout(() => {
+      socket.close()
+      const waited = describeTimeout(connectTimeoutMs)
+      reject(new EmailDeliveryError(`The SMTP relay at ${url} did not accept the connection within ${waited}.`))
+    }, connectTimeoutMs)
+    socket.binaryType = 'arraybuffer'
+    const decoder = new TextDecoder()
+    const encoder = new TextEncoder()
+    const received: string[] = []
+    const waiting: Array<{ resolve: (data: string) => void; reject: (error: Error) => void }> = []
+
+    socket.onmessage = (event: MessageEvent<ArrayBuffer | string>) => {
+      const data = typeof event.data === 'string' ? event.data : decoder.decode(event.data)
+      const reader = waiting.shift()
+      if (reader) {
+        reader.resolve(data)
+      } else {
+        received.push(data)
+      }
+    }
+    const closedError = () => new EmailDeliveryError('The SMTP relay closed the connection.')
+    socket.onclose = () => {
+      waiting.splice(0).forEach((reader) => reader.reject(closedError()))
+    }
+    socket.onerror = () => {
+      clearTimeout(connectTimer)
+      reject(new EmailDeliveryError(`Could not reach the SMTP relay at ${url}.`))
+    }
+    socket.onopen = () => {
+      clearTimeout(connectTimer)
+      resolve({
+        write: (data) => socket.send(encoder.encode(data)),
+        read: () => {
+          if (received.length) {
+            return Promise.resolve(received.shift() as string)
+          }
+          if (socket.readyState !== WebSocket.OPEN) {
+            return Promise.reject(closedError())
+          }
+          return new Promise((resolveRead, rejectRead) => waiting.push({ resolve: resolveRead, reject: rejectRead }))
+        },
+        close: () => socket.close(),
+      })
+    }
+  })
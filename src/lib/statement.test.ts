@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import { EXCHANGE_RATES } from '../data'
+import type { AdjustmentNote, InvoiceRecord, PaymentTransaction } from '../types'
+import { evaluateInvoices } from './invoiceStatus'
+import {
+  buildClientStatement,
+  getQuarterRange,
+  getStatementCurrencies,
+  statementCsvRows,
+  type StatementInput,
+} from './statement'
+
+const record = (id: string, changes: Partial<InvoiceRecord>): InvoiceRecord => ({
+  id,
+  invoiceNumber: `ADS-2025-${id}`,
+  clientId: 'cl-1',
+  engagement: 'Retainer',
+  currency: 'INR',
+  amount: 10000,
+  status: 'Pending',
+  issueDate: '2025-06-10',
+  dueDate: '2025-07-10',
+  lastUpdated: '2025-06-10',
+  ...changes,
+})
+
+const receipt = (id: string, invoiceId: string, amount: number, receivedAt: string): PaymentTransaction => ({
+  id,
+  invoiceId,
+  clientId: 'cl-1',
+  amount,
+  currency: 'INR',
+  method: 'NetBanking',
+  status: 'Succeeded',
+  receivedAt,
+  feeAmount: 0,
+  netAmount: amount,
+  reference: `UTR-${id}`,
+})
+
+const transactions = [
+  receipt('t1', '001', 4000, '2025-06-20T11:00:00+05:30'),
+  receipt('t2', '001', 2000, '2025-08-01T11:00:00+05:30'),
+  receipt('t3', '004', 4280, '2025-08-15T11:00:00+05:30'),
+]
+
+const notes = [
+  {
+    id: 'cn-1',
+    kind: 'Credit Note',
+    noteNumber: 'CN-2025-26-001',
+    invoiceId: '002',
+    issueDate: '2025-07-05',
+    reason: 'Scope reduced',
+    amount: 1000,
+  } as AdjustmentNote,
+]
+
+const invoices = evaluateInvoices(
+  [
+    record('001', {}),
+    record('002', { issueDate: '2025-07-05', amount: 5000 }),
+    record('003', { issueDate: '2025-08-10', amount: 3000, status: 'Paid', lastUpdated: '2025-08-20T09:00:00Z' }),
+    record('004', { issueDate: '2025-08-01', currency: 'USD', amount: 100, exchangeRate: 84 }),
+    record('005', { issueDate: '2025-08-01', status: 'Draft' }),
+    record('006', { issueDate: '2025-08-01', clientId: 'cl-2' }),
+    record('007', { issueDate: '2025-10-05' }),
+  ],
+  transactions,
+  new Date(2025, 9, 31),
+  notes,
+)
+
+const input: StatementInput = {
+  clientId: 'cl-1',
+  invoices,
+  transactions,
+  notes,
+  rates: EXCHANGE_RATES,
+  from: '2025-07-01',
+  to: '2025-09-30',
+}
+
+describe('getQuarterRange', () => {
+  it('covers the calendar quarter of the given day', () => {
+    expect(getQuarterRange(new Date(2025, 7, 15))).toEqual({ from: '2025-07-01', to: '2025-09-30' })
+    expect(getQuarterRange(new Date(2026, 1, 28))).toEqual({ from: '2026-01-01', to: '2026-03-31' })
+  })
+})
+
+describe('getStatementCurrencies', () => {
+  it('lists each billed currency with rupees first and ignores drafts', () => {
+    expect(getStatementCurrencies(input)).toEqual(['INR', 'USD'])
+    expect(getStatementCurrencies({ ...input, clientId: 'cl-9' })).toEqual(['INR'])
+  })
+})
+
+describe('buildClientStatement', () => {
+  const statement = buildClientStatement(input, 'INR', new Date('2025-10-01T00:00:00Z'))
+
+  it('carries earlier movements into the opening balance', () => {
+    expect(statement.openingBalance).toBe(6000)
+  })
+
+  it('runs the balance over rupee documents in the period, bills before same-day credits', () => {
+    const rows = statement.entries.map((entry) => [entry.date, entry.kind, entry.debit, entry.credit, entry.balance])
+    expect(rows).toEqual([
+      ['2025-07-05', 'Invoice', 5000, 0, 11000],
+      ['2025-07-05', 'Credit Note', 0, 1000, 10000],
+      ['2025-08-01', 'Payment', 0, 2000, 8000],
+      ['2025-08-10', 'Invoice', 3000, 0, 11000],
+      ['2025-08-20', 'Settlement', 0, 3000, 8000],
+    ])
+    expect([statement.totalDebits, statement.totalCredits, statement.closingBalance]).toEqual([8000, 6000, 8000])
+  })
+
+  it('credits a receipt in another currency at the cross rate', () => {
+    const usd = buildClientStatement(input, 'USD')
+    expect(usd.entries.map((entry) => [entry.kind, entry.debit, entry.credit])).toEqual([
+      ['Invoice', 100, 0],
+      ['Payment', 0, 50],
+    ])
+    expect(usd.closingBalance).toBe(50)
+  })
+
+  it('exports opening, movement and closing rows', () => {
+    const rows = statementCsvRows(statement, 'Northwind')
+    expect(rows[5]).toEqual(['2025-07-01', 'Opening balance', '', '', '', '', '6000.00'])
+    expect(rows[6]).toEqual([
+      '2025-07-05',
+      'Invoice',
+      'ADS-2025-002',
+      'Retainer • due 2025-07-10',
+      '5000.00',
+      '',
+      '11000.00',
+    ])
+    expect(rows[rows.length - 1]).toEqual(['2025-09-30', 'Closing balance', '', '', '8000.00', '6000.00', '8000.00'])
+  })
+})
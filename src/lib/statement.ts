@@ -0,0 +1,187 @@
+import type {
+  AdjustmentNote,
+  ClientStatement,
+  CurrencyCode,
+  EvaluatedInvoice,
+  ExchangeRateTable,
+  PaymentTransaction,
+  StatementEntry,
+  StatementEntryKind,
+} from '../types'
+import type { CsvCell } from './csv'
+import { formatAmount } from './currency'
+import { formatDay } from './dates'
+import { BASE_CURRENCY, convertAmount } from './exchangeRates'
+import { addAmounts, subtractAmount, sumAmounts } from './money'
+import { getInvoicePayments } from './payments'
+
+export interface StatementInput {
+  clientId: string
+  invoices: EvaluatedInvoice[]
+  transactions: PaymentTransaction[]
+  notes: AdjustmentNote[]
+  rates: ExchangeRateTable
+  from: string
+  to: string
+}
+
+type StatementMovement = Omit<StatementEntry, 'balance'>
+
+// Same-day documents read naturally when the bill comes before anything that reduces it.
+const KIND_ORDER: Record<StatementEntryKind, number> = {
+  Invoice: 0,
+  'Debit Note': 1,
+  'Credit Note': 2,
+  Payment: 3,
+  Settlement: 4,
+  'Write-off': 5,
+}
+
+const toDay = (value: string) => value.split('T')[0]
+
+// Quarters line up with the April financial year, so the current quarter is also the current FY quarter.
+export const getQuarterRange = (date: Date = new Date()) => {
+  const startMonth = date.getMonth() - (date.getMonth() % 3)
+  return {
+    from: formatDay(new Date(date.getFullYear(), startMonth, 1)),
+    to: formatDay(new Date(date.getFullYear(), startMonth + 3, 0)),
+  }
+}
+
+const getStatementInvoices = ({ clientId, invoices }: StatementInput) =>
+  invoices.filter(
+    (invoice) => invoice.clientId === clientId && invoice.status !== 'Draft' && invoice.status !== 'Void',
+  )
+
+// A client billed in several currencies gets one statement per currency, rupees first.
+export const getStatementCurrencies = (input: StatementInput): CurrencyCode[] => {
+  const currencies = [...new Set(getStatementInvoices(input).map((invoice) => invoice.currency))]
+  return currencies.length
+    ? currencies.sort((a, b) => Number(b === BASE_CURRENCY) - Number(a === BASE_CURRENCY) || a.localeCompare(b))
+    : [BASE_CURRENCY]
+}
+
+// Everything stays in the invoice currency, so the closing balance is exactly what the client owes in it.
+const collectMovements = (input: StatementInput, currency: CurrencyCode) => {
+  const { transactions, notes, rates } = input
+  const movements: StatementMovement[] = []
+  getStatementInvoices(input)
+    .filter((invoice) => invoice.currency === currency)
+    .forEach((invoice) => {
+      movements.push({
+        id: invoice.id,
+        date: invoice.issueDate,
+        kind: 'Invoice',
+        reference: invoice.invoiceNumber,
+        description: `${invoice.engagement} • due ${invoice.dueDate}`,
+        debit: invoice.amount,
+        credit: 0,
+      })
+
+      notes
+        .filter((note) => note.invoiceId === invoice.id)
+        .forEach((note) => {
+          movements.push({
+            id: note.id,
+            date: note.issueDate,
+            kind: note.kind,
+            reference: note.noteNumber,
+            description: `${note.reason || note.kind} against ${invoice.invoiceNumber}`,
+            debit: note.kind === 'Debit Note' ? note.amount : 0,
+            credit: note.kind === 'Credit Note' ? note.amount : 0,
+          })
+        })
+
+      const receipts: StatementMovement[] = getInvoicePayments(invoice.id, transactions).map((txn) => ({
+        id: `${txn.id}-${invoice.id}`,
+        date: toDay(txn.receivedAt),
+        kind: 'Payment',
+        reference: txn.reference,
+        description: `${txn.method} receipt for ${invoice.invoiceNumber}`,
+        debit: 0,
+        // A receipt in another currency is credited at today's cross rate.
+        credit: convertAmount(txn.amount, txn.currency, currency, rates),
+      }))
+      movements.push(...receipts)
+
+      // Invoices marked paid or written off by hand have no receipt for the remainder, so the statement settles it.
+      const unsettled = subtractAmount(
+        invoice.evaluation.adjustedAmount,
+        sumAmounts(receipts, (receipt) => receipt.credit),
+      )
+      if ((invoice.status === 'Paid' || invoice.status === 'Written Off') && unsettled > 0) {
+        movements.push({
+          id: `${invoice.id}-settlement`,
+          date: toDay(invoice.lastUpdated),
+          kind: invoice.status === 'Paid' ? 'Settlement' : 'Write-off',
+          reference: invoice.invoiceNumber,
+          description: invoice.status === 'Paid' ? 'Marked paid outside recorded receipts' : 'Balance written off',
+          debit: 0,
+          credit: unsettled,
+        })
+      }
+    })
+  return movements.sort((a, b) => a.date.localeCompare(b.date) || KIND_ORDER[a.kind] - KIND_ORDER[b.kind])
+}
+
+export const buildClientStatement = (
+  input: StatementInput,
+  currency: CurrencyCode,
+  now: Date = new Date(),
+): ClientStatement => {
+  const movements = collectMovements(input, currency)
+  const openingBalance = movements
+    .filter((movement) => movement.date < input.from)
+    .reduce((balance, movement) => subtractAmount(addAmounts(balance, movement.debit), movement.credit), 0)
+
+  let balance = openingBalance
+  const entries = movements
+    .filter((movement) => movement.date >= input.from && movement.date <= input.to)
+    .map<StatementEntry>((movement) => {
+      balance = subtractAmount(addAmounts(balance, movement.debit), movement.credit)
+      return { ...movement, balance }
+    })
+
+  return {
+    clientId: input.clientId,
+    from: input.from,
+    to: input.to,
+    currency,
+    openingBalance,
+    closingBalance: balance,
+    totalDebits: sumAmounts(entries, (entry) => entry.debit),
+    totalCredits: sumAmounts(entries, (entry) => entry.credit),
+    entries,
+    generatedAt: now.toISOString(),
+  }
+}
+
+export const statementCsvRows = (statement: ClientStatement, clientName: string): CsvCell[][] => {
+  const amount = (value: number) => formatAmount(value, statement.currency)
+  return [
+    ['Statement of account', clientName],
+    ['Period', `${statement.from} to ${statement.to}`],
+    ['Currency', statement.currency],
+    [],
+    ['Date', 'Type', 'Reference', 'Description', 'Debit', 'Credit', 'Balance'],
+    [statement.from, 'Opening balance', '', '', '', '', amount(statement.openingBalance)],
+    ...statement.entries.map((entry) => [
+      entry.date,
+      entry.kind,
+      entry.reference,
+      entry.description,
+      entry.debit ? amount(entry.debit) : '',
+      entry.credit ? amount(entry.credit) : '',
+      amount(entry.balance),
+    ]),
+    [
+      statement.to,
+      'Closing balance',
+      '',
+      '',
+      amount(statement.totalDebits),
+      amount(statement.totalCredits),
+      amount(statement.closingBalance),
+    ],
+  ]
+}
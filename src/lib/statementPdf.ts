@@ -0,0 +1,158 @@
+import { ORGANIZATION } from '../data'
+import type { ClientProfile, ClientStatement } from '../types'
+import { createMoneyFormatter } from './currency'
+import { createPdfDocument, hexToPdfColor, type PdfDocument } from './pdf'
+
+const MARGIN = 40
+const INK = hexToPdfColor('#1f2a44')
+const MUTED = hexToPdfColor('#5b6478')
+const RULE = hexToPdfColor('#cdd6e5')
+const HEADER_FILL = hexToPdfColor('#e9effc')
+const GRAND_FILL = hexToPdfColor('#f5f7fb')
+
+type Column = { label: string; width: number; align: 'left' | 'right' }
+
+const drawTableHeader = (doc: PdfDocument, columns: Column[], y: number) => {
+  doc.rect(MARGIN, y, doc.pageWidth - MARGIN * 2, 20, { fill: HEADER_FILL })
+  let x = MARGIN
+  columns.forEach((column) => {
+    doc.text(column.label.toUpperCase(), column.align === 'right' ? x + column.width - 6 : x + 6, y + 13, {
+      font: 'bold',
+      size: 7.5,
+      color: MUTED,
+      align: column.align,
+    })
+    x += column.width
+  })
+  return y + 20
+}
+
+export const renderStatementPdf = (statement: ClientStatement, client: ClientProfile) => {
+  // Same as invoices: the standard fonts have no ₹ glyph.
+  const amountFormatter = createMoneyFormatter(statement.currency, { display: 'code' })
+  const money = (value: number) => amountFormatter.format(value)
+
+  const doc = createPdfDocument(`Statement of account ${client.companyName}`)
+  const contentWidth = doc.pageWidth - MARGIN * 2
+  const rightEdge = doc.pageWidth - MARGIN
+  const bottomLimit = doc.pageHeight - MARGIN - 24
+  let y = MARGIN
+
+  doc.text(ORGANIZATION.displayName, MARGIN, y + 14, { font: 'bold', size: 16, color: INK })
+  const brandLines = [ORGANIZATION.legalName, ORGANIZATION.taxRegistration, ORGANIZATION.contact.email]
+  brandLines.forEach((text, index) => doc.text(text, MARGIN, y + 32 + index * 12, { size: 8.5, color: MUTED }))
+
+  doc.text('STATEMENT OF ACCOUNT', rightEdge, y + 16, { font: 'bold', size: 16, color: INK, align: 'right' })
+  const metaRows: [string, string][] = [
+    ['Period', `${statement.from} to ${statement.to}`],
+    ['Currency', statement.currency],
+    ['Generated', statement.generatedAt.split('T')[0]],
+  ]
+  metaRows.forEach(([label, value], index) => {
+    const rowY = y + 36 + index * 12
+    doc.text(label, rightEdge - 130, rowY, { size: 8.5, color: MUTED, align: 'right' })
+    doc.text(value, rightEdge, rowY, { font: 'bold', size: 8.5, color: INK, align: 'right' })
+  })
+  y += 32 + brandLines.length * 12 + 12
+  doc.line(MARGIN, y, rightEdge, y, { stroke: RULE })
+  y += 18
+
+  const clientLines = [
+    client.contactName ? `Attn: ${client.contactName}` : '',
+    client.addressLine1,
+    client.addressLine2 ?? '',
+    `${[client.city, client.state].filter(Boolean).join(', ')} ${client.postalCode}`.trim(),
+    client.gstin ? `GSTIN: ${client.gstin}` : '',
+  ].filter(Boolean)
+  doc.text('ACCOUNT', MARGIN, y, { font: 'bold', size: 7.5, color: MUTED })
+  doc.text(client.companyName, MARGIN, y + 14, { font: 'bold', size: 10.5, color: INK })
+  clientLines.forEach((text, index) => doc.text(text, MARGIN, y + 27 + index * 11, { size: 8.5, color: INK }))
+
+  const summaryRows: [string, string][] = [
+    ['Opening balance', money(statement.openingBalance)],
+    ['Invoiced & debits', money(statement.totalDebits)],
+    ['Payments & credits', money(statement.totalCredits)],
+    ['Closing balance', money(statement.closingBalance)],
+  ]
+  summaryRows.forEach(([label, value], index) => {
+    const rowY = y + 14 + index * 13
+    doc.text(label, rightEdge - 110, rowY, { size: 8.5, color: MUTED, align: 'right' })
+    doc.text(value, rightEdge, rowY, { font: 'bold', size: 8.5, color: INK, align: 'right' })
+  })
+  y += 27 + Math.max(clientLines.length * 11, summaryRows.length * 13) + 14
+
+  const columns: Column[] = [
+    { label: 'Date', width: contentWidth * 0.12, align: 'left' },
+    { label: 'Type', width: contentWidth * 0.12, align: 'left' },
+    { label: 'Reference / details', width: contentWidth * 0.34, align: 'left' },
+    { label: 'Debit', width: contentWidth * 0.14, align: 'right' },
+    { label: 'Credit', width: contentWidth * 0.14, align: 'right' },
+    { label: 'Balance', width: contentWidth * 0.14, align: 'right' },
+  ]
+  const detailWidth = columns[2].width - 12
+  y = drawTableHeader(doc, columns, y)
+
+  const drawRow = (cells: string[], details: string[], bold = false) => {
+    const rowHeight = 12 + Math.max(details.length, 1) * 10 + 6
+    if (y + rowHeight > bottomLimit) {
+      doc.addPage()
+      y = drawTableHeader(doc, columns, MARGIN)
+    }
+    let x = MARGIN
+    cells.forEach((value, index) => {
+      const column = columns[index]
+      doc.text(value, column.align === 'right' ? x + column.width - 6 : x + 6, y + 13, {
+        font: bold || index === 2 ? 'bold' : 'regular',
+        size: 8.5,
+        color: INK,
+        align: column.align,
+      })
+      x += column.width
+    })
+    const detailX = MARGIN + columns[0].width + columns[1].width + 6
+    details.forEach((text, index) => doc.text(text, detailX, y + 24 + index * 10, { size: 7.5, color: MUTED }))
+    y += rowHeight
+    doc.line(MARGIN, y, rightEdge, y, { stroke: RULE })
+  }
+
+  drawRow([statement.from, 'Opening', 'Balance brought forward', '', '', money(statement.openingBalance)], [], true)
+  statement.entries.forEach((entry) => {
+    drawRow(
+      [
+        entry.date,
+        entry.kind,
+        entry.reference,
+        entry.debit ? money(entry.debit) : '',
+        entry.credit ? money(entry.credit) : '',
+        money(entry.balance),
+      ],
+      doc.wrapText(entry.description, detailWidth, 7.5),
+    )
+  })
+
+  if (y + 30 > bottomLimit) {
+    doc.addPage()
+    y = MARGIN
+  }
+  doc.rect(MARGIN, y, contentWidth, 22, { fill: GRAND_FILL })
+  doc.text(`Closing balance as of ${statement.to}`, MARGIN + 6, y + 15, { font: 'bold', size: 10, color: INK })
+  doc.text(money(statement.closingBalance), rightEdge - 6, y + 15, {
+    font: 'bold',
+    size: 10,
+    color: INK,
+    align: 'right',
+  })
+
+  const pageCount = doc.pageCount()
+  for (let index = 0; index < pageCount; index += 1) {
+    doc.setPage(index)
+    doc.text(
+      `${client.companyName} • ${statement.from} to ${statement.to} • Page ${index + 1} of ${pageCount}`,
+      rightEdge,
+      doc.pageHeight - MARGIN + 8,
+      { size: 7.5, color: MUTED, align: 'right' },
+    )
+  }
+
+  return new Blob([doc.output()], { type: 'application/pdf' })
+}
@@ -0,0 +1,47 @@
+export class StorageQuotaError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StorageQuotaError'
+  }
+}
+
+export const safeJsonParse = <T,>(value: string | null): T | null => {
+  if (!value) {
+    return null
+  }
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return null
+  }
+}
+
+export const readStoredJson = <T,>(storageKey: string): T | null =>
+  safeJsonParse<T>(typeof window === 'undefined' ? null : window.localStorage.getItem(storageKey))
+
+const isQuotaExceeded = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+
+export const writeStoredJson = (storageKey: string, value: unknown) => {
+  if (typeof window === 'undefined') {
+    return
+  }
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(value))
+  } catch (error) {
+    if (isQuotaExceeded(error)) {
+      throw new StorageQuotaError(
+        'Browser storage is full, so recent changes are kept for this session only and will be lost on reload. ' +
+          'Clear old mailbox messages or site data to free space.',
+      )
+    }
+    throw error
+  }
+}
+
+export const removeStoredJson = (storageKey: string) => {
+  if (typeof window === 'undefined') {
+    return
+  }
+  window.localStorage.removeItem(storageKey)
+}
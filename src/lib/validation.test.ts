@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import type { ClientDetails } from '../types'
+import {
+  getGstinCheckDigit,
+  isValidPan,
+  isValidPhone,
+  isValidPinCode,
+  validateClientFields,
+  validateGstin,
+} from './validation'
+
+const client: ClientDetails = {
+  companyName: 'Northwind Traders Pvt Ltd',
+  contactName: 'Asha Rao',
+  email: 'accounts@northwind.example',
+  phone: '+91 98200 12345',
+  addressLine1: '14 Marine Drive',
+  addressLine2: '',
+  city: 'Mumbai',
+  state: 'Maharashtra',
+  postalCode: '400020',
+  country: 'India',
+  gstin: '27AAPFU0939F1ZV',
+}
+
+describe('getGstinCheckDigit', () => {
+  it('computes the check digit of registered GSTINs', () => {
+    expect(getGstinCheckDigit('27AAPFU0939F1ZV')).toBe('V')
+    expect(getGstinCheckDigit('29AAGCB7383J1Z4')).toBe('4')
+  })
+
+  it('ignores the existing check digit', () => {
+    expect(getGstinCheckDigit('27AAPFU0939F1Z')).toBe('V')
+    expect(getGstinCheckDigit('27AAPFU0939F1ZA')).toBe('V')
+  })
+})
+
+describe('validateGstin', () => {
+  it('accepts a valid GSTIN in any case and with surrounding spaces', () => {
+    expect(validateGstin(' 27aapfu0939f1zv ')).toBe('')
+  })
+
+  it('rejects a mistyped character through the check digit', () => {
+    expect(validateGstin('27AAPFU0939F1ZW')).toMatch(/check digit/)
+    expect(validateGstin('27AAPFU0938F1ZV')).toMatch(/check digit/)
+  })
+
+  it('explains malformed input, unknown state codes and invalid PANs', () => {
+    expect(validateGstin('27AAPFU0939F1Z')).toMatch(/15 characters/)
+    expect(validateGstin('99AAPFU0939F1ZV')).toMatch(/not a GST state code/)
+    expect(validateGstin('27AAPDU0939F1ZV')).toMatch(/not a valid PAN/)
+  })
+
+  it('flags a GSTIN registered in a different state from the address', () => {
+    expect(validateGstin('27AAPFU0939F1ZV', 'Karnataka')).toBe(
+      'GSTIN is registered in Maharashtra, but the address is in Karnataka.',
+    )
+    expect(validateGstin('27AAPFU0939F1ZV', 'Maharashtra')).toBe('')
+  })
+})
+
+describe('field formats', () => {
+  it('checks PAN holder types', () => {
+    expect(isValidPan('AAPFU0939F')).toBe(true)
+    expect(isValidPan('AAPXU0939F')).toBe(false)
+  })
+
+  it('accepts six-digit PIN codes that do not start with 0', () => {
+    expect(isValidPinCode('400020')).toBe(true)
+    expect(isValidPinCode('400 020')).toBe(true)
+    expect(isValidPinCode('040020')).toBe(false)
+    expect(isValidPinCode('40002')).toBe(false)
+  })
+
+  it('accepts Indian mobiles, landlines with an STD code and international numbers', () => {
+    expect(isValidPhone('98200 12345')).toBe(true)
+    expect(isValidPhone('+91-98200-12345')).toBe(true)
+    expect(isValidPhone('09820012345')).toBe(true)
+    expect(isValidPhone('022 4150 2380')).toBe(true)
+    expect(isValidPhone('(080) 2345-6789')).toBe(true)
+    expect(isValidPhone('+44 20 7946 0958')).toBe(true)
+    expect(isValidPhone('58200 12345')).toBe(false)
+    expect(isValidPhone('12345')).toBe(false)
+    expect(isValidPhone('022 4150 238')).toBe(false)
+    expect(isValidPhone('002 4150 2380')).toBe(false)
+  })
+})
+
+describe('validateClientFields', () => {
+  it('returns no errors for a complete Indian client', () => {
+    expect(validateClientFields(client)).toEqual({})
+  })
+
+  it('reports every missing required field', () => {
+    const errors = validateClientFields({ ...client, companyName: ' ', city: '', postalCode: '' })
+    expect(Object.keys(errors).sort()).toEqual(['city', 'companyName', 'postalCode'])
+  })
+
+  it('skips Indian state and PIN checks for foreign clients', () => {
+    const errors = validateClientFields({
+      ...client,
+      state: 'Greater London',
+      postalCode: 'EC1A 1BB',
+      country: 'United Kingdom',
+      gstin: '',
+    })
+    expect(errors).toEqual({})
+  })
+
+  it('explains the accepted phone formats', () => {
+    expect(validateClientFields({ ...client, phone: '4150 2380' }).phone).toMatch(/STD code/)
+    expect(validateClientFields({ ...client, phone: '022 4150 2380' }).phone).toBeUndefined()
+  })
+
+  it('reports an invalid GSTIN against the field', () => {
+    expect(validateClientFields({ ...client, gstin: '27AAPFU0939F1ZW' }).gstin).toMatch(/check digit/)
+  })
+})
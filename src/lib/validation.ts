@@ -0,0 +1,176 @@
+import type { ClientDetails, ClientFieldErrors, InvoiceFormErrors, InvoiceFormState } from '../types'
+import { formatMoney } from './currency'
+import { isEmailAddress } from './email'
+import { GST_STATE_CODES, getStateCode } from './gst'
+import { getInstalmentTotal } from './instalments'
+import { calculateInvoiceTotals } from './invoiceTotals'
+
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ'
+
+const GSTIN_FORMAT = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/
+
+// The fourth PAN character encodes the holder type: company, person, firm, trust and so on.
+const PAN_FORMAT = /^[A-Z]{3}[ABCEFGHJLPT][A-Z]\d{4}[A-Z]$/
+
+const PIN_CODE_FORMAT = /^[1-9]\d{2}\s?\d{3}$/
+
+const INDIAN_MOBILE_FORMAT = /^(?:\+?91|0)?[6-9]\d{9}$/
+
+// Landlines dialled within India: a trunk 0, then the STD code and subscriber number for 11 digits in all.
+const INDIAN_LANDLINE_FORMAT = /^0[1-9]\d{9}$/
+
+const INTERNATIONAL_PHONE_FORMAT = /^\+[1-9]\d{7,14}$/
+
+const REQUIRED_CLIENT_FIELDS: Array<[keyof ClientDetails, string]> = [
+  ['companyName', 'Company name is required.'],
+  ['addressLine1', 'Address line 1 is required.'],
+  ['city', 'City is required.'],
+  ['state', 'State is required.'],
+  ['postalCode', 'Postal code is required.'],
+  ['country', 'Country is required.'],
+]
+
+export const isValidPan = (value: string) => PAN_FORMAT.test(value.trim().toUpperCase())
+
+export const isValidPinCode = (value: string) => PIN_CODE_FORMAT.test(value.trim())
+
+export const isValidPhone = (value: string) => {
+  const digits = value.replace(/[\s()-]/g, '')
+  return (
+    INDIAN_MOBILE_FORMAT.test(digits) ||
+    INDIAN_LANDLINE_FORMAT.test(digits) ||
+    INTERNATIONAL_PHONE_FORMAT.test(digits)
+  )
+}
+
+// GSTIN check digit: alternate weights of 1 and 2 over base-36 values, summing the quotient and remainder by 36.
+export const getGstinCheckDigit = (gstin: string) => {
+  const sum = gstin
+    .slice(0, 14)
+    .split('')
+    .reduce((total, char, index) => {
+      const product = GSTIN_CHARSET.indexOf(char) * (index % 2 ? 2 : 1)
+      return total + Math.floor(product / 36) + (product % 36)
+    }, 0)
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36]
+}
+
+// Returns a message describing the first problem with the GSTIN, or an empty string when it is valid.
+export const validateGstin = (value: string, state = '') => {
+  const gstin = value.trim().toUpperCase()
+  if (!GSTIN_FORMAT.test(gstin)) {
+    return 'GSTIN must be 15 characters: state code, PAN, entity number, Z and a check digit.'
+  }
+  const stateCode = gstin.slice(0, 2)
+  if (!GST_STATE_CODES[stateCode]) {
+    return `GSTIN starts with ${stateCode}, which is not a GST state code.`
+  }
+  if (!isValidPan(gstin.slice(2, 12))) {
+    return `GSTIN contains ${gstin.slice(2, 12)}, which is not a valid PAN.`
+  }
+  if (getGstinCheckDigit(gstin) !== gstin[14]) {
+    return 'GSTIN check digit does not match; look for a mistyped character.'
+  }
+  const declaredState = getStateCode(state)
+  if (declaredState && declaredState !== stateCode) {
+    const registeredIn = GST_STATE_CODES[stateCode]
+    return `GSTIN is registered in ${registeredIn}, but the address is in ${GST_STATE_CODES[declaredState]}.`
+  }
+  return ''
+}
+
+const isIndianAddress = (country: string) => !country.trim() || country.trim().toLowerCase() === 'india'
+
+export const validateClientFields = (client: ClientDetails): ClientFieldErrors => {
+  const errors: ClientFieldErrors = {}
+  REQUIRED_CLIENT_FIELDS.forEach(([field, message]) => {
+    if (!String(client[field] ?? '').trim()) {
+      errors[field] = message
+    }
+  })
+  if (client.email.trim() && !isEmailAddress(client.email)) {
+    errors.email = 'Enter a valid email address.'
+  }
+  if (client.phone.trim() && !isValidPhone(client.phone)) {
+    errors.phone =
+      'Enter a 10-digit mobile number, a landline with its STD code (022 4150 2380) or an international number ' +
+      'starting with +.'
+  }
+  const indian = isIndianAddress(client.country)
+  if (indian && client.state.trim() && !getStateCode(client.state)) {
+    errors.state = 'Enter an Indian state or union territory.'
+  }
+  if (indian && client.postalCode.trim() && !isValidPinCode(client.postalCode)) {
+    errors.postalCode = 'PIN codes are six digits and do not start with 0.'
+  }
+  const gstinError = client.gstin?.trim() ? validateGstin(client.gstin, indian ? client.state : '') : ''
+  if (gstinError) {
+    errors.gstin = gstinError
+  }
+  return errors
+}
+
+export const validateInvoiceForm = (state: InvoiceFormState): InvoiceFormErrors => {
+  const errors: InvoiceFormErrors = {
+    client: validateClientFields(state.client),
+    meta: {},
+    lineItems: {},
+    instalments: {},
+    general: [],
+  }
+  if (!state.meta.invoiceNumber.trim()) {
+    errors.meta.invoiceNumber = 'Invoice number is required.'
+  }
+  if (!state.meta.issueDate.trim()) {
+    errors.meta.issueDate = 'Issue date is required.'
+  }
+  if (!state.meta.dueDate.trim()) {
+    errors.meta.dueDate = 'Due date is required.'
+  } else if (state.meta.issueDate && state.meta.dueDate < state.meta.issueDate) {
+    errors.meta.dueDate = 'Due date must be on or after the issue date.'
+  }
+  if (!state.lineItems.length) {
+    errors.general.push('At least one line item is required.')
+  }
+  state.lineItems.forEach((item) => {
+    if (!item.description.trim()) {
+      errors.lineItems[item.id] = 'Add a description.'
+    } else if (item.quantity <= 0) {
+      errors.lineItems[item.id] = 'Quantity must be greater than zero.'
+    } else if (item.unitPrice < 0 || item.discountRate < 0) {
+      errors.lineItems[item.id] = 'Unit price and discount cannot be negative.'
+    } else if (!item.sacCode.trim() || item.taxRate < 0) {
+      errors.lineItems[item.id] = 'Add a SAC/HSN code and a non-negative GST rate.'
+    }
+  })
+  const instalments = state.instalments ?? []
+  instalments.forEach((instalment) => {
+    if (!instalment.label.trim()) {
+      errors.instalments[instalment.id] = 'Name the instalment or milestone.'
+    } else if (!(instalment.amount > 0)) {
+      errors.instalments[instalment.id] = 'Amount must be greater than zero.'
+    } else if (!instalment.dueDate || instalment.dueDate < state.meta.issueDate) {
+      errors.instalments[instalment.id] = 'Due date must be on or after the issue date.'
+    } else if (instalment.dueDate > state.meta.dueDate) {
+      errors.instalments[instalment.id] = 'Due date cannot be later than the invoice due date.'
+    }
+  })
+  if (instalments.length) {
+    const total = calculateInvoiceTotals(state).total
+    const scheduled = getInstalmentTotal(instalments)
+    if (scheduled !== total) {
+      errors.general.push(
+        `Instalments add up to ${formatMoney(scheduled, state.currency)} but the invoice total is ` +
+          `${formatMoney(total, state.currency)}.`,
+      )
+    }
+  }
+  return errors
+}
+
+export const countFormErrors = (errors: InvoiceFormErrors) =>
+  Object.keys(errors.client).length +
+  Object.keys(errors.meta).length +
+  Object.keys(errors.lineItems).length +
+  Object.keys(errors.instalments).length +
+  errors.general.length
@@ -0,0 +1,205 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { EvaluatedInvoice, InvoiceRecord, PaymentTransaction, WebhookEvent } from '../types'
+import {
+  applyWebhookEvent,
+  createTestWebhookBody,
+  parseWebhookEvent,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WebhookError,
+} from './webhooks'
+
+const SECRET = 'whsec_test'
+
+const invoice: InvoiceRecord = {
+  id: 'inv-1',
+  invoiceNumber: 'ADS-2025-041',
+  clientId: 'cl-1',
+  engagement: 'Retainer',
+  currency: 'INR',
+  amount: 11800,
+  status: 'Pending',
+  issueDate: '2025-09-01',
+  dueDate: '2025-09-30',
+  lastUpdated: '2025-09-01',
+}
+
+const paymentBody = (changes: Record<string, unknown> = {}, event = 'payment.captured') =>
+  JSON.stringify({
+    entity: 'event',
+    id: 'evt_1',
+    event,
+    created_at: 1759276800,
+    payload: {
+      payment: {
+        entity: {
+          id: 'pay_1',
+          amount: 1180000,
+          currency: 'INR',
+          method: 'upi',
+          fee: 23600,
+          notes: { invoice_number: invoice.invoiceNumber },
+          acquirer_data: { rrn: '527412345678' },
+          ...changes,
+        },
+      },
+    },
+  })
+
+const refundBody = (amount: number, id = 'rfnd_1') =>
+  JSON.stringify({
+    id: `evt_${id}`,
+    event: 'refund.processed',
+    created_at: 1759363200,
+    payload: { refund: { entity: { id, payment_id: 'pay_1', amount, currency: 'INR' } } },
+  })
+
+const apply = (body: string, transactions: PaymentTransaction[] = []) =>
+  applyWebhookEvent(parseWebhookEvent(body), transactions, [invoice])
+
+describe('webhook signatures', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('verifies a signature made with the same secret', async () => {
+    const body = paymentBody()
+    const signature = await signWebhookPayload(body, SECRET)
+    expect(signature).toMatch(/^[0-9a-f]{64}$/)
+    expect(await verifyWebhookSignature(body, signature, SECRET)).toBe(true)
+  })
+
+  it('rejects a tampered body, another secret or a malformed signature', async () => {
+    const body = paymentBody()
+    const signature = await signWebhookPayload(body, SECRET)
+    expect(await verifyWebhookSignature(body.replace('1180000', '1'), signature, SECRET)).toBe(false)
+    expect(await verifyWebhookSignature(body, signature, 'whsec_other')).toBe(false)
+    expect(await verifyWebhookSignature(body, 'not-hex', SECRET)).toBe(false)
+    expect(await verifyWebhookSignature(body, signature, '')).toBe(false)
+  })
+
+  it('explains that WebCrypto is missing on an insecure origin', async () => {
+    vi.stubGlobal('crypto', { getRandomValues: crypto.getRandomValues.bind(crypto) })
+    await expect(signWebhookPayload(paymentBody(), SECRET)).rejects.toThrow(WebhookError)
+    await expect(verifyWebhookSignature(paymentBody(), 'ab', SECRET)).rejects.toThrow(/HTTPS/)
+  })
+})
+
+describe('parseWebhookEvent', () => {
+  it('reads a captured payment with amounts in minor units', () => {
+    const event = parseWebhookEvent(paymentBody())
+    expect(event).toEqual<WebhookEvent>({
+      id: 'evt_1',
+      type: 'payment.captured',
+      occurredAt: '2025-10-01T00:00:00.000Z',
+      paymentId: 'pay_1',
+      invoiceNumber: 'ADS-2025-041',
+      amount: 11800,
+      currency: 'INR',
+      method: 'UPI',
+      feeAmount: 236,
+      reference: '527412345678',
+      failureReason: undefined,
+    })
+  })
+
+  it('uses the currency minor unit when converting amounts', () => {
+    expect(parseWebhookEvent(paymentBody({ amount: 150000, currency: 'jpy', fee: 0 })).amount).toBe(150000)
+    expect(parseWebhookEvent(paymentBody({ amount: 12345, currency: 'KWD', fee: 0 })).amount).toBe(12.345)
+  })
+
+  it('reads a refund and the payment it reverses', () => {
+    const event = parseWebhookEvent(refundBody(50000))
+    expect(event).toMatchObject({ type: 'refund.processed', paymentId: 'pay_1', amount: 500, reference: 'rfnd_1' })
+  })
+
+  it.each([
+    ['not json', /not valid JSON/],
+    [JSON.stringify({ id: 'evt_1', event: 'payment.captured' }), /no event payload/],
+    [JSON.stringify({ event: 'payment.captured', payload: {} }), /has no id/],
+    [JSON.stringify({ id: 'evt_1', event: 'order.paid', payload: {} }), /not handled/],
+    [paymentBody({ currency: 'XYZ' }), /not supported/],
+    [paymentBody({ amount: 0 }), /has no amount/],
+    [paymentBody({ method: 'wallet' }), /not one of the gateway channels/],
+  ])('rejects %s', (body, message) => {
+    expect(() => parseWebhookEvent(body)).toThrow(WebhookError)
+    expect(() => parseWebhookEvent(body)).toThrow(message)
+  })
+})
+
+describe('applyWebhookEvent', () => {
+  it('records a captured payment against the invoice named in its notes', () => {
+    const { transactions, transaction, summary } = apply(paymentBody())
+    expect(transactions).toHaveLength(1)
+    expect(transaction).toMatchObject({
+      invoiceId: 'inv-1',
+      clientId: 'cl-1',
+      amount: 11800,
+      status: 'Succeeded',
+      feeAmount: 236,
+      netAmount: 11564,
+      gatewayPaymentId: 'pay_1',
+    })
+    expect(summary).toContain('captured for ADS-2025-041')
+  })
+
+  it('updates a failed attempt when the same payment is captured later', () => {
+    const failed = apply(paymentBody({ error_description: 'Bank declined' }, 'payment.failed'))
+    expect(failed.transaction).toMatchObject({ status: 'Failed', netAmount: 0, feeAmount: 0 })
+    const captured = apply(paymentBody(), failed.transactions)
+    expect(captured.transactions).toHaveLength(1)
+    expect(captured.transaction).toMatchObject({ id: failed.transaction.id, status: 'Succeeded' })
+  })
+
+  it('ignores a failure notice that arrives after the capture', () => {
+    const captured = apply(paymentBody())
+    const late = apply(paymentBody({}, 'payment.failed'), captured.transactions)
+    expect(late.transactions).toBe(captured.transactions)
+    expect(late.summary).toContain('ignored')
+  })
+
+  it('keeps a payment for an unknown invoice unallocated', () => {
+    const { transaction, summary } = apply(paymentBody({ notes: { invoice_number: 'ADS-9999' } }))
+    expect(transaction.invoiceId).toBe('')
+    expect(summary).toContain('unknown invoice "ADS-9999"')
+  })
+
+  it('adds partial refunds and marks the payment refunded once nothing is left', () => {
+    const captured = apply(paymentBody())
+    const partial = apply(refundBody(500000), captured.transactions)
+    expect(partial.transaction).toMatchObject({ refundedAmount: 5000, status: 'Succeeded' })
+    const rest = apply(refundBody(680000, 'rfnd_2'), partial.transactions)
+    expect(rest.transaction).toMatchObject({ refundedAmount: 11800, status: 'Refunded' })
+  })
+
+  it('keeps refunds when the gateway repeats a capture under a new event id', () => {
+    const captured = apply(paymentBody())
+    const refunded = apply(refundBody(1180000), captured.transactions)
+    const repeated = apply(paymentBody(), refunded.transactions)
+    expect(repeated.transactions).toHaveLength(1)
+    expect(repeated.transaction).toMatchObject({ refundedAmount: 11800, status: 'Refunded' })
+  })
+
+  it('rejects refunds for unknown payments or beyond what was paid', () => {
+    expect(() => apply(refundBody(100))).toThrow(/has not been received/)
+    const captured = apply(paymentBody())
+    expect(() => apply(refundBody(1180001), captured.transactions)).toThrow(WebhookError)
+  })
+})
+
+describe('createTestWebhookBody', () => {
+  it('builds a capture for the next open balance that the parser accepts', () => {
+    const evaluated: EvaluatedInvoice = {
+      ...invoice,
+      evaluation: { status: 'Partially Paid', daysPastDue: 0, paidAmount: 1800, adjustedAmount: 0, outstanding: 10000 },
+    }
+    const event = parseWebhookEvent(createTestWebhookBody(evaluated, 'Credit Card'))
+    expect(event).toMatchObject({
+      type: 'payment.captured',
+      invoiceNumber: 'ADS-2025-041',
+      amount: 10000,
+      method: 'Credit Card',
+    })
+    expect(event.feeAmount).toBeGreaterThan(0)
+  })
+})
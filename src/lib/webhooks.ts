@@ -0,0 +1,291 @@
+import type {
+  CurrencyCode,
+  EvaluatedInvoice,
+  InvoiceRecord,
+  PaymentMethod,
+  PaymentTransaction,
+  WebhookEvent,
+  WebhookEventType,
+} from '../types'
+import { formatMoney, getCurrency, isCurrencyCode } from './currency'
+import { generateId } from './ids'
+import { addAmounts, calculateGatewayFee, multiplyAmount, subtractAmount } from './money'
+
+export class WebhookError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookError'
+  }
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Razorpay-Signature'
+
+const EVENT_TYPES: WebhookEventType[] = ['payment.captured', 'payment.failed', 'refund.processed']
+
+const METHOD_CODES: Record<PaymentMethod, string> = {
+  UPI: 'upi',
+  'Credit Card': 'card',
+  NetBanking: 'netbanking',
+  'Wire Transfer': 'bank_transfer',
+}
+
+type JsonRecord = Record<string, unknown>
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const readString = (record: JsonRecord, key: string) => (typeof record[key] === 'string' ? record[key] : '')
+
+const readNumber = (record: JsonRecord, key: string) => {
+  const value = record[key]
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+// The gateway sends amounts as integers in the currency's minor unit, e.g. paise for INR.
+const fromMinorUnits = (units: number, currency: CurrencyCode) =>
+  Number(`${units}e-${getCurrency(currency).minorUnits}`)
+
+const toMinorUnits = (amount: number, currency: CurrencyCode) =>
+  Math.round(multiplyAmount(amount, 10 ** getCurrency(currency).minorUnits))
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('')
+
+const fromHex = (value: string) => {
+  if (!/^([0-9a-f]{2})+$/i.test(value)) {
+    return undefined
+  }
+  return Uint8Array.from(value.match(/../g) ?? [], (pair) => Number.parseInt(pair, 16))
+}
+
+// Browsers only expose crypto.subtle on secure origins, so a plain-http deployment cannot sign or verify.
+const getSubtleCrypto = () => {
+  if (!globalThis.crypto?.subtle) {
+    throw new WebhookError('Webhook signatures need WebCrypto, which browsers only provide over HTTPS or on localhost.')
+  }
+  return globalThis.crypto.subtle
+}
+
+const importSigningKey = (secret: string) =>
+  getSubtleCrypto().importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+    'verify',
+  ])
+
+// HMAC-SHA256 of the raw request body, hex encoded, as the gateway computes it.
+export const signWebhookPayload = async (body: string, secret: string) => {
+  const key = await importSigningKey(secret)
+  return toHex(await getSubtleCrypto().sign('HMAC', key, new TextEncoder().encode(body)))
+}
+
+// Verification goes through WebCrypto rather than comparing strings, so the check takes constant time.
+export const verifyWebhookSignature = async (body: string, signature: string, secret: string) => {
+  const expected = fromHex(signature.trim())
+  if (!expected || !secret) {
+    return false
+  }
+  const key = await importSigningKey(secret)
+  return getSubtleCrypto().verify('HMAC', key, expected, new TextEncoder().encode(body))
+}
+
+const readEntity = (payload: JsonRecord, name: string) => {
+  const wrapper = payload[name]
+  return isRecord(wrapper) && isRecord(wrapper.entity) ? wrapper.entity : undefined
+}
+
+export const parseWebhookEvent = (body: string): WebhookEvent => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(body)
+  } catch {
+    throw new WebhookError('The webhook body is not valid JSON.')
+  }
+  if (!isRecord(parsed) || !isRecord(parsed.payload)) {
+    throw new WebhookError('The webhook body has no event payload.')
+  }
+  const id = readString(parsed, 'id')
+  const type = EVENT_TYPES.find((eventType) => eventType === parsed.event)
+  if (!id) {
+    throw new WebhookError('The webhook event has no id, so redeliveries could not be recognised.')
+  }
+  if (!type) {
+    throw new WebhookError(`Event type "${String(parsed.event)}" is not handled.`)
+  }
+  const createdAt = readNumber(parsed, 'created_at')
+  const occurredAt = new Date(createdAt === undefined ? Date.now() : createdAt * 1000).toISOString()
+  const payment = readEntity(parsed.payload, 'payment')
+  const refund = readEntity(parsed.payload, 'refund')
+  const entity = type === 'refund.processed' ? refund : payment
+  if (!entity) {
+    throw new WebhookError(`The ${type} event carries no ${type === 'refund.processed' ? 'refund' : 'payment'}.`)
+  }
+  const currency = readString(entity, 'currency').toUpperCase()
+  const amount = readNumber(entity, 'amount')
+  if (!isCurrencyCode(currency)) {
+    throw new WebhookError(`Currency "${currency}" is not supported.`)
+  }
+  if (amount === undefined || amount <= 0) {
+    throw new WebhookError(`The ${type} event has no amount.`)
+  }
+
+  if (type === 'refund.processed') {
+    const paymentId = readString(entity, 'payment_id')
+    if (!paymentId) {
+      throw new WebhookError('The refund does not say which payment it reverses.')
+    }
+    return {
+      id,
+      type,
+      occurredAt,
+      paymentId,
+      invoiceNumber: payment && isRecord(payment.notes) ? readString(payment.notes, 'invoice_number') : '',
+      amount: fromMinorUnits(amount, currency),
+      currency,
+      feeAmount: 0,
+      reference: readString(entity, 'id') || paymentId,
+    }
+  }
+
+  const paymentId = readString(entity, 'id')
+  const methodCode = readString(entity, 'method')
+  const method = (Object.keys(METHOD_CODES) as PaymentMethod[]).find((key) => METHOD_CODES[key] === methodCode)
+  if (!paymentId) {
+    throw new WebhookError('The payment has no id.')
+  }
+  if (!method) {
+    throw new WebhookError(`Payment method "${methodCode}" is not one of the gateway channels.`)
+  }
+  const acquirer = isRecord(entity.acquirer_data) ? entity.acquirer_data : {}
+  return {
+    id,
+    type,
+    occurredAt,
+    paymentId,
+    invoiceNumber: isRecord(entity.notes) ? readString(entity.notes, 'invoice_number') : '',
+    amount: fromMinorUnits(amount, currency),
+    currency,
+    method,
+    feeAmount: fromMinorUnits(readNumber(entity, 'fee') ?? 0, currency),
+    reference: readString(acquirer, 'rrn') || readString(acquirer, 'bank_transaction_id') || paymentId,
+    failureReason: readString(entity, 'error_description') || undefined,
+  }
+}
+
+export interface WebhookApplication {
+  transactions: PaymentTransaction[]
+  transaction: PaymentTransaction
+  summary: string
+}
+
+const upsert = (transactions: PaymentTransaction[], txn: PaymentTransaction) =>
+  transactions.some((existing) => existing.id === txn.id)
+    ? transactions.map((existing) => (existing.id === txn.id ? txn : existing))
+    : [txn, ...transactions]
+
+// Payments are keyed by the gateway's payment id, so a capture that follows a pending or failed attempt updates it.
+export const applyWebhookEvent = (
+  event: WebhookEvent,
+  transactions: PaymentTransaction[],
+  invoices: InvoiceRecord[],
+): WebhookApplication => {
+  const existing = transactions.find((txn) => txn.gatewayPaymentId === event.paymentId)
+  const amountLabel = formatMoney(event.amount, event.currency)
+
+  if (event.type === 'refund.processed') {
+    if (!existing) {
+      throw new WebhookError(
+        `Refund ${event.reference} is for payment ${event.paymentId}, which has not been received.`,
+      )
+    }
+    if (existing.currency !== event.currency) {
+      throw new WebhookError(
+        `Refund ${event.reference} is in ${event.currency} but the payment was in ${existing.currency}.`,
+      )
+    }
+    const refundable = subtractAmount(existing.amount, existing.refundedAmount ?? 0)
+    if (event.amount > refundable) {
+      throw new WebhookError(
+        `Refund ${event.reference} of ${amountLabel} is more than the ${formatMoney(refundable, existing.currency)} ` +
+          `left on payment ${existing.reference}.`,
+      )
+    }
+    const refundedAmount = addAmounts(existing.refundedAmount ?? 0, event.amount)
+    const transaction: PaymentTransaction = {
+      ...existing,
+      refundedAmount,
+      status: refundedAmount >= existing.amount ? 'Refunded' : existing.status,
+    }
+    return {
+      transactions: upsert(transactions, transaction),
+      transaction,
+      summary: `Refund ${event.reference} of ${amountLabel} recorded against payment ${existing.reference}`,
+    }
+  }
+
+  // A late failure notice must not undo a payment the gateway has since captured.
+  if (event.type === 'payment.failed' && existing && existing.status !== 'Pending' && existing.status !== 'Failed') {
+    return {
+      transactions,
+      transaction: existing,
+      summary: `Failure notice for ${event.paymentId} ignored; the payment was already captured`,
+    }
+  }
+
+  const invoice = invoices.find((record) => record.invoiceNumber === event.invoiceNumber)
+  const captured = event.type === 'payment.captured'
+  const feeAmount = captured ? event.feeAmount : 0
+  // Refunds already taken off a payment survive a repeated capture notice, as does its Refunded status.
+  const transaction: PaymentTransaction = {
+    ...existing,
+    id: existing?.id ?? `txn-${generateId()}`,
+    invoiceId: invoice?.id ?? existing?.invoiceId ?? '',
+    clientId: invoice?.clientId ?? existing?.clientId ?? '',
+    amount: event.amount,
+    currency: event.currency,
+    method: event.method ?? existing?.method ?? 'UPI',
+    status: existing?.status === 'Refunded' ? 'Refunded' : captured ? 'Succeeded' : 'Failed',
+    receivedAt: event.occurredAt,
+    feeAmount,
+    netAmount: captured ? subtractAmount(event.amount, feeAmount) : 0,
+    reference: event.reference,
+    gatewayPaymentId: event.paymentId,
+  }
+  const target = invoice ? invoice.invoiceNumber : `unknown invoice "${event.invoiceNumber || '(none)'}"`
+  return {
+    transactions: upsert(transactions, transaction),
+    transaction,
+    summary: captured
+      ? `Payment ${event.reference} of ${amountLabel} captured for ${target}`
+      : `Payment ${event.reference} of ${amountLabel} failed for ${target}${
+          event.failureReason ? `: ${event.failureReason}` : ''
+        }`,
+  }
+}
+
+// A stand-in for the gateway: a signed-ready body for a captured payment of the invoice's next balance.
+export const createTestWebhookBody = (invoice: EvaluatedInvoice, method: PaymentMethod) => {
+  const nextInstalment = invoice.evaluation.instalments?.find((instalment) => instalment.outstanding > 0)
+  const amount = nextInstalment?.outstanding ?? invoice.evaluation.outstanding
+  const createdAt = Math.floor(Date.now() / 1000)
+  return JSON.stringify({
+    entity: 'event',
+    id: `evt_${generateId()}`,
+    event: 'payment.captured',
+    created_at: createdAt,
+    payload: {
+      payment: {
+        entity: {
+          id: `pay_${generateId()}`,
+          amount: toMinorUnits(amount, invoice.currency),
+          currency: invoice.currency,
+          status: 'captured',
+          method: METHOD_CODES[method],
+          fee: toMinorUnits(calculateGatewayFee(amount, invoice.currency), invoice.currency),
+          notes: { invoice_number: invoice.invoiceNumber },
+          acquirer_data: { rrn: `TEST${createdAt}` },
+          created_at: createdAt,
+        },
+      },
+    },
+  })
+}
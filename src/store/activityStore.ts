@@ -0,0 +1,15 @@
+import { ACTIVITY_LOG } from '../data'
+import type { ActivityLog } from '../types'
+import { createPersistentStore, useStoreState } from './createPersistentStore'
+
+const ACTIVITY_LOG_STORAGE_KEY = 'activity-log.v1'
+
+export const activityStore = createPersistentStore<ActivityLog[]>(ACTIVITY_LOG_STORAGE_KEY, () =>
+  ACTIVITY_LOG.map((entry) => ({ ...entry })),
+)
+
+export const useActivityLog = () => useStoreState(activityStore)
+
+export const logActivity = (entry: ActivityLog) => {
+  activityStore.setState((prev) => [entry, ...prev])
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { emptyClientDetails } from '../lib/clients'
+import type { AdjustmentNoteKind, InvoiceFormState, InvoiceRecord } from '../types'
+import { issueAdjustmentNote } from './adjustmentNoteStore'
+
+const invoice: InvoiceRecord = {
+  id: 'inv-1',
+  invoiceNumber: 'ADS-2025-041',
+  clientId: 'cl-1',
+  engagement: 'Retainer',
+  currency: 'INR',
+  amount: 11800,
+  status: 'Pending',
+  issueDate: '2025-09-01',
+  dueDate: '2025-09-30',
+  lastUpdated: '2025-09-01',
+  formState: {
+    client: { ...emptyClientDetails, state: 'Maharashtra', country: 'India' },
+    currency: 'INR',
+    lineItems: [
+      {
+        id: 'l1',
+        serviceId: 'svc-1',
+        description: 'Retainer',
+        quantity: 10,
+        unitPrice: 1000,
+        discountRate: 0,
+        sacCode: '998314',
+        taxRate: 18,
+      },
+    ],
+  } as InvoiceFormState,
+}
+
+const issue = (kind: AdjustmentNoteKind, issueDate: string) =>
+  issueAdjustmentNote({ kind, invoice, quantities: { l1: 1 }, reason: 'Scope change', issueDate })
+
+describe('issueAdjustmentNote', () => {
+  it('numbers credit and debit notes from their own series', () => {
+    expect([
+      issue('Credit Note', '2025-10-01').noteNumber,
+      issue('Debit Note', '2025-10-02').noteNumber,
+      issue('Credit Note', '2025-10-03').noteNumber,
+    ]).toEqual(['CN-2025-26-001', 'DN-2025-26-001', 'CN-2025-26-002'])
+  })
+
+  it('restarts each series in a new financial year', () => {
+    expect(issue('Credit Note', '2026-04-01').noteNumber).toBe('CN-2026-27-001')
+  })
+})
@@ -0,0 +1,40 @@
+import { ADJUSTMENT_NOTE_SERIES, buildAdjustmentNote } from '../lib/adjustmentNotes'
+import type { AdjustmentNoteInput } from '../lib/adjustmentNotes'
+import { formatMoney } from '../lib/currency'
+import { generateId } from '../lib/ids'
+import type { AdjustmentNote } from '../types'
+import { logActivity } from './activityStore'
+import { createPersistentStore, useStoreState } from './createPersistentStore'
+import { allocateDocumentNumber } from './numberingStore'
+
+const ADJUSTMENT_NOTES_STORAGE_KEY = 'adjustment-notes.v1'
+
+export const adjustmentNoteStore = createPersistentStore<AdjustmentNote[]>(ADJUSTMENT_NOTES_STORAGE_KEY, () => [])
+
+export const useAdjustmentNotes = () => useStoreState(adjustmentNoteStore)
+
+export const issueAdjustmentNote = (input: AdjustmentNoteInput, actor = 'Finance Team') => {
+  const notes = adjustmentNoteStore.getSnapshot()
+  const draft = buildAdjustmentNote(input, notes)
+  const note = {
+    ...draft,
+    noteNumber: allocateDocumentNumber(
+      ADJUSTMENT_NOTE_SERIES[draft.kind],
+      draft.issueDate,
+      notes.map((entry) => entry.noteNumber),
+    ),
+  }
+  adjustmentNoteStore.setState((prev) => [note, ...prev])
+  logActivity({
+    id: `act-${generateId()}`,
+    timestamp: note.createdAt,
+    summary: `${note.kind} ${note.noteNumber} raised against ${note.invoiceNumber} for ${formatMoney(
+      note.amount,
+      note.currency,
+    )} by ${actor}`,
+    actor,
+    activityType: 'invoice',
+    relatedInvoiceId: note.invoiceId,
+  })
+  return note
+}
@@ -0,0 +1,34 @@
+import { CLIENT_DIRECTORY } from '../data'
+import { normalizeClientDetails, validateClientDetails } from '../lib/clients'
+import { generateId } from '../lib/ids'
+import type { ClientDetails, ClientProfile } from '../types'
+import { createPersistentStore, useStoreState } from './createPersistentStore'
+
+const CLIENT_STORAGE_KEY = 'clients.v1'
+
+export const clientStore = createPersistentStore<ClientProfile[]>(CLIENT_STORAGE_KEY, () =>
+  CLIENT_DIRECTORY.map((client) => ({ ...client })),
+)
+
+export const useClients = () => useStoreState(clientStore)
+
+export const createClient = (details: ClientDetails) => {
+  const normalized = normalizeClientDetails(details)
+  validateClientDetails(normalized, clientStore.getSnapshot())
+  const client: ClientProfile = { id: `cl-${generateId()}`, ...normalized }
+  clientStore.setState((prev) => [...prev, client])
+  return client
+}
+
+export const updateClient = (clientId: string, details: ClientDetails) => {
+  const normalized = normalizeClientDetails(details)
+  validateClientDetails(normalized, clientStore.getSnapshot(), clientId)
+  clientStore.setState((prev) =>
+    prev.map((client) => (client.id === clientId ? { ...client, ...normalized } : client)),
+  )
+}
+
+// Archived clients stay resolvable for existing invoices but drop out of the builder's picker.
+export const setClientArchived = (clientId: string, archived: boolean) => {
+  clientStore.setState((prev) => prev.map((client) => (client.id === clientId ? { ...client, archived } : client)))
+}
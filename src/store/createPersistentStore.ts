@@ -0,0 +1,84 @@
+import { useSyncExternalStore } from 'react'
+import { readStoredJson, StorageQuotaError, writeStoredJson } from '../lib/storage'
+
+export interface PersistentStore<T> {
+  getSnapshot: () => T
+  setState: (updater: (prev: T) => T) => void
+  subscribe: (listener: () => void) => () => void
+}
+
+// Every store shares the origin's quota. A full quota keeps the value in memory and is reported here for the UI to
+// show, rather than failing whichever action happened to write last.
+// The warning stays up until every store that failed has been saved again.
+let storageFailure: StorageQuotaError | null = null
+const unsavedKeys = new Set<string>()
+const storageFailureListeners = new Set<() => void>()
+
+const reportWrite = (storageKey: string, failure: StorageQuotaError | null) => {
+  if (failure) {
+    unsavedKeys.add(storageKey)
+  } else {
+    unsavedKeys.delete(storageKey)
+  }
+  const next = unsavedKeys.size ? (storageFailure ?? failure) : null
+  if (next !== storageFailure) {
+    storageFailure = next
+    storageFailureListeners.forEach((listener) => listener())
+  }
+}
+
+const subscribeStorageFailure = (listener: () => void) => {
+  storageFailureListeners.add(listener)
+  return () => storageFailureListeners.delete(listener)
+}
+
+export const useStorageFailure = () => useSyncExternalStore(subscribeStorageFailure, () => storageFailure)
+
+// `normalize` upgrades values persisted by older builds, e.g. filling in entries added to a seed table since.
+export const createPersistentStore = <T,>(
+  storageKey: string,
+  createInitialValue: () => T,
+  normalize: (stored: T) => T = (stored) => stored,
+): PersistentStore<T> => {
+  const load = () => {
+    const stored = readStoredJson<T>(storageKey)
+    return stored === null ? createInitialValue() : normalize(stored)
+  }
+  let state = load()
+  const listeners = new Set<() => void>()
+
+  const notify = () => listeners.forEach((listener) => listener())
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('storage', (event) => {
+      if (event.key !== storageKey) {
+        return
+      }
+      state = load()
+      notify()
+    })
+  }
+
+  return {
+    getSnapshot: () => state,
+    setState: (updater) => {
+      state = updater(state)
+      try {
+        writeStoredJson(storageKey, state)
+        reportWrite(storageKey, null)
+      } catch (error) {
+        if (!(error instanceof StorageQuotaError)) {
+          throw error
+        }
+        reportWrite(storageKey, error)
+      }
+      notify()
+    },
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+  }
+}
+
+export const useStoreState = <T,>(store: PersistentStore<T>) => useSyncExternalStore(store.subscribe, store.getSnapshot)
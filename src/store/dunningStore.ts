@@ -0,0 +1,139 @@
+import { DUNNING_STEPS } from '../data'
+import {
+  getDueReminders,
+  getReminderRecipient,
+  renderReminder,
+  sortDunningSteps,
+  validateDunningSteps,
+} from '../lib/dunning'
+import { generateId } from '../lib/ids'
+import type { DunningSettings, DunningStep, EvaluatedInvoice, SentReminder } from '../types'
+import { logActivity } from './activityStore'
+import { clientStore } from './clientStore'
+import { createPersistentStore, useStoreState } from './createPersistentStore'
+import { emailSettingsStore, getEmailTransport } from './emailStore'
+
+const DUNNING_SETTINGS_STORAGE_KEY = 'dunning-settings.v1'
+const SENT_REMINDERS_STORAGE_KEY = 'dunning-reminders.v1'
+
+export const dunningSettingsStore = createPersistentStore<DunningSettings>(DUNNING_SETTINGS_STORAGE_KEY, () => ({
+  enabled: true,
+  steps: DUNNING_STEPS.map((step) => ({ ...step })),
+}))
+
+// Records from before reminders were emailed carry no status; their steps count as handled so nobody is reminded twice.
+export const sentReminderStore = createPersistentStore<SentReminder[]>(
+  SENT_REMINDERS_STORAGE_KEY,
+  () => [],
+  (stored) => stored.map((reminder) => ({ ...reminder, status: reminder.status ?? 'Sent' })),
+)
+
+export const useDunningSettings = () => useStoreState(dunningSettingsStore)
+
+export const useSentReminders = () => useStoreState(sentReminderStore)
+
+export const setDunningEnabled = (enabled: boolean) => {
+  dunningSettingsStore.setState((prev) => ({ ...prev, enabled }))
+}
+
+export const saveDunningSteps = (steps: DunningStep[]) => {
+  validateDunningSteps(steps)
+  dunningSettingsStore.setState((prev) => ({ ...prev, steps: sortDunningSteps(steps) }))
+}
+
+export const createDunningStep = (): DunningStep => ({
+  id: `dun-${generateId()}`,
+  offsetDays: 30,
+  label: 'Escalation',
+  tone: 'Final',
+  subject: 'Account on hold: {invoiceNumber} is {daysOverdue} days overdue',
+  body: 'Dear {contactName},\n\nInvoice {invoiceNumber} for {amount} remains unpaid.\n\nRegards,\n{organization}',
+})
+
+const deliverReminder = async (reminder: SentReminder, from: string): Promise<SentReminder> => {
+  if (!reminder.recipient) {
+    return { ...reminder, status: 'Failed', error: 'The client has no email address on file.' }
+  }
+  try {
+    const receipt = await getEmailTransport().send({
+      from,
+      to: [reminder.recipient],
+      subject: reminder.subject,
+      text: reminder.body,
+      attachments: [],
+    })
+    return { ...reminder, status: 'Sent', messageId: receipt.messageId }
+  } catch (error) {
+    return { ...reminder, status: 'Failed', error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+const deliverDueReminders = async (invoices: EvaluatedInvoice[], today: Date, actor: string) => {
+  const { steps } = dunningSettingsStore.getSnapshot()
+  const previous = sentReminderStore.getSnapshot()
+  const due = getDueReminders(invoices, steps, previous, today)
+  const clients = clientStore.getSnapshot()
+  const { fromAddress } = emailSettingsStore.getSnapshot()
+  const reminders: SentReminder[] = []
+  // One at a time, so an SMTP relay sees a single connection per reminder rather than a burst.
+  for (const { invoice, step } of due) {
+    const reminder = await deliverReminder(
+      {
+        id: `rem-${generateId()}`,
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        stepId: step.id,
+        sentAt: new Date().toISOString(),
+        recipient: getReminderRecipient(invoice, clients),
+        ...renderReminder(step, invoice, clients, today),
+        status: 'Sent',
+      },
+      fromAddress,
+    )
+    reminders.push(reminder)
+    // Every run retries earlier failures, so an unchanged failure is logged only the first time.
+    const repeatsFailure = previous.some(
+      (entry) =>
+        entry.status === 'Failed' &&
+        entry.invoiceId === invoice.id &&
+        entry.stepId === step.id &&
+        entry.error === reminder.error,
+    )
+    if (repeatsFailure) {
+      continue
+    }
+    logActivity({
+      id: `act-${generateId()}`,
+      timestamp: reminder.sentAt,
+      summary:
+        reminder.status === 'Sent'
+          ? `${step.label} emailed to ${reminder.recipient} for ${invoice.invoiceNumber}`
+          : `${step.label} for ${invoice.invoiceNumber} could not be sent: ${reminder.error}`,
+      actor,
+      activityType: 'reminder',
+      relatedInvoiceId: invoice.id,
+    })
+  }
+  if (reminders.length) {
+    // A retried step replaces its earlier failure instead of piling up beside it.
+    const retried = (entry: SentReminder) =>
+      entry.status === 'Failed' &&
+      reminders.some((reminder) => reminder.invoiceId === entry.invoiceId && reminder.stepId === entry.stepId)
+    sentReminderStore.setState((prev) => [...reminders, ...prev.filter((entry) => !retried(entry))])
+  }
+  return reminders
+}
+
+let pendingRun: Promise<SentReminder[]> | undefined
+
+// Calls made while a batch is still going out share it, so no reminder is emailed twice.
+export const sendDueReminders = (
+  invoices: EvaluatedInvoice[],
+  today: Date = new Date(),
+  actor = 'Collections Suite',
+) => {
+  pendingRun ??= deliverDueReminders(invoices, today, actor).finally(() => {
+    pendingRun = undefined
+  })
+  return pendingRun
+}
@@ -0,0 +1,116 @@
+import { ORGANIZATION } from '../data'
+import { buildMimeMessage, createMessageId, EmailDeliveryError } from '../lib/email'
+import type { EmailTransport } from '../lib/email'
+import { generateId } from '../lib/ids'
+import { createSmtpTransport, openWebSocketSmtpConnection } from '../lib/smtpTransport'
+import type { EmailDelivery, EmailMessage, EmailSettings, InvoiceRecord, MailboxEntry } from '../types'
+import { logActivity } from './activityStore'
+import { createPersistentStore, useStoreState } from './createPersistentStore'
+
+const EMAIL_SETTINGS_STORAGE_KEY = 'email-settings.v1'
+const MAILBOX_STORAGE_KEY = 'mailbox.v1'
+const EMAIL_DELIVERIES_STORAGE_KEY = 'email-deliveries.v1'
+
+// The mailbox shares browser storage with the ledger, so it keeps recent messages and drops large attachments.
+const MAILBOX_LIMIT = 20
+const MAILBOX_RAW_LIMIT = 100_000
+
+export const emailSettingsStore = createPersistentStore<EmailSettings>(EMAIL_SETTINGS_STORAGE_KEY, () => ({
+  attachPdf: false,
+  transport: 'mailbox',
+  fromAddress: ORGANIZATION.contact.email,
+  smtpRelayUrl: '',
+  smtpHeloName: ORGANIZATION.contact.website,
+}))
+
+export const mailboxStore = createPersistentStore<MailboxEntry[]>(
+  MAILBOX_STORAGE_KEY,
+  () => [],
+  (stored) => stored.slice(0, MAILBOX_LIMIT),
+)
+
+export const emailDeliveryStore = createPersistentStore<EmailDelivery[]>(EMAIL_DELIVERIES_STORAGE_KEY, () => [])
+
+export const useEmailSettings = () => useStoreState(emailSettingsStore)
+
+export const useMailbox = () => useStoreState(mailboxStore)
+
+export const useEmailDeliveries = () => useStoreState(emailDeliveryStore)
+
+export const updateEmailSettings = (changes: Partial<EmailSettings>) => {
+  emailSettingsStore.setState((prev) => ({ ...prev, ...changes }))
+}
+
+export const clearMailbox = () => {
+  mailboxStore.setState(() => [])
+}
+
+// Keeps the MIME source so a message can be opened in any mail client during development. A message too large to
+// keep is stored without its attachments, which are still listed by name.
+export const createMailboxTransport = (): EmailTransport => ({
+  kind: 'mailbox',
+  send: async (message: EmailMessage) => {
+    const messageId = createMessageId(message.from)
+    const raw = buildMimeMessage(message, messageId)
+    const entry: MailboxEntry = {
+      id: `mail-${generateId()}`,
+      messageId,
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      sentAt: new Date().toISOString(),
+      attachmentNames: message.attachments.map((attachment) => attachment.fileName),
+      raw: raw.length > MAILBOX_RAW_LIMIT ? buildMimeMessage({ ...message, attachments: [] }, messageId) : raw,
+    }
+    mailboxStore.setState((prev) => [entry, ...prev].slice(0, MAILBOX_LIMIT))
+    return { messageId, accepted: message.to }
+  },
+})
+
+export const getEmailTransport = (settings: EmailSettings = emailSettingsStore.getSnapshot()): EmailTransport => {
+  if (settings.transport === 'smtp') {
+    if (!settings.smtpRelayUrl.trim()) {
+      throw new EmailDeliveryError('Add the SMTP relay address in Settings before sending through SMTP.')
+    }
+    return createSmtpTransport(() => openWebSocketSmtpConnection(settings.smtpRelayUrl.trim()), {
+      heloName: settings.smtpHeloName.trim() || 'localhost',
+    })
+  }
+  return createMailboxTransport()
+}
+
+export const sendInvoiceEmail = async (
+  record: InvoiceRecord,
+  message: EmailMessage,
+  transport: EmailTransport = getEmailTransport(),
+  actor = 'Finance Team',
+) => {
+  const delivery: EmailDelivery = {
+    id: `dlv-${generateId()}`,
+    invoiceId: record.id,
+    invoiceNumber: record.invoiceNumber,
+    to: message.to,
+    subject: message.subject,
+    transport: transport.kind,
+    sentAt: new Date().toISOString(),
+    attachedPdf: message.attachments.length > 0,
+    status: 'Sent',
+  }
+  try {
+    const receipt = await transport.send(message)
+    emailDeliveryStore.setState((prev) => [{ ...delivery, messageId: receipt.messageId }, ...prev])
+    logActivity({
+      id: `act-${generateId()}`,
+      timestamp: delivery.sentAt,
+      summary: `Invoice ${record.invoiceNumber} emailed to ${receipt.accepted.join(', ')} by ${actor}`,
+      actor,
+      activityType: 'invoice',
+      relatedInvoiceId: record.id,
+    })
+    return receipt
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    emailDeliveryStore.setState((prev) => [{ ...delivery, status: 'Failed', error: reason }, ...prev])
+    throw error instanceof EmailDeliveryError ? error : new EmailDeliveryError(`Sending failed: ${reason}`)
+  }
+}
@@ -0,0 +1,34 @@
+import { EXCHANGE_RATES } from '../data'
+import { formatDay } from '../lib/dates'
+import { BASE_CURRENCY, ExchangeRateError } from '../lib/exchangeRates'
+import type { CurrencyCode, ExchangeRate, ExchangeRateTable } from '../types'
+import { createPersistentStore, useStoreState } from './createPersistentStore'
+
+const EXCHANGE_RATES_STORAGE_KEY = 'exchange-rates.v1'
+
+export const exchangeRateStore = createPersistentStore<ExchangeRateTable>(
+  EXCHANGE_RATES_STORAGE_KEY,
+  () => ({ ...EXCHANGE_RATES }),
+  (stored) => ({ ...EXCHANGE_RATES, ...stored }),
+)
+
+export const useExchangeRates = () => useStoreState(exchangeRateStore)
+
+export const updateExchangeRate = (currency: CurrencyCode, rateToBase: number) => {
+  if (currency === BASE_CURRENCY) {
+    throw new ExchangeRateError(`${BASE_CURRENCY} is the base currency and always converts at 1.`)
+  }
+  if (!Number.isFinite(rateToBase) || rateToBase <= 0) {
+    throw new ExchangeRateError(`Enter a positive rate for ${currency}.`)
+  }
+  exchangeRateStore.setState((prev) => ({
+    ...prev,
+    [currency]: { currency, rateToBase, updatedAt: formatDay(new Date()), source: 'Manual' },
+  }))
+}
+
+export const importExchangeRates = (rates: ExchangeRate[]) => {
+  exchangeRateStore.setState((prev) =>
+    rates.reduce<ExchangeRateTable>((acc, rate) => ({ ...acc, [rate.currency]: rate }), { ...prev }),
+  )
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { toBaseAmount } from '../lib/exchangeRates'
+import { isDraftNumber } from '../lib/numbering'
+import type { InvoiceRecord } from '../types'
+import { activityStore } from './activityStore'
+import { exchangeRateStore, updateExchangeRate } from './exchangeRateStore'
+import { invoiceStore, transitionInvoiceStatus } from './invoiceStore'
+
+const addDraft = (changes: Partial<InvoiceRecord> = {}) => {
+  const draft: InvoiceRecord = {
+    id: `inv-test-${invoiceStore.getSnapshot().length}`,
+    invoiceNumber: 'DRAFT-TEST',
+    clientId: 'cl-1',
+    engagement: 'Retainer',
+    currency: 'INR',
+    amount: 11800,
+    status: 'Draft',
+    issueDate: '2025-09-01',
+    dueDate: '2025-09-30',
+    lastUpdated: '2025-09-01',
+    ...changes,
+  }
+  invoiceStore.setState((prev) => [draft, ...prev])
+  return draft
+}
+
+describe('transitionInvoiceStatus', () => {
+  it('allocates a series number when a draft is issued from the invoices table', () => {
+    const draft = addDraft()
+    const issued = transitionInvoiceStatus(draft.id, 'Pending')
+    expect(issued.status).toBe('Pending')
+    expect(isDraftNumber(issued.invoiceNumber)).toBe(false)
+    expect(issued.invoiceNumber).toMatch(/^ADS-2025-\d{3}$/)
+    expect(invoiceStore.getSnapshot().find((record) => record.id === draft.id)?.invoiceNumber).toBe(
+      issued.invoiceNumber,
+    )
+    expect(activityStore.getSnapshot()[0].summary).toContain(issued.invoiceNumber)
+  })
+
+  it('keeps the number of an invoice moving between issued states', () => {
+    const issued = transitionInvoiceStatus(addDraft().id, 'Pending')
+    expect(transitionInvoiceStatus(issued.id, 'Paid').invoiceNumber).toBe(issued.invoiceNumber)
+  })
+
+  it('locks the exchange rate of a foreign-currency invoice issued from the table', () => {
+    updateExchangeRate('USD', 84)
+    const issued = transitionInvoiceStatus(addDraft({ currency: 'USD', amount: 1000 }).id, 'Pending')
+    expect(issued.exchangeRate).toBe(84)
+    updateExchangeRate('USD', 90)
+    expect(toBaseAmount(issued.amount, issued, exchangeRateStore.getSnapshot())).toBe(84000)
+  })
+})
@@ -0,0 +1,135 @@
+import { INVOICE_LEDGER } from '../data'
+import { getRateToBase } from '../lib/exchangeRates'
+import { generateId } from '../lib/ids'
+import { normalizeFormState } from '../lib/invoiceForm'
+import { assertInvoiceEditable, InvoiceLifecycleError, transitionInvoice } from '../lib/invoiceLifecycle'
+import { calculateInvoiceTotals } from '../lib/invoiceTotals'
+import { readStoredJson, removeStoredJson } from '../lib/storage'
+import type { InvoiceFormState, InvoiceRecord, InvoiceStatus, StoredInvoice } from '../types'
+import { logActivity } from './activityStore'
+import { createPersistentStore, useStoreState } from './createPersistentStore'
+import { exchangeRateStore } from './exchangeRateStore'
+import { allocateDocumentNumber } from './numberingStore'
+
+const INVOICE_LEDGER_STORAGE_KEY = 'invoice-ledger.v1'
+// Older builds kept builder saves in a separate archive that no other view read.
+const LEGACY_ARCHIVE_STORAGE_KEY = 'invoice-archive.v1'
+
+const buildRecordFromForm = (
+  formState: InvoiceFormState,
+  existing?: InvoiceRecord,
+  savedAt = new Date().toISOString(),
+): InvoiceRecord => ({
+  id: existing?.id ?? `inv-${generateId()}`,
+  invoiceNumber: formState.meta.invoiceNumber.trim(),
+  clientId: formState.clientSelectionId,
+  engagement: formState.meta.projectName,
+  currency: formState.currency,
+  amount: calculateInvoiceTotals(formState).total,
+  status: existing?.status ?? 'Draft',
+  issueDate: formState.meta.issueDate,
+  dueDate: formState.meta.dueDate,
+  lastUpdated: savedAt.split('T')[0],
+  formState: JSON.parse(JSON.stringify(formState)) as InvoiceFormState,
+  instalments: formState.instalments?.length ? formState.instalments.map((item) => ({ ...item })) : undefined,
+})
+
+// Archived copies become drafts; the newest copy of each number wins and numbers already in the ledger are kept.
+const importLegacyArchive = (records: InvoiceRecord[]) => {
+  const archive = readStoredJson<StoredInvoice[]>(LEGACY_ARCHIVE_STORAGE_KEY)
+  if (!Array.isArray(archive)) {
+    return records
+  }
+  const knownNumbers = new Set(records.map((record) => record.invoiceNumber))
+  const imported = [...archive]
+    .filter((copy) => copy?.formState?.meta?.invoiceNumber?.trim())
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+    .reduce<InvoiceRecord[]>((acc, copy) => {
+      const invoiceNumber = copy.formState.meta.invoiceNumber.trim()
+      if (!knownNumbers.has(invoiceNumber)) {
+        knownNumbers.add(invoiceNumber)
+        acc.push(buildRecordFromForm(normalizeFormState(copy.formState), undefined, copy.savedAt))
+      }
+      return acc
+    }, [])
+  return [...imported, ...records]
+}
+
+export const invoiceStore = createPersistentStore<InvoiceRecord[]>(
+  INVOICE_LEDGER_STORAGE_KEY,
+  () => importLegacyArchive(INVOICE_LEDGER.map((record) => ({ ...record }))),
+  importLegacyArchive,
+)
+
+// The merged ledger is written before the archive is dropped, so the import happens exactly once.
+if (readStoredJson(LEGACY_ARCHIVE_STORAGE_KEY) !== null) {
+  invoiceStore.setState((prev) => prev)
+  removeStoredJson(LEGACY_ARCHIVE_STORAGE_KEY)
+}
+
+export const useInvoiceLedger = () => useStoreState(invoiceStore)
+
+export const findInvoiceByNumber = (invoiceNumber: string) =>
+  invoiceStore.getSnapshot().find((record) => record.invoiceNumber === invoiceNumber.trim())
+
+export const saveInvoiceFromForm = (formState: InvoiceFormState): InvoiceRecord => {
+  const existing = findInvoiceByNumber(formState.meta.invoiceNumber)
+  if (existing) {
+    assertInvoiceEditable(existing)
+  }
+  const record = buildRecordFromForm(formState, existing)
+  invoiceStore.setState((prev) =>
+    existing ? prev.map((entry) => (entry.id === existing.id ? record : entry)) : [record, ...prev],
+  )
+  return record
+}
+
+// Only drafts can be removed; an issued invoice keeps its number and is voided instead.
+export const deleteDraftInvoice = (invoiceId: string) => {
+  const current = invoiceStore.getSnapshot().find((record) => record.id === invoiceId)
+  if (!current) {
+    return
+  }
+  assertInvoiceEditable(current)
+  invoiceStore.setState((prev) => prev.filter((record) => record.id !== invoiceId))
+}
+
+const commitTransition = (current: InvoiceRecord, nextStatus: InvoiceStatus, actor: string) => {
+  const { record, activity } = transitionInvoice(current, nextStatus, actor)
+  invoiceStore.setState((prev) => prev.map((entry) => (entry.id === record.id ? record : entry)))
+  logActivity(activity)
+  return record
+}
+
+// Drafts carry a placeholder number and follow the live exchange rate. Both are fixed here, so an invoice issued
+// from the table gets the same number and locked rate as one issued from the builder.
+const issueDraft = (draft: InvoiceRecord, actor: string) => {
+  const exchangeRate = getRateToBase(draft.currency, exchangeRateStore.getSnapshot())
+  const usedNumbers = invoiceStore
+    .getSnapshot()
+    .filter((record) => record.id !== draft.id)
+    .map((record) => record.invoiceNumber)
+  const invoiceNumber = allocateDocumentNumber('invoice', draft.issueDate, usedNumbers)
+  const numbered: InvoiceRecord = {
+    ...draft,
+    invoiceNumber,
+    exchangeRate,
+    formState: draft.formState && { ...draft.formState, meta: { ...draft.formState.meta, invoiceNumber } },
+  }
+  return commitTransition(numbered, 'Pending', actor)
+}
+
+export const transitionInvoiceStatus = (invoiceId: string, nextStatus: InvoiceStatus, actor = 'Finance Team') => {
+  const current = invoiceStore.getSnapshot().find((record) => record.id === invoiceId)
+  if (!current) {
+    throw new InvoiceLifecycleError(`Invoice ${invoiceId} does not exist in the ledger.`)
+  }
+  return current.status === 'Draft' && nextStatus === 'Pending'
+    ? issueDraft(current, actor)
+    : commitTransition(current, nextStatus, actor)
+}
+
+export const issueInvoiceFromForm = (formState: InvoiceFormState, actor = 'Finance Team') => {
+  const draft = saveInvoiceFromForm(formState)
+  return transitionInvoiceStatus(draft.id, 'Pending', actor)
+}
@@ -0,0 +1,44 @@
+import { NUMBERING_SERIES } from '../data'
+import { allocateNumber, NumberingError, validateNumberingSeries } from '../lib/numbering'
+import { readStoredJson } from '../lib/storage'
+import type { NumberingSeries, NumberingSeriesId, NumberingState } from '../types'
+import { createPersistentStore, useStoreState } from './createPersistentStore'
+
+const NUMBERING_STORAGE_KEY = 'numbering-series.v1'
+
+export const numberingStore = createPersistentStore<NumberingState>(NUMBERING_STORAGE_KEY, () => ({
+  series: JSON.parse(JSON.stringify(NUMBERING_SERIES)) as NumberingState['series'],
+  counters: {},
+}))
+
+export const useNumbering = () => useStoreState(numberingStore)
+
+export const updateNumberingSeries = (
+  id: NumberingSeriesId,
+  changes: Partial<Omit<NumberingSeries, 'id' | 'label'>>,
+) => {
+  const { series } = numberingStore.getSnapshot()
+  const next: NumberingSeries = { ...series[id], ...changes, prefix: (changes.prefix ?? series[id].prefix).trim() }
+  validateNumberingSeries(next)
+  // Distinct prefixes keep each series from ever producing a number another series has used.
+  const clash = Object.values(series).find(
+    (entry) => entry.id !== id && entry.prefix.toUpperCase() === next.prefix.toUpperCase(),
+  )
+  if (clash) {
+    throw new NumberingError(`${next.label}: prefix ${next.prefix} is already used by ${clash.label.toLowerCase()}.`)
+  }
+  numberingStore.setState((prev) => ({ ...prev, series: { ...prev.series, [id]: next } }))
+  return next
+}
+
+export const allocateDocumentNumber = (seriesId: NumberingSeriesId, issueDate: string, usedNumbers: Iterable<string>) => {
+  let allocated = ''
+  numberingStore.setState((prev) => {
+    // Another tab may have allocated since this one last synced, so start from what is persisted.
+    const latest = readStoredJson<NumberingState>(NUMBERING_STORAGE_KEY) ?? prev
+    const result = allocateNumber(latest.series[seriesId], latest.counters, new Set(usedNumbers), issueDate)
+    allocated = result.number
+    return { ...latest, counters: result.counters }
+  })
+  return allocated
+}
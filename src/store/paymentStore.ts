@@ -0,0 +1,61 @@
+import { PAYMENT_TRANSACTIONS } from '../data'
+import { formatMoney } from '../lib/currency'
+import { generateId } from '../lib/ids'
+import { validateAllocations } from '../lib/payments'
+import type { CurrencyCode, EvaluatedInvoice, PaymentAllocation, PaymentMethod, PaymentTransaction } from '../types'
+import { logActivity } from './activityStore'
+import { createPersistentStore, useStoreState } from './createPersistentStore'
+
+const PAYMENT_TRANSACTIONS_STORAGE_KEY = 'payment-transactions.v1'
+
+export type ManualPayment = {
+  clientId: string
+  amount: number
+  currency: CurrencyCode
+  method: PaymentMethod
+  receivedAt: string
+  reference: string
+  allocations: PaymentAllocation[]
+}
+
+export const paymentStore = createPersistentStore<PaymentTransaction[]>(PAYMENT_TRANSACTIONS_STORAGE_KEY, () =>
+  PAYMENT_TRANSACTIONS.map((txn) => ({ ...txn })),
+)
+
+export const usePaymentTransactions = () => useStoreState(paymentStore)
+
+export const addPaymentTransactions = (transactions: PaymentTransaction[]) => {
+  paymentStore.setState((prev) => [...transactions, ...prev])
+}
+
+// Receipts recorded by hand have already settled in the bank, so they carry no gateway fee.
+export const recordPayment = (payment: ManualPayment, invoices: EvaluatedInvoice[], actor = 'Finance Team') => {
+  const allocations = validateAllocations(payment.amount, payment.currency, payment.allocations, invoices)
+  const txn: PaymentTransaction = {
+    id: `txn-${generateId()}`,
+    invoiceId: allocations[0].invoiceId,
+    clientId: payment.clientId,
+    amount: payment.amount,
+    currency: payment.currency,
+    method: payment.method,
+    status: 'Succeeded',
+    receivedAt: payment.receivedAt,
+    feeAmount: 0,
+    netAmount: payment.amount,
+    reference: payment.reference.trim() || `MANUAL-${Date.now()}`,
+    allocations,
+  }
+  addPaymentTransactions([txn])
+  const invoiceNumbers = allocations
+    .map((allocation) => invoices.find((invoice) => invoice.id === allocation.invoiceId)?.invoiceNumber)
+    .join(', ')
+  logActivity({
+    id: `act-${generateId()}`,
+    timestamp: new Date().toISOString(),
+    summary: `Payment ${txn.reference} of ${formatMoney(txn.amount, txn.currency)} allocated to ${invoiceNumbers}`,
+    actor,
+    activityType: 'payment',
+    relatedInvoiceId: allocations.length === 1 ? allocations[0].invoiceId : undefined,
+  })
+  return txn
+}
@@ -0,0 +1,96 @@
+import { daysBetween } from '../lib/dates'
+import { generateId } from '../lib/ids'
+import {
+  buildRecurringInvoice,
+  getDueRuns,
+  RECURRING_CADENCE_LABELS,
+  RecurringProfileError,
+  validateRecurringProfile,
+} from '../lib/recurring'
+import type { InvoiceFormState, InvoiceRecord, RecurringProfile } from '../types'
+import { logActivity } from './activityStore'
+import { createPersistentStore, useStoreState } from './createPersistentStore'
+import { issueInvoiceFromForm } from './invoiceStore'
+
+const RECURRING_PROFILES_STORAGE_KEY = 'recurring-profiles.v1'
+
+export type RecurringProfileChanges = Partial<
+  Pick<
+    RecurringProfile,
+    'name' | 'cadence' | 'intervalMonths' | 'startDate' | 'endDate' | 'paymentTermsDays' | 'proration' | 'status'
+  >
+>
+
+export const recurringStore = createPersistentStore<RecurringProfile[]>(RECURRING_PROFILES_STORAGE_KEY, () => [])
+
+export const useRecurringProfiles = () => useStoreState(recurringStore)
+
+export const createRecurringProfile = (template: InvoiceFormState, actor = 'Finance Team') => {
+  const { issueDate, dueDate, projectName } = template.meta
+  const profile: RecurringProfile = {
+    id: `rec-${generateId()}`,
+    name: projectName.trim() || template.client.companyName,
+    clientId: template.clientSelectionId,
+    template: JSON.parse(JSON.stringify(template)) as InvoiceFormState,
+    cadence: 'monthly',
+    intervalMonths: 1,
+    startDate: issueDate,
+    paymentTermsDays: Math.max(daysBetween(issueDate, dueDate), 0),
+    proration: 'none',
+    status: 'Active',
+    invoiceIds: [],
+    createdAt: new Date().toISOString(),
+  }
+  validateRecurringProfile(profile)
+  recurringStore.setState((prev) => [profile, ...prev])
+  logActivity({
+    id: `act-${generateId()}`,
+    timestamp: profile.createdAt,
+    summary: `Recurring profile "${profile.name}" created by ${actor}`,
+    actor,
+    activityType: 'invoice',
+  })
+  return profile
+}
+
+export const updateRecurringProfile = (id: string, changes: RecurringProfileChanges) => {
+  const current = recurringStore.getSnapshot().find((profile) => profile.id === id)
+  if (!current) {
+    throw new RecurringProfileError(`Recurring profile ${id} does not exist.`)
+  }
+  const next: RecurringProfile = { ...current, ...changes, endDate: (changes.endDate ?? current.endDate) || undefined }
+  validateRecurringProfile(next)
+  recurringStore.setState((prev) => prev.map((profile) => (profile.id === id ? next : profile)))
+  return next
+}
+
+export const deleteRecurringProfile = (id: string) => {
+  recurringStore.setState((prev) => prev.filter((profile) => profile.id !== id))
+}
+
+// Each run is recorded as soon as its invoice is issued, so a failure part-way never bills a period twice.
+export const generateDueInvoices = (asOf: string, actor = 'Finance Team') => {
+  const issued: InvoiceRecord[] = []
+  recurringStore.getSnapshot().forEach((profile) => {
+    getDueRuns(profile, asOf).forEach((run) => {
+      const record = issueInvoiceFromForm(buildRecurringInvoice(profile, run), actor)
+      recurringStore.setState((prev) =>
+        prev.map((entry) =>
+          entry.id === profile.id
+            ? { ...entry, lastPeriodStart: run.periodStart, invoiceIds: [...entry.invoiceIds, record.id] }
+            : entry,
+        ),
+      )
+      logActivity({
+        id: `act-${generateId()}`,
+        timestamp: new Date().toISOString(),
+        summary: `${RECURRING_CADENCE_LABELS[profile.cadence]} run of "${profile.name}" raised ${record.invoiceNumber}`,
+        actor,
+        activityType: 'invoice',
+        relatedInvoiceId: record.id,
+      })
+      issued.push(record)
+    })
+  })
+  return issued
+}
@@ -0,0 +1,115 @@
+import { PAYMENT_GATEWAY } from '../data'
+import { generateId } from '../lib/ids'
+import {
+  applyWebhookEvent,
+  createTestWebhookBody,
+  parseWebhookEvent,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WebhookError,
+} from '../lib/webhooks'
+import type { EvaluatedInvoice, InvoiceRecord, WebhookDelivery, WebhookEvent, WebhookSettings } from '../types'
+import { logActivity } from './activityStore'
+import { createPersistentStore, useStoreState } from './createPersistentStore'
+import { paymentStore } from './paymentStore'
+
+const WEBHOOK_SETTINGS_STORAGE_KEY = 'webhook-settings.v1'
+const WEBHOOK_DELIVERIES_STORAGE_KEY = 'webhook-deliveries.v1'
+
+// The secret signs payments, so it comes from the platform CSPRNG rather than Math.random.
+export const createWebhookSecret = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return `whsec_${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`
+}
+
+export const webhookSettingsStore = createPersistentStore<WebhookSettings>(WEBHOOK_SETTINGS_STORAGE_KEY, () => ({
+  secret: createWebhookSecret(),
+}))
+
+export const webhookDeliveryStore = createPersistentStore<WebhookDelivery[]>(WEBHOOK_DELIVERIES_STORAGE_KEY, () => [])
+
+export const useWebhookSettings = () => useStoreState(webhookSettingsStore)
+
+export const useWebhookDeliveries = () => useStoreState(webhookDeliveryStore)
+
+export const updateWebhookSettings = (changes: Partial<WebhookSettings>) => {
+  webhookSettingsStore.setState((prev) => ({ ...prev, ...changes }))
+}
+
+// The gateway retries until it gets a 2xx, so a redelivered event is acknowledged without being applied twice.
+export const receiveWebhook = async (
+  body: string,
+  signature: string,
+  invoices: InvoiceRecord[],
+  secret: string = webhookSettingsStore.getSnapshot().secret,
+) => {
+  const delivery: WebhookDelivery = {
+    id: `whk-${generateId()}`,
+    receivedAt: new Date().toISOString(),
+    outcome: 'Processed',
+    message: '',
+    body,
+    signature,
+  }
+  const record = (changes: Partial<WebhookDelivery>) => {
+    const entry = { ...delivery, ...changes }
+    webhookDeliveryStore.setState((prev) => [entry, ...prev])
+    return entry
+  }
+
+  let event: WebhookEvent | undefined
+  try {
+    if (!(await verifyWebhookSignature(body, signature, secret))) {
+      throw new WebhookError('The signature does not match the configured webhook secret.')
+    }
+    const parsed = parseWebhookEvent(body)
+    event = parsed
+    const alreadyProcessed = webhookDeliveryStore
+      .getSnapshot()
+      .some((entry) => entry.eventId === parsed.id && entry.outcome === 'Processed')
+    if (alreadyProcessed) {
+      return record({
+        eventId: parsed.id,
+        eventType: parsed.type,
+        outcome: 'Duplicate',
+        message: `Event ${parsed.id} was already processed.`,
+      })
+    }
+    const result = applyWebhookEvent(parsed, paymentStore.getSnapshot(), invoices)
+    paymentStore.setState(() => result.transactions)
+    logActivity({
+      id: `act-${generateId()}`,
+      timestamp: delivery.receivedAt,
+      summary: `${result.summary} via ${PAYMENT_GATEWAY.providerName} webhook`,
+      actor: PAYMENT_GATEWAY.providerName,
+      activityType: 'payment',
+      relatedInvoiceId: result.transaction.invoiceId || undefined,
+    })
+    return record({ eventId: parsed.id, eventType: parsed.type, message: result.summary })
+  } catch (error) {
+    // Anything unexpected, such as WebCrypto failing, is still a rejected delivery the gateway will retry.
+    const rejection =
+      error instanceof WebhookError
+        ? error
+        : new WebhookError(`The delivery could not be processed: ${error instanceof Error ? error.message : String(error)}`)
+    record({ eventId: event?.id, eventType: event?.type, outcome: 'Rejected', message: rejection.message })
+    throw rejection
+  }
+}
+
+// Stands in for the gateway: signs a captured payment for the most overdue open invoice and delivers it locally.
+export const sendTestWebhook = async (invoices: EvaluatedInvoice[]) => {
+  const invoice = invoices
+    .filter((record) => record.evaluation.outstanding > 0)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate))[0]
+  if (!invoice) {
+    throw new WebhookError('There is no open invoice to simulate a payment against.')
+  }
+  const channel = PAYMENT_GATEWAY.channels.find((entry) => entry.status === 'Enabled') ?? PAYMENT_GATEWAY.channels[0]
+  const body = createTestWebhookBody(invoice, channel.method)
+  const signature = await signWebhookPayload(body, webhookSettingsStore.getSnapshot().secret)
+  return receiveWebhook(body, signature, invoices)
+}
+
+export const redeliverWebhook = (delivery: WebhookDelivery, invoices: InvoiceRecord[]) =>
+  receiveWebhook(delivery.body, delivery.signature, invoices)
@@ -7,6 +7,8 @@ export interface Service {
   description: string
   unit: string
   unitRate: number
+  sacCode: string
+  taxRate: number
 }
 
 export interface ClientProfile {
@@ -22,9 +24,10 @@ export interface ClientProfile {
   postalCode: string
   country: string
   gstin?: string
+  archived?: boolean
 }
 
-export interface ClientDetails extends Omit<ClientProfile, 'id'> {}
+export interface ClientDetails extends Omit<ClientProfile, 'id' | 'archived'> {}
 
 export interface LineItem {
   id: string
@@ -33,6 +36,8 @@ export interface LineItem {
   quantity: number
   unitPrice: number
   discountRate: number
+  sacCode: string
+  taxRate: number
   notes?: string
 }
 
@@ -45,30 +50,201 @@ export interface InvoiceMeta {
   reference?: string
 }
 
+export type CurrencyCode =
+  | 'INR'
+  | 'USD'
+  | 'EUR'
+  | 'GBP'
+  | 'AED'
+  | 'SGD'
+  | 'AUD'
+  | 'CAD'
+  | 'CHF'
+  | 'JPY'
+  | 'SAR'
+  | 'KWD'
+
+export interface CurrencyDefinition {
+  code: CurrencyCode
+  name: string
+  minorUnits: number
+  locale: string
+  symbol: string
+  symbolPosition: 'before' | 'after'
+  roundingIncrement: number
+}
+
+export type RoundingMode = 'half-up' | 'half-even'
+
+export type RoundingLevel = 'line' | 'invoice'
+
+export interface MoneyRoundingPolicy {
+  mode: RoundingMode
+  level: RoundingLevel
+}
+
+export interface Instalment {
+  id: string
+  label: string
+  dueDate: string
+  amount: number
+}
+
 export interface InvoiceFormState {
   clientSelectionId: string
   client: ClientDetails
-  currency: 'INR' | 'USD' | 'EUR'
+  currency: CurrencyCode
   taxRate: number
   lineItems: LineItem[]
   meta: InvoiceMeta
   terms: string
   additionalNote: string
+  instalments?: Instalment[]
+}
+
+export type ClientFieldErrors = Partial<Record<keyof ClientDetails, string>>
+
+export interface InvoiceFormErrors {
+  client: ClientFieldErrors
+  meta: Partial<Record<keyof InvoiceMeta, string>>
+  lineItems: Record<string, string>
+  instalments: Record<string, string>
+  general: string[]
 }
 
-export type InvoiceStatus = 'Draft' | 'Pending' | 'Paid' | 'Overdue'
+export type InvoiceStatus = 'Draft' | 'Pending' | 'Partially Paid' | 'Paid' | 'Overdue' | 'Void' | 'Written Off'
 
 export interface InvoiceRecord {
   id: string
   invoiceNumber: string
   clientId: string
   engagement: string
-  currency: InvoiceFormState['currency']
+  currency: CurrencyCode
   amount: number
   status: InvoiceStatus
   issueDate: string
   dueDate: string
   lastUpdated: string
+  formState?: InvoiceFormState
+  exchangeRate?: number
+  instalments?: Instalment[]
+}
+
+export type RecurringCadence = 'monthly' | 'quarterly' | 'custom'
+
+export type RecurringProration = 'none' | 'daily'
+
+export interface RecurringProfile {
+  id: string
+  name: string
+  clientId: string
+  template: InvoiceFormState
+  cadence: RecurringCadence
+  intervalMonths: number
+  startDate: string
+  endDate?: string
+  paymentTermsDays: number
+  proration: RecurringProration
+  status: 'Active' | 'Paused'
+  lastPeriodStart?: string
+  invoiceIds: string[]
+  createdAt: string
+}
+
+export interface RecurringRun {
+  profileId: string
+  periodStart: string
+  periodEnd: string
+  issueDate: string
+  dueDate: string
+  prorationFactor: number
+  coveredDays: number
+  periodDays: number
+}
+
+export type DunningTone = 'Courtesy' | 'Firm' | 'Final'
+
+export interface DunningStep {
+  id: string
+  offsetDays: number
+  label: string
+  tone: DunningTone
+  subject: string
+  body: string
+}
+
+export interface DunningSettings {
+  enabled: boolean
+  steps: DunningStep[]
+}
+
+export interface SentReminder {
+  id: string
+  invoiceId: string
+  invoiceNumber: string
+  stepId: string
+  sentAt: string
+  recipient: string
+  subject: string
+  body: string
+  status: 'Sent' | 'Failed'
+  messageId?: string
+  error?: string
+}
+
+export interface DueReminder {
+  invoice: EvaluatedInvoice
+  step: DunningStep
+  daysFromDue: number
+}
+
+export type EmailTransportKind = 'mailbox' | 'smtp'
+
+export interface EmailSettings {
+  attachPdf: boolean
+  transport: EmailTransportKind
+  fromAddress: string
+  smtpRelayUrl: string
+  smtpHeloName: string
+}
+
+export interface EmailAttachment {
+  fileName: string
+  contentType: string
+  content: Uint8Array
+}
+
+export interface EmailMessage {
+  from: string
+  to: string[]
+  subject: string
+  text: string
+  attachments: EmailAttachment[]
+}
+
+export interface MailboxEntry {
+  id: string
+  messageId: string
+  from: string
+  to: string[]
+  subject: string
+  sentAt: string
+  attachmentNames: string[]
+  raw: string
+}
+
+export interface EmailDelivery {
+  id: string
+  invoiceId: string
+  invoiceNumber: string
+  to: string[]
+  subject: string
+  transport: EmailTransportKind
+  sentAt: string
+  attachedPdf: boolean
+  status: 'Sent' | 'Failed'
+  messageId?: string
+  error?: string
 }
 
 export interface StoredInvoice {
@@ -124,23 +300,82 @@ export interface PaymentGatewayConfig {
     keyEnding: string
     webhookUrl: string
   }
+  checkoutUrl: string
   channels: PaymentGatewayChannel[]
 }
 
-export type PaymentTransactionStatus = 'Succeeded' | 'Pending' | 'Failed'
+export interface PaymentLinkRequest {
+  invoiceNumber: string
+  amount: number
+  currency: CurrencyCode
+  clientName?: string
+}
+
+export type PaymentOptionKind = 'upi' | 'checkout'
+
+export interface PaymentOption {
+  kind: PaymentOptionKind
+  label: string
+  description: string
+  url: string
+  methods: PaymentMethod[]
+}
+
+export type PaymentTransactionStatus = 'Succeeded' | 'Pending' | 'Failed' | 'Refunded'
+
+export interface PaymentAllocation {
+  invoiceId: string
+  amount: number
+}
 
 export interface PaymentTransaction {
   id: string
   invoiceId: string
   clientId: string
   amount: number
-  currency: InvoiceFormState['currency']
+  currency: CurrencyCode
   method: PaymentMethod
   status: PaymentTransactionStatus
   receivedAt: string
   feeAmount: number
   netAmount: number
   reference: string
+  allocations?: PaymentAllocation[]
+  gatewayPaymentId?: string
+  refundedAmount?: number
+}
+
+export type WebhookEventType = 'payment.captured' | 'payment.failed' | 'refund.processed'
+
+export interface WebhookEvent {
+  id: string
+  type: WebhookEventType
+  occurredAt: string
+  paymentId: string
+  invoiceNumber: string
+  amount: number
+  currency: CurrencyCode
+  method?: PaymentMethod
+  feeAmount: number
+  reference: string
+  failureReason?: string
+}
+
+export interface WebhookSettings {
+  secret: string
+}
+
+export type WebhookDeliveryOutcome = 'Processed' | 'Duplicate' | 'Rejected'
+
+export interface WebhookDelivery {
+  id: string
+  receivedAt: string
+  eventId?: string
+  eventType?: string
+  outcome: WebhookDeliveryOutcome
+  message: string
+  body: string
+  signature: string
 }
 
 export interface ServiceShowcase {
@@ -151,3 +386,309 @@ export interface ServiceShowcase {
   persona: string
   projectedTimeline: string
 }
+
+export type GstSupplyType = 'intra-state' | 'inter-state'
+
+export type TaxComponentCode = 'CGST' | 'SGST' | 'UGST' | 'IGST'
+
+export interface TaxComponent {
+  code: TaxComponentCode
+  rate: number
+  amount: number
+}
+
+export interface TaxBreakdown {
+  supplyType: GstSupplyType
+  placeOfSupply: string
+  components: TaxComponent[]
+  totalTax: number
+}
+
+export interface TaxableLine {
+  taxableAmount: number
+  taxRate: number
+  sacCode?: string
+}
+
+export interface TaxRateSummary {
+  rate: number
+  sacCodes: string[]
+  taxableAmount: number
+  components: TaxComponent[]
+  totalTax: number
+}
+
+export interface GstSummary {
+  supplyType: GstSupplyType
+  placeOfSupply: string
+  rows: TaxRateSummary[]
+  components: TaxComponent[]
+  totalTax: number
+}
+
+export interface InvoiceLineTotals {
+  item: LineItem
+  lineBase: number
+  lineDiscount: number
+  lineTotal: number
+}
+
+export interface InvoiceTotals {
+  lines: InvoiceLineTotals[]
+  subtotal: number
+  discountTotal: number
+  taxableAmount: number
+  tax: GstSummary
+  total: number
+}
+
+export type InstalmentStatus = 'Upcoming' | 'Partially Paid' | 'Paid' | 'Overdue'
+
+export interface InstalmentProgress extends Instalment {
+  paid: number
+  outstanding: number
+  status: InstalmentStatus
+  daysPastDue: number
+}
+
+export interface InvoiceStatusEvaluation {
+  status: InvoiceStatus
+  daysPastDue: number
+  paidAmount: number
+  adjustedAmount: number
+  outstanding: number
+  instalments?: InstalmentProgress[]
+}
+
+export type EvaluatedInvoice = InvoiceRecord & { evaluation: InvoiceStatusEvaluation }
+
+export type AdjustmentNoteKind = 'Credit Note' | 'Debit Note'
+
+export interface AdjustmentNote {
+  id: string
+  kind: AdjustmentNoteKind
+  noteNumber: string
+  invoiceId: string
+  invoiceNumber: string
+  clientId: string
+  client: ClientDetails
+  currency: CurrencyCode
+  issueDate: string
+  reason: string
+  lineItems: LineItem[]
+  amount: number
+  createdAt: string
+}
+
+export interface ExchangeRate {
+  currency: CurrencyCode
+  rateToBase: number
+  updatedAt: string
+  source: 'Default' | 'Manual' | 'Import'
+}
+
+export type ExchangeRateTable = Record<CurrencyCode, ExchangeRate>
+
+export type NumberingSeriesId = 'invoice' | 'credit-note' | 'debit-note'
+
+export interface NumberingSeries {
+  id: NumberingSeriesId
+  label: string
+  prefix: string
+  pattern: string
+  padding: number
+  resetEachFinancialYear: boolean
+}
+
+export interface NumberingState {
+  series: Record<NumberingSeriesId, NumberingSeries>
+  counters: Record<string, number>
+}
+
+export type ReconciliationState = 'Unpaid' | 'Partially paid' | 'Settled' | 'Overpaid'
+
+export interface InvoiceReconciliation {
+  invoiceId: string
+  invoiceNumber: string
+  clientId: string
+  currency: CurrencyCode
+  billed: number
+  paid: number
+  pending: number
+  fees: number
+  net: number
+  outstanding: number
+  overpaid: number
+  state: ReconciliationState
+  transactionIds: string[]
+}
+
+export type ReconciliationExceptionType =
+  | 'overpayment'
+  | 'failed-attempt'
+  | 'unmatched-receipt'
+  | 'currency-mismatch'
+  | 'missing-receipt'
+
+export interface ReconciliationException {
+  type: ReconciliationExceptionType
+  transactionId?: string
+  invoiceId?: string
+  amount: number
+  currency: CurrencyCode
+  message: string
+}
+
+export interface ReconciliationReport {
+  generatedAt: string
+  invoices: InvoiceReconciliation[]
+  exceptions: ReconciliationException[]
+  totals: {
+    billed: number
+    collected: number
+    outstanding: number
+    fees: number
+    overpaid: number
+  }
+}
+
+export type BankStatementFormat = 'csv' | 'mt940' | 'camt053'
+
+export interface BankStatementEntry {
+  id: string
+  bookingDate: string
+  amount: number
+  currency: CurrencyCode
+  reference: string
+  counterparty: string
+  narrative: string
+}
+
+export interface InvoiceMatchSuggestion {
+  invoiceId: string
+  invoiceNumber: string
+  score: number
+  reasons: string[]
+}
+
+export type StatementEntryKind = 'Invoice' | 'Payment' | 'Credit Note' | 'Debit Note' | 'Settlement' | 'Write-off'
+
+export interface StatementEntry {
+  id: string
+  date: string
+  kind: StatementEntryKind
+  reference: string
+  description: string
+  debit: number
+  credit: number
+  balance: number
+}
+
+export interface ClientStatement {
+  clientId: string
+  from: string
+  to: string
+  currency: CurrencyCode
+  openingBalance: number
+  closingBalance: number
+  totalDebits: number
+  totalCredits: number
+  entries: StatementEntry[]
+  generatedAt: string
+}
+
+export type AgingBucket = 'current' | '1-30' | '31-60' | '61-90' | '90+'
+
+export interface AgingInvoice {
+  key: string
+  invoiceId: string
+  invoiceNumber: string
+  instalmentLabel?: string
+  dueDate: string
+  daysPastDue: number
+  bucket: AgingBucket
+  outstanding: number
+  baseOutstanding: number
+}
+
+export interface AgingRow {
+  key: string
+  clientId: string
+  currency: CurrencyCode
+  buckets: Record<AgingBucket, number>
+  total: number
+  baseTotal: number
+  invoices: AgingInvoice[]
+}
+
+export interface AgingReport {
+  asOf: string
+  currency: CurrencyCode
+  rows: AgingRow[]
+  totals: Record<AgingBucket, number>
+  total: number
+}
+
+export type RevenuePeriod = 'month' | 'quarter' | 'year'
+
+export type RevenueCategory = ServiceCategory | 'Uncategorised'
+
+export interface RevenueBreakdown {
+  key: string
+  label: string
+  billed: number
+  collected: number
+}
+
+export interface RevenuePeriodSummary {
+  from: string
+  to: string
+  billed: number
+  collected: number
+  dso: number | null
+}
+
+export interface RevenueAnalytics {
+  currency: CurrencyCode
+  current: RevenuePeriodSummary
+  previous: RevenuePeriodSummary
+  months: RevenueBreakdown[]
+  byCategory: RevenueBreakdown[]
+  byClient: RevenueBreakdown[]
+  byEngagement: RevenueBreakdown[]
+}
+
+export type ForecastScenario = 'expected' | 'worst'
+
+export type ForecastInflowKind = 'in-flight' | 'scheduled' | 'retry'
+
+export interface ForecastInflow {
+  invoiceId: string
+  invoiceNumber: string
+  clientId: string
+  currency: CurrencyCode
+  dueDate: string
+  expectedDate: string
+  method: PaymentMethod
+  amount: number
+  baseAmount: number
+  latenessDays: number
+  kind: ForecastInflowKind
+}
+
+export interface ForecastWeek {
+  weekStart: string
+  weekEnd: string
+  expected: number
+  inflows: ForecastInflow[]
+}
+
+export interface CashForecast {
+  currency: CurrencyCode
+  scenario: ForecastScenario
+  asOf: string
+  weeks: ForecastWeek[]
+  total: number
+  beyondHorizon: number
+  atRisk: number
+}